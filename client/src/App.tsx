@@ -12,6 +12,7 @@ import Signup from "@/pages/signup";
 import Dashboard from "@/pages/enhanced-dashboard";
 import MyFiles from "@/pages/my-files";
 import Shared from "@/pages/shared";
+import Trash from "@/pages/trash";
 import Analytics from "@/pages/analytics";
 import Settings from "@/pages/settings";
 import EditProfile from "@/pages/edit-profile";
@@ -19,6 +20,10 @@ import ChangePassword from "@/pages/change-password";
 import ChangeEmail from "@/pages/change-email";
 import Help from "@/pages/help";
 import About from "@/pages/about";
+import SharedFilePage from "@/pages/shared-file";
+import SharedFolderPage from "@/pages/shared-folder";
+import SharedPrefixPage from "@/pages/shared-prefix";
+import FileRequestPage from "@/pages/file-request";
 
 function Router() {
   const { isAuthenticated, isLoading } = useAuth();
@@ -42,12 +47,17 @@ function Router() {
       <Route path="/" component={Landing} />
       <Route path="/login" component={Login} />
       <Route path="/signup" component={Signup} />
+      <Route path="/share/file/:token" component={SharedFilePage} />
+      <Route path="/share/folder/:token" component={SharedFolderPage} />
+      <Route path="/share/prefix/:token" component={SharedPrefixPage} />
+      <Route path="/share/upload/:token" component={FileRequestPage} />
       {/* Protected routes */}
       {isAuthenticated && (
         <>
           <Route path="/dashboard" component={Dashboard} />
           <Route path="/files" component={MyFiles} />
           <Route path="/shared" component={Shared} />
+          <Route path="/trash" component={Trash} />
           <Route path="/analytics" component={Analytics} />
           <Route path="/settings" component={Settings} />
           <Route path="/settings/edit-profile" component={EditProfile} />
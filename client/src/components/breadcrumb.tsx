@@ -1,9 +1,28 @@
+import { useState, type DragEvent } from "react";
 import { ChevronRight, Home, Folder, Database } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { useNavigation } from "@/hooks/useNavigation";
+import { useMoveItem, isDraggingItem, getDroppedItem } from "@/hooks/useMoveItem";
 
 export default function Breadcrumb() {
   const { currentLocation, navigateTo, navigateToRoot } = useNavigation();
+  const moveMutation = useMoveItem();
+  // Segment a dragged file or folder is currently over
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+  // Files and folders can be dropped on the root and on folder segments (not on S3 locations)
+  const acceptsDrop = (type: string) => type === 'root' || type === 'folder';
+
+  const handleDrop = (e: DragEvent, index: number) => {
+    e.preventDefault();
+    setDropIndex(null);
+    const item = getDroppedItem(e);
+    const target = currentLocation.path[index];
+    const folderId = target.type === 'folder' && target.id ? target.id : null;
+    if (!item || (item.type === 'folder' && item.id === folderId)) return;
+
+    moveMutation.mutate({ item, folderId });
+  };
 
   const handleBreadcrumbClick = (index: number) => {
     if (index === 0) {
@@ -20,6 +39,8 @@ export default function Breadcrumb() {
       name: target.name,
       bucketName: target.bucketName,
       prefix: target.prefix,
+      connectionId: target.connectionId,
+      connectionName: target.connectionName,
       path: targetPath
     });
   };
@@ -48,14 +69,26 @@ export default function Breadcrumb() {
             variant="ghost"
             size="sm"
             onClick={() => handleBreadcrumbClick(index)}
+            onDragOver={(e) => {
+              if (!acceptsDrop(item.type) || !isDraggingItem(e)) return;
+              e.preventDefault();
+              setDropIndex(index);
+            }}
+            onDragLeave={() => setDropIndex((current) => current === index ? null : current)}
+            onDrop={(e) => acceptsDrop(item.type) && handleDrop(e, index)}
             className={`flex items-center space-x-2 hover:text-gray-900 ${
               index === currentLocation.path.length - 1 
                 ? 'text-gray-900 font-medium' 
                 : 'text-gray-600'
-            }`}
+            } ${dropIndex === index ? 'bg-blue-50 ring-2 ring-blue-300' : ''}`}
             data-testid={`breadcrumb-item-${index}`}
           >
             {getIcon(item.type)}
+            {item.type === 's3-bucket' && item.connectionName && (
+              <span className="text-xs text-gray-500" data-testid={`breadcrumb-connection-${index}`}>
+                {item.connectionName} /
+              </span>
+            )}
             <span>{item.name}</span>
           </Button>
         </div>
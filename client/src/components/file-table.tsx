@@ -14,6 +14,15 @@ import {
   TableRow 
 } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -25,6 +34,13 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 import ShareModal from "./share-modal";
+import RenameModal from "./rename-modal";
+import MoveModal from "./move-modal";
+import VersionsModal from "./versions-modal";
+import PreviewModal from "./preview-modal";
+import FileThumbnail from "./file-thumbnail";
+import { useMoveItem, startDragItem, isDraggingItem, getDroppedItem } from "@/hooks/useMoveItem";
+import { submitDownloadForm } from "@/lib/downloadUtils";
 import { 
   Download, 
   Share, 
@@ -35,7 +51,15 @@ import {
   ChevronLeft,
   ChevronRight,
   Folder,
-  Database
+  FolderInput,
+  Database,
+  Pencil,
+  Copy,
+  History,
+  RotateCcw,
+  List,
+  LayoutGrid,
+  Eye
 } from "lucide-react";
 import { formatDistanceToNow } from "date-fns";
 
@@ -46,6 +70,9 @@ interface FileData {
   mimeType: string;
   size: number;
   isShared: boolean;
+  // Set when the current version came in through a file request link
+  uploaderName: string | null;
+  uploaderEmail: string | null;
   uploadedAt: string;
   updatedAt: string;
 }
@@ -55,6 +82,16 @@ interface S3Bucket {
   creationDate?: string;
 }
 
+interface S3ObjectData {
+  key: string;
+  lastModified?: string;
+  size?: number;
+  // Set when listing versions of a versioned bucket
+  versionId?: string;
+  isLatest?: boolean;
+  isDeleteMarker?: boolean;
+}
+
 interface FileTableProps {
   searchQuery?: string;
 }
@@ -64,16 +101,33 @@ export default function FileTable({ searchQuery = '' }: FileTableProps) {
   const [selectedS3Objects, setSelectedS3Objects] = useState<string[]>([]);
   const [shareModalOpen, setShareModalOpen] = useState(false);
   const [selectedFile, setSelectedFile] = useState<FileData | null>(null);
+  const [shareType, setShareType] = useState<'file' | 'folder'>('file');
+  // Bucket object or prefix whose share links are open
+  const [s3ShareTarget, setS3ShareTarget] = useState<{ bucket: string; key: string; connectionId?: number } | null>(null);
+  const [renameTarget, setRenameTarget] = useState<FileData | null>(null);
+  const [moveTarget, setMoveTarget] = useState<FileData | null>(null);
+  const [versionsTarget, setVersionsTarget] = useState<FileData | null>(null);
+  const [previewTarget, setPreviewTarget] = useState<FileData | null>(null);
+  // Folder row a dragged file or folder is currently over
+  const [dropTargetId, setDropTargetId] = useState<number | null>(null);
+  // List every version and delete marker of the bucket objects instead of the current objects
+  const [showS3Versions, setShowS3Versions] = useState(false);
+  const [archiveFormat, setArchiveFormat] = useState<'zip' | 'tar.gz'>('zip');
+  // Folders and files as a table, or as cards with image previews
+  const [viewMode, setViewMode] = useState<'list' | 'grid'>('list');
   const [deleteConfirmation, setDeleteConfirmation] = useState<{
-    type: 'file' | 's3object' | 'bulk';
+    type: 'file' | 'folder' | 's3object' | 's3version' | 'bulk';
     data?: any;
     message: string;
   } | null>(null);
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const { navigateTo, currentLocation } = useNavigation();
+  const moveMutation = useMoveItem();
+  const currentFolderId = currentLocation.type === 'folder' && currentLocation.id ? currentLocation.id : null;
 
-  const { data: fileData, isLoading } = useQuery<{files: FileData[], folders: any[]}>({
+  // role is the user's access to the open folder; folders shared with them aren't their own
+  const { data: fileData, isLoading } = useQuery<{files: FileData[], folders: any[], role?: 'owner' | 'editor' | 'viewer'}>({
     queryKey: ["/api/files", currentLocation.type, currentLocation.id],
     queryFn: () => {
       const params = new URLSearchParams();
@@ -85,30 +139,56 @@ export default function FileTable({ searchQuery = '' }: FileTableProps) {
     enabled: currentLocation.type !== 's3-bucket',
     retry: false,
   });
+  // Only the owner shares items and decides who else can access them
+  const canShare = (fileData?.role ?? 'owner') === 'owner';
 
   // Query S3 connection status
-  const { data: s3Status } = useQuery<{connected: boolean, region: string}>({
+  const { data: s3Status } = useQuery<{
+    connected: boolean,
+    region: string,
+    connectionId: number | null,
+    connectionName: string | null
+  }>({
     queryKey: ["/api/s3/status"],
     retry: false,
   });
 
-  // Query S3 buckets when connected and at root
+  // Query S3 buckets of the active connection when connected and at root
   const { data: s3BucketsData, isLoading: s3BucketsLoading } = useQuery<{buckets: S3Bucket[]}>({
-    queryKey: ["/api/s3/buckets"],
+    queryKey: ["/api/s3/buckets", s3Status?.connectionId],
+    queryFn: () => {
+      const params = new URLSearchParams();
+      if (s3Status?.connectionId) {
+        params.append('connectionId', s3Status.connectionId.toString());
+      }
+      return fetch(`/api/s3/buckets?${params}`, { credentials: 'include' }).then(res => res.json());
+    },
     enabled: !!s3Status?.connected && currentLocation.type === 'root',
     retry: false,
   });
 
-  // Query S3 bucket contents when navigated into a bucket or prefix
+  // Query S3 bucket contents when navigated into a bucket or prefix. While searching, the
+  // server looks through the whole bucket index below the current prefix.
   const { data: s3ObjectsData, isLoading: s3ObjectsLoading } = useQuery<{
-    objects: {key: string, lastModified?: string, size?: number}[],
+    objects: S3ObjectData[],
     prefixes: string[]
   }>({
     queryKey: ["/api/s3/objects", 
       currentLocation.type === 's3-bucket' ? currentLocation.name : currentLocation.bucketName, 
-      currentLocation.prefix || ""],
+      currentLocation.prefix || "",
+      currentLocation.connectionId,
+      searchQuery,
+      showS3Versions],
     queryFn: () => {
       const params = new URLSearchParams();
+      if (currentLocation.connectionId) {
+        params.append('connectionId', currentLocation.connectionId.toString());
+      }
+      if (showS3Versions) {
+        params.append('versions', 'true');
+      } else if (searchQuery) {
+        params.append('search', searchQuery);
+      }
       if (currentLocation.type === 's3-bucket') {
         params.append('bucket', currentLocation.name!);
       } else if (currentLocation.type === 's3-prefix') {
@@ -207,8 +287,8 @@ export default function FileTable({ searchQuery = '' }: FileTableProps) {
       queryClient.invalidateQueries({ queryKey: ['/api/stats'] });
       queryClient.invalidateQueries({ queryKey: ['/api/analytics'] });
       toast({
-        title: "File Deleted",
-        description: "File has been successfully deleted",
+        title: "File Moved to Trash",
+        description: "You can restore it from the Trash page",
       });
       // Remove the deleted file from selection
       setSelectedFiles(prev => prev.filter(id => id !== fileId));
@@ -233,13 +313,101 @@ export default function FileTable({ searchQuery = '' }: FileTableProps) {
     },
   });
 
+  const copyMutation = useMutation({
+    mutationFn: async (fileId: number) => {
+      const response = await fetch(`/api/files/${fileId}/copy`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({}),
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`${response.status}: ${errorText}`);
+      }
+
+      return response.json();
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/files'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/stats'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/analytics'] });
+      toast({
+        title: "File Copied",
+        description: `Created ${data.file.name}`,
+      });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Copy Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteFolderMutation = useMutation({
+    mutationFn: async (folderId: number) => {
+      const response = await fetch(`/api/folders/${folderId}`, {
+        method: 'DELETE',
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`${response.status}: ${errorText}`);
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/files'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/stats'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/analytics'] });
+      toast({
+        title: "Folder Moved to Trash",
+        description: "You can restore it from the Trash page",
+      });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Delete Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const deleteS3ObjectMutation = useMutation({
     mutationFn: async ({ bucket, key }: { bucket: string; key: string }) => {
       const response = await fetch('/api/s3/objects', {
         method: 'DELETE',
         headers: { 'Content-Type': 'application/json' },
         credentials: 'include',
-        body: JSON.stringify({ bucket, keys: [key] }),
+        body: JSON.stringify({ bucket, keys: [key], connectionId: currentLocation.connectionId }),
       });
 
       if (!response.ok) {
@@ -280,6 +448,104 @@ export default function FileTable({ searchQuery = '' }: FileTableProps) {
     },
   });
 
+  const s3DownloadMutation = useMutation({
+    mutationFn: async ({ key, versionId }: { key: string; versionId?: string }) => {
+      const params = new URLSearchParams({ bucket: (currentLocation.bucketName || currentLocation.name)!, key });
+      if (versionId) {
+        params.append('versionId', versionId);
+      }
+      if (currentLocation.connectionId) {
+        params.append('connectionId', currentLocation.connectionId.toString());
+      }
+      const response = await fetch(`/api/s3/download?${params}`, {
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`${response.status}: ${errorText}`);
+      }
+
+      const data = await response.json();
+      return data.downloadUrl;
+    },
+    onSuccess: (downloadUrl) => {
+      window.open(downloadUrl, '_blank');
+      toast({
+        title: "Download Started",
+        description: "Your file download has begun",
+      });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Download Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Restore or permanently delete one version of an object in a versioned bucket
+  const s3VersionMutation = useMutation({
+    mutationFn: async ({ action, key, versionId }: { action: 'restore' | 'delete'; key: string; versionId: string }) => {
+      const response = await fetch(action === 'restore' ? '/api/s3/objects/versions/restore' : '/api/s3/objects/versions', {
+        method: action === 'restore' ? 'POST' : 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({
+          bucket: currentLocation.bucketName || currentLocation.name,
+          key,
+          versionId,
+          connectionId: currentLocation.connectionId,
+        }),
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`${response.status}: ${errorText}`);
+      }
+
+      return response.json();
+    },
+    onSuccess: (_, { action }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/s3/objects'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/stats'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/analytics'] });
+      toast(action === 'restore'
+        ? { title: "Version Restored", description: "The version has been copied over the current object" }
+        : { title: "Version Deleted", description: "The version has been permanently deleted" });
+    },
+    onError: (error, { action }) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: action === 'restore' ? "Restore Failed" : "Delete Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const bulkDeleteMutation = useMutation({
     mutationFn: async () => {
       const deleteRequests = [];
@@ -308,7 +574,7 @@ export default function FileTable({ searchQuery = '' }: FileTableProps) {
             method: 'DELETE',
             headers: { 'Content-Type': 'application/json' },
             credentials: 'include',
-            body: JSON.stringify({ bucket, keys: selectedS3Objects }),
+            body: JSON.stringify({ bucket, keys: selectedS3Objects, connectionId: currentLocation.connectionId }),
           }).then(async (response) => {
             if (!response.ok) {
               const errorText = await response.text();
@@ -435,10 +701,12 @@ export default function FileTable({ searchQuery = '' }: FileTableProps) {
   useEffect(() => {
     setSelectedFiles([]);
     setSelectedS3Objects([]);
-  }, [currentLocation.bucketName, currentLocation.name, currentLocation.prefix, searchQuery]);
+  }, [currentLocation.bucketName, currentLocation.name, currentLocation.prefix, currentLocation.connectionId, searchQuery]);
 
   const totalSelected = selectedFiles.length + selectedS3Objects.length;
-  const totalAvailable = filteredFiles.length + filteredS3Objects.length;
+  // Versions are restored or deleted one at a time, so only current objects can be selected
+  const selectableS3Objects = showS3Versions ? [] : filteredS3Objects;
+  const totalAvailable = filteredFiles.length + selectableS3Objects.length;
   const isSelectAllChecked = totalAvailable > 0 && totalSelected === totalAvailable;
   const isSelectAllIndeterminate = totalSelected > 0 && totalSelected < totalAvailable;
 
@@ -447,7 +715,7 @@ export default function FileTable({ searchQuery = '' }: FileTableProps) {
     const shouldSelect = Boolean(checked);
     if (shouldSelect) {
       setSelectedFiles(filteredFiles.map(file => file.id));
-      setSelectedS3Objects(filteredS3Objects.map(obj => obj.key));
+      setSelectedS3Objects(selectableS3Objects.map(obj => obj.key));
     } else {
       setSelectedFiles([]);
       setSelectedS3Objects([]);
@@ -472,20 +740,76 @@ export default function FileTable({ searchQuery = '' }: FileTableProps) {
     }
   };
 
+  const openBucket = (bucketName: string) => {
+    const newPath = [...currentLocation.path, {
+      type: 's3-bucket',
+      name: bucketName,
+      connectionId: s3Status?.connectionId ?? undefined,
+      connectionName: s3Status?.connectionName ?? undefined
+    }];
+    navigateTo({
+      type: 's3-bucket',
+      name: bucketName,
+      connectionId: s3Status?.connectionId ?? undefined,
+      connectionName: s3Status?.connectionName ?? undefined,
+      path: newPath
+    });
+  };
+
+  const openFolder = (folder: { id: number; name: string }) => {
+    const newPath = [...currentLocation.path, {
+      type: 'folder',
+      id: folder.id,
+      name: folder.name
+    }];
+    navigateTo({
+      type: 'folder',
+      id: folder.id,
+      name: folder.name,
+      path: newPath
+    });
+  };
+
   const handleDownload = (fileId: number) => {
     downloadMutation.mutate(fileId);
   };
 
-  const handleShare = (file: FileData) => {
+  const handleShare = (file: FileData, type: 'file' | 'folder' = 'file') => {
     setSelectedFile(file);
+    setShareType(type);
     setShareModalOpen(true);
   };
 
+  const handleShareS3 = (key: string) => {
+    setS3ShareTarget({
+      bucket: currentLocation.bucketName || currentLocation.name || '',
+      key,
+      connectionId: currentLocation.connectionId,
+    });
+  };
+
   const handleDelete = (fileId: number) => {
     setDeleteConfirmation({
       type: 'file',
       data: fileId,
-      message: 'Are you sure you want to delete this file? This action cannot be undone.'
+      message: 'Move this file to the trash? You can restore it from the Trash page until it is purged.'
+    });
+  };
+
+  const handleDropOnFolder = (e: React.DragEvent, folderId: number) => {
+    e.preventDefault();
+    setDropTargetId(null);
+    const item = getDroppedItem(e);
+    if (!item || (item.type === 'folder' && item.id === folderId)) return;
+
+    moveMutation.mutate({ item, folderId });
+  };
+
+  const handleDeleteFolder = (folderId: number) => {
+    setDeleteConfirmation({
+      type: 'folder',
+      data: folderId,
+      message: 'Move this folder and everything in it to the trash? You can restore it from the Trash page until it is purged.'
     });
   };
 
@@ -498,6 +822,48 @@ export default function FileTable({ searchQuery = '' }: FileTableProps) {
     });
   };
 
+  const handleDeleteS3Version = (object: S3ObjectData) => {
+    setDeleteConfirmation({
+      type: 's3version',
+      data: { action: 'delete', key: object.key, versionId: object.versionId! },
+      message: object.isDeleteMarker
+        ? 'Remove this delete marker? The previous version of the object becomes current again.'
+        : 'Permanently delete this version of the S3 object? This action cannot be undone.'
+    });
+  };
+
+  // Files, folders and bucket objects are downloaded together as one archive built by the server
+  const downloadArchive = (request: {
+    format?: 'zip' | 'tar.gz';
+    fileIds?: number[];
+    folderIds?: number[];
+    s3?: { bucket: string; connectionId?: number; keys?: string[]; prefixes?: string[] };
+  }) => {
+    submitDownloadForm('/api/archives', { request: JSON.stringify(request) }, (message) => {
+      toast({
+        title: "Download Failed",
+        description: message,
+        variant: "destructive",
+      });
+    });
+    toast({
+      title: "Preparing Download",
+      description: "Your archive will start downloading shortly",
+    });
+  };
+
+  const handleDownloadSelected = () => {
+    downloadArchive({
+      format: archiveFormat,
+      fileIds: selectedFiles,
+      s3: selectedS3Objects.length > 0 ? {
+        bucket: currentLocation.bucketName || currentLocation.name || '',
+        connectionId: currentLocation.connectionId,
+        keys: selectedS3Objects,
+      } : undefined,
+    });
+  };
+
   const handleBulkDelete = () => {
     const totalSelected = selectedFiles.length + selectedS3Objects.length;
     if (totalSelected === 0) {
@@ -512,7 +878,10 @@ export default function FileTable({ searchQuery = '' }: FileTableProps) {
     setDeleteConfirmation({
       type: 'bulk',
       data: null,
-      message: `Are you sure you want to delete ${totalSelected} selected items? This action cannot be undone.`
+      // App files go to the trash; bucket objects have no trash and are deleted for good
+      message: selectedS3Objects.length > 0
+        ? `Are you sure you want to delete ${totalSelected} selected items? This action cannot be undone.`
+        : `Move ${totalSelected} selected files to the trash? You can restore them from the Trash page until they are purged.`
     });
   };
 
@@ -523,9 +892,15 @@ export default function FileTable({ searchQuery = '' }: FileTableProps) {
       case 'file':
         deleteMutation.mutate(deleteConfirmation.data);
         break;
+      case 'folder':
+        deleteFolderMutation.mutate(deleteConfirmation.data);
+        break;
       case 's3object':
         deleteS3ObjectMutation.mutate(deleteConfirmation.data);
         break;
+      case 's3version':
+        s3VersionMutation.mutate(deleteConfirmation.data);
+        break;
       case 'bulk':
         bulkDeleteMutation.mutate();
         break;
@@ -542,18 +917,63 @@ export default function FileTable({ searchQuery = '' }: FileTableProps) {
     );
   }
 
+  const isS3Location = currentLocation.type === 's3-bucket' || currentLocation.type === 's3-prefix';
+  const s3VersionsToggle = isS3Location && (
+    <div className="flex items-center justify-end space-x-2 mb-4">
+      <Switch
+        id="show-s3-versions"
+        checked={showS3Versions}
+        onCheckedChange={(checked) => {
+          setShowS3Versions(checked);
+          setSelectedS3Objects([]);
+        }}
+        data-testid="switch-show-s3-versions"
+      />
+      <Label htmlFor="show-s3-versions" className="text-sm text-gray-600">Show versions</Label>
+    </div>
+  );
+  // Bucket listings stay tables; folders and files can also be shown as cards
+  const showGrid = viewMode === 'grid' && !isS3Location;
+  const viewToggle = !isS3Location && (
+    <div className="flex items-center justify-end space-x-1 mb-4">
+      <Button
+        variant={viewMode === 'list' ? 'secondary' : 'ghost'}
+        size="sm"
+        onClick={() => setViewMode('list')}
+        title="List view"
+        data-testid="button-view-list"
+      >
+        <List className="h-4 w-4" />
+      </Button>
+      <Button
+        variant={viewMode === 'grid' ? 'secondary' : 'ghost'}
+        size="sm"
+        onClick={() => setViewMode('grid')}
+        title="Grid view"
+        data-testid="button-view-grid"
+      >
+        <LayoutGrid className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+
   if (filteredFiles.length === 0 && filteredFolders.length === 0 && filteredS3Buckets.length === 0 && filteredS3Objects.length === 0 && filteredS3Prefixes.length === 0) {
     return (
-      <div className="text-center py-8">
-        <FileIcon className="h-12 w-12 text-gray-400 mx-auto mb-4" />
-        <p className="text-gray-500">No files, folders, buckets, or objects found</p>
-        <p className="text-sm text-gray-400">Upload files, create folders, or navigate to different locations</p>
-      </div>
+      <>
+        {s3VersionsToggle}
+        <div className="text-center py-8">
+          <FileIcon className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+          <p className="text-gray-500">No files, folders, buckets, or objects found</p>
+          <p className="text-sm text-gray-400">Upload files, create folders, or navigate to different locations</p>
+        </div>
+      </>
     );
   }
 
   return (
     <>
+      {s3VersionsToggle}
+      {viewToggle}
       {/* Bulk actions bar */}
       {(selectedFiles.length > 0 || selectedS3Objects.length > 0) && (
         <div className="mb-4 p-3 bg-blue-50 rounded-lg border border-blue-200">
@@ -561,414 +981,682 @@ export default function FileTable({ searchQuery = '' }: FileTableProps) {
             <span className="text-sm text-blue-800">
               {selectedFiles.length + selectedS3Objects.length} items selected
             </span>
-            <Button
-              variant="destructive"
-              size="sm"
-              onClick={handleBulkDelete}
-              disabled={bulkDeleteMutation.isPending}
-              data-testid="button-bulk-delete"
-            >
-              <Trash2 className="h-4 w-4 mr-2" />
-              Delete Selected
-            </Button>
+            <div className="flex items-center space-x-2">
+              <Select value={archiveFormat} onValueChange={(value) => setArchiveFormat(value as 'zip' | 'tar.gz')}>
+                <SelectTrigger className="h-9 w-24 bg-white" data-testid="select-archive-format">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="zip">ZIP</SelectItem>
+                  <SelectItem value="tar.gz">tar.gz</SelectItem>
+                </SelectContent>
+              </Select>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleDownloadSelected}
+                data-testid="button-bulk-download"
+              >
+                <Download className="h-4 w-4 mr-2" />
+                Download Selected
+              </Button>
+              <Button
+                variant="destructive"
+                size="sm"
+                onClick={handleBulkDelete}
+                disabled={bulkDeleteMutation.isPending}
+                data-testid="button-bulk-delete"
+              >
+                <Trash2 className="h-4 w-4 mr-2" />
+                Delete Selected
+              </Button>
+            </div>
           </div>
         </div>
       )}
-      <div className="overflow-x-auto">
-        <Table>
-          <TableHeader>
-            <TableRow>
-              <TableHead className="w-12">
-                <Checkbox
-                  checked={isSelectAllIndeterminate ? 'indeterminate' : isSelectAllChecked}
-                  onCheckedChange={handleSelectAll}
-                  data-testid="checkbox-select-all"
-                />
-              </TableHead>
-              <TableHead>Name</TableHead>
-              <TableHead>Size</TableHead>
-              <TableHead>Modified</TableHead>
-              <TableHead>Shared</TableHead>
-              <TableHead>Actions</TableHead>
-            </TableRow>
-          </TableHeader>
-          <TableBody>
-            {/* Render S3 buckets first (when connected) */}
-            {isS3Connected && currentLocation.type === 'root' && filteredS3Buckets.map((bucket) => (
-              <TableRow 
-                key={`s3-bucket-${bucket.name}`} 
-                className="hover:bg-blue-50 cursor-pointer"
-                onClick={() => {
-                  const newPath = [...currentLocation.path, {
-                    type: 's3-bucket',
-                    name: bucket.name
-                  }];
-                  navigateTo({
-                    type: 's3-bucket',
-                    name: bucket.name,
-                    path: newPath
-                  });
-                }}
-                data-testid={`row-bucket-${bucket.name}`}
+      {showGrid ? (
+        <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 xl:grid-cols-6 gap-4" data-testid="grid-files">
+          {isS3Connected && currentLocation.type === 'root' && filteredS3Buckets.map((bucket) => (
+            <div
+              key={`s3-bucket-${bucket.name}`}
+              className="rounded-lg border border-gray-200 bg-white overflow-hidden cursor-pointer hover:shadow-md"
+              onClick={() => openBucket(bucket.name)}
+              data-testid={`card-bucket-${bucket.name}`}
+            >
+              <div className="aspect-square bg-blue-50 flex items-center justify-center">
+                <Database className="h-12 w-12 text-blue-600" />
+              </div>
+              <div className="p-3">
+                <p className="font-medium text-gray-900 truncate" title={bucket.name}>{bucket.name}</p>
+                <p className="text-xs text-gray-500">Bucket</p>
+              </div>
+            </div>
+          ))}
+
+          {filteredFolders.map((folder) => (
+            <div
+              key={`folder-${folder.id}`}
+              className={`rounded-lg border bg-white overflow-hidden cursor-pointer hover:shadow-md ${dropTargetId === folder.id ? 'border-blue-300 ring-2 ring-blue-300' : 'border-gray-200'}`}
+              draggable
+              onDragStart={(e) => startDragItem(e, { type: 'folder', id: folder.id })}
+              onDragOver={(e) => {
+                if (!isDraggingItem(e)) return;
+                e.preventDefault();
+                setDropTargetId(folder.id);
+              }}
+              onDragLeave={() => setDropTargetId((id) => id === folder.id ? null : id)}
+              onDrop={(e) => handleDropOnFolder(e, folder.id)}
+              onClick={() => openFolder(folder)}
+              data-testid={`card-folder-${folder.id}`}
+            >
+              <div className="aspect-square bg-blue-50 flex items-center justify-center">
+                <Folder className="h-12 w-12 text-blue-600" />
+              </div>
+              <div className="p-3">
+                <p className="font-medium text-gray-900 truncate" title={folder.name}>{folder.name}</p>
+                <p className="text-xs text-gray-500">
+                  Folder{folder.isShared ? ' · Shared' : ''}
+                </p>
+              </div>
+            </div>
+          ))}
+
+          {filteredFiles.map((file) => (
+            <div
+              key={`file-${file.id}`}
+              className={`rounded-lg border bg-white overflow-hidden hover:shadow-md ${selectedFiles.includes(file.id) ? 'border-primary ring-2 ring-primary/30' : 'border-gray-200'}`}
+              draggable
+              onDragStart={(e) => startDragItem(e, { type: 'file', id: file.id })}
+              data-testid={`card-file-${file.id}`}
+            >
+              <div
+                className="relative aspect-square bg-gray-100 flex items-center justify-center overflow-hidden cursor-pointer"
+                onClick={() => setPreviewTarget(file)}
               >
-                <TableCell onClick={(e) => e.stopPropagation()}>
-                  <Checkbox disabled />
-                </TableCell>
-                <TableCell>
-                  <div className="flex items-center space-x-3">
-                    <div className="w-8 h-8 bg-blue-100 rounded flex items-center justify-center">
-                      <Database className="h-5 w-5 text-blue-600" />
-                    </div>
-                    <div>
-                      <p className="font-medium text-gray-900">{bucket.name}</p>
-                    </div>
-                  </div>
-                </TableCell>
-                <TableCell className="text-gray-600">
-                  -
-                </TableCell>
-                <TableCell className="text-gray-600">
-                  {bucket.creationDate ? formatDistanceToNow(new Date(bucket.creationDate), { addSuffix: true }) : '-'}
-                </TableCell>
-                <TableCell>
-                  <Badge variant="outline" className="bg-blue-100 text-blue-800">
-                    Disk
-                  </Badge>
-                </TableCell>
-                <TableCell onClick={(e) => e.stopPropagation()}>
-                  <div className="flex items-center space-x-2">
+                <FileThumbnail
+                  file={file}
+                  size={256}
+                  fallback={<div className="scale-[2.5]">{getFileIcon(file.mimeType)}</div>}
+                />
+                <div className="absolute top-2 left-2 bg-white/90 rounded p-0.5" onClick={(e) => e.stopPropagation()}>
+                  <Checkbox
+                    checked={selectedFiles.includes(file.id)}
+                    onCheckedChange={(checked) => handleSelectFile(file.id, checked)}
+                  />
+                </div>
+              </div>
+              <div className="p-3">
+                <p className="font-medium text-gray-900 truncate" title={file.name}>{file.name}</p>
+                <p className="text-xs text-gray-500">
+                  {formatFileSize(file.size)} · {formatDistanceToNow(new Date(file.uploadedAt), { addSuffix: true })}
+                </p>
+                <div className="flex items-center justify-between mt-2">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 w-8 p-0"
+                    onClick={() => setPreviewTarget(file)}
+                    data-testid={`button-preview-${file.id}`}
+                  >
+                    <Eye className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 w-8 p-0"
+                    onClick={() => handleDownload(file.id)}
+                    disabled={downloadMutation.isPending}
+                  >
+                    <Download className="h-4 w-4" />
+                  </Button>
+                  {canShare && (
                     <Button
                       variant="ghost"
                       size="sm"
-                      onClick={() => {
-                        const newPath = [...currentLocation.path, {
-                          type: 's3-bucket',
-                          name: bucket.name
-                        }];
-                        navigateTo({
-                          type: 's3-bucket',
-                          name: bucket.name,
-                          path: newPath
-                        });
-                      }}
-                      data-testid={`button-open-bucket-${bucket.name}`}
+                      className="h-8 w-8 p-0"
+                      onClick={() => handleShare(file)}
                     >
-                      <Folder className="h-4 w-4" />
+                      <Share className="h-4 w-4" />
                     </Button>
-                  </div>
-                </TableCell>
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 w-8 p-0"
+                    onClick={() => setRenameTarget(file)}
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 w-8 p-0"
+                    onClick={() => setVersionsTarget(file)}
+                  >
+                    <History className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 w-8 p-0 text-red-600 hover:text-red-700"
+                    onClick={() => handleDelete(file.id)}
+                    disabled={deleteMutation.isPending}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-12">
+                  <Checkbox
+                    checked={isSelectAllIndeterminate ? 'indeterminate' : isSelectAllChecked}
+                    onCheckedChange={handleSelectAll}
+                    data-testid="checkbox-select-all"
+                  />
+                </TableHead>
+                <TableHead>Name</TableHead>
+                <TableHead>Size</TableHead>
+                <TableHead>Modified</TableHead>
+                <TableHead>Shared</TableHead>
+                <TableHead>Actions</TableHead>
               </TableRow>
-            ))}
-
-            {/* Render S3 prefixes (folders within buckets) */}
-            {(currentLocation.type === 's3-bucket' || currentLocation.type === 's3-prefix') && filteredS3Prefixes.map((prefix, index) => (
-              <TableRow 
-                key={`s3-prefix-${prefix}-${index}`} 
-                className="hover:bg-blue-50 cursor-pointer"
-                onClick={() => {
-                  const newPath = [...currentLocation.path, {
-                    type: 's3-prefix',
-                    name: prefix.replace(/\/$/, ''),
-                    bucketName: currentLocation.bucketName || currentLocation.name,
-                    prefix: prefix
-                  }];
-                  navigateTo({
-                    type: 's3-prefix',
-                    name: prefix.replace(/\/$/, ''),
-                    bucketName: currentLocation.bucketName || currentLocation.name,
-                    prefix: prefix,
-                    path: newPath
-                  });
-                }}
-                data-testid={`row-s3-folder-${prefix}`}
-              >
-                <TableCell onClick={(e) => e.stopPropagation()}>
-                  <Checkbox disabled />
-                </TableCell>
-                <TableCell>
-                  <div className="flex items-center space-x-3">
-                    <div className="w-8 h-8 bg-blue-100 rounded flex items-center justify-center">
-                      <Folder className="h-5 w-5 text-blue-600" />
+            </TableHeader>
+            <TableBody>
+              {/* Render S3 buckets first (when connected) */}
+              {isS3Connected && currentLocation.type === 'root' && filteredS3Buckets.map((bucket) => (
+                <TableRow 
+                  key={`s3-bucket-${bucket.name}`} 
+                  className="hover:bg-blue-50 cursor-pointer"
+                  onClick={() => openBucket(bucket.name)}
+                  data-testid={`row-bucket-${bucket.name}`}
+                >
+                  <TableCell onClick={(e) => e.stopPropagation()}>
+                    <Checkbox disabled />
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex items-center space-x-3">
+                      <div className="w-8 h-8 bg-blue-100 rounded flex items-center justify-center">
+                        <Database className="h-5 w-5 text-blue-600" />
+                      </div>
+                      <div>
+                        <p className="font-medium text-gray-900">{bucket.name}</p>
+                      </div>
                     </div>
-                    <div>
-                      <p className="font-medium text-gray-900">{prefix.replace(/\/$/, '')}</p>
-                      <p className="text-sm text-gray-500">S3 Folder</p>
+                  </TableCell>
+                  <TableCell className="text-gray-600">
+                    -
+                  </TableCell>
+                  <TableCell className="text-gray-600">
+                    {bucket.creationDate ? formatDistanceToNow(new Date(bucket.creationDate), { addSuffix: true }) : '-'}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="outline" className="bg-blue-100 text-blue-800">
+                      Disk
+                    </Badge>
+                  </TableCell>
+                  <TableCell onClick={(e) => e.stopPropagation()}>
+                    <div className="flex items-center space-x-2">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => openBucket(bucket.name)}
+                        data-testid={`button-open-bucket-${bucket.name}`}
+                      >
+                        <Folder className="h-4 w-4" />
+                      </Button>
                     </div>
-                  </div>
-                </TableCell>
-                <TableCell className="text-gray-600">
-                  -
-                </TableCell>
-                <TableCell className="text-gray-600">
-                  -
-                </TableCell>
-                <TableCell>
-                  <Badge variant="outline" className="bg-blue-100 text-blue-800">
-                    S3 Folder
-                  </Badge>
-                </TableCell>
-                <TableCell onClick={(e) => e.stopPropagation()}>
-                  <div className="flex items-center space-x-2">
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => {
-                        const newPath = [...currentLocation.path, {
-                          type: 's3-prefix',
-                          name: prefix.replace(/\/$/, ''),
-                          bucketName: currentLocation.bucketName || currentLocation.name,
-                          prefix: prefix
-                        }];
-                        navigateTo({
-                          type: 's3-prefix',
-                          name: prefix.replace(/\/$/, ''),
-                          bucketName: currentLocation.bucketName || currentLocation.name,
-                          prefix: prefix,
-                          path: newPath
-                        });
-                      }}
-                      data-testid={`button-open-s3-folder-${prefix}`}
-                    >
-                      <Folder className="h-4 w-4" />
-                    </Button>
-                  </div>
-                </TableCell>
-              </TableRow>
-            ))}
+                  </TableCell>
+                </TableRow>
+              ))}
 
-            {/* Render S3 objects (files within buckets) */}
-            {(currentLocation.type === 's3-bucket' || currentLocation.type === 's3-prefix') && filteredS3Objects.map((object, index) => (
-              <TableRow key={`s3-object-${object.key}-${index}`} className="hover:bg-gray-50">
-                <TableCell>
-                  <Checkbox
-                    checked={selectedS3Objects.includes(object.key)}
-                    onCheckedChange={(checked) => handleSelectS3Object(object.key, checked)}
-                    data-testid={`checkbox-s3-object-${object.key}`}
-                  />
-                </TableCell>
-                <TableCell>
-                  <div className="flex items-center space-x-3">
-                    <div className="w-8 h-8 bg-gray-100 rounded flex items-center justify-center">
-                      <FileIcon className="h-5 w-5 text-gray-600" />
+              {/* Render S3 prefixes (folders within buckets) */}
+              {(currentLocation.type === 's3-bucket' || currentLocation.type === 's3-prefix') && filteredS3Prefixes.map((prefix, index) => (
+                <TableRow 
+                  key={`s3-prefix-${prefix}-${index}`} 
+                  className="hover:bg-blue-50 cursor-pointer"
+                  onClick={() => {
+                    const newPath = [...currentLocation.path, {
+                      type: 's3-prefix',
+                      name: prefix.replace(/\/$/, ''),
+                      bucketName: currentLocation.bucketName || currentLocation.name,
+                      prefix: prefix,
+                      connectionId: currentLocation.connectionId,
+                      connectionName: currentLocation.connectionName
+                    }];
+                    navigateTo({
+                      type: 's3-prefix',
+                      name: prefix.replace(/\/$/, ''),
+                      bucketName: currentLocation.bucketName || currentLocation.name,
+                      prefix: prefix,
+                      connectionId: currentLocation.connectionId,
+                      connectionName: currentLocation.connectionName,
+                      path: newPath
+                    });
+                  }}
+                  data-testid={`row-s3-folder-${prefix}`}
+                >
+                  <TableCell onClick={(e) => e.stopPropagation()}>
+                    <Checkbox disabled />
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex items-center space-x-3">
+                      <div className="w-8 h-8 bg-blue-100 rounded flex items-center justify-center">
+                        <Folder className="h-5 w-5 text-blue-600" />
+                      </div>
+                      <div>
+                        <p className="font-medium text-gray-900">{prefix.replace(/\/$/, '')}</p>
+                        <p className="text-sm text-gray-500">S3 Folder</p>
+                      </div>
                     </div>
-                    <div>
-                      <p className="font-medium text-gray-900">{object.key}</p>
-                      <p className="text-sm text-gray-500">S3 Object</p>
+                  </TableCell>
+                  <TableCell className="text-gray-600">
+                    -
+                  </TableCell>
+                  <TableCell className="text-gray-600">
+                    -
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="outline" className="bg-blue-100 text-blue-800">
+                      S3 Folder
+                    </Badge>
+                  </TableCell>
+                  <TableCell onClick={(e) => e.stopPropagation()}>
+                    <div className="flex items-center space-x-2">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => {
+                          const newPath = [...currentLocation.path, {
+                            type: 's3-prefix',
+                            name: prefix.replace(/\/$/, ''),
+                            bucketName: currentLocation.bucketName || currentLocation.name,
+                            prefix: prefix,
+                            connectionId: currentLocation.connectionId,
+                            connectionName: currentLocation.connectionName
+                          }];
+                          navigateTo({
+                            type: 's3-prefix',
+                            name: prefix.replace(/\/$/, ''),
+                            bucketName: currentLocation.bucketName || currentLocation.name,
+                            prefix: prefix,
+                            connectionId: currentLocation.connectionId,
+                            connectionName: currentLocation.connectionName,
+                            path: newPath
+                          });
+                        }}
+                        data-testid={`button-open-s3-folder-${prefix}`}
+                      >
+                        <Folder className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => downloadArchive({
+                          s3: {
+                            bucket: currentLocation.bucketName || currentLocation.name || '',
+                            connectionId: currentLocation.connectionId,
+                            prefixes: [prefix],
+                          },
+                        })}
+                        title="Download as ZIP"
+                        data-testid={`button-download-s3-folder-${prefix}`}
+                      >
+                        <Download className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleShareS3(prefix)}
+                        data-testid={`button-share-s3-folder-${prefix}`}
+                      >
+                        <Share className="h-4 w-4" />
+                      </Button>
                     </div>
-                  </div>
-                </TableCell>
-                <TableCell className="text-gray-600">
-                  {object.size ? `${(object.size / 1024).toFixed(1)} KB` : '-'}
-                </TableCell>
-                <TableCell className="text-gray-600">
-                  {object.lastModified ? formatDistanceToNow(new Date(object.lastModified), { addSuffix: true }) : '-'}
-                </TableCell>
-                <TableCell>
-                  <Badge variant="outline" className="bg-gray-100 text-gray-800">
-                    S3 Object
-                  </Badge>
-                </TableCell>
-                <TableCell>
-                  <div className="flex items-center space-x-2">
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => {
-                        toast({
-                          title: "S3 Download",
-                          description: `Download ${object.key} - coming soon!`,
-                        });
-                      }}
-                      data-testid={`button-download-s3-object-${object.key}`}
-                    >
-                      <Download className="h-4 w-4" />
-                    </Button>
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => handleDeleteS3Object(object.key)}
-                      disabled={deleteS3ObjectMutation.isPending}
-                      className="text-red-600 hover:text-red-700"
-                      data-testid={`button-delete-s3-object-${object.key}`}
-                    >
-                      <Trash2 className="h-4 w-4" />
-                    </Button>
-                  </div>
-                </TableCell>
-              </TableRow>
-            ))}
+                  </TableCell>
+                </TableRow>
+              ))}
+
+              {/* Render S3 objects (files within buckets) */}
+              {(currentLocation.type === 's3-bucket' || currentLocation.type === 's3-prefix') && filteredS3Objects.map((object, index) => (
+                <TableRow key={`s3-object-${object.key}-${object.versionId ?? ''}-${index}`} className="hover:bg-gray-50">
+                  <TableCell>
+                    <Checkbox
+                      checked={selectedS3Objects.includes(object.key)}
+                      onCheckedChange={(checked) => handleSelectS3Object(object.key, checked)}
+                      disabled={showS3Versions}
+                      data-testid={`checkbox-s3-object-${object.key}`}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex items-center space-x-3">
+                      <div className="w-8 h-8 bg-gray-100 rounded flex items-center justify-center">
+                        <FileIcon className="h-5 w-5 text-gray-600" />
+                      </div>
+                      <div>
+                        <p className={`font-medium ${object.isDeleteMarker ? 'text-gray-400 line-through' : 'text-gray-900'}`}>{object.key}</p>
+                        <p className="text-sm text-gray-500">
+                          {object.versionId ? `Version ${object.versionId}` : 'S3 Object'}
+                        </p>
+                      </div>
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-gray-600">
+                    {object.size ? `${(object.size / 1024).toFixed(1)} KB` : '-'}
+                  </TableCell>
+                  <TableCell className="text-gray-600">
+                    {object.lastModified ? formatDistanceToNow(new Date(object.lastModified), { addSuffix: true }) : '-'}
+                  </TableCell>
+                  <TableCell>
+                    {object.isDeleteMarker ? (
+                      <Badge variant="outline" className="bg-red-100 text-red-800">
+                        Delete Marker
+                      </Badge>
+                    ) : object.versionId ? (
+                      <Badge variant="outline" className={object.isLatest ? "bg-green-100 text-green-800" : "bg-gray-100 text-gray-800"}>
+                        {object.isLatest ? 'Current Version' : 'Old Version'}
+                      </Badge>
+                    ) : (
+                      <Badge variant="outline" className="bg-gray-100 text-gray-800">
+                        S3 Object
+                      </Badge>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex items-center space-x-2">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => s3DownloadMutation.mutate({ key: object.key, versionId: object.versionId })}
+                        disabled={s3DownloadMutation.isPending || object.isDeleteMarker}
+                        data-testid={`button-download-s3-object-${object.key}`}
+                      >
+                        <Download className="h-4 w-4" />
+                      </Button>
+                      {!object.versionId && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleShareS3(object.key)}
+                          data-testid={`button-share-s3-object-${object.key}`}
+                        >
+                          <Share className="h-4 w-4" />
+                        </Button>
+                      )}
+                      {object.versionId ? (
+                        <>
+                          {!object.isLatest && !object.isDeleteMarker && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => s3VersionMutation.mutate({ action: 'restore', key: object.key, versionId: object.versionId! })}
+                              disabled={s3VersionMutation.isPending}
+                              data-testid={`button-restore-s3-version-${object.key}-${object.versionId}`}
+                            >
+                              <RotateCcw className="h-4 w-4" />
+                            </Button>
+                          )}
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleDeleteS3Version(object)}
+                            disabled={s3VersionMutation.isPending}
+                            className="text-red-600 hover:text-red-700"
+                            data-testid={`button-delete-s3-version-${object.key}-${object.versionId}`}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </>
+                      ) : (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleDeleteS3Object(object.key)}
+                          disabled={deleteS3ObjectMutation.isPending}
+                          className="text-red-600 hover:text-red-700"
+                          data-testid={`button-delete-s3-object-${object.key}`}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
             
-            {/* Render folders */}
-            {filteredFolders.map((folder) => (
-              <TableRow 
-                key={`folder-${folder.id}`} 
-                className="hover:bg-gray-50 cursor-pointer"
-                onClick={() => {
-                  const newPath = [...currentLocation.path, {
-                    type: 'folder',
-                    id: folder.id,
-                    name: folder.name
-                  }];
-                  navigateTo({
-                    type: 'folder',
-                    id: folder.id,
-                    name: folder.name,
-                    path: newPath
-                  });
-                }}
-                data-testid={`row-folder-${folder.id}`}
-              >
-                <TableCell onClick={(e) => e.stopPropagation()}>
-                  <Checkbox disabled />
-                </TableCell>
-                <TableCell>
-                  <div className="flex items-center space-x-3">
-                    <div className="w-8 h-8 bg-blue-100 rounded flex items-center justify-center">
-                      <Folder className="h-5 w-5 text-blue-600" />
+              {/* Render folders */}
+              {filteredFolders.map((folder) => (
+                <TableRow 
+                  key={`folder-${folder.id}`} 
+                  className={`hover:bg-gray-50 cursor-pointer ${dropTargetId === folder.id ? 'bg-blue-50 ring-2 ring-inset ring-blue-300' : ''}`}
+                  draggable
+                  onDragStart={(e) => startDragItem(e, { type: 'folder', id: folder.id })}
+                  onDragOver={(e) => {
+                    if (!isDraggingItem(e)) return;
+                    e.preventDefault();
+                    setDropTargetId(folder.id);
+                  }}
+                  onDragLeave={() => setDropTargetId((id) => id === folder.id ? null : id)}
+                  onDrop={(e) => handleDropOnFolder(e, folder.id)}
+                  onClick={() => openFolder(folder)}
+                  data-testid={`row-folder-${folder.id}`}
+                >
+                  <TableCell onClick={(e) => e.stopPropagation()}>
+                    <Checkbox disabled />
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex items-center space-x-3">
+                      <div className="w-8 h-8 bg-blue-100 rounded flex items-center justify-center">
+                        <Folder className="h-5 w-5 text-blue-600" />
+                      </div>
+                      <div>
+                        <p className="font-medium text-gray-900">{folder.name}</p>
+                        <p className="text-sm text-gray-500">Folder</p>
+                      </div>
                     </div>
-                    <div>
-                      <p className="font-medium text-gray-900">{folder.name}</p>
-                      <p className="text-sm text-gray-500">Folder</p>
+                  </TableCell>
+                  <TableCell className="text-gray-600">
+                    -
+                  </TableCell>
+                  <TableCell className="text-gray-600">
+                    {formatDistanceToNow(new Date(folder.createdAt), { addSuffix: true })}
+                  </TableCell>
+                  <TableCell>
+                    {folder.isShared ? (
+                      <Badge variant="secondary" className="bg-green-100 text-green-800">
+                        Shared
+                      </Badge>
+                    ) : (
+                      <Badge variant="outline" className="bg-gray-100 text-gray-800">
+                        Private
+                      </Badge>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex items-center space-x-2">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          openFolder(folder);
+                        }}
+                        data-testid={`button-open-folder-${folder.id}`}
+                      >
+                        <Folder className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          downloadArchive({ folderIds: [folder.id] });
+                        }}
+                        title="Download as ZIP"
+                        data-testid={`button-download-folder-${folder.id}`}
+                      >
+                        <Download className="h-4 w-4" />
+                      </Button>
+                      {canShare && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            handleShare(folder, 'folder');
+                          }}
+                        >
+                          <Share className="h-4 w-4" />
+                        </Button>
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleDeleteFolder(folder.id);
+                        }}
+                        disabled={deleteFolderMutation.isPending}
+                        className="text-red-600 hover:text-red-700"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
                     </div>
-                  </div>
-                </TableCell>
-                <TableCell className="text-gray-600">
-                  -
-                </TableCell>
-                <TableCell className="text-gray-600">
-                  {formatDistanceToNow(new Date(folder.createdAt), { addSuffix: true })}
-                </TableCell>
-                <TableCell>
-                  {folder.isShared ? (
-                    <Badge variant="secondary" className="bg-green-100 text-green-800">
-                      Shared
-                    </Badge>
-                  ) : (
-                    <Badge variant="outline" className="bg-gray-100 text-gray-800">
-                      Private
-                    </Badge>
-                  )}
-                </TableCell>
-                <TableCell>
-                  <div className="flex items-center space-x-2">
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        const newPath = [...currentLocation.path, {
-                          type: 'folder',
-                          id: folder.id,
-                          name: folder.name
-                        }];
-                        navigateTo({
-                          type: 'folder',
-                          id: folder.id,
-                          name: folder.name,
-                          path: newPath
-                        });
-                      }}
-                      data-testid={`button-open-folder-${folder.id}`}
-                    >
-                      <Folder className="h-4 w-4" />
-                    </Button>
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        handleShare(folder);
-                      }}
-                    >
-                      <Share className="h-4 w-4" />
-                    </Button>
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        handleDelete(folder.id);
-                      }}
-                      disabled={deleteMutation.isPending}
-                      className="text-red-600 hover:text-red-700"
-                    >
-                      <Trash2 className="h-4 w-4" />
-                    </Button>
-                  </div>
-                </TableCell>
-              </TableRow>
-            ))}
+                  </TableCell>
+                </TableRow>
+              ))}
             
-            {/* Render files */}
-            {filteredFiles.map((file) => (
-              <TableRow key={`file-${file.id}`} className="hover:bg-gray-50">
-                <TableCell>
-                  <Checkbox
-                    checked={selectedFiles.includes(file.id)}
-                    onCheckedChange={(checked) => handleSelectFile(file.id, checked)}
-                  />
-                </TableCell>
-                <TableCell>
-                  <div className="flex items-center space-x-3">
-                    <div className="w-8 h-8 bg-gray-100 rounded flex items-center justify-center">
-                      {getFileIcon(file.mimeType)}
+              {/* Render files */}
+              {filteredFiles.map((file) => (
+                <TableRow
+                  key={`file-${file.id}`}
+                  className="hover:bg-gray-50"
+                  draggable
+                  onDragStart={(e) => startDragItem(e, { type: 'file', id: file.id })}
+                  data-testid={`row-file-${file.id}`}
+                >
+                  <TableCell>
+                    <Checkbox
+                      checked={selectedFiles.includes(file.id)}
+                      onCheckedChange={(checked) => handleSelectFile(file.id, checked)}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex items-center space-x-3">
+                      <div className="w-8 h-8 bg-gray-100 rounded flex items-center justify-center overflow-hidden">
+                        <FileThumbnail file={file} fallback={getFileIcon(file.mimeType)} />
+                      </div>
+                      <div>
+                        <p className="font-medium text-gray-900">{file.name}</p>
+                        <p className="text-sm text-gray-500">/{file.originalName}</p>
+                        {file.uploaderName && (
+                          <p className="text-xs text-gray-500" data-testid={`text-uploader-${file.id}`}>
+                            Sent by {file.uploaderName} ({file.uploaderEmail})
+                          </p>
+                        )}
+                      </div>
                     </div>
-                    <div>
-                      <p className="font-medium text-gray-900">{file.name}</p>
-                      <p className="text-sm text-gray-500">/{file.originalName}</p>
+                  </TableCell>
+                  <TableCell className="text-gray-600">
+                    {formatFileSize(file.size)}
+                  </TableCell>
+                  <TableCell className="text-gray-600">
+                    {formatDistanceToNow(new Date(file.uploadedAt), { addSuffix: true })}
+                  </TableCell>
+                  <TableCell>
+                    {file.isShared ? (
+                      <Badge variant="secondary" className="bg-green-100 text-green-800">
+                        Shared
+                      </Badge>
+                    ) : (
+                      <Badge variant="outline" className="bg-gray-100 text-gray-800">
+                        Private
+                      </Badge>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex items-center space-x-2">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setPreviewTarget(file)}
+                        data-testid={`button-preview-${file.id}`}
+                      >
+                        <Eye className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleDownload(file.id)}
+                        disabled={downloadMutation.isPending}
+                      >
+                        <Download className="h-4 w-4" />
+                      </Button>
+                      {canShare && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleShare(file)}
+                        >
+                          <Share className="h-4 w-4" />
+                        </Button>
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setRenameTarget(file)}
+                        data-testid={`button-rename-file-${file.id}`}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setMoveTarget(file)}
+                        data-testid={`button-move-file-${file.id}`}
+                      >
+                        <FolderInput className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => copyMutation.mutate(file.id)}
+                        disabled={copyMutation.isPending}
+                        data-testid={`button-copy-file-${file.id}`}
+                      >
+                        <Copy className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setVersionsTarget(file)}
+                        data-testid={`button-versions-file-${file.id}`}
+                      >
+                        <History className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleDelete(file.id)}
+                        disabled={deleteMutation.isPending}
+                        className="text-red-600 hover:text-red-700"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
                     </div>
-                  </div>
-                </TableCell>
-                <TableCell className="text-gray-600">
-                  {formatFileSize(file.size)}
-                </TableCell>
-                <TableCell className="text-gray-600">
-                  {formatDistanceToNow(new Date(file.uploadedAt), { addSuffix: true })}
-                </TableCell>
-                <TableCell>
-                  {file.isShared ? (
-                    <Badge variant="secondary" className="bg-green-100 text-green-800">
-                      Shared
-                    </Badge>
-                  ) : (
-                    <Badge variant="outline" className="bg-gray-100 text-gray-800">
-                      Private
-                    </Badge>
-                  )}
-                </TableCell>
-                <TableCell>
-                  <div className="flex items-center space-x-2">
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => handleDownload(file.id)}
-                      disabled={downloadMutation.isPending}
-                    >
-                      <Download className="h-4 w-4" />
-                    </Button>
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => handleShare(file)}
-                    >
-                      <Share className="h-4 w-4" />
-                    </Button>
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => handleDelete(file.id)}
-                      disabled={deleteMutation.isPending}
-                      className="text-red-600 hover:text-red-700"
-                    >
-                      <Trash2 className="h-4 w-4" />
-                    </Button>
-                  </div>
-                </TableCell>
-              </TableRow>
-            ))}
-          </TableBody>
-        </Table>
-      </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
 
       {/* Pagination */}
       <div className="flex items-center justify-between mt-6">
@@ -1017,6 +1705,40 @@ export default function FileTable({ searchQuery = '' }: FileTableProps) {
         isOpen={shareModalOpen}
         onClose={() => setShareModalOpen(false)}
         file={selectedFile}
+        type={shareType}
+      />
+
+      <ShareModal
+        isOpen={!!s3ShareTarget}
+        onClose={() => setS3ShareTarget(null)}
+        file={null}
+        s3={s3ShareTarget}
+      />
+
+      <RenameModal
+        isOpen={!!renameTarget}
+        onClose={() => setRenameTarget(null)}
+        file={renameTarget}
+      />
+
+      <MoveModal
+        isOpen={!!moveTarget}
+        onClose={() => setMoveTarget(null)}
+        file={moveTarget}
+        currentFolderId={currentFolderId}
+      />
+
+      <VersionsModal
+        isOpen={!!versionsTarget}
+        onClose={() => setVersionsTarget(null)}
+        file={versionsTarget}
+      />
+
+      <PreviewModal
+        isOpen={!!previewTarget}
+        onClose={() => setPreviewTarget(null)}
+        file={previewTarget}
+        onDownload={handleDownload}
       />
     </>
   );
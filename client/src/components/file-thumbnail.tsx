@@ -0,0 +1,32 @@
+import { useState, type ReactNode } from "react";
+
+interface FileThumbnailProps {
+  file: { id: number; mimeType: string; updatedAt?: string | null };
+  // Requested width; one of the server's thumbnail sizes (128, 256 or 512)
+  size?: 128 | 256 | 512;
+  className?: string;
+  // Shown for other types, and for images whose thumbnail isn't (yet) available
+  fallback: ReactNode;
+}
+
+// Thumbnail of an image file, generated in the background after upload. updatedAt is part of
+// the URL so a replaced image doesn't show the cached thumbnail of the old one.
+export default function FileThumbnail({ file, size = 128, className, fallback }: FileThumbnailProps) {
+  const [failed, setFailed] = useState(false);
+
+  if (!file.mimeType.startsWith('image/') || failed) {
+    return <>{fallback}</>;
+  }
+
+  const params = new URLSearchParams({ size: String(size), ...(file.updatedAt ? { v: file.updatedAt } : {}) });
+  return (
+    <img
+      src={`/api/files/${file.id}/thumbnail?${params}`}
+      alt=""
+      loading="lazy"
+      className={className ?? "w-full h-full object-cover"}
+      onError={() => setFailed(true)}
+      data-testid={`img-thumbnail-${file.id}`}
+    />
+  );
+}
@@ -1,9 +1,11 @@
 import { useState, useCallback, useEffect } from "react";
 import { useDropzone } from "react-dropzone";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import * as tus from "tus-js-client";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
 import { useNavigation } from "@/hooks/useNavigation";
 import { isUnauthorizedError } from "@/lib/authUtils";
+import { uploadDirect, DirectUploadUnavailableError } from "@/lib/directUpload";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
@@ -17,6 +19,17 @@ interface UploadFile {
   relativePath?: string; // For folder uploads
 }
 
+interface UploadConfig {
+  maxFileSize: number;
+  // App-managed files go straight to the bucket through presigned URLs
+  directUploads?: boolean;
+}
+
+const formatLimit = (bytes: number) => {
+  const gb = bytes / (1024 * 1024 * 1024);
+  return gb >= 1 ? `${parseFloat(gb.toFixed(2))}GB` : `${Math.round(bytes / (1024 * 1024))}MB`;
+};
+
 export default function FileUpload() {
   const [uploadFiles, setUploadFiles] = useState<UploadFile[]>([]);
   const { toast } = useToast();
@@ -24,38 +37,88 @@ export default function FileUpload() {
   const { currentLocation } = useNavigation();
   const [dragActive, setDragActive] = useState(false);
 
+  const { data: uploadConfig } = useQuery<UploadConfig>({
+    queryKey: ["/api/uploads/config"],
+    retry: false,
+  });
+  const maxFileSize = uploadConfig?.maxFileSize;
+
   const uploadMutation = useMutation({
     mutationFn: async (file: File) => {
-      const formData = new FormData();
-      formData.append('file', file);
+      if (maxFileSize && file.size > maxFileSize) {
+        throw new Error(`File is larger than the ${formatLimit(maxFileSize)} upload limit`);
+      }
 
-      let endpoint = '/api/files/upload';
-      
-      // Add context-specific parameters
+      // Upload destination travels in the tus metadata; a bucket means one of the
+      // user's S3 connections, otherwise the file becomes an app-managed file
+      const metadata: Record<string, string> = {
+        filename: file.name,
+        filetype: file.type || 'application/octet-stream',
+      };
       if (currentLocation.type === 'folder' && currentLocation.id) {
-        formData.append('folderId', currentLocation.id.toString());
+        metadata.folderId = currentLocation.id.toString();
       } else if (currentLocation.type === 's3-bucket' && currentLocation.name) {
-        endpoint = '/api/s3/upload';
-        formData.append('bucket', currentLocation.name);
-        formData.append('prefix', '');
+        metadata.bucket = currentLocation.name;
+        metadata.prefix = '';
       } else if (currentLocation.type === 's3-prefix' && currentLocation.bucketName) {
-        endpoint = '/api/s3/upload';
-        formData.append('bucket', currentLocation.bucketName);
-        formData.append('prefix', currentLocation.prefix || '');
+        metadata.bucket = currentLocation.bucketName;
+        metadata.prefix = currentLocation.prefix || '';
       }
+      if (metadata.bucket && currentLocation.connectionId) {
+        metadata.connectionId = currentLocation.connectionId.toString();
+      }
+      const destination = [metadata.folderId, metadata.connectionId, metadata.bucket, metadata.prefix].join(':');
 
-      const response = await fetch(endpoint, {
-        method: 'POST',
-        body: formData,
-        credentials: 'include',
-      });
+      const setProgress = (bytesSent: number, bytesTotal: number) => {
+        const progress = bytesTotal > 0 ? Math.round((bytesSent / bytesTotal) * 100) : 100;
+        setUploadFiles(prev =>
+          prev.map(uf =>
+            uf.file === file && uf.status === 'uploading'
+              ? { ...uf, progress }
+              : uf
+          )
+        );
+      };
 
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`${response.status}: ${errorText}`);
+      // Direct uploads skip the app server; if the browser can't reach the bucket the
+      // file goes through the resumable upload below instead
+      if (uploadConfig?.directUploads && !metadata.bucket) {
+        try {
+          return await uploadDirect(file, metadata.folderId ? Number(metadata.folderId) : undefined, setProgress);
+        } catch (error) {
+          if (!(error instanceof DirectUploadUnavailableError)) {
+            throw error;
+          }
+        }
       }
 
-      return response.json();
+      return new Promise<void>((resolve, reject) => {
+        const upload = new tus.Upload(file, {
+          endpoint: '/api/uploads/tus',
+          metadata,
+          retryDelays: [0, 1000, 3000, 5000, 10000, 20000],
+          removeFingerprintOnSuccess: true,
+          // Include the destination so the same file picked for another folder starts fresh
+          fingerprint: async (file) =>
+            ['tus', file.name, file.type, file.size, file.lastModified, destination].join('-'),
+          onProgress: setProgress,
+          onSuccess: () => resolve(),
+          onError: (error) => {
+            const response = (error as tus.DetailedError).originalResponse;
+            reject(response
+              ? new Error(`${response.getStatus()}: ${response.getBody()}`)
+              : error);
+          },
+        });
+
+        // Pick up where a previous attempt (or a previous page load) left off
+        upload.findPreviousUploads().then((previousUploads) => {
+          if (previousUploads.length > 0) {
+            upload.resumeFromPreviousUpload(previousUploads[0]);
+          }
+          upload.start();
+        }).catch(reject);
+      });
     },
     onSuccess: (data, file) => {
       setUploadFiles(prev => 
@@ -186,7 +249,7 @@ export default function FileUpload() {
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
     multiple: true,
-    maxSize: 100 * 1024 * 1024, // 100MB
+    maxSize: maxFileSize,
     accept: undefined, // Accept all file types
     onDragEnter: () => setDragActive(true),
     onDragLeave: () => setDragActive(false),
@@ -247,7 +310,7 @@ export default function FileUpload() {
                 {isDragActive || dragActive ? 'Drop files or folders here' : 'Drop files or folders here, or use the buttons below'}
               </p>
               <p className="text-sm text-gray-500 mt-1">
-                Support for files and folders. Any file types accepted. Maximum file size: 100MB
+                Support for files and folders. Any file types accepted.{maxFileSize ? ` Maximum file size: ${formatLimit(maxFileSize)}` : ''}
               </p>
             </div>
             {!(isDragActive || dragActive) && (
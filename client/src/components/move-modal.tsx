@@ -0,0 +1,130 @@
+import { useState, useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useMoveItem } from "@/hooks/useMoveItem";
+
+interface FolderData {
+  id: number;
+  name: string;
+  parentId: number | null;
+}
+
+interface FileData {
+  id: number;
+  name: string;
+}
+
+interface MoveModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  file: FileData | null;
+  // Folder the file is in now, null for the root
+  currentFolderId: number | null;
+}
+
+const ROOT_VALUE = "root";
+
+// Full path of every folder ("Projects / 2024 / Reports"), sorted for the picker
+function getFolderPaths(folders: FolderData[]): { id: number; path: string }[] {
+  const byId = new Map(folders.map((folder) => [folder.id, folder]));
+  const pathOf = (folder: FolderData, seen = new Set<number>()): string => {
+    const parent = folder.parentId !== null ? byId.get(folder.parentId) : undefined;
+    if (!parent || seen.has(parent.id)) {
+      return folder.name;
+    }
+    seen.add(folder.id);
+    return `${pathOf(parent, seen)} / ${folder.name}`;
+  };
+
+  return folders
+    .map((folder) => ({ id: folder.id, path: pathOf(folder) }))
+    .sort((a, b) => a.path.localeCompare(b.path));
+}
+
+export default function MoveModal({ isOpen, onClose, file, currentFolderId }: MoveModalProps) {
+  const [destination, setDestination] = useState<string>(ROOT_VALUE);
+  const moveMutation = useMoveItem();
+
+  const { data: folderData } = useQuery<{ folders: FolderData[] }>({
+    queryKey: ['/api/folders'],
+    enabled: isOpen,
+  });
+
+  useEffect(() => {
+    setDestination(currentFolderId !== null ? String(currentFolderId) : ROOT_VALUE);
+  }, [currentFolderId, isOpen]);
+
+  const handleMove = () => {
+    if (!file) return;
+
+    const folderId = destination === ROOT_VALUE ? null : parseInt(destination);
+    moveMutation.mutate(
+      { item: { type: 'file', id: file.id }, folderId },
+      { onSuccess: onClose }
+    );
+  };
+
+  if (!file) return null;
+
+  const currentValue = currentFolderId !== null ? String(currentFolderId) : ROOT_VALUE;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Move File</DialogTitle>
+          <DialogDescription>
+            Choose the folder to move "{file.name}" to.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="space-y-2">
+            <Label>Destination</Label>
+            <Select value={destination} onValueChange={setDestination}>
+              <SelectTrigger data-testid="select-move-destination">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ROOT_VALUE}>My Files</SelectItem>
+                {getFolderPaths(folderData?.folders || []).map((folder) => (
+                  <SelectItem key={folder.id} value={String(folder.id)}>
+                    {folder.path}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex items-center justify-end space-x-3 pt-4">
+            <Button variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleMove}
+              disabled={moveMutation.isPending || destination === currentValue}
+              data-testid="button-confirm-move"
+            >
+              Move
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
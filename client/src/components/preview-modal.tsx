@@ -0,0 +1,269 @@
+import { useQuery } from "@tanstack/react-query";
+import ReactMarkdown from "react-markdown";
+import remarkGfm from "remark-gfm";
+import hljs from "highlight.js/lib/common";
+import "highlight.js/styles/github.css";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Download, FileIcon } from "lucide-react";
+
+interface FileData {
+  id: number;
+  name: string;
+  mimeType: string;
+  size: number;
+}
+
+interface PreviewModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  file: FileData | null;
+  onDownload: (fileId: number) => void;
+}
+
+type PreviewKind = 'pdf' | 'image' | 'audio' | 'video' | 'markdown' | 'csv' | 'code' | 'none';
+
+// Text previews only fetch the start of larger files
+const TEXT_PREVIEW_BYTES = 1024 * 1024;
+const CSV_PREVIEW_ROWS = 500;
+
+// Extensions shown as text, for files uploaded with a generic type; code files are
+// highlighted by extension where highlight.js knows the language
+const TEXT_EXTENSIONS = new Set([
+  'txt', 'log', 'ini', 'conf', 'cfg', 'env', 'toml', 'yaml', 'yml', 'json', 'xml', 'html', 'htm',
+  'css', 'scss', 'less', 'js', 'jsx', 'mjs', 'cjs', 'ts', 'tsx', 'py', 'rb', 'go', 'rs', 'java',
+  'kt', 'c', 'h', 'cpp', 'hpp', 'cs', 'php', 'swift', 'sh', 'bash', 'zsh', 'sql', 'graphql',
+  'diff', 'r', 'lua', 'pl', 'dockerfile', 'makefile',
+]);
+
+const formatFileSize = (bytes: number) => {
+  if (bytes === 0) return '0 Bytes';
+  const k = 1024;
+  const sizes = ['Bytes', 'KB', 'MB', 'GB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+};
+
+const getExtension = (name: string) => {
+  const dot = name.lastIndexOf('.');
+  return dot === -1 ? name.toLowerCase() : name.slice(dot + 1).toLowerCase();
+};
+
+function getPreviewKind(file: FileData): PreviewKind {
+  const mimeType = file.mimeType.split(';')[0].trim().toLowerCase();
+  const extension = getExtension(file.name);
+
+  if (mimeType === 'application/pdf' || extension === 'pdf') return 'pdf';
+  if (mimeType.startsWith('image/')) return 'image';
+  if (mimeType.startsWith('audio/')) return 'audio';
+  if (mimeType.startsWith('video/')) return 'video';
+  if (mimeType === 'text/markdown' || mimeType === 'text/x-markdown' || extension === 'md' || extension === 'markdown') {
+    return 'markdown';
+  }
+  if (mimeType === 'text/csv' || extension === 'csv') return 'csv';
+  if (
+    mimeType.startsWith('text/') ||
+    ['application/json', 'application/xml', 'application/javascript', 'application/x-sh'].includes(mimeType) ||
+    TEXT_EXTENSIONS.has(extension)
+  ) {
+    return 'code';
+  }
+  return 'none';
+}
+
+// Quote-aware CSV parsing: quoted fields may contain commas, newlines and "" escapes
+function parseCsv(text: string, maxRows: number): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length && rows.length < maxRows; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if ((field || row.length) && rows.length < maxRows) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+function CsvPreview({ text, truncated }: { text: string; truncated: boolean }) {
+  // A partly fetched file ends mid-row
+  const content = truncated ? text.slice(0, text.lastIndexOf('\n') + 1) : text;
+  const [header = [], ...rows] = parseCsv(content, CSV_PREVIEW_ROWS + 1);
+  const moreRows = rows.length === CSV_PREVIEW_ROWS || truncated;
+
+  return (
+    <div>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            {header.map((cell, i) => (
+              <TableHead key={i} className="whitespace-nowrap">{cell}</TableHead>
+            ))}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.map((row, i) => (
+            <TableRow key={i}>
+              {row.map((cell, j) => (
+                <TableCell key={j} className="whitespace-nowrap">{cell}</TableCell>
+              ))}
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+      {moreRows && (
+        <p className="text-xs text-gray-500 mt-2">Showing the first {rows.length} rows</p>
+      )}
+    </div>
+  );
+}
+
+function CodePreview({ text, fileName }: { text: string; fileName: string }) {
+  const extension = getExtension(fileName);
+  // highlight.js escapes the source, so its output is safe to insert
+  const html = hljs.getLanguage(extension)
+    ? hljs.highlight(text, { language: extension, ignoreIllegals: true }).value
+    : hljs.highlightAuto(text).value;
+
+  return (
+    <pre className="text-sm rounded-md bg-gray-50 p-4 overflow-auto">
+      <code className="hljs bg-transparent p-0" dangerouslySetInnerHTML={{ __html: html }} />
+    </pre>
+  );
+}
+
+export default function PreviewModal({ isOpen, onClose, file, onDownload }: PreviewModalProps) {
+  const kind = file ? getPreviewKind(file) : 'none';
+  const isText = kind === 'markdown' || kind === 'csv' || kind === 'code';
+  const previewUrl = `/api/files/${file?.id}/preview`;
+  const truncated = !!file && file.size > TEXT_PREVIEW_BYTES;
+
+  const { data: text, isLoading, error } = useQuery<string>({
+    queryKey: [previewUrl, 'text'],
+    queryFn: async () => {
+      const response = await fetch(previewUrl, {
+        headers: truncated ? { Range: `bytes=0-${TEXT_PREVIEW_BYTES - 1}` } : undefined,
+        credentials: 'include',
+      });
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        throw new Error(body.message || 'Failed to load preview');
+      }
+      return response.text();
+    },
+    enabled: isOpen && !!file && isText,
+  });
+
+  const renderPreview = () => {
+    if (!file) return null;
+
+    switch (kind) {
+      case 'pdf':
+        return <iframe src={previewUrl} title={file.name} className="w-full h-[70vh] rounded-md border" />;
+      case 'image':
+        return <img src={previewUrl} alt={file.name} className="max-h-[70vh] mx-auto object-contain" />;
+      case 'audio':
+        return <audio src={previewUrl} controls className="w-full" />;
+      case 'video':
+        return <video src={previewUrl} controls className="max-h-[70vh] w-full bg-black rounded-md" />;
+      case 'none':
+        return (
+          <div className="flex flex-col items-center justify-center py-12 text-center">
+            <FileIcon className="h-12 w-12 text-gray-400 mb-3" />
+            <p className="text-gray-600 mb-4">No preview available for this file type</p>
+            <Button onClick={() => onDownload(file.id)}>
+              <Download className="h-4 w-4 mr-2" />
+              Download
+            </Button>
+          </div>
+        );
+    }
+
+    if (isLoading) {
+      return <div className="text-center py-12 text-gray-500">Loading preview...</div>;
+    }
+    if (error || text === undefined) {
+      return (
+        <div className="text-center py-12 text-red-600">
+          {error instanceof Error ? error.message : 'Failed to load preview'}
+        </div>
+      );
+    }
+    if (kind === 'markdown') {
+      return (
+        <div className="prose prose-sm max-w-none">
+          <ReactMarkdown remarkPlugins={[remarkGfm]}>{text}</ReactMarkdown>
+        </div>
+      );
+    }
+    if (kind === 'csv') {
+      return <CsvPreview text={text} truncated={truncated} />;
+    }
+    return <CodePreview text={text} fileName={file.name} />;
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-4xl max-h-[90vh] flex flex-col" data-testid="modal-preview">
+        <DialogHeader>
+          <DialogTitle className="truncate pr-6">{file?.name}</DialogTitle>
+          <DialogDescription className="flex items-center justify-between">
+            <span>
+              {file && formatFileSize(file.size)}
+              {isText && truncated && ` · showing the first ${formatFileSize(TEXT_PREVIEW_BYTES)}`}
+            </span>
+            {file && kind !== 'none' && (
+              <Button variant="outline" size="sm" onClick={() => onDownload(file.id)} data-testid="button-preview-download">
+                <Download className="h-4 w-4 mr-2" />
+                Download
+              </Button>
+            )}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="flex-1 min-h-0 overflow-auto">
+          {renderPreview()}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
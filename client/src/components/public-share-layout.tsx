@@ -0,0 +1,103 @@
+import { useState, type ReactNode } from "react";
+import { Link } from "wouter";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Cloud, Lock, AlertCircle } from "lucide-react";
+import { SharedLinkError } from "@/hooks/useSharedLink";
+
+/**
+ * Page frame of the public share pages, shown to visitors without an account
+ */
+export default function PublicShareLayout({ children }: { children: ReactNode }) {
+  return (
+    <div className="min-h-screen flex flex-col bg-aqua">
+      <header className="border-b border-gray-200" style={{ backgroundColor: 'darkturquoise' }}>
+        <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center justify-between h-16">
+            <Link href="/" className="flex items-center space-x-3">
+              <div className="w-10 h-10 bg-primary rounded-lg flex items-center justify-center">
+                <Cloud className="h-6 w-6 text-white" />
+              </div>
+              <div>
+                <h1 className="text-xl font-bold text-gray-900">AI Storage</h1>
+                <p className="text-xs text-gray-500">Cloud Solution</p>
+              </div>
+            </Link>
+            <Button variant="outline" onClick={() => { window.location.href = "/signup"; }}>
+              Get AI Storage
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="flex-1 w-full max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-10">
+        {children}
+      </main>
+    </div>
+  );
+}
+
+interface ShareErrorProps {
+  error: Error;
+  // Called with the password the visitor entered, for password-protected links
+  onPassword: (password: string) => void;
+}
+
+/**
+ * What the share pages show instead of the content when the link can't be used yet:
+ * a password prompt, or why the link doesn't work (revoked, expired, limit reached)
+ */
+export function ShareError({ error, onPassword }: ShareErrorProps) {
+  const [password, setPassword] = useState("");
+
+  if (error instanceof SharedLinkError && error.passwordRequired) {
+    const handleSubmit = (e: React.FormEvent) => {
+      e.preventDefault();
+      if (password) onPassword(password);
+    };
+
+    return (
+      <Card className="max-w-md mx-auto">
+        <CardContent className="p-6">
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="flex items-center space-x-3">
+              <Lock className="h-6 w-6 text-primary" />
+              <h2 className="text-lg font-semibold text-gray-900">Password required</h2>
+            </div>
+            <p className="text-sm text-gray-600">
+              {error.status === 403 ? "That password is incorrect. Please try again." : "Enter the password you were given to open this link."}
+            </p>
+            <div className="space-y-2">
+              <Label htmlFor="share-link-password">Password</Label>
+              <Input
+                id="share-link-password"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                autoFocus
+                data-testid="input-share-link-password"
+              />
+            </div>
+            <Button type="submit" className="w-full" disabled={!password} data-testid="button-submit-share-password">
+              Open
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="max-w-md mx-auto">
+      <CardContent className="p-6">
+        <div className="flex items-center space-x-3 mb-3">
+          <AlertCircle className="h-6 w-6 text-red-500" />
+          <h2 className="text-lg font-semibold text-gray-900">This link isn't available</h2>
+        </div>
+        <p className="text-sm text-gray-600">{error.message}</p>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,128 @@
+import { useState, useEffect } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+interface FileData {
+  id: number;
+  name: string;
+}
+
+interface RenameModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  file: FileData | null;
+}
+
+export default function RenameModal({ isOpen, onClose, file }: RenameModalProps) {
+  const [name, setName] = useState(file?.name || "");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    setName(file?.name || "");
+  }, [file, isOpen]);
+
+  const renameMutation = useMutation({
+    mutationFn: async ({ fileId, name }: { fileId: number; name: string }) => {
+      const response = await fetch(`/api/files/${fileId}/rename`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name }),
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`${response.status}: ${errorText}`);
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/files'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/analytics'] });
+      toast({
+        title: "File Renamed",
+        description: "The file name has been updated",
+      });
+      onClose();
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Rename Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!file || !name.trim()) return;
+
+    renameMutation.mutate({ fileId: file.id, name: name.trim() });
+  };
+
+  if (!file) return null;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Rename File</DialogTitle>
+          <DialogDescription>
+            Change the name this file is shown and downloaded with.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <div className="space-y-2">
+            <Label htmlFor="file-name">Name</Label>
+            <Input
+              id="file-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              autoFocus
+              data-testid="input-rename-file"
+            />
+          </div>
+
+          <div className="flex items-center justify-end space-x-3 pt-4">
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              disabled={renameMutation.isPending || !name.trim() || name.trim() === file.name}
+              data-testid="button-confirm-rename"
+            >
+              Rename
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,360 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useNavigation, type NavigationLocation } from "@/hooks/useNavigation";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import { Database, File as FileIcon, FileImage, FileText, Folder, Search } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+
+interface SearchResult {
+  type: 'file' | 's3-object';
+  id: number;
+  name: string;
+  mimeType: string | null;
+  size: number;
+  modifiedAt: string | null;
+  isShared: boolean;
+  folderId: number | null;
+  // Folders from the root down to the file's folder (files only)
+  folderPath?: { id: number; name: string }[];
+  connectionId: number | null;
+  connectionName: string | null;
+  bucket: string | null;
+  key: string | null;
+  // Matching text, for files found by their content
+  snippet: { text: string; highlight: boolean }[] | null;
+}
+
+interface SearchResponse {
+  results: SearchResult[];
+  page: number;
+  pageSize: number;
+  hasMore: boolean;
+}
+
+interface SearchResultsProps {
+  query: string;
+  // Called after a result's folder was opened
+  onOpen: () => void;
+}
+
+const MB = 1024 * 1024;
+
+const formatFileSize = (bytes: number) => {
+  if (bytes === 0) return '0 Bytes';
+  const k = 1024;
+  const sizes = ['Bytes', 'KB', 'MB', 'GB', 'TB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+};
+
+const getFileIcon = (result: SearchResult) => {
+  const name = result.name.toLowerCase();
+  if (result.mimeType?.startsWith('image/') || /\.(jpe?g|png|gif|webp|svg)$/.test(name)) {
+    return <FileImage className="h-5 w-5 text-purple-600" />;
+  } else if (result.mimeType?.includes('pdf') || name.endsWith('.pdf')) {
+    return <FileText className="h-5 w-5 text-red-600" />;
+  } else {
+    return <FileIcon className="h-5 w-5 text-gray-600" />;
+  }
+};
+
+// Where a result lives, as shown under its name
+const getLocationLabel = (result: SearchResult) => {
+  if (result.type === 'file') {
+    return ['My Files', ...(result.folderPath || []).map((folder) => folder.name)].join(' / ');
+  }
+  const prefix = result.key!.slice(0, result.key!.lastIndexOf('/') + 1);
+  return [result.connectionName, result.bucket, ...prefix.split('/').filter(Boolean)].filter(Boolean).join(' / ');
+};
+
+// The folder, bucket or prefix that contains a result, as a navigation location
+const getContainingLocation = (result: SearchResult): NavigationLocation => {
+  const root = { type: 'root', name: 'My Files' };
+
+  if (result.type === 'file') {
+    const path = [root, ...(result.folderPath || []).map((folder) => ({ type: 'folder', id: folder.id, name: folder.name }))];
+    const folder = result.folderPath?.[result.folderPath.length - 1];
+    return folder
+      ? { type: 'folder', id: folder.id, name: folder.name, path }
+      : { type: 'root', path };
+  }
+
+  const connection = {
+    connectionId: result.connectionId ?? undefined,
+    connectionName: result.connectionName ?? undefined,
+  };
+  const bucketEntry = { type: 's3-bucket', name: result.bucket!, ...connection };
+  const segments = result.key!.split('/').slice(0, -1);
+  const prefixEntries = segments.map((_, index) => {
+    const prefix = segments.slice(0, index + 1).join('/') + '/';
+    return {
+      type: 's3-prefix',
+      name: prefix.replace(/\/$/, ''),
+      bucketName: result.bucket!,
+      prefix,
+      ...connection,
+    };
+  });
+  const path = [root, bucketEntry, ...prefixEntries];
+  const last = prefixEntries[prefixEntries.length - 1];
+  return last
+    ? { ...last, type: 's3-prefix', path }
+    : { ...bucketEntry, type: 's3-bucket', path };
+};
+
+// Results of the dashboard search box: files and indexed bucket objects anywhere, or inside
+// the folder or bucket being viewed. Opening a result shows the folder that contains it.
+export default function SearchResults({ query, onOpen }: SearchResultsProps) {
+  const { currentLocation, navigateTo } = useNavigation();
+  const [debouncedQuery, setDebouncedQuery] = useState(query);
+  const [category, setCategory] = useState('all');
+  const [shared, setShared] = useState('all');
+  const [scope, setScope] = useState<'everywhere' | 'here'>('everywhere');
+  // In MB, as entered
+  const [minSize, setMinSize] = useState('');
+  const [maxSize, setMaxSize] = useState('');
+  const [modifiedAfter, setModifiedAfter] = useState('');
+  // The page being viewed and the search it belongs to; another search starts at page 1
+  const [paging, setPaging] = useState({ search: '', page: 1 });
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedQuery(query.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [query]);
+
+  const isBucketLocation = currentLocation.type === 's3-bucket' || currentLocation.type === 's3-prefix';
+  const params = new URLSearchParams({ q: debouncedQuery });
+  if (category !== 'all') params.append('type', category);
+  if (shared !== 'all') params.append('shared', shared);
+  if (minSize) params.append('minSize', Math.round(parseFloat(minSize) * MB).toString());
+  if (maxSize) params.append('maxSize', Math.round(parseFloat(maxSize) * MB).toString());
+  if (modifiedAfter) params.append('modifiedAfter', new Date(modifiedAfter).toISOString());
+  if (scope === 'here') {
+    if (currentLocation.type === 'folder' && currentLocation.id) {
+      params.append('folderId', currentLocation.id.toString());
+    } else if (isBucketLocation) {
+      params.append('bucket', currentLocation.bucketName || currentLocation.name || '');
+      if (currentLocation.connectionId) params.append('connectionId', currentLocation.connectionId.toString());
+    } else {
+      params.append('source', 'files');
+    }
+  }
+  const search = params.toString();
+  const page = paging.search === search ? paging.page : 1;
+  const setPage = (newPage: number) => setPaging({ search, page: newPage });
+  params.append('page', page.toString());
+
+  const { data, isLoading, error } = useQuery<SearchResponse>({
+    queryKey: [`/api/search?${params}`],
+    enabled: debouncedQuery !== '',
+  });
+  const results = data?.results || [];
+
+  const openResult = (result: SearchResult) => {
+    navigateTo(getContainingLocation(result));
+    onOpen();
+  };
+
+  return (
+    <div className="space-y-4" data-testid="search-results">
+      <div className="grid grid-cols-2 md:grid-cols-6 gap-3">
+        <div className="space-y-1">
+          <Label className="text-xs text-gray-500">Search in</Label>
+          <Select value={scope} onValueChange={(value) => setScope(value as 'everywhere' | 'here')}>
+            <SelectTrigger data-testid="select-search-scope">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="everywhere">Everywhere</SelectItem>
+              <SelectItem value="here">
+                {currentLocation.type === 'folder' ? 'This folder' : isBucketLocation ? 'This disk' : 'My Files'}
+              </SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs text-gray-500">Type</Label>
+          <Select value={category} onValueChange={setCategory}>
+            <SelectTrigger data-testid="select-search-type">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Any type</SelectItem>
+              <SelectItem value="image">Images</SelectItem>
+              <SelectItem value="video">Videos</SelectItem>
+              <SelectItem value="audio">Audio</SelectItem>
+              <SelectItem value="pdf">PDFs</SelectItem>
+              <SelectItem value="document">Documents</SelectItem>
+              <SelectItem value="archive">Archives</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs text-gray-500">Sharing</Label>
+          <Select value={shared} onValueChange={setShared}>
+            <SelectTrigger data-testid="select-search-shared">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Shared or not</SelectItem>
+              <SelectItem value="true">Shared</SelectItem>
+              <SelectItem value="false">Private</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="search-min-size" className="text-xs text-gray-500">Min size (MB)</Label>
+          <Input
+            id="search-min-size"
+            type="number"
+            min={0}
+            value={minSize}
+            onChange={(e) => setMinSize(e.target.value)}
+            data-testid="input-search-min-size"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="search-max-size" className="text-xs text-gray-500">Max size (MB)</Label>
+          <Input
+            id="search-max-size"
+            type="number"
+            min={0}
+            value={maxSize}
+            onChange={(e) => setMaxSize(e.target.value)}
+            data-testid="input-search-max-size"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="search-modified-after" className="text-xs text-gray-500">Modified since</Label>
+          <Input
+            id="search-modified-after"
+            type="date"
+            value={modifiedAfter}
+            onChange={(e) => setModifiedAfter(e.target.value)}
+            data-testid="input-search-modified-after"
+          />
+        </div>
+      </div>
+
+      {isLoading || debouncedQuery === '' ? (
+        <div className="flex items-center justify-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+        </div>
+      ) : error ? (
+        <div className="text-center py-8">
+          <p className="text-gray-500">Search failed: {error.message}</p>
+        </div>
+      ) : results.length === 0 ? (
+        <div className="text-center py-8">
+          <Search className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+          <p className="text-gray-500">No files found matching "{debouncedQuery}"</p>
+          <p className="text-sm text-gray-400">Disks are searched once they have been indexed</p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Size</TableHead>
+                <TableHead>Modified</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Location</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {results.map((result) => (
+                <TableRow
+                  key={`${result.type}-${result.id}`}
+                  className="hover:bg-gray-50 cursor-pointer"
+                  onClick={() => openResult(result)}
+                  data-testid={`row-search-${result.type}-${result.id}`}
+                >
+                  <TableCell>
+                    <div className="flex items-center space-x-3">
+                      <div className="w-8 h-8 bg-gray-100 rounded flex items-center justify-center">
+                        {getFileIcon(result)}
+                      </div>
+                      <div className="min-w-0">
+                        <p className="font-medium text-gray-900 truncate">{result.name}</p>
+                        <p className="text-sm text-gray-500 truncate">{getLocationLabel(result)}</p>
+                        {result.snippet && (
+                          <p className="text-sm text-gray-600 line-clamp-2 mt-1" data-testid={`text-search-snippet-${result.id}`}>
+                            {result.snippet.map((part, index) => part.highlight ? (
+                              <mark key={index} className="bg-yellow-100 text-gray-900 rounded-sm">{part.text}</mark>
+                            ) : (
+                              <span key={index}>{part.text}</span>
+                            ))}
+                          </p>
+                        )}
+                      </div>
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-gray-600">{formatFileSize(result.size)}</TableCell>
+                  <TableCell className="text-gray-600">
+                    {result.modifiedAt ? formatDistanceToNow(new Date(result.modifiedAt), { addSuffix: true }) : '-'}
+                  </TableCell>
+                  <TableCell>
+                    {result.isShared ? (
+                      <Badge variant="secondary" className="bg-green-100 text-green-800">
+                        Shared
+                      </Badge>
+                    ) : (
+                      <Badge variant="outline" className="bg-gray-100 text-gray-800">
+                        Private
+                      </Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        openResult(result);
+                      }}
+                      title="Open containing folder"
+                      data-testid={`button-open-search-result-${result.type}-${result.id}`}
+                    >
+                      {result.type === 'file' ? <Folder className="h-4 w-4" /> : <Database className="h-4 w-4" />}
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      {(page > 1 || data?.hasMore) && (
+        <div className="flex items-center justify-end space-x-2">
+          <span className="text-sm text-gray-500">Page {page}</span>
+          <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page === 1}>
+            Previous
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => setPage(page + 1)} disabled={!data?.hasMore}>
+            Next
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
-import { useState } from "react";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useState, useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import {
@@ -12,35 +12,161 @@ import {
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Switch } from "@/components/ui/switch";
-import { Copy, Check } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Copy, Check, Link2Off, Lock, UserMinus } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
 
 interface FileData {
   id: number;
   name: string;
-  isShared: boolean;
-  shareToken?: string;
+}
+
+interface ShareLink {
+  id: number;
+  // 'upload' links are file requests: visitors can upload into the folder but not see it
+  type: 'view' | 'upload';
+  url: string;
+  expiresAt: string | null;
+  maxDownloads: number | null;
+  downloadCount: number;
+  maxFileSize: number | null;
+  allowedTypes: string[] | null;
+  hasPassword: boolean;
+  isRevoked: boolean;
+  isExpired: boolean;
+  createdAt: string;
+}
+
+// A registered user the item is shared with
+interface PermissionGrant {
+  id: number;
+  role: 'viewer' | 'editor';
+  email: string | null;
+  firstName: string | null;
+  lastName: string | null;
+}
+
+// An object, or a prefix ending in '/', in a connected bucket
+interface S3Item {
+  bucket: string;
+  key: string;
+  connectionId?: number;
 }
 
 interface ShareModalProps {
   isOpen: boolean;
   onClose: () => void;
   file: FileData | null;
+  // Folders are shared through the same dialog
+  type?: 'file' | 'folder';
+  // Shares a bucket object or prefix instead of file. Bucket items can only have links.
+  s3?: S3Item | null;
 }
 
-export default function ShareModal({ isOpen, onClose, file }: ShareModalProps) {
-  const [isShared, setIsShared] = useState(file?.isShared || false);
-  const [shareUrl, setShareUrl] = useState("");
-  const [copied, setCopied] = useState(false);
+export default function ShareModal({ isOpen, onClose, file, type = 'file', s3 }: ShareModalProps) {
+  const [expiresAt, setExpiresAt] = useState("");
+  const [password, setPassword] = useState("");
+  const [maxDownloads, setMaxDownloads] = useState("");
+  const [linkType, setLinkType] = useState<'view' | 'upload'>('view');
+  // In MB
+  const [maxFileSize, setMaxFileSize] = useState("");
+  // Comma separated, as entered
+  const [allowedTypes, setAllowedTypes] = useState("");
+  const [copiedId, setCopiedId] = useState<number | null>(null);
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<'viewer' | 'editor'>('viewer');
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
-  const shareMutation = useMutation({
-    mutationFn: async ({ fileId, isShared }: { fileId: number; isShared: boolean }) => {
-      const response = await fetch(`/api/files/${fileId}/share`, {
+  useEffect(() => {
+    setExpiresAt("");
+    setPassword("");
+    setMaxDownloads("");
+    setLinkType('view');
+    setMaxFileSize("");
+    setAllowedTypes("");
+    setEmail("");
+    setRole('viewer');
+  }, [file, s3, isOpen]);
+
+  const item = s3 ? { name: s3.key } : file;
+  // Bucket prefixes are shared like folders, objects like files
+  const itemType = s3 ? (s3.key.endsWith('/') ? 'folder' : 'file') : type;
+
+  const linksUrl = s3
+    ? `/api/s3/share?${new URLSearchParams({
+        bucket: s3.bucket,
+        key: s3.key,
+        ...(s3.connectionId ? { connectionId: s3.connectionId.toString() } : {}),
+      })}`
+    : `/api/${type}s/${file?.id}/share`;
+  const { data, isLoading } = useQuery<{ links: ShareLink[] }>({
+    queryKey: [linksUrl],
+    enabled: isOpen && !!item,
+  });
+  const links = data?.links || [];
+
+  const permissionsUrl = `/api/${type}s/${file?.id}/permissions`;
+  const { data: grants = [], isLoading: grantsLoading } = useQuery<PermissionGrant[]>({
+    queryKey: [permissionsUrl],
+    enabled: isOpen && !!file && !s3,
+  });
+
+  const handleError = (error: Error) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const invalidateLinks = () => {
+    queryClient.invalidateQueries({ queryKey: [linksUrl] });
+    queryClient.invalidateQueries({ queryKey: ['/api/files'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/analytics'] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch(s3 ? '/api/s3/share' : linksUrl, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ isShared }),
+        body: JSON.stringify(s3 ? {
+          ...s3,
+          expiresAt: expiresAt ? new Date(expiresAt).toISOString() : undefined,
+          password: password || undefined,
+          maxDownloads: maxDownloads ? parseInt(maxDownloads) : undefined,
+        } : linkType === 'upload' ? {
+          type: 'upload',
+          expiresAt: expiresAt ? new Date(expiresAt).toISOString() : undefined,
+          password: password || undefined,
+          maxFileSize: maxFileSize ? Math.round(parseFloat(maxFileSize) * 1024 * 1024) : undefined,
+          allowedTypes: allowedTypes
+            ? allowedTypes.split(',').map((allowedType) => allowedType.trim()).filter(Boolean)
+            : undefined,
+        } : {
+          expiresAt: expiresAt ? new Date(expiresAt).toISOString() : undefined,
+          password: password || undefined,
+          maxDownloads: maxDownloads ? parseInt(maxDownloads) : undefined,
+        }),
         credentials: 'include',
       });
 
@@ -51,49 +177,101 @@ export default function ShareModal({ isOpen, onClose, file }: ShareModalProps) {
 
       return response.json();
     },
-    onSuccess: (data) => {
-      queryClient.invalidateQueries({ queryKey: ['/api/files'] });
-      queryClient.invalidateQueries({ queryKey: ['/api/analytics'] });
-      setShareUrl(data.shareUrl || "");
+    onSuccess: () => {
+      invalidateLinks();
+      setExpiresAt("");
+      setPassword("");
+      setMaxDownloads("");
+      setMaxFileSize("");
+      setAllowedTypes("");
       toast({
         title: "Success",
-        description: isShared ? "File shared successfully" : "File sharing disabled",
+        description: linkType === 'upload' ? "File request link created" : "Share link created",
       });
     },
-    onError: (error) => {
-      if (isUnauthorizedError(error)) {
-        toast({
-          title: "Unauthorized",
-          description: "You are logged out. Logging in again...",
-          variant: "destructive",
-        });
-        setTimeout(() => {
-          window.location.href = "/api/login";
-        }, 500);
-        return;
+    onError: handleError,
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (linkId: number) => {
+      const response = await fetch(`/api/share-links/${linkId}`, {
+        method: 'DELETE',
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`${response.status}: ${errorText}`);
       }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateLinks();
       toast({
-        title: "Error",
-        description: error.message,
-        variant: "destructive",
+        title: "Link Revoked",
+        description: "The share link no longer works",
       });
     },
+    onError: handleError,
   });
 
-  const handleShareToggle = async (checked: boolean) => {
-    if (!file) return;
-    
-    setIsShared(checked);
-    shareMutation.mutate({ fileId: file.id, isShared: checked });
-  };
+  const grantMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch(permissionsUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email, role }),
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`${response.status}: ${errorText}`);
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [permissionsUrl] });
+      setEmail("");
+      toast({
+        title: "Success",
+        description: `Shared with ${email}`,
+      });
+    },
+    onError: handleError,
+  });
+
+  const removeGrantMutation = useMutation({
+    mutationFn: async (permissionId: number) => {
+      const response = await fetch(`/api/permissions/${permissionId}`, {
+        method: 'DELETE',
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`${response.status}: ${errorText}`);
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [permissionsUrl] });
+      toast({
+        title: "Access Removed",
+        description: `The user can no longer access this ${type}`,
+      });
+    },
+    onError: handleError,
+  });
 
-  const copyToClipboard = async () => {
-    if (!shareUrl) return;
-    
+  const copyToClipboard = async (link: ShareLink) => {
     try {
-      await navigator.clipboard.writeText(shareUrl);
-      setCopied(true);
-      setTimeout(() => setCopied(false), 2000);
+      await navigator.clipboard.writeText(link.url);
+      setCopiedId(link.id);
+      setTimeout(() => setCopiedId(null), 2000);
       toast({
         title: "Copied!",
         description: "Share link copied to clipboard",
@@ -107,65 +285,271 @@ export default function ShareModal({ isOpen, onClose, file }: ShareModalProps) {
     }
   };
 
-  if (!file) return null;
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!item) return;
+
+    createMutation.mutate();
+  };
+
+  const handleGrant = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!file || !email.trim()) return;
+
+    grantMutation.mutate();
+  };
+
+  if (!item) return null;
 
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
-      <DialogContent className="max-w-lg">
+      <DialogContent className="max-w-2xl">
         <DialogHeader>
-          <DialogTitle>Share File</DialogTitle>
+          <DialogTitle>{itemType === 'file' ? 'Share File' : 'Share Folder'}</DialogTitle>
           <DialogDescription>
-            Generate a shareable link for this file that others can use to access it.
+            {s3
+              ? `Create links anyone can use without access to the bucket. Unlike presigned URLs, links keep working until they expire or are revoked, as long as the bucket stays connected. Each link can expire, require a password or allow a limited number of downloads.`
+              : `Share this ${type} with registered users, or create links anyone can use. Each link can expire, require a password or allow a limited number of downloads.`}
+            {type === 'folder' && !s3 && ' File request links let anyone upload into the folder without seeing its contents.'}
           </DialogDescription>
         </DialogHeader>
-        
+
         <div className="space-y-6">
           <div>
-            <Label className="text-base font-medium">File: {file.name}</Label>
-          </div>
-
-          <div className="flex items-center justify-between">
-            <div className="space-y-0.5">
-              <Label className="text-base">Enable sharing</Label>
-              <p className="text-sm text-gray-500">
-                Allow others to access this file with a link
-              </p>
-            </div>
-            <Switch
-              checked={isShared}
-              onCheckedChange={handleShareToggle}
-              disabled={shareMutation.isPending}
-            />
+            <Label className="text-base font-medium">
+              {itemType === 'file' ? 'File' : 'Folder'}: {s3 ? `${s3.bucket}/${s3.key}` : item.name}
+            </Label>
           </div>
 
-          {isShared && shareUrl && (
+          {!s3 && (
             <div className="space-y-2">
-              <Label>Share link</Label>
-              <div className="flex items-center space-x-2">
+              <Label>People</Label>
+              <form onSubmit={handleGrant} className="flex items-center space-x-2">
                 <Input
-                  value={shareUrl}
-                  readOnly
-                  className="flex-1 bg-gray-50"
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  placeholder="Email of a registered user"
+                  className="flex-1"
+                  data-testid="input-share-email"
                 />
-                <Button
-                  type="button"
-                  variant="outline"
-                  size="sm"
-                  onClick={copyToClipboard}
-                  className="px-3"
-                >
-                  {copied ? (
-                    <Check className="h-4 w-4 text-green-500" />
-                  ) : (
-                    <Copy className="h-4 w-4" />
-                  )}
+                <Select value={role} onValueChange={(value) => setRole(value as 'viewer' | 'editor')}>
+                  <SelectTrigger className="w-28" data-testid="select-share-role">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="viewer">Viewer</SelectItem>
+                    <SelectItem value="editor">Editor</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Button type="submit" disabled={!email.trim() || grantMutation.isPending} data-testid="button-share-with-user">
+                  Share
                 </Button>
+              </form>
+              {grantsLoading ? (
+                <div className="flex items-center justify-center py-4">
+                  <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+                </div>
+              ) : grants.length > 0 && (
+                <div className="max-h-40 overflow-y-auto space-y-2">
+                  {grants.map((grant) => (
+                    <div key={grant.id} className="flex items-center justify-between text-sm" data-testid={`permission-${grant.id}`}>
+                      <div>
+                        <span className="font-medium text-gray-900">
+                          {[grant.firstName, grant.lastName].filter(Boolean).join(' ') || grant.email}
+                        </span>
+                        {(grant.firstName || grant.lastName) && <span className="text-gray-500 ml-2">{grant.email}</span>}
+                      </div>
+                      <div className="flex items-center space-x-2">
+                        <Badge variant="outline" className="capitalize">{grant.role}</Badge>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => removeGrantMutation.mutate(grant.id)}
+                          disabled={removeGrantMutation.isPending}
+                          className="px-2 text-red-600 hover:text-red-700"
+                          data-testid={`button-remove-permission-${grant.id}`}
+                        >
+                          <UserMinus className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            <p className="text-xs text-gray-500">
+              Viewers can open and download the {type}; editors can also upload, rename, move and delete.
+              {type === 'folder' && ' Access covers everything inside the folder.'}
+            </p>
+          </div>
+          )}
+
+          <form onSubmit={handleCreate} className="space-y-4">
+            {type === 'folder' && !s3 && (
+              <div className="space-y-2">
+                <Label>Link type</Label>
+                <Select value={linkType} onValueChange={(value) => setLinkType(value as 'view' | 'upload')}>
+                  <SelectTrigger data-testid="select-share-link-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="view">View and download</SelectItem>
+                    <SelectItem value="upload">File request (upload only)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div className="grid grid-cols-3 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="share-expires">Expires</Label>
+                <Input
+                  id="share-expires"
+                  type="datetime-local"
+                  value={expiresAt}
+                  onChange={(e) => setExpiresAt(e.target.value)}
+                  data-testid="input-share-expires"
+                />
               </div>
-              <p className="text-xs text-gray-500">
-                Anyone with this link can view and download the file
-              </p>
+              <div className="space-y-2">
+                <Label htmlFor="share-password">Password</Label>
+                <Input
+                  id="share-password"
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  placeholder="Optional"
+                  data-testid="input-share-password"
+                />
+              </div>
+              {linkType === 'upload' ? (
+                <div className="space-y-2">
+                  <Label htmlFor="share-max-file-size">Max file size (MB)</Label>
+                  <Input
+                    id="share-max-file-size"
+                    type="number"
+                    min={1}
+                    value={maxFileSize}
+                    onChange={(e) => setMaxFileSize(e.target.value)}
+                    placeholder="No limit"
+                    data-testid="input-share-max-file-size"
+                  />
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  <Label htmlFor="share-max-downloads">Max downloads</Label>
+                  <Input
+                    id="share-max-downloads"
+                    type="number"
+                    min={1}
+                    value={maxDownloads}
+                    onChange={(e) => setMaxDownloads(e.target.value)}
+                    placeholder="Unlimited"
+                    data-testid="input-share-max-downloads"
+                  />
+                </div>
+              )}
             </div>
-          )}
+            {linkType === 'upload' && (
+              <div className="space-y-2">
+                <Label htmlFor="share-allowed-types">Accepted types</Label>
+                <Input
+                  id="share-allowed-types"
+                  value={allowedTypes}
+                  onChange={(e) => setAllowedTypes(e.target.value)}
+                  placeholder="Any type, or e.g. .pdf, image/*, text/csv"
+                  data-testid="input-share-allowed-types"
+                />
+              </div>
+            )}
+            <div className="flex justify-end">
+              <Button type="submit" disabled={createMutation.isPending} data-testid="button-create-share-link">
+                Create link
+              </Button>
+            </div>
+          </form>
+
+          <div className="space-y-2">
+            <Label>Share links</Label>
+            {isLoading ? (
+              <div className="flex items-center justify-center py-4">
+                <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+              </div>
+            ) : links.length === 0 ? (
+              <p className="text-sm text-gray-500">This {itemType} isn't shared yet</p>
+            ) : (
+              <div className="max-h-64 overflow-y-auto space-y-3">
+                {links.map((link) => {
+                  const isActive = !link.isRevoked && !link.isExpired;
+                  return (
+                    <div key={link.id} className="space-y-1" data-testid={`share-link-${link.id}`}>
+                      <div className="flex items-center space-x-2">
+                        <Input
+                          value={link.url}
+                          readOnly
+                          className={`flex-1 bg-gray-50 ${isActive ? '' : 'text-gray-400 line-through'}`}
+                        />
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          onClick={() => copyToClipboard(link)}
+                          disabled={!isActive}
+                          className="px-3"
+                        >
+                          {copiedId === link.id ? (
+                            <Check className="h-4 w-4 text-green-500" />
+                          ) : (
+                            <Copy className="h-4 w-4" />
+                          )}
+                        </Button>
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          onClick={() => revokeMutation.mutate(link.id)}
+                          disabled={link.isRevoked || revokeMutation.isPending}
+                          className="px-3 text-red-600 hover:text-red-700"
+                          data-testid={`button-revoke-share-link-${link.id}`}
+                        >
+                          <Link2Off className="h-4 w-4" />
+                        </Button>
+                      </div>
+                      <div className="flex flex-wrap items-center gap-2 text-xs text-gray-500">
+                        {link.type === 'upload' && <Badge variant="outline" className="bg-blue-100 text-blue-800">File request</Badge>}
+                        {link.isRevoked && <Badge variant="outline" className="bg-red-100 text-red-800">Revoked</Badge>}
+                        {!link.isRevoked && link.isExpired && <Badge variant="outline" className="bg-gray-100 text-gray-800">Expired</Badge>}
+                        {link.hasPassword && (
+                          <span className="flex items-center"><Lock className="h-3 w-3 mr-1" />Password</span>
+                        )}
+                        <span>
+                          {link.expiresAt
+                            ? `${link.isExpired ? 'Expired' : 'Expires'} ${formatDistanceToNow(new Date(link.expiresAt), { addSuffix: true })}`
+                            : 'Never expires'}
+                        </span>
+                        {link.type === 'upload' ? (
+                          <span>
+                            {link.maxFileSize ? `Up to ${Math.round(link.maxFileSize / (1024 * 1024))}MB` : 'Any size'}
+                            {link.allowedTypes?.length ? `, ${link.allowedTypes.join(', ')}` : ''}
+                          </span>
+                        ) : (
+                          <span>
+                            {link.maxDownloads
+                              ? `${link.downloadCount} / ${link.maxDownloads} downloads`
+                              : `${link.downloadCount} downloads`}
+                          </span>
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+            <p className="text-xs text-gray-500">
+              Anyone with an active link (and its password, if set) can view and download the {itemType}
+              {type === 'folder' && !s3 && ', or upload into it through a file request link'}
+            </p>
+          </div>
 
           <div className="flex items-center justify-end space-x-3 pt-4">
             <Button variant="outline" onClick={onClose}>
@@ -9,7 +9,8 @@ import {
   BarChart3, 
   Settings, 
   LogOut,
-  Info 
+  Info,
+  Trash2
 } from "lucide-react";
 import { Link, useLocation } from "wouter";
 import type { User } from "@shared/schema";
@@ -95,6 +96,14 @@ export default function Sidebar() {
               <span>Shared</span>
             </Link>
           </li>
+          <li>
+            <Link href="/trash" className={`flex items-center space-x-3 p-3 rounded-lg transition-colors ${
+              location === "/trash" ? "bg-primary text-white" : "text-gray-700 hover:bg-gray-100"
+            }`} data-testid="link-trash-sidebar">
+              <Trash2 className="h-5 w-5" />
+              <span>Trash</span>
+            </Link>
+          </li>
           <li>
             <Link href="/analytics" className={`flex items-center space-x-3 p-3 rounded-lg transition-colors ${
               location === "/analytics" ? "bg-primary text-white" : "text-gray-700 hover:bg-gray-100"
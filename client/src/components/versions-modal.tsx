@@ -0,0 +1,233 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Download, RotateCcw, Trash2 } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+
+interface FileData {
+  id: number;
+  name: string;
+}
+
+interface FileVersion {
+  id: number;
+  versionNumber: number;
+  size: number;
+  uploadedBy: string | null;
+  createdAt: string;
+  isCurrent: boolean;
+}
+
+interface VersionsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  file: FileData | null;
+}
+
+type VersionAction =
+  | { type: 'download' | 'restore' | 'delete'; versionId: number }
+  | { type: 'prune'; keep: number };
+
+const formatFileSize = (bytes: number) => {
+  if (bytes === 0) return '0 Bytes';
+  const k = 1024;
+  const sizes = ['Bytes', 'KB', 'MB', 'GB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+};
+
+export default function VersionsModal({ isOpen, onClose, file }: VersionsModalProps) {
+  const [keep, setKeep] = useState("5");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const versionsUrl = `/api/files/${file?.id}/versions`;
+  const { data, isLoading } = useQuery<{ versions: FileVersion[] }>({
+    queryKey: [versionsUrl],
+    enabled: isOpen && !!file,
+  });
+  const versions = data?.versions || [];
+
+  const versionMutation = useMutation({
+    mutationFn: async (action: VersionAction) => {
+      let response;
+      if (action.type === 'prune') {
+        response = await fetch(`${versionsUrl}/prune`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ keep: action.keep }),
+          credentials: 'include',
+        });
+      } else if (action.type === 'download') {
+        response = await fetch(`${versionsUrl}/${action.versionId}/download`, { credentials: 'include' });
+      } else if (action.type === 'restore') {
+        response = await fetch(`${versionsUrl}/${action.versionId}/restore`, { method: 'POST', credentials: 'include' });
+      } else {
+        response = await fetch(`${versionsUrl}/${action.versionId}`, { method: 'DELETE', credentials: 'include' });
+      }
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`${response.status}: ${errorText}`);
+      }
+
+      return response.json();
+    },
+    onSuccess: (result, action) => {
+      if (action.type === 'download') {
+        window.open(result.downloadUrl, '_blank');
+        return;
+      }
+
+      queryClient.invalidateQueries({ queryKey: [versionsUrl] });
+      queryClient.invalidateQueries({ queryKey: ['/api/files'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/stats'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/analytics'] });
+      toast(
+        action.type === 'restore'
+          ? { title: "Version Restored", description: "The restored version is now the current one" }
+          : action.type === 'delete'
+            ? { title: "Version Deleted", description: "The version has been permanently deleted" }
+            : { title: "Versions Pruned", description: `${result.deletedVersions} older versions have been deleted` }
+      );
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Version Action Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handlePrune = (e: React.FormEvent) => {
+    e.preventDefault();
+    const count = parseInt(keep);
+    if (!count || count < 1) return;
+
+    versionMutation.mutate({ type: 'prune', keep: count });
+  };
+
+  if (!file) return null;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Version History</DialogTitle>
+          <DialogDescription>
+            Uploading a file with the same name to the same folder adds a new version of "{file.name}".
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+            </div>
+          ) : (
+            <div className="max-h-80 overflow-y-auto divide-y border rounded-md">
+              {versions.map((version) => (
+                <div
+                  key={version.id}
+                  className="flex items-center justify-between p-3"
+                  data-testid={`row-version-${version.id}`}
+                >
+                  <div>
+                    <div className="flex items-center space-x-2">
+                      <span className="font-medium text-gray-900">Version {version.versionNumber}</span>
+                      {version.isCurrent && <Badge variant="secondary">Current</Badge>}
+                    </div>
+                    <p className="text-sm text-gray-600">
+                      {formatFileSize(version.size)} · {formatDistanceToNow(new Date(version.createdAt), { addSuffix: true })}
+                    </p>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => versionMutation.mutate({ type: 'download', versionId: version.id })}
+                      disabled={versionMutation.isPending}
+                      data-testid={`button-download-version-${version.id}`}
+                    >
+                      <Download className="h-4 w-4" />
+                    </Button>
+                    {!version.isCurrent && (
+                      <>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => versionMutation.mutate({ type: 'restore', versionId: version.id })}
+                          disabled={versionMutation.isPending}
+                          data-testid={`button-restore-version-${version.id}`}
+                        >
+                          <RotateCcw className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => versionMutation.mutate({ type: 'delete', versionId: version.id })}
+                          disabled={versionMutation.isPending}
+                          className="text-red-600 hover:text-red-700"
+                          data-testid={`button-delete-version-${version.id}`}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <form onSubmit={handlePrune} className="flex items-end justify-between space-x-3 pt-4">
+            <div className="space-y-2">
+              <Label htmlFor="versions-keep">Keep newest versions</Label>
+              <Input
+                id="versions-keep"
+                type="number"
+                min={1}
+                value={keep}
+                onChange={(e) => setKeep(e.target.value)}
+                className="w-32"
+                data-testid="input-versions-keep"
+              />
+            </div>
+            <Button
+              type="submit"
+              variant="outline"
+              disabled={versionMutation.isPending || versions.length <= (parseInt(keep) || 1)}
+              data-testid="button-prune-versions"
+            >
+              Delete Older Versions
+            </Button>
+          </form>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
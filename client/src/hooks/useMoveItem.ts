@@ -0,0 +1,96 @@
+import type { DragEvent } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { isUnauthorizedError } from "@/lib/authUtils";
+
+// Drag-and-drop payload type for file and folder rows
+export const DRAG_ITEM_TYPE = "application/x-storage-item";
+
+export interface MovableItem {
+  type: 'file' | 'folder';
+  id: number;
+}
+
+export interface MoveRequest {
+  item: MovableItem;
+  // Destination folder, null for the root
+  folderId: number | null;
+}
+
+export function startDragItem(event: DragEvent, item: MovableItem) {
+  event.dataTransfer.setData(DRAG_ITEM_TYPE, JSON.stringify(item));
+  event.dataTransfer.effectAllowed = 'move';
+}
+
+export function isDraggingItem(event: DragEvent): boolean {
+  return event.dataTransfer.types.includes(DRAG_ITEM_TYPE);
+}
+
+export function getDroppedItem(event: DragEvent): MovableItem | undefined {
+  try {
+    const item = JSON.parse(event.dataTransfer.getData(DRAG_ITEM_TYPE));
+    return (item?.type === 'file' || item?.type === 'folder') && typeof item.id === 'number' ? item : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Moves a file or folder into another folder (or the root). Shared by the file table
+ * rows and the breadcrumb, which both accept dropped items.
+ */
+export function useMoveItem() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ item, folderId }: MoveRequest) => {
+      const response = item.type === 'file'
+        ? await fetch(`/api/files/${item.id}/move`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            credentials: 'include',
+            body: JSON.stringify({ folderId }),
+          })
+        : await fetch(`/api/folders/${item.id}/move`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            credentials: 'include',
+            body: JSON.stringify({ parentId: folderId }),
+          });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`${response.status}: ${errorText}`);
+      }
+
+      return response.json();
+    },
+    onSuccess: (_, { item }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/files'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/folders'] });
+      toast({
+        title: item.type === 'file' ? "File Moved" : "Folder Moved",
+        description: `The ${item.type} has been moved`,
+      });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Move Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+}
@@ -6,7 +6,18 @@ export interface NavigationLocation {
   name?: string;
   bucketName?: string;
   prefix?: string;
-  path: { type: string; id?: number; name: string; bucketName?: string; prefix?: string }[];
+  // S3 connection (AWS account) the bucket belongs to
+  connectionId?: number;
+  connectionName?: string;
+  path: {
+    type: string;
+    id?: number;
+    name: string;
+    bucketName?: string;
+    prefix?: string;
+    connectionId?: number;
+    connectionName?: string;
+  }[];
 }
 
 interface NavigationContextType {
@@ -36,9 +47,13 @@ export function NavigationProvider({ children }: { children: ReactNode }) {
       const parentLocation = newPath[newPath.length - 1];
       
       setCurrentLocation({
-        type: parentLocation.type as 'root' | 'folder' | 's3-bucket',
+        type: parentLocation.type as 'root' | 'folder' | 's3-bucket' | 's3-prefix',
         id: parentLocation.id,
         name: parentLocation.name,
+        bucketName: parentLocation.bucketName,
+        prefix: parentLocation.prefix,
+        connectionId: parentLocation.connectionId,
+        connectionName: parentLocation.connectionName,
         path: newPath
       });
     }
@@ -0,0 +1,38 @@
+import { useState } from "react";
+
+// Header the server reads the password of a protected share link from
+const SHARE_PASSWORD_HEADER = "X-Share-Password";
+
+export class SharedLinkError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+    readonly passwordRequired: boolean = false
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Requests against the public /api/shared/* routes of one share link. The password the
+ * visitor entered is kept for the page's lifetime and sent with every request.
+ */
+export function useSharedLink() {
+  const [password, setPassword] = useState<string | undefined>(undefined);
+
+  const fetchShared = async <T,>(url: string, method: string = "GET", body?: BodyInit): Promise<T> => {
+    const response = await fetch(url, {
+      method,
+      headers: password ? { [SHARE_PASSWORD_HEADER]: password } : {},
+      body,
+    });
+    const result = await response.json().catch(() => ({}));
+
+    if (!response.ok) {
+      throw new SharedLinkError(response.status, result.message || response.statusText, !!result.passwordRequired);
+    }
+    return result;
+  };
+
+  return { password, setPassword, fetchShared };
+}
@@ -0,0 +1,108 @@
+// Parts whose URLs are requested from the server at once (the API allows up to 100)
+const PART_URL_BATCH = 20;
+
+type DirectUploadTarget =
+  | { method: 'PUT'; url: string; key: string; headers: Record<string, string> }
+  | { method: 'multipart'; uploadId: string; key: string; partSize: number; partCount: number };
+
+/**
+ * The browser couldn't reach the bucket at all, usually because it has no CORS rule for
+ * this origin. Callers fall back to uploading through the app.
+ */
+export class DirectUploadUnavailableError extends Error {
+  constructor() {
+    super('The storage bucket is not reachable from this browser');
+    this.name = 'DirectUploadUnavailableError';
+  }
+}
+
+async function postJson<T>(url: string, body: unknown): Promise<T> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+    credentials: 'include',
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(`${response.status}: ${data.message || response.statusText}`);
+  }
+  return data;
+}
+
+// PUT a blob to a presigned URL with XMLHttpRequest, which (unlike fetch) reports upload progress
+function put(url: string, body: Blob, headers: Record<string, string>, onProgress: (loaded: number) => void): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open('PUT', url);
+    for (const [name, value] of Object.entries(headers)) {
+      xhr.setRequestHeader(name, value);
+    }
+    xhr.upload.onprogress = (event) => onProgress(event.loaded);
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        resolve();
+      } else {
+        reject(new Error(`Upload to storage failed with status ${xhr.status}`));
+      }
+    };
+    // Network errors include CORS rejections, which the browser doesn't detail
+    xhr.onerror = () => reject(new DirectUploadUnavailableError());
+    xhr.send(body);
+  });
+}
+
+/**
+ * Upload an app-managed file straight to the bucket through presigned URLs
+ * (/api/uploads/direct), then record it with /complete. Small files go up in one PUT,
+ * larger ones part by part as a multipart upload, which is aborted if a part fails.
+ */
+export async function uploadDirect(
+  file: File,
+  folderId: number | undefined,
+  onProgress: (bytesSent: number, bytesTotal: number) => void
+): Promise<void> {
+  const mimeType = file.type || 'application/octet-stream';
+  const target = await postJson<DirectUploadTarget>('/api/uploads/direct', {
+    fileName: file.name,
+    mimeType,
+    size: file.size,
+    folderId,
+  });
+
+  if (target.method === 'PUT') {
+    await put(target.url, file, target.headers, (loaded) => onProgress(loaded, file.size));
+  } else {
+    try {
+      let uploaded = 0;
+      for (let first = 1; first <= target.partCount; first += PART_URL_BATCH) {
+        const partNumbers = Array.from(
+          { length: Math.min(PART_URL_BATCH, target.partCount - first + 1) },
+          (_, i) => first + i
+        );
+        const { parts } = await postJson<{ parts: { partNumber: number; url: string }[] }>(
+          '/api/uploads/direct/parts',
+          { key: target.key, uploadId: target.uploadId, partNumbers, folderId }
+        );
+        for (const { partNumber, url } of parts) {
+          const start = (partNumber - 1) * target.partSize;
+          const chunk = file.slice(start, Math.min(start + target.partSize, file.size));
+          await put(url, chunk, {}, (loaded) => onProgress(uploaded + loaded, file.size));
+          uploaded += chunk.size;
+        }
+      }
+    } catch (error) {
+      await postJson('/api/uploads/direct/abort', { key: target.key, uploadId: target.uploadId, folderId }).catch(() => {});
+      throw error;
+    }
+  }
+
+  await postJson('/api/uploads/direct/complete', {
+    key: target.key,
+    uploadId: target.method === 'multipart' ? target.uploadId : undefined,
+    fileName: file.name,
+    mimeType,
+    folderId,
+  });
+  onProgress(file.size, file.size);
+}
@@ -0,0 +1,49 @@
+/**
+ * POST a hidden form to a download endpoint. Unlike fetch, the browser streams the
+ * response straight to disk, so archives of any size never have to fit in memory.
+ * Same-origin form posts carry the session cookie like any other request.
+ *
+ * The form targets a hidden iframe so the page stays put. Attachments don't load into
+ * the frame; anything that does is an error response, whose message goes to onError.
+ */
+export function submitDownloadForm(
+  action: string,
+  fields: Record<string, string> = {},
+  onError?: (message: string) => void
+) {
+  const frame = document.createElement('iframe');
+  frame.name = `download-${Date.now()}-${Math.random().toString(36).slice(2)}`;
+  frame.style.display = 'none';
+  frame.addEventListener('load', () => {
+    // The empty frame's own initial load
+    if (frame.contentWindow?.location.href === 'about:blank') return;
+
+    let message = 'Download failed';
+    try {
+      const body = JSON.parse(frame.contentDocument?.body.textContent || '{}');
+      message = body.message || message;
+    } catch (error) {
+      // Not a JSON error body; keep the generic message
+    }
+    onError?.(message);
+  });
+
+  const form = document.createElement('form');
+  form.method = 'POST';
+  form.action = action;
+  form.target = frame.name;
+  for (const [name, value] of Object.entries(fields)) {
+    const input = document.createElement('input');
+    input.type = 'hidden';
+    input.name = name;
+    input.value = value;
+    form.appendChild(input);
+  }
+
+  document.body.appendChild(frame);
+  document.body.appendChild(form);
+  form.submit();
+  form.remove();
+  // Leave the frame long enough for a slow error response to arrive
+  setTimeout(() => frame.remove(), 5 * 60 * 1000);
+}
@@ -31,7 +31,9 @@ interface AnalyticsData {
     files: number;
     folders: number;
     shared: number;
+    trashed: number;
   };
+  trashedBytes: number;
   filesByType: Array<{
     type: string;
     count: number;
@@ -303,6 +305,11 @@ export default function Analytics() {
                     <p className="text-2xl font-bold text-gray-900 dark:text-white" data-testid="text-used-space">
                       {formatBytes(analytics.usedBytes)}
                     </p>
+                    {analytics.counts.trashed > 0 && (
+                      <p className="text-xs text-gray-500 dark:text-gray-400" data-testid="text-trashed-space">
+                        + {formatBytes(analytics.trashedBytes)} in trash ({analytics.counts.trashed.toLocaleString()} files)
+                      </p>
+                    )}
                   </div>
                   <div className="h-12 w-12 rounded-lg bg-blue-100 dark:bg-blue-900/20 flex items-center justify-center">
                     <TrendingUp className="h-6 w-6 text-blue-600 dark:text-blue-400" />
@@ -6,14 +6,17 @@ import { isUnauthorizedError } from "@/lib/authUtils";
 import Sidebar from "@/components/sidebar";
 import FileUpload from "@/components/file-upload";
 import FileTable from "@/components/file-table";
+import SearchResults from "@/components/search-results";
 import { Card, CardContent } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
 import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { queryClient } from "@/lib/queryClient";
+import { formatDistanceToNow } from "date-fns";
 import { 
   Search, 
   CheckCircle, 
@@ -24,7 +27,9 @@ import {
   Database, 
   ArrowLeft, 
   Folder,
-  HardDrive 
+  HardDrive,
+  Trash2,
+  Copy
 } from "lucide-react";
 
 interface StatsData {
@@ -32,13 +37,33 @@ interface StatsData {
   totalFolders?: number;
   totalSize?: number;
   sharedFiles?: number;
+  trashedFiles?: number;
+  trashedSize?: number;
   totalCapacity?: number;
   usagePercentage?: number;
 }
 
+interface S3Connection {
+  id: number;
+  name: string;
+  type: 'keys' | 'role';
+  roleArn: string | null;
+  credentialsExpireAt: string | null;
+  region: string | null;
+  endpoint: string | null;
+  isActive: boolean;
+  expiresAt: string;
+}
+
 interface S3StatusData {
   connected?: boolean;
   region?: string;
+  connectionId?: number | null;
+  connectionName?: string | null;
+  type?: 'keys' | 'role' | null;
+  roleArn?: string | null;
+  credentialsExpireAt?: string | null;
+  connections?: S3Connection[];
 }
 
 interface S3BucketData {
@@ -54,10 +79,16 @@ export default function EnhancedDashboard() {
   const { currentLocation, navigateTo, navigateBack, navigateToRoot } = useNavigation();
   const [showConnectionModal, setShowConnectionModal] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
-  const [s3Credentials, setS3Credentials] = useState({
+  const emptyCredentials = {
+    name: '',
+    type: 'keys' as 'keys' | 'role',
     accessKeyId: '',
-    secretAccessKey: ''
-  });
+    secretAccessKey: '',
+    roleArn: '',
+    endpoint: '',
+    forcePathStyle: false
+  };
+  const [s3Credentials, setS3Credentials] = useState(emptyCredentials);
 
   // Redirect to home if not authenticated
   useEffect(() => {
@@ -87,20 +118,46 @@ export default function EnhancedDashboard() {
 
   // Note: S3 connection invalidation is handled in connectMutation.onSuccess to avoid double-fetching
 
-  // Query S3 buckets when connected
+  // External ID the app sends when assuming the user's roles, for their trust policies
+  const { data: externalIdData } = useQuery<{ externalId: string }>({
+    queryKey: ["/api/s3/external-id"],
+    enabled: showConnectionModal && s3Credentials.type === 'role',
+    staleTime: Infinity,
+  });
+
+  const copyExternalId = async () => {
+    if (!externalIdData) return;
+    try {
+      await navigator.clipboard.writeText(externalIdData.externalId);
+      toast({ title: "Copied", description: "External ID copied to clipboard" });
+    } catch (error) {
+      toast({ title: "Copy Failed", description: "Select the ID and copy it manually", variant: "destructive" });
+    }
+  };
+
+  // Query S3 buckets of the active connection when connected
   const { data: s3BucketsData } = useQuery<S3BucketData>({
-    queryKey: ["/api/s3/buckets"],
+    queryKey: ["/api/s3/buckets", s3Status?.connectionId],
+    queryFn: () => {
+      const params = new URLSearchParams();
+      if (s3Status?.connectionId) {
+        params.append('connectionId', s3Status.connectionId.toString());
+      }
+      return fetch(`/api/s3/buckets?${params}`, { credentials: 'include' }).then(res => res.json());
+    },
     enabled: !!s3Status?.connected,
     retry: false,
   });
 
   const isS3Connected = s3Status?.connected || false;
+  const s3Connections = s3Status?.connections || [];
+  const activeConnection = {
+    connectionId: s3Status?.connectionId ?? undefined,
+    connectionName: s3Status?.connectionName ?? undefined,
+  };
   const s3Buckets = s3BucketsData?.buckets || [];
-  
-  // Filter buckets based on search query
-  const filteredS3Buckets = s3Buckets.filter(bucket => 
-    searchQuery === '' || bucket.name.toLowerCase().includes(searchQuery.toLowerCase())
-  );
+  // Search results replace the disk and file listings while there is a search
+  const isSearching = searchQuery.trim() !== '';
 
   const formatFileSize = (bytes: number) => {
     if (bytes === 0) return '0 Bytes';
@@ -110,6 +167,16 @@ export default function EnhancedDashboard() {
     return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
   };
 
+  // Refresh everything that depends on which S3 connection is active
+  const invalidateS3Queries = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/s3/status"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/s3/buckets"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/stats"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/files"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/analytics"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/s3/objects"] });
+  };
+
   // S3 Connection mutation  
   const connectMutation = useMutation({
     mutationFn: async (credentials: typeof s3Credentials) => {
@@ -129,14 +196,10 @@ export default function EnhancedDashboard() {
     },
     onSuccess: () => {
       // Invalidate all dependent queries to refresh dashboard data
-      queryClient.invalidateQueries({ queryKey: ["/api/s3/status"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/s3/buckets"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/stats"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/files"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/analytics"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/s3/objects"] });
+      invalidateS3Queries();
+      navigateToRoot();
       setShowConnectionModal(false);
-      setS3Credentials({ accessKeyId: '', secretAccessKey: '' });
+      setS3Credentials(emptyCredentials);
       toast({
         title: "Connection Successful",
         description: "S3 connection is active",
@@ -152,7 +215,85 @@ export default function EnhancedDashboard() {
     }
   });
 
+  // Switch the active S3 connection
+  const switchConnectionMutation = useMutation({
+    mutationFn: async (connectionId: number) => {
+      const response = await fetch(`/api/s3/connections/${connectionId}/activate`, {
+        method: 'POST',
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || 'Failed to switch connection');
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateS3Queries();
+      navigateToRoot();
+      setShowConnectionModal(false);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Switch Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  });
+
+  // Remove a saved S3 connection
+  const removeConnectionMutation = useMutation({
+    mutationFn: async (connectionId: number) => {
+      const response = await fetch('/api/s3/disconnect', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ connectionId }),
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || 'Failed to remove connection');
+      }
+
+      return response.json();
+    },
+    onSuccess: (_, connectionId) => {
+      invalidateS3Queries();
+      if (currentLocation.connectionId === connectionId) {
+        navigateToRoot();
+      }
+      toast({
+        title: "Connection Removed",
+        description: "The S3 connection has been removed",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Remove Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  });
+
   const handleS3Connect = () => {
+    if (s3Credentials.type === 'role') {
+      if (!s3Credentials.roleArn) {
+        toast({
+          title: "Missing Role ARN",
+          description: "Please enter the ARN of the role to assume",
+          variant: "destructive",
+        });
+        return;
+      }
+      // Role connections authenticate through STS only, so drop any keys typed earlier
+      connectMutation.mutate({ ...s3Credentials, accessKeyId: '', secretAccessKey: '', endpoint: '' });
+      return;
+    }
     if (!s3Credentials.accessKeyId || !s3Credentials.secretAccessKey) {
       toast({
         title: "Missing Credentials",
@@ -197,7 +338,7 @@ export default function EnhancedDashboard() {
               {isS3Connected ? (
                 <>
                   <Wifi className="h-4 w-4" />
-                  <span>Connected</span>
+                  <span>{s3Status?.connectionName || 'Connected'}</span>
                 </>
               ) : (
                 <>
@@ -238,6 +379,11 @@ export default function EnhancedDashboard() {
                   <p className="text-2xl font-bold text-gray-900">
                     {statsLoading ? "..." : formatFileSize(stats?.totalSize || 0)}
                   </p>
+                  {!statsLoading && !!stats?.trashedFiles && (
+                    <p className="text-xs text-gray-500" data-testid="text-trashed-size">
+                      + {formatFileSize(stats.trashedSize || 0)} in trash
+                    </p>
+                  )}
                 </div>
               </div>
             </CardContent>
@@ -292,11 +438,11 @@ export default function EnhancedDashboard() {
               </div>
               
               <div className="flex items-center space-x-4">
-                {/* Search functionality replacing filters */}
+                {/* Searches files and indexed disks on the server */}
                 <div className="relative">
                   <Input 
                     type="text" 
-                    placeholder={currentLocation.type === 'root' ? "Search files and folders" : "Search disks..."} 
+                    placeholder="Search files..." 
                     className="pl-10 pr-4 py-2 w-64"
                     value={searchQuery}
                     onChange={(e) => setSearchQuery(e.target.value)}
@@ -330,7 +476,9 @@ export default function EnhancedDashboard() {
                   </div>
                   <div>
                     <h4 className="font-medium text-blue-900">Selected Disk</h4>
-                    <p className="text-blue-700">{currentLocation.name}</p>
+                    <p className="text-blue-700">
+                      {currentLocation.connectionName ? `${currentLocation.connectionName} / ` : ''}{currentLocation.name}
+                    </p>
                   </div>
                   <Badge variant="outline" className="bg-blue-100 text-blue-800 ml-auto">
                     Connected
@@ -348,7 +496,9 @@ export default function EnhancedDashboard() {
                   </div>
                   <div>
                     <h4 className="font-medium text-blue-900">S3 Folder: {currentLocation.name}</h4>
-                    <p className="text-blue-700">Bucket: {currentLocation.bucketName}</p>
+                    <p className="text-blue-700">
+                      Bucket: {currentLocation.connectionName ? `${currentLocation.connectionName} / ` : ''}{currentLocation.bucketName}
+                    </p>
                   </div>
                   <Badge variant="outline" className="bg-blue-100 text-blue-800 ml-auto">
                     S3 Folder
@@ -358,18 +508,11 @@ export default function EnhancedDashboard() {
             )}
             
             {/* S3 Buckets Selection (only when at root and connected) */}
-            {isS3Connected && currentLocation.type === 'root' && s3Buckets.length > 0 && (
+            {!isSearching && isS3Connected && currentLocation.type === 'root' && s3Buckets.length > 0 && (
               <div className="mb-6">
                 <h4 className="text-md font-medium text-gray-700 mb-3">Available Disks</h4>
-                {filteredS3Buckets.length === 0 && searchQuery !== '' ? (
-                  <div className="text-center py-8">
-                    <Database className="h-12 w-12 text-gray-400 mx-auto mb-4" />
-                    <p className="text-gray-500">No disks found matching "{searchQuery}"</p>
-                    <p className="text-sm text-gray-400">Try a different search term</p>
-                  </div>
-                ) : (
-                  <div className="space-y-3">
-                    {filteredS3Buckets.map((bucket) => (
+                <div className="space-y-3">
+                    {s3Buckets.map((bucket) => (
                     <Card 
                       key={bucket.name}
                       className="cursor-pointer hover:shadow-md transition-shadow border-blue-200 bg-blue-50"
@@ -382,11 +525,13 @@ export default function EnhancedDashboard() {
                             onClick={() => {
                               const newPath = [...currentLocation.path, {
                                 type: 's3-bucket',
-                                name: bucket.name
+                                name: bucket.name,
+                                ...activeConnection
                               }];
                               navigateTo({
                                 type: 's3-bucket',
                                 name: bucket.name,
+                                ...activeConnection,
                                 path: newPath
                               });
                             }}
@@ -407,11 +552,13 @@ export default function EnhancedDashboard() {
                               // Navigate to bucket first, then trigger file upload
                               const newPath = [...currentLocation.path, {
                                 type: 's3-bucket',
-                                name: bucket.name
+                                name: bucket.name,
+                                ...activeConnection
                               }];
                               navigateTo({
                                 type: 's3-bucket',
                                 name: bucket.name,
+                                ...activeConnection,
                                 path: newPath
                               });
                               // Trigger file input after navigation
@@ -428,14 +575,17 @@ export default function EnhancedDashboard() {
                       </CardContent>
                     </Card>
                   ))}
-                  </div>
-                )}
+                </div>
               </div>
             )}
             
+            {isSearching && (
+              <SearchResults query={searchQuery} onOpen={() => setSearchQuery('')} />
+            )}
+
             {/* Only show FileTable when not displaying S3 buckets at root level */}
-            {!(isS3Connected && currentLocation.type === 'root' && s3Buckets.length > 0) && (
-              <FileTable searchQuery={searchQuery} />
+            {!isSearching && !(isS3Connected && currentLocation.type === 'root' && s3Buckets.length > 0) && (
+              <FileTable />
             )}
           </CardContent>
         </Card>
@@ -483,51 +633,251 @@ export default function EnhancedDashboard() {
               </DialogTitle>
               <DialogDescription className="text-gray-600 dark:text-gray-400 mt-2 leading-relaxed">
                 Enter your AWS credentials to connect to your S3 buckets and access your files.
+                Save one connection per account and switch between them here.
               </DialogDescription>
             </DialogHeader>
+
+            {/* Saved connections (switcher) */}
+            {s3Connections.length > 0 && (
+              <div className="space-y-2 pb-2" data-testid="list-s3-connections">
+                <Label className="text-sm font-semibold text-gray-700 dark:text-gray-300">
+                  Saved Connections
+                </Label>
+                {s3Connections.map((connection) => (
+                  <div
+                    key={connection.id}
+                    className="flex items-center justify-between p-3 bg-white/80 dark:bg-gray-800/80 border border-gray-200 dark:border-gray-600 rounded-xl"
+                    data-testid={`row-connection-${connection.id}`}
+                  >
+                    <div className="min-w-0">
+                      <p className="font-medium text-gray-900 dark:text-white truncate">{connection.name}</p>
+                      <p className="text-xs text-gray-500 truncate">
+                        {connection.type === 'role'
+                          ? connection.roleArn
+                          : connection.endpoint || connection.region || 'us-east-1'}
+                      </p>
+                      {connection.type === 'role' && connection.credentialsExpireAt && (
+                        <p className="text-xs text-gray-400" data-testid={`text-credentials-expiry-${connection.id}`}>
+                          Temporary credentials expire {formatDistanceToNow(new Date(connection.credentialsExpireAt), { addSuffix: true })}
+                        </p>
+                      )}
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      {connection.id === s3Status?.connectionId ? (
+                        <Badge variant="outline" className="bg-green-100 text-green-800">
+                          Active
+                        </Badge>
+                      ) : (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => switchConnectionMutation.mutate(connection.id)}
+                          disabled={switchConnectionMutation.isPending}
+                          data-testid={`button-switch-connection-${connection.id}`}
+                        >
+                          Switch
+                        </Button>
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => removeConnectionMutation.mutate(connection.id)}
+                        disabled={removeConnectionMutation.isPending}
+                        className="text-red-600 hover:text-red-700"
+                        data-testid={`button-remove-connection-${connection.id}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
             
             <div className="space-y-6 py-4">
               <div className="space-y-3">
-                <Label htmlFor="accessKeyId" className="text-sm font-semibold text-gray-700 dark:text-gray-300">
-                  Access Key ID
+                <Label htmlFor="connectionName" className="text-sm font-semibold text-gray-700 dark:text-gray-300">
+                  Connection Name
                 </Label>
                 <div className="relative group">
                   <Input
-                    id="accessKeyId"
+                    id="connectionName"
                     type="text"
-                    placeholder="Enter your AWS Access Key ID"
-                    value={s3Credentials.accessKeyId}
+                    placeholder="e.g. dev, staging, prod"
+                    value={s3Credentials.name}
                     onChange={(e) => setS3Credentials(prev => ({
                       ...prev,
-                      accessKeyId: e.target.value
+                      name: e.target.value
                     }))}
                     className="h-12 px-4 bg-white/80 dark:bg-gray-800/80 border-gray-200 dark:border-gray-600 rounded-xl shadow-sm focus:shadow-lg focus:border-blue-400 dark:focus:border-blue-500 transition-all duration-200 backdrop-blur-sm"
-                    data-testid="input-access-key"
+                    data-testid="input-connection-name"
                   />
                   <div className="absolute inset-0 rounded-xl bg-gradient-to-r from-blue-400/0 to-cyan-400/0 group-focus-within:from-blue-400/5 group-focus-within:to-cyan-400/5 pointer-events-none transition-all duration-300"></div>
                 </div>
               </div>
-              
+
               <div className="space-y-3">
-                <Label htmlFor="secretAccessKey" className="text-sm font-semibold text-gray-700 dark:text-gray-300">
-                  Secret Access Key
+                <Label className="text-sm font-semibold text-gray-700 dark:text-gray-300">
+                  Authentication
                 </Label>
-                <div className="relative group">
-                  <Input
-                    id="secretAccessKey"
-                    type="password"
-                    placeholder="Enter your AWS Secret Access Key"
-                    value={s3Credentials.secretAccessKey}
-                    onChange={(e) => setS3Credentials(prev => ({
-                      ...prev,
-                      secretAccessKey: e.target.value
-                    }))}
-                    className="h-12 px-4 bg-white/80 dark:bg-gray-800/80 border-gray-200 dark:border-gray-600 rounded-xl shadow-sm focus:shadow-lg focus:border-blue-400 dark:focus:border-blue-500 transition-all duration-200 backdrop-blur-sm"
-                    data-testid="input-secret-key"
-                  />
-                  <div className="absolute inset-0 rounded-xl bg-gradient-to-r from-blue-400/0 to-cyan-400/0 group-focus-within:from-blue-400/5 group-focus-within:to-cyan-400/5 pointer-events-none transition-all duration-300"></div>
+                <div className="grid grid-cols-2 gap-2">
+                  <Button
+                    type="button"
+                    variant={s3Credentials.type === 'keys' ? 'default' : 'outline'}
+                    onClick={() => setS3Credentials(prev => ({ ...prev, type: 'keys' }))}
+                    className="rounded-xl"
+                    data-testid="button-auth-keys"
+                  >
+                    Access keys
+                  </Button>
+                  <Button
+                    type="button"
+                    variant={s3Credentials.type === 'role' ? 'default' : 'outline'}
+                    onClick={() => setS3Credentials(prev => ({ ...prev, type: 'role' }))}
+                    className="rounded-xl"
+                    data-testid="button-auth-role"
+                  >
+                    Assume role
+                  </Button>
                 </div>
               </div>
+
+              {s3Credentials.type === 'keys' ? (
+                <>
+                  <div className="space-y-3">
+                    <Label htmlFor="accessKeyId" className="text-sm font-semibold text-gray-700 dark:text-gray-300">
+                      Access Key ID
+                    </Label>
+                    <div className="relative group">
+                      <Input
+                        id="accessKeyId"
+                        type="text"
+                        placeholder="Enter your AWS Access Key ID"
+                        value={s3Credentials.accessKeyId}
+                        onChange={(e) => setS3Credentials(prev => ({
+                          ...prev,
+                          accessKeyId: e.target.value
+                        }))}
+                        className="h-12 px-4 bg-white/80 dark:bg-gray-800/80 border-gray-200 dark:border-gray-600 rounded-xl shadow-sm focus:shadow-lg focus:border-blue-400 dark:focus:border-blue-500 transition-all duration-200 backdrop-blur-sm"
+                        data-testid="input-access-key"
+                      />
+                      <div className="absolute inset-0 rounded-xl bg-gradient-to-r from-blue-400/0 to-cyan-400/0 group-focus-within:from-blue-400/5 group-focus-within:to-cyan-400/5 pointer-events-none transition-all duration-300"></div>
+                    </div>
+                  </div>
+              
+                  <div className="space-y-3">
+                    <Label htmlFor="secretAccessKey" className="text-sm font-semibold text-gray-700 dark:text-gray-300">
+                      Secret Access Key
+                    </Label>
+                    <div className="relative group">
+                      <Input
+                        id="secretAccessKey"
+                        type="password"
+                        placeholder="Enter your AWS Secret Access Key"
+                        value={s3Credentials.secretAccessKey}
+                        onChange={(e) => setS3Credentials(prev => ({
+                          ...prev,
+                          secretAccessKey: e.target.value
+                        }))}
+                        className="h-12 px-4 bg-white/80 dark:bg-gray-800/80 border-gray-200 dark:border-gray-600 rounded-xl shadow-sm focus:shadow-lg focus:border-blue-400 dark:focus:border-blue-500 transition-all duration-200 backdrop-blur-sm"
+                        data-testid="input-secret-key"
+                      />
+                      <div className="absolute inset-0 rounded-xl bg-gradient-to-r from-blue-400/0 to-cyan-400/0 group-focus-within:from-blue-400/5 group-focus-within:to-cyan-400/5 pointer-events-none transition-all duration-300"></div>
+                    </div>
+                  </div>
+
+                  <div className="space-y-3">
+                    <Label htmlFor="endpoint" className="text-sm font-semibold text-gray-700 dark:text-gray-300">
+                      Endpoint URL (optional)
+                    </Label>
+                    <div className="relative group">
+                      <Input
+                        id="endpoint"
+                        type="url"
+                        placeholder="Leave empty for AWS, e.g. https://minio.example.com:9000"
+                        value={s3Credentials.endpoint}
+                        onChange={(e) => setS3Credentials(prev => ({
+                          ...prev,
+                          endpoint: e.target.value
+                        }))}
+                        className="h-12 px-4 bg-white/80 dark:bg-gray-800/80 border-gray-200 dark:border-gray-600 rounded-xl shadow-sm focus:shadow-lg focus:border-blue-400 dark:focus:border-blue-500 transition-all duration-200 backdrop-blur-sm"
+                        data-testid="input-endpoint"
+                      />
+                      <div className="absolute inset-0 rounded-xl bg-gradient-to-r from-blue-400/0 to-cyan-400/0 group-focus-within:from-blue-400/5 group-focus-within:to-cyan-400/5 pointer-events-none transition-all duration-300"></div>
+                    </div>
+                    {s3Credentials.endpoint && (
+                      <div className="flex items-center space-x-2">
+                        <Checkbox
+                          id="forcePathStyle"
+                          checked={s3Credentials.forcePathStyle}
+                          onCheckedChange={(checked) => setS3Credentials(prev => ({
+                            ...prev,
+                            forcePathStyle: checked === true
+                          }))}
+                          data-testid="checkbox-path-style"
+                        />
+                        <Label htmlFor="forcePathStyle" className="text-sm text-gray-600 dark:text-gray-400">
+                          Use path-style addressing (required by most MinIO and Ceph setups)
+                        </Label>
+                      </div>
+                    )}
+                  </div>
+                </>
+              ) : (
+                <>
+                  <div className="space-y-3">
+                    <Label htmlFor="roleArn" className="text-sm font-semibold text-gray-700 dark:text-gray-300">
+                      Role ARN
+                    </Label>
+                    <div className="relative group">
+                      <Input
+                        id="roleArn"
+                        type="text"
+                        placeholder="arn:aws:iam::123456789012:role/StorageAccess"
+                        value={s3Credentials.roleArn}
+                        onChange={(e) => setS3Credentials(prev => ({
+                          ...prev,
+                          roleArn: e.target.value
+                        }))}
+                        className="h-12 px-4 bg-white/80 dark:bg-gray-800/80 border-gray-200 dark:border-gray-600 rounded-xl shadow-sm focus:shadow-lg focus:border-blue-400 dark:focus:border-blue-500 transition-all duration-200 backdrop-blur-sm"
+                        data-testid="input-role-arn"
+                      />
+                      <div className="absolute inset-0 rounded-xl bg-gradient-to-r from-blue-400/0 to-cyan-400/0 group-focus-within:from-blue-400/5 group-focus-within:to-cyan-400/5 pointer-events-none transition-all duration-300"></div>
+                    </div>
+                  </div>
+
+                  <div className="space-y-3">
+                    <Label htmlFor="externalId" className="text-sm font-semibold text-gray-700 dark:text-gray-300">
+                      Your External ID
+                    </Label>
+                    <div className="flex gap-2">
+                      <Input
+                        id="externalId"
+                        type="text"
+                        readOnly
+                        value={externalIdData?.externalId ?? 'Loading...'}
+                        className="h-12 px-4 font-mono bg-gray-50 dark:bg-gray-800/80 border-gray-200 dark:border-gray-600 rounded-xl shadow-sm"
+                        data-testid="input-external-id"
+                      />
+                      <Button
+                        type="button"
+                        variant="outline"
+                        onClick={copyExternalId}
+                        disabled={!externalIdData}
+                        className="h-12 rounded-xl"
+                        data-testid="button-copy-external-id"
+                      >
+                        <Copy className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    The role's trust policy must allow this app's AWS identity to call sts:AssumeRole
+                    with the condition sts:ExternalId equal to your external ID; it is sent with every
+                    request and can't be changed. Temporary credentials are renewed automatically before they expire.
+                  </p>
+                </>
+              )}
             </div>
             
             <DialogFooter className="pt-8 gap-3">
@@ -0,0 +1,181 @@
+import { useState, useRef } from "react";
+import { useParams } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { useSharedLink } from "@/hooks/useSharedLink";
+import PublicShareLayout, { ShareError } from "@/components/public-share-layout";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { CheckCircle, Upload, FolderInput } from "lucide-react";
+import { format } from "date-fns";
+
+interface FileRequestData {
+  folder: {
+    name: string;
+  };
+  maxFileSize: number;
+  allowedTypes: string[] | null;
+  expiresAt: string | null;
+}
+
+const formatFileSize = (bytes: number) => {
+  if (bytes === 0) return '0 Bytes';
+  const k = 1024;
+  const sizes = ['Bytes', 'KB', 'MB', 'GB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+};
+
+// Public page behind a file request link: visitors send files into a folder they can't see
+export default function FileRequestPage() {
+  const { token } = useParams<{ token: string }>();
+  const { toast } = useToast();
+  const { password, setPassword, fetchShared } = useSharedLink();
+  const [uploaderName, setUploaderName] = useState("");
+  const [uploaderEmail, setUploaderEmail] = useState("");
+  const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
+  // Names of the files sent from this page so far
+  const [sentFiles, setSentFiles] = useState<string[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const url = `/api/shared/upload/${token}`;
+
+  const { data, error, isLoading } = useQuery<FileRequestData>({
+    queryKey: [url, password],
+    queryFn: () => fetchShared<FileRequestData>(url),
+  });
+
+  // Files are sent one at a time so each is checked against the limits on its own
+  const uploadMutation = useMutation({
+    mutationFn: async (files: File[]) => {
+      for (const file of files) {
+        const formData = new FormData();
+        formData.append('uploaderName', uploaderName);
+        formData.append('uploaderEmail', uploaderEmail);
+        formData.append('file', file);
+        await fetchShared(url, 'POST', formData);
+        setSentFiles((sent) => [...sent, file.name]);
+        setSelectedFiles((selected) => selected.filter((selectedFile) => selectedFile !== file));
+      }
+    },
+    onSuccess: (_, files) => {
+      if (fileInputRef.current) fileInputRef.current.value = "";
+      toast({
+        title: "Upload Complete",
+        description: `${files.length} file${files.length === 1 ? '' : 's'} sent`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Upload Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!data) return;
+
+    const tooLarge = selectedFiles.find((file) => file.size > data.maxFileSize);
+    if (tooLarge) {
+      toast({
+        title: "File Too Large",
+        description: `${tooLarge.name} is larger than ${formatFileSize(data.maxFileSize)}`,
+        variant: "destructive",
+      });
+      return;
+    }
+    uploadMutation.mutate(selectedFiles);
+  };
+
+  return (
+    <PublicShareLayout>
+      {isLoading ? (
+        <div className="flex items-center justify-center py-16">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+        </div>
+      ) : error ? (
+        <ShareError error={error} onPassword={setPassword} />
+      ) : data ? (
+        <Card className="max-w-xl mx-auto">
+          <CardContent className="p-6">
+            <div className="flex items-center space-x-3 mb-2">
+              <FolderInput className="h-8 w-8 text-primary" />
+              <div>
+                <h2 className="text-lg font-semibold text-gray-900">Send files to "{data.folder.name}"</h2>
+                <p className="text-sm text-gray-500">Only the folder's owner can see what you upload</p>
+              </div>
+            </div>
+            <p className="text-xs text-gray-500 mb-6">
+              Up to {formatFileSize(data.maxFileSize)} per file.
+              {data.allowedTypes && data.allowedTypes.length > 0 && ` Accepted types: ${data.allowedTypes.join(', ')}.`}
+              {data.expiresAt && ` Link expires ${format(new Date(data.expiresAt), 'PPp')}.`}
+            </p>
+
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-2">
+                  <Label htmlFor="uploader-name">Your name</Label>
+                  <Input
+                    id="uploader-name"
+                    value={uploaderName}
+                    onChange={(e) => setUploaderName(e.target.value)}
+                    required
+                    data-testid="input-uploader-name"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="uploader-email">Your email</Label>
+                  <Input
+                    id="uploader-email"
+                    type="email"
+                    value={uploaderEmail}
+                    onChange={(e) => setUploaderEmail(e.target.value)}
+                    required
+                    data-testid="input-uploader-email"
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="request-files">Files</Label>
+                <Input
+                  id="request-files"
+                  ref={fileInputRef}
+                  type="file"
+                  multiple
+                  accept={data.allowedTypes?.join(',')}
+                  onChange={(e) => setSelectedFiles(Array.from(e.target.files || []))}
+                  data-testid="input-request-files"
+                />
+              </div>
+              <Button
+                type="submit"
+                className="w-full"
+                disabled={selectedFiles.length === 0 || !uploaderName.trim() || !uploaderEmail.trim() || uploadMutation.isPending}
+                data-testid="button-send-files"
+              >
+                <Upload className="h-4 w-4 mr-2" />
+                {uploadMutation.isPending ? 'Uploading...' : 'Upload'}
+              </Button>
+            </form>
+
+            {sentFiles.length > 0 && (
+              <div className="mt-6 space-y-2">
+                <Label>Sent</Label>
+                {sentFiles.map((name, index) => (
+                  <div key={`${name}-${index}`} className="flex items-center text-sm text-gray-700">
+                    <CheckCircle className="h-4 w-4 text-green-600 mr-2" />
+                    {name}
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      ) : null}
+    </PublicShareLayout>
+  );
+}
@@ -0,0 +1,132 @@
+import { useParams } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { useSharedLink } from "@/hooks/useSharedLink";
+import PublicShareLayout, { ShareError } from "@/components/public-share-layout";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Download, FileText, FileImage, File as FileIcon } from "lucide-react";
+import { format, formatDistanceToNow } from "date-fns";
+
+interface SharedFileData {
+  file: {
+    name: string;
+    size: number;
+    mimeType: string;
+    uploadedAt: string;
+  };
+  previewUrl?: string;
+  expiresAt: string | null;
+  downloadsRemaining: number | null;
+}
+
+const formatFileSize = (bytes: number) => {
+  if (bytes === 0) return '0 Bytes';
+  const k = 1024;
+  const sizes = ['Bytes', 'KB', 'MB', 'GB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+};
+
+const getFileIcon = (mimeType: string) => {
+  if (mimeType.startsWith('image/')) {
+    return <FileImage className="h-16 w-16 text-purple-600" />;
+  } else if (mimeType.includes('pdf')) {
+    return <FileText className="h-16 w-16 text-red-600" />;
+  } else if (mimeType.includes('spreadsheet') || mimeType.includes('excel')) {
+    return <FileText className="h-16 w-16 text-green-600" />;
+  } else {
+    return <FileIcon className="h-16 w-16 text-gray-600" />;
+  }
+};
+
+// Public page behind a file share link
+export default function SharedFilePage() {
+  const { token } = useParams<{ token: string }>();
+  const { toast } = useToast();
+  const { password, setPassword, fetchShared } = useSharedLink();
+  const url = `/api/shared/file/${token}`;
+
+  const { data, error, isLoading } = useQuery<SharedFileData>({
+    queryKey: [url, password],
+    queryFn: () => fetchShared<SharedFileData>(url),
+  });
+
+  const downloadMutation = useMutation({
+    mutationFn: async () => {
+      const { downloadUrl } = await fetchShared<{ downloadUrl: string }>(`${url}/download`, 'POST');
+      return downloadUrl;
+    },
+    onSuccess: (downloadUrl) => {
+      window.location.href = downloadUrl;
+    },
+    onError: (error) => {
+      toast({
+        title: "Download Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const renderPreview = (file: SharedFileData['file'], previewUrl?: string) => {
+    if (previewUrl && file.mimeType.startsWith('image/')) {
+      return <img src={previewUrl} alt={file.name} className="max-h-[60vh] mx-auto rounded" />;
+    }
+    if (previewUrl && file.mimeType.startsWith('video/')) {
+      return <video src={previewUrl} controls className="max-h-[60vh] w-full rounded" />;
+    }
+    if (previewUrl && file.mimeType.startsWith('audio/')) {
+      return <audio src={previewUrl} controls className="w-full" />;
+    }
+    return (
+      <div className="flex items-center justify-center py-12">
+        {getFileIcon(file.mimeType)}
+      </div>
+    );
+  };
+
+  return (
+    <PublicShareLayout>
+      {isLoading ? (
+        <div className="flex items-center justify-center py-16">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+        </div>
+      ) : error ? (
+        <ShareError error={error} onPassword={setPassword} />
+      ) : data ? (
+        <Card>
+          <CardContent className="p-6 space-y-6">
+            <div className="bg-gray-50 rounded-lg p-4" data-testid="shared-file-preview">
+              {renderPreview(data.file, data.previewUrl)}
+            </div>
+
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+              <div>
+                <h2 className="text-2xl font-bold text-gray-900 break-all" data-testid="text-shared-file-name">
+                  {data.file.name}
+                </h2>
+                <p className="text-sm text-gray-600 mt-1">
+                  {formatFileSize(data.file.size)} · Uploaded {formatDistanceToNow(new Date(data.file.uploadedAt), { addSuffix: true })}
+                </p>
+                <p className="text-xs text-gray-500 mt-1">
+                  {data.expiresAt && `Link expires ${format(new Date(data.expiresAt), 'PPp')}. `}
+                  {data.downloadsRemaining !== null && `${data.downloadsRemaining} downloads remaining.`}
+                </p>
+              </div>
+              <Button
+                size="lg"
+                onClick={() => downloadMutation.mutate()}
+                disabled={downloadMutation.isPending}
+                data-testid="button-download-shared-file"
+              >
+                <Download className="h-5 w-5 mr-2" />
+                Download
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      ) : null}
+    </PublicShareLayout>
+  );
+}
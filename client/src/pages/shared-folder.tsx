@@ -0,0 +1,244 @@
+import { useState, useEffect } from "react";
+import { useParams } from "wouter";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { useSharedLink } from "@/hooks/useSharedLink";
+import { submitDownloadForm } from "@/lib/downloadUtils";
+import PublicShareLayout, { ShareError } from "@/components/public-share-layout";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import { ChevronRight, Download, FileText, FileImage, File as FileIcon, Folder } from "lucide-react";
+import { format, formatDistanceToNow } from "date-fns";
+
+interface SharedFolderData {
+  folder: {
+    id: number;
+    name: string;
+    createdAt: string;
+  };
+  files: {
+    id: number;
+    name: string;
+    size: number;
+    mimeType: string;
+    uploadedAt: string;
+  }[];
+  subfolders: {
+    id: number;
+    name: string;
+    createdAt: string;
+  }[];
+  expiresAt: string | null;
+  downloadsRemaining: number | null;
+}
+
+const formatFileSize = (bytes: number) => {
+  if (bytes === 0) return '0 Bytes';
+  const k = 1024;
+  const sizes = ['Bytes', 'KB', 'MB', 'GB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+};
+
+const getFileIcon = (mimeType: string) => {
+  if (mimeType.startsWith('image/')) {
+    return <FileImage className="h-5 w-5 text-purple-600" />;
+  } else if (mimeType.includes('pdf')) {
+    return <FileText className="h-5 w-5 text-red-600" />;
+  } else if (mimeType.includes('spreadsheet') || mimeType.includes('excel')) {
+    return <FileText className="h-5 w-5 text-green-600" />;
+  } else {
+    return <FileIcon className="h-5 w-5 text-gray-600" />;
+  }
+};
+
+// Public page behind a folder share link; subfolders open in place
+export default function SharedFolderPage() {
+  const { token } = useParams<{ token: string }>();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { password, setPassword, fetchShared } = useSharedLink();
+  // Subfolders opened below the shared folder, outermost first
+  const [path, setPath] = useState<{ id: number; name: string }[]>([]);
+
+  const current = path[path.length - 1];
+  const url = current
+    ? `/api/shared/folder/${token}/folders/${current.id}`
+    : `/api/shared/folder/${token}`;
+
+  const { data, error, isLoading } = useQuery<SharedFolderData>({
+    queryKey: [url, password],
+    queryFn: () => fetchShared<SharedFolderData>(url),
+  });
+
+  // The listing only names the folder being viewed, so remember the shared folder's name
+  const [rootName, setRootName] = useState("");
+  useEffect(() => {
+    if (path.length === 0 && data) setRootName(data.folder.name);
+  }, [path, data]);
+
+  const fileDownloadMutation = useMutation({
+    mutationFn: async (fileId: number) => {
+      const { downloadUrl } = await fetchShared<{ downloadUrl: string }>(
+        `/api/shared/folder/${token}/files/${fileId}/download`,
+        'POST'
+      );
+      return downloadUrl;
+    },
+    onSuccess: (downloadUrl) => {
+      queryClient.invalidateQueries({ queryKey: [url] });
+      window.location.href = downloadUrl;
+    },
+    onError: (error) => {
+      toast({
+        title: "Download Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const downloadFolder = () => {
+    submitDownloadForm(`${url}/download`, password ? { password } : {}, (message) => {
+      toast({
+        title: "Download Failed",
+        description: message,
+        variant: "destructive",
+      });
+    });
+    setTimeout(() => queryClient.invalidateQueries({ queryKey: [url] }), 1000);
+  };
+
+  const canDownload = data?.downloadsRemaining !== 0;
+
+  return (
+    <PublicShareLayout>
+      {isLoading ? (
+        <div className="flex items-center justify-center py-16">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+        </div>
+      ) : error ? (
+        <ShareError error={error} onPassword={setPassword} />
+      ) : data ? (
+        <Card>
+          <CardContent className="p-6">
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-2">
+              {/* Breadcrumb */}
+              <nav className="flex items-center flex-wrap text-sm">
+                <button
+                  className={path.length === 0 ? "font-semibold text-gray-900" : "text-primary hover:underline"}
+                  onClick={() => setPath([])}
+                  data-testid="button-shared-folder-root"
+                >
+                  {rootName || data.folder.name}
+                </button>
+                {path.map((segment, index) => (
+                  <span key={segment.id} className="flex items-center">
+                    <ChevronRight className="h-4 w-4 mx-1 text-gray-400" />
+                    <button
+                      className={index === path.length - 1 ? "font-semibold text-gray-900" : "text-primary hover:underline"}
+                      onClick={() => setPath(path.slice(0, index + 1))}
+                    >
+                      {segment.name}
+                    </button>
+                  </span>
+                ))}
+              </nav>
+              <Button
+                onClick={downloadFolder}
+                disabled={!canDownload}
+                data-testid="button-download-shared-folder"
+              >
+                <Download className="h-4 w-4 mr-2" />
+                Download all
+              </Button>
+            </div>
+            <p className="text-xs text-gray-500 mb-4">
+              {data.expiresAt && `Link expires ${format(new Date(data.expiresAt), 'PPp')}. `}
+              {data.downloadsRemaining !== null && `${data.downloadsRemaining} downloads remaining.`}
+            </p>
+
+            {data.subfolders.length === 0 && data.files.length === 0 ? (
+              <div className="text-center py-8">
+                <Folder className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+                <p className="text-gray-500">This folder is empty</p>
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Size</TableHead>
+                      <TableHead>Modified</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {data.subfolders.map((folder) => (
+                      <TableRow
+                        key={`folder-${folder.id}`}
+                        className="hover:bg-gray-50 cursor-pointer"
+                        onClick={() => setPath([...path, { id: folder.id, name: folder.name }])}
+                        data-testid={`row-shared-folder-${folder.id}`}
+                      >
+                        <TableCell>
+                          <div className="flex items-center space-x-3">
+                            <div className="w-8 h-8 bg-blue-100 rounded flex items-center justify-center">
+                              <Folder className="h-5 w-5 text-blue-600" />
+                            </div>
+                            <span className="font-medium">{folder.name}</span>
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-gray-600">-</TableCell>
+                        <TableCell className="text-gray-600">
+                          {formatDistanceToNow(new Date(folder.createdAt), { addSuffix: true })}
+                        </TableCell>
+                        <TableCell />
+                      </TableRow>
+                    ))}
+                    {data.files.map((file) => (
+                      <TableRow key={`file-${file.id}`} data-testid={`row-shared-file-${file.id}`}>
+                        <TableCell>
+                          <div className="flex items-center space-x-3">
+                            <div className="w-8 h-8 bg-gray-100 rounded flex items-center justify-center">
+                              {getFileIcon(file.mimeType)}
+                            </div>
+                            <span className="font-medium text-gray-900">{file.name}</span>
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-gray-600">{formatFileSize(file.size)}</TableCell>
+                        <TableCell className="text-gray-600">
+                          {formatDistanceToNow(new Date(file.uploadedAt), { addSuffix: true })}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => fileDownloadMutation.mutate(file.id)}
+                            disabled={!canDownload || fileDownloadMutation.isPending}
+                            data-testid={`button-download-shared-file-${file.id}`}
+                          >
+                            <Download className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      ) : null}
+    </PublicShareLayout>
+  );
+}
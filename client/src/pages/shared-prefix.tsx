@@ -0,0 +1,253 @@
+import { useState } from "react";
+import { useParams } from "wouter";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { useSharedLink } from "@/hooks/useSharedLink";
+import { submitDownloadForm } from "@/lib/downloadUtils";
+import PublicShareLayout, { ShareError } from "@/components/public-share-layout";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import { ChevronRight, Download, File as FileIcon, Folder } from "lucide-react";
+import { format, formatDistanceToNow } from "date-fns";
+
+// Keys and prefixes are relative to the shared prefix
+interface SharedPrefixData {
+  name: string;
+  objects: {
+    key: string;
+    size: number;
+    lastModified?: string;
+  }[];
+  prefixes: string[];
+  nextToken?: string;
+  expiresAt: string | null;
+  downloadsRemaining: number | null;
+}
+
+const formatFileSize = (bytes: number) => {
+  if (bytes === 0) return '0 Bytes';
+  const k = 1024;
+  const sizes = ['Bytes', 'KB', 'MB', 'GB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+};
+
+// The last segment of a key or prefix
+const baseName = (key: string) => key.replace(/\/$/, '').split('/').pop() || key;
+
+// Public page behind a share link for a prefix in a connected bucket; works like the
+// shared folder page, with sub-prefixes as folders
+export default function SharedPrefixPage() {
+  const { token } = useParams<{ token: string }>();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { password, setPassword, fetchShared } = useSharedLink();
+  // Prefix being viewed, relative to the shared prefix ('' for the shared prefix itself)
+  const [path, setPath] = useState("");
+  // Continuation tokens of the pages before the one being viewed
+  const [pageTokens, setPageTokens] = useState<string[]>([]);
+
+  const baseUrl = `/api/shared/prefix/${token}`;
+  const pageToken = pageTokens[pageTokens.length - 1];
+  const params = new URLSearchParams({
+    ...(path ? { path } : {}),
+    ...(pageToken ? { token: pageToken } : {}),
+  }).toString();
+  const url = params ? `${baseUrl}?${params}` : baseUrl;
+
+  const { data, error, isLoading } = useQuery<SharedPrefixData>({
+    queryKey: [url, password],
+    queryFn: () => fetchShared<SharedPrefixData>(url),
+  });
+
+  const openPath = (newPath: string) => {
+    setPath(newPath);
+    setPageTokens([]);
+  };
+
+  const objectDownloadMutation = useMutation({
+    mutationFn: async (key: string) => {
+      const { downloadUrl } = await fetchShared<{ downloadUrl: string }>(
+        `${baseUrl}/objects/download?${new URLSearchParams({ key })}`,
+        'POST'
+      );
+      return downloadUrl;
+    },
+    onSuccess: (downloadUrl) => {
+      queryClient.invalidateQueries({ queryKey: [url] });
+      window.location.href = downloadUrl;
+    },
+    onError: (error) => {
+      toast({
+        title: "Download Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const downloadPrefix = () => {
+    const action = path ? `${baseUrl}/download?${new URLSearchParams({ path })}` : `${baseUrl}/download`;
+    submitDownloadForm(action, password ? { password } : {}, (message) => {
+      toast({
+        title: "Download Failed",
+        description: message,
+        variant: "destructive",
+      });
+    });
+    setTimeout(() => queryClient.invalidateQueries({ queryKey: [url] }), 1000);
+  };
+
+  const canDownload = data?.downloadsRemaining !== 0;
+  const segments = path ? path.slice(0, -1).split('/') : [];
+
+  return (
+    <PublicShareLayout>
+      {isLoading ? (
+        <div className="flex items-center justify-center py-16">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+        </div>
+      ) : error ? (
+        <ShareError error={error} onPassword={setPassword} />
+      ) : data ? (
+        <Card>
+          <CardContent className="p-6">
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-2">
+              {/* Breadcrumb */}
+              <nav className="flex items-center flex-wrap text-sm">
+                <button
+                  className={segments.length === 0 ? "font-semibold text-gray-900" : "text-primary hover:underline"}
+                  onClick={() => openPath("")}
+                  data-testid="button-shared-prefix-root"
+                >
+                  {data.name}
+                </button>
+                {segments.map((segment, index) => (
+                  <span key={index} className="flex items-center">
+                    <ChevronRight className="h-4 w-4 mx-1 text-gray-400" />
+                    <button
+                      className={index === segments.length - 1 ? "font-semibold text-gray-900" : "text-primary hover:underline"}
+                      onClick={() => openPath(segments.slice(0, index + 1).join('/') + '/')}
+                    >
+                      {segment}
+                    </button>
+                  </span>
+                ))}
+              </nav>
+              <Button
+                onClick={downloadPrefix}
+                disabled={!canDownload}
+                data-testid="button-download-shared-prefix"
+              >
+                <Download className="h-4 w-4 mr-2" />
+                Download all
+              </Button>
+            </div>
+            <p className="text-xs text-gray-500 mb-4">
+              {data.expiresAt && `Link expires ${format(new Date(data.expiresAt), 'PPp')}. `}
+              {data.downloadsRemaining !== null && `${data.downloadsRemaining} downloads remaining.`}
+            </p>
+
+            {data.prefixes.length === 0 && data.objects.length === 0 ? (
+              <div className="text-center py-8">
+                <Folder className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+                <p className="text-gray-500">This folder is empty</p>
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Size</TableHead>
+                      <TableHead>Modified</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {data.prefixes.map((prefix) => (
+                      <TableRow
+                        key={`prefix-${prefix}`}
+                        className="hover:bg-gray-50 cursor-pointer"
+                        onClick={() => openPath(prefix)}
+                        data-testid={`row-shared-prefix-${prefix}`}
+                      >
+                        <TableCell>
+                          <div className="flex items-center space-x-3">
+                            <div className="w-8 h-8 bg-blue-100 rounded flex items-center justify-center">
+                              <Folder className="h-5 w-5 text-blue-600" />
+                            </div>
+                            <span className="font-medium">{baseName(prefix)}</span>
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-gray-600">-</TableCell>
+                        <TableCell className="text-gray-600">-</TableCell>
+                        <TableCell />
+                      </TableRow>
+                    ))}
+                    {data.objects.map((object) => (
+                      <TableRow key={`object-${object.key}`} data-testid={`row-shared-object-${object.key}`}>
+                        <TableCell>
+                          <div className="flex items-center space-x-3">
+                            <div className="w-8 h-8 bg-gray-100 rounded flex items-center justify-center">
+                              <FileIcon className="h-5 w-5 text-gray-600" />
+                            </div>
+                            <span className="font-medium text-gray-900">{baseName(object.key)}</span>
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-gray-600">{formatFileSize(object.size)}</TableCell>
+                        <TableCell className="text-gray-600">
+                          {object.lastModified ? formatDistanceToNow(new Date(object.lastModified), { addSuffix: true }) : '-'}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => objectDownloadMutation.mutate(object.key)}
+                            disabled={!canDownload || objectDownloadMutation.isPending}
+                            data-testid={`button-download-shared-object-${object.key}`}
+                          >
+                            <Download className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+
+            {(pageTokens.length > 0 || data.nextToken) && (
+              <div className="flex justify-end space-x-2 mt-4">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPageTokens(pageTokens.slice(0, -1))}
+                  disabled={pageTokens.length === 0}
+                >
+                  Previous
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPageTokens([...pageTokens, data.nextToken!])}
+                  disabled={!data.nextToken}
+                >
+                  Next
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      ) : null}
+    </PublicShareLayout>
+  );
+}
@@ -1,8 +1,13 @@
-import { useEffect } from "react";
+import { useEffect, useState } from "react";
+import { useLocation } from "wouter";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
-import { useQuery } from "@tanstack/react-query";
+import { useNavigation } from "@/hooks/useNavigation";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import Sidebar from "@/components/sidebar";
+import ShareModal from "@/components/share-modal";
+import FileThumbnail from "@/components/file-thumbnail";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
@@ -20,13 +25,23 @@ import {
   FileImage, 
   File as FileIcon,
   Folder,
-  Copy
+  Share
 } from "lucide-react";
 import { formatDistanceToNow } from "date-fns";
 
+// Files and folders other users shared with the current user, and the role they granted
+interface SharedWithMe {
+  files: { id: number; name: string; size: number; mimeType: string; updatedAt: string; role: 'viewer' | 'editor'; ownerEmail: string | null }[];
+  folders: { id: number; name: string; createdAt: string; role: 'viewer' | 'editor'; ownerEmail: string | null }[];
+}
+
 export default function Shared() {
   const { toast } = useToast();
   const { isAuthenticated, isLoading } = useAuth();
+  const [, setLocation] = useLocation();
+  const { navigateTo } = useNavigation();
+  // Item whose share links are being managed
+  const [shareTarget, setShareTarget] = useState<{ item: { id: number; name: string }; type: 'file' | 'folder' } | null>(null);
 
   // Redirect to home if not authenticated
   useEffect(() => {
@@ -53,6 +68,64 @@ export default function Shared() {
   const sharedFiles = files.filter(file => file.isShared);
   const sharedFolders = folders.filter(folder => folder.isShared);
 
+  const { data: sharedWithMe } = useQuery<SharedWithMe>({
+    queryKey: ["/api/shared-with-me"],
+    retry: false,
+  });
+  const filesSharedWithMe = sharedWithMe?.files || [];
+  const foldersSharedWithMe = sharedWithMe?.folders || [];
+
+  // Folders shared with the user open in My Files, like their own
+  const openFolder = (folder: { id: number; name: string }) => {
+    navigateTo({
+      type: 'folder',
+      id: folder.id,
+      name: folder.name,
+      path: [
+        { type: 'root', name: 'My Files' },
+        { type: 'folder', id: folder.id, name: folder.name },
+      ],
+    });
+    setLocation("/files");
+  };
+
+  const downloadMutation = useMutation({
+    mutationFn: async (fileId: number) => {
+      const response = await fetch(`/api/files/${fileId}/download`, {
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`${response.status}: ${errorText}`);
+      }
+
+      const data = await response.json();
+      return data.downloadUrl;
+    },
+    onSuccess: (downloadUrl) => {
+      window.open(downloadUrl, '_blank');
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Download Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const formatFileSize = (bytes: number) => {
     if (bytes === 0) return '0 Bytes';
     const k = 1024;
@@ -73,25 +146,6 @@ export default function Shared() {
     }
   };
 
-  const copyShareLink = async (token: string, type: 'file' | 'folder') => {
-    const baseUrl = window.location.origin;
-    const shareUrl = `${baseUrl}/api/shared/${type}/${token}`;
-    
-    try {
-      await navigator.clipboard.writeText(shareUrl);
-      toast({
-        title: "Copied!",
-        description: "Share link copied to clipboard",
-      });
-    } catch (error) {
-      toast({
-        title: "Failed to copy",
-        description: "Could not copy to clipboard",
-        variant: "destructive",
-      });
-    }
-  };
-
   if (isLoading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -108,10 +162,96 @@ export default function Shared() {
         <div className="flex items-center justify-between mb-8">
           <div>
             <h2 className="text-3xl font-bold text-gray-900">Shared Items</h2>
-            <p className="text-gray-600 mt-1">Files and folders you've shared with others</p>
+            <p className="text-gray-600 mt-1">Files and folders you've shared with others, and ones others shared with you</p>
           </div>
         </div>
 
+        {/* Shared with me */}
+        {(filesSharedWithMe.length > 0 || foldersSharedWithMe.length > 0) && (
+          <Card className="mb-8">
+            <CardContent className="p-6">
+              <h3 className="text-lg font-semibold text-gray-900 mb-4">Shared with me</h3>
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Owner</TableHead>
+                      <TableHead>Access</TableHead>
+                      <TableHead>Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {foldersSharedWithMe.map((folder) => (
+                      <TableRow
+                        key={`folder-${folder.id}`}
+                        className="hover:bg-gray-50 cursor-pointer"
+                        onClick={() => openFolder(folder)}
+                        data-testid={`row-shared-with-me-folder-${folder.id}`}
+                      >
+                        <TableCell>
+                          <div className="flex items-center space-x-3">
+                            <div className="w-8 h-8 bg-blue-100 rounded flex items-center justify-center">
+                              <Folder className="h-5 w-5 text-blue-600" />
+                            </div>
+                            <span className="font-medium">{folder.name}</span>
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-gray-600">{folder.ownerEmail}</TableCell>
+                        <TableCell>
+                          <Badge variant="outline" className="capitalize">{folder.role}</Badge>
+                        </TableCell>
+                        <TableCell>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              openFolder(folder);
+                            }}
+                          >
+                            <Folder className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                    {filesSharedWithMe.map((file) => (
+                      <TableRow key={`file-${file.id}`} data-testid={`row-shared-with-me-file-${file.id}`}>
+                        <TableCell>
+                          <div className="flex items-center space-x-3">
+                            <div className="w-8 h-8 bg-gray-100 rounded flex items-center justify-center overflow-hidden">
+                              <FileThumbnail file={file} fallback={getFileIcon(file.mimeType)} />
+                            </div>
+                            <div>
+                              <p className="font-medium text-gray-900">{file.name}</p>
+                              <p className="text-sm text-gray-500">{formatFileSize(file.size)}</p>
+                            </div>
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-gray-600">{file.ownerEmail}</TableCell>
+                        <TableCell>
+                          <Badge variant="outline" className="capitalize">{file.role}</Badge>
+                        </TableCell>
+                        <TableCell>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => downloadMutation.mutate(file.id)}
+                            disabled={downloadMutation.isPending}
+                            data-testid={`button-download-shared-with-me-${file.id}`}
+                          >
+                            <Download className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Shared Folders */}
         {sharedFolders.length > 0 && (
           <Card className="mb-8">
@@ -144,9 +284,10 @@ export default function Shared() {
                           <Button
                             variant="ghost"
                             size="sm"
-                            onClick={() => copyShareLink(folder.shareToken, 'folder')}
+                            onClick={() => setShareTarget({ item: folder, type: 'folder' })}
+                            data-testid={`button-share-links-folder-${folder.id}`}
                           >
-                            <Copy className="h-4 w-4" />
+                            <Share className="h-4 w-4" />
                           </Button>
                         </TableCell>
                       </TableRow>
@@ -189,8 +330,8 @@ export default function Shared() {
                       <TableRow key={file.id}>
                         <TableCell>
                           <div className="flex items-center space-x-3">
-                            <div className="w-8 h-8 bg-gray-100 rounded flex items-center justify-center">
-                              {getFileIcon(file.mimeType)}
+                            <div className="w-8 h-8 bg-gray-100 rounded flex items-center justify-center overflow-hidden">
+                              <FileThumbnail file={file} fallback={getFileIcon(file.mimeType)} />
                             </div>
                             <div>
                               <p className="font-medium text-gray-900">{file.name}</p>
@@ -210,9 +351,10 @@ export default function Shared() {
                           <Button
                             variant="ghost"
                             size="sm"
-                            onClick={() => copyShareLink(file.shareToken, 'file')}
+                            onClick={() => setShareTarget({ item: file, type: 'file' })}
+                            data-testid={`button-share-links-file-${file.id}`}
                           >
-                            <Copy className="h-4 w-4" />
+                            <Share className="h-4 w-4" />
                           </Button>
                         </TableCell>
                       </TableRow>
@@ -224,6 +366,13 @@ export default function Shared() {
           </CardContent>
         </Card>
       </main>
+
+      <ShareModal
+        isOpen={!!shareTarget}
+        onClose={() => setShareTarget(null)}
+        file={shareTarget?.item ?? null}
+        type={shareTarget?.type}
+      />
     </div>
   );
 }
\ No newline at end of file
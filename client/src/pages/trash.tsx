@@ -0,0 +1,349 @@
+import { useEffect, useState } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import Sidebar from "@/components/sidebar";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  RotateCcw,
+  Trash2,
+  FileText,
+  FileImage,
+  File as FileIcon,
+  Folder
+} from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+
+interface TrashItem {
+  id: number;
+  name: string;
+  deletedAt: string;
+  purgeAt: string;
+}
+
+interface TrashedFile extends TrashItem {
+  mimeType: string;
+  size: number;
+}
+
+interface TrashData {
+  files: TrashedFile[];
+  folders: TrashItem[];
+  retentionDays: number;
+}
+
+type PendingDelete = { type: 'file' | 'folder'; id: number } | { type: 'all' };
+
+export default function Trash() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { isAuthenticated, isLoading } = useAuth();
+  const [pendingDelete, setPendingDelete] = useState<PendingDelete | null>(null);
+
+  // Redirect to home if not authenticated
+  useEffect(() => {
+    if (!isLoading && !isAuthenticated) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+  }, [isAuthenticated, isLoading, toast]);
+
+  const { data: trash, isLoading: trashLoading } = useQuery<TrashData>({
+    queryKey: ["/api/trash"],
+    retry: false,
+  });
+
+  const handleError = (title: string) => (error: Error) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({
+      title,
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const invalidateTrash = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/trash'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/files'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/folders'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/stats'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/analytics'] });
+  };
+
+  const restoreMutation = useMutation({
+    mutationFn: async ({ type, id }: { type: 'file' | 'folder'; id: number }) => {
+      const response = await fetch(`/api/trash/${type}s/${id}/restore`, {
+        method: 'POST',
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`${response.status}: ${errorText}`);
+      }
+
+      return response.json();
+    },
+    onSuccess: (_, { type }) => {
+      invalidateTrash();
+      toast({
+        title: type === 'file' ? "File Restored" : "Folder Restored",
+        description: type === 'file'
+          ? "The file is back in its folder (or in My Files if the folder is gone)"
+          : "The folder and its contents are back",
+      });
+    },
+    onError: handleError("Restore Failed"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (target: PendingDelete) => {
+      const url = target.type === 'all' ? '/api/trash' : `/api/trash/${target.type}s/${target.id}`;
+      const response = await fetch(url, {
+        method: 'DELETE',
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`${response.status}: ${errorText}`);
+      }
+
+      return response.json();
+    },
+    onSuccess: (_, target) => {
+      invalidateTrash();
+      toast({
+        title: target.type === 'all' ? "Trash Emptied" : "Permanently Deleted",
+        description: target.type === 'all'
+          ? "All items in the trash have been deleted"
+          : `The ${target.type} has been permanently deleted`,
+      });
+    },
+    onError: handleError("Delete Failed"),
+  });
+
+  const files = trash?.files || [];
+  const folders = trash?.folders || [];
+  const isEmpty = files.length === 0 && folders.length === 0;
+
+  const formatFileSize = (bytes: number) => {
+    if (bytes === 0) return '0 Bytes';
+    const k = 1024;
+    const sizes = ['Bytes', 'KB', 'MB', 'GB'];
+    const i = Math.floor(Math.log(bytes) / Math.log(k));
+    return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+  };
+
+  const getFileIcon = (mimeType: string) => {
+    if (mimeType.startsWith('image/')) {
+      return <FileImage className="h-5 w-5 text-purple-600" />;
+    } else if (mimeType.includes('pdf')) {
+      return <FileText className="h-5 w-5 text-red-600" />;
+    } else if (mimeType.includes('spreadsheet') || mimeType.includes('excel')) {
+      return <FileText className="h-5 w-5 text-green-600" />;
+    } else {
+      return <FileIcon className="h-5 w-5 text-gray-600" />;
+    }
+  };
+
+  const handleConfirmDelete = () => {
+    if (!pendingDelete) return;
+    deleteMutation.mutate(pendingDelete);
+    setPendingDelete(null);
+  };
+
+  const renderActions = (type: 'file' | 'folder', id: number) => (
+    <div className="flex items-center space-x-2">
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => restoreMutation.mutate({ type, id })}
+        disabled={restoreMutation.isPending}
+        data-testid={`button-restore-${type}-${id}`}
+      >
+        <RotateCcw className="h-4 w-4" />
+      </Button>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => setPendingDelete({ type, id })}
+        disabled={deleteMutation.isPending}
+        className="text-red-600 hover:text-red-700"
+        data-testid={`button-delete-forever-${type}-${id}`}
+      >
+        <Trash2 className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex min-h-screen">
+      <Sidebar />
+      <main className="flex-1 p-6 bg-aqua">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-8">
+          <div>
+            <h2 className="text-3xl font-bold text-gray-900">Trash</h2>
+            <p className="text-gray-600 mt-1">
+              Deleted files and folders are kept for {trash?.retentionDays ?? 30} days before they are permanently removed
+            </p>
+          </div>
+          <Button
+            variant="destructive"
+            onClick={() => setPendingDelete({ type: 'all' })}
+            disabled={isEmpty || deleteMutation.isPending}
+            data-testid="button-empty-trash"
+          >
+            <Trash2 className="h-4 w-4 mr-2" />
+            Empty Trash
+          </Button>
+        </div>
+
+        <Card>
+          <CardContent className="p-6">
+            {trashLoading ? (
+              <div className="flex items-center justify-center py-8">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+              </div>
+            ) : isEmpty ? (
+              <div className="text-center py-8">
+                <Trash2 className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+                <p className="text-gray-500">Trash is empty</p>
+                <p className="text-sm text-gray-400">Deleted files and folders show up here</p>
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Size</TableHead>
+                      <TableHead>Deleted</TableHead>
+                      <TableHead>Purged</TableHead>
+                      <TableHead>Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {folders.map((folder) => (
+                      <TableRow key={`folder-${folder.id}`} data-testid={`row-trash-folder-${folder.id}`}>
+                        <TableCell>
+                          <div className="flex items-center space-x-3">
+                            <div className="w-8 h-8 bg-blue-100 rounded flex items-center justify-center">
+                              <Folder className="h-5 w-5 text-blue-600" />
+                            </div>
+                            <span className="font-medium">{folder.name}</span>
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-gray-600">-</TableCell>
+                        <TableCell className="text-gray-600">
+                          {formatDistanceToNow(new Date(folder.deletedAt), { addSuffix: true })}
+                        </TableCell>
+                        <TableCell className="text-gray-600">
+                          {formatDistanceToNow(new Date(folder.purgeAt), { addSuffix: true })}
+                        </TableCell>
+                        <TableCell>{renderActions('folder', folder.id)}</TableCell>
+                      </TableRow>
+                    ))}
+                    {files.map((file) => (
+                      <TableRow key={`file-${file.id}`} data-testid={`row-trash-file-${file.id}`}>
+                        <TableCell>
+                          <div className="flex items-center space-x-3">
+                            <div className="w-8 h-8 bg-gray-100 rounded flex items-center justify-center">
+                              {getFileIcon(file.mimeType)}
+                            </div>
+                            <span className="font-medium text-gray-900">{file.name}</span>
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-gray-600">
+                          {formatFileSize(file.size)}
+                        </TableCell>
+                        <TableCell className="text-gray-600">
+                          {formatDistanceToNow(new Date(file.deletedAt), { addSuffix: true })}
+                        </TableCell>
+                        <TableCell className="text-gray-600">
+                          {formatDistanceToNow(new Date(file.purgeAt), { addSuffix: true })}
+                        </TableCell>
+                        <TableCell>{renderActions('file', file.id)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+
+      <AlertDialog open={!!pendingDelete} onOpenChange={() => setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete permanently</AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingDelete?.type === 'all'
+                ? 'Permanently delete everything in the trash? This action cannot be undone.'
+                : pendingDelete?.type === 'folder'
+                  ? 'Permanently delete this folder and everything in it? This action cannot be undone.'
+                  : 'Permanently delete this file? This action cannot be undone.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleConfirmDelete}
+              className="bg-red-600 hover:bg-red-700"
+              data-testid="button-confirm-delete-forever"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -1,5 +1,7 @@
 -- Initialize the database with proper extensions
 CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
+-- Trigram indexes for file name search
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
 
 -- The tables will be created by Drizzle migrations
 -- This file can be used for any initial setup if needed
\ No newline at end of file
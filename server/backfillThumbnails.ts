@@ -0,0 +1,22 @@
+/**
+ * Generates thumbnails for every image that doesn't have them yet, such as images
+ * uploaded before thumbnails existed. The app works through these in the background as
+ * well, a few at a time; this goes through all of them at once.
+ *
+ * Run `npm run thumbnails:backfill`; add `-- --retry-failed` to retry images whose
+ * thumbnails failed before.
+ */
+import { thumbnailService } from "./services/thumbnailService";
+
+async function main() {
+  const { ready, skipped, failed } = await thumbnailService.generatePending({
+    retryFailed: process.argv.includes('--retry-failed'),
+  });
+  console.log(`Generated thumbnails for ${ready} images, skipped ${skipped}${failed > 0 ? `, ${failed} failed` : ''}`);
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+main().catch((error) => {
+  console.error('Thumbnail backfill failed:', error);
+  process.exit(1);
+});
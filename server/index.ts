@@ -3,10 +3,22 @@ import express, { type Request, Response, NextFunction } from "express";
 import helmet from "helmet";
 import cors from "cors";
 import { registerRoutes } from "./routes";
+import { s3Service } from "./services/s3Service";
 import { setupVite, serveStatic, log } from "./vite";
 
 const app = express();
 
+// With direct uploads on, browsers PUT straight to the app bucket, at the host presigned
+// URLs use: <bucket>.<endpoint host> unless path-style addressing is forced, and the
+// endpoint itself for bucket names that can't be used as a host name
+const getDirectUploadSources = (): string[] => {
+  if (process.env.S3_DIRECT_UPLOADS !== 'true') return [];
+  if (!process.env.AWS_S3_ENDPOINT) return ['https://*.amazonaws.com'];
+  const bucketOrigin = new URL(s3Service.getObjectLocation(s3Service.defaultBucket, '')).origin;
+  return Array.from(new Set([new URL(process.env.AWS_S3_ENDPOINT).origin, bucketOrigin]));
+};
+const directUploadSources = getDirectUploadSources();
+
 // Security headers
 app.use(helmet({
   contentSecurityPolicy: process.env.NODE_ENV === 'production' ? {
@@ -15,7 +27,7 @@ app.use(helmet({
       styleSrc: ["'self'"],
       scriptSrc: ["'self'"],
       imgSrc: ["'self'", "data:", "https:"],
-      connectSrc: ["'self'", "wss:", "ws:"],
+      connectSrc: ["'self'", "wss:", "ws:", ...directUploadSources],
     },
   } : {
     directives: {
@@ -23,7 +35,7 @@ app.use(helmet({
       styleSrc: ["'self'", "'unsafe-inline'"],
       scriptSrc: ["'self'", "'unsafe-inline'", "'unsafe-eval'"],
       imgSrc: ["'self'", "data:", "https:"],
-      connectSrc: ["'self'", "wss:", "ws:"],
+      connectSrc: ["'self'", "wss:", "ws:", ...directUploadSources],
     },
   },
   hsts: {
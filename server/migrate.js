@@ -38,6 +38,9 @@ async function runMigrations() {
     console.log('🔗 Testing database connection...');
     await db.execute('SELECT 1 as test');
     console.log('✅ Database connection successful!');
+
+    // The search indexes need pg_trgm, which schema synchronization doesn't create
+    await db.execute('CREATE EXTENSION IF NOT EXISTS pg_trgm');
     
     // Check if we should use drizzle-kit for schema synchronization
     const useSchemaSync = !fs.existsSync(join(__dirname, '..', 'migrations'));
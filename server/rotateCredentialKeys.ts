@@ -0,0 +1,18 @@
+/**
+ * Re-wraps stored S3 credential data keys with the active master key.
+ *
+ * Rotation: put the new key first in CREDENTIAL_MASTER_KEYS (keep the old one after it),
+ * restart the app, run `npm run credentials:rotate`, then remove the old key.
+ */
+import { rotateCredentialKeys } from "./services/sessionCredentials";
+
+async function main() {
+  const { rotated, failed } = await rotateCredentialKeys();
+  console.log(`Rotated ${rotated} S3 credential entries${failed > 0 ? `, ${failed} failed` : ''}`);
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+main().catch((error) => {
+  console.error('Credential key rotation failed:', error);
+  process.exit(1);
+});
@@ -1,5 +1,6 @@
-import type { Express } from "express";
+import type { Express, Request, RequestHandler, Response } from "express";
 import { createServer, type Server } from "http";
+import { createHmac, timingSafeEqual } from "crypto";
 import { storage } from "./storage";
 import { 
   setupAuth, 
@@ -10,15 +11,31 @@ import {
   sharedLimiter, 
   generalApiLimiter 
 } from "./auth";
-import { s3Service } from "./services/s3Service";
+import { s3Service, MAX_UPLOAD_SIZE, UPLOAD_PART_SIZE, type ByteRange, type S3Credentials } from "./services/s3Service";
+import { s3StreamStorage, type S3UploadedFile } from "./services/s3StorageEngine";
+import { storageDriver, getStorageDriver, diskStorageDriver, createUserFileKey, getSigningSecret, DISK_DOWNLOAD_PATH, type StoredObjectStream } from "./services/storageDriver";
+import { registerTusRoutes } from "./tus";
 import { 
   storeS3CredentialsInSession, 
   getS3CredentialsFromSession, 
-  clearS3CredentialsFromSession, 
-  hasS3CredentialsInSession 
+  getS3ConnectionFromSession,
+  clearS3CredentialsFromSession,
+  listS3Connections,
+  setActiveS3Connection,
+  type StoreCredentialOptions
 } from "./services/sessionCredentials";
+import { stsService } from "./services/stsService";
+import { s3Indexer } from "./services/s3Indexer";
+import { trashService } from "./services/trashService";
+import { contentExtractor } from "./services/contentExtractor";
+import { thumbnailService } from "./services/thumbnailService";
+import { archiveService } from "./services/archiveService";
+import { permissionService } from "./services/permissionService";
+import { checkS3Endpoint } from "./services/endpointPolicy";
 import multer from "multer";
-import { insertFileSchema, shareFileSchema, insertFolderSchema, shareFolderSchema, loginSchema } from "@shared/schema";
+import bcrypt from "bcrypt";
+import path from "path";
+import { insertFileSchema, fileNameSchema, searchQuerySchema, createShareLinkSchema, fileRequestUploaderSchema, renameFileSchema, moveFileSchema, copyFileSchema, pruneVersionsSchema, thumbnailSizes, grantPermissionSchema, insertFolderSchema, moveFolderSchema, loginSchema, type S3ObjectRecord, type ShareLink, type ShareLinkType, type File, type Folder } from "@shared/schema";
 import { z } from "zod";
 import { nanoid } from "nanoid";
 import { ZodError } from "zod";
@@ -41,13 +58,475 @@ const contactFormSchema = z.object({
   message: z.string().min(10, "Message must be at least 10 characters long"),
 });
 
-const upload = multer({
-  storage: multer.memoryStorage(),
+// Direct-to-S3 (presigned URL) upload schemas
+const directUploadSchema = z.object({
+  fileName: z.string().min(1, "File name is required"),
+  mimeType: z.string().min(1).default("application/octet-stream"),
+  size: z.number().int().nonnegative(),
+  folderId: z.number().int().optional(),
+  bucket: z.string().min(1).optional(),
+  prefix: z.string().optional(),
+  connectionId: z.number().int().positive().optional(),
+});
+
+const directUploadPartsSchema = z.object({
+  key: z.string().min(1),
+  bucket: z.string().min(1).optional(),
+  connectionId: z.number().int().positive().optional(),
+  uploadId: z.string().min(1),
+  partNumbers: z.array(z.number().int().min(1).max(10000)).min(1).max(100),
+  folderId: z.number().int().optional(),
+});
+
+const completeDirectUploadSchema = z.object({
+  key: z.string().min(1),
+  bucket: z.string().min(1).optional(),
+  connectionId: z.number().int().positive().optional(),
+  uploadId: z.string().min(1).optional(),
+  fileName: z.string().min(1, "File name is required"),
+  mimeType: z.string().min(1).default("application/octet-stream"),
+  folderId: z.number().int().optional(),
+});
+
+const abortDirectUploadSchema = z.object({
+  key: z.string().min(1),
+  bucket: z.string().min(1).optional(),
+  connectionId: z.number().int().positive().optional(),
+  uploadId: z.string().min(1),
+  folderId: z.number().int().optional(),
+});
+
+// One version of an object in a versioned bucket
+const s3ObjectVersionSchema = z.object({
+  bucket: z.string().min(1),
+  key: z.string().min(1),
+  versionId: z.string().min(1),
+  connectionId: z.number().int().positive().optional(),
+});
+
+// An object, or a prefix ending in '/', to share from a bucket
+const createS3ShareLinkSchema = createShareLinkSchema.extend({
+  bucket: z.string().min(1),
+  key: z.string().min(1).max(1024),
+  connectionId: z.number().int().positive().optional(),
+});
+
+// Files, folders and bucket objects to download as one archive
+const downloadArchiveSchema = z.object({
+  format: z.enum(["zip", "tar.gz"]).default("zip"),
+  fileIds: z.array(z.number().int().positive()).max(1000).default([]),
+  folderIds: z.array(z.number().int().positive()).max(100).default([]),
+  s3: z.object({
+    bucket: z.string().min(1),
+    connectionId: z.number().int().positive().optional(),
+    keys: z.array(z.string().min(1)).max(1000).default([]),
+    prefixes: z.array(z.string().min(1)).max(100).default([]),
+  }).optional(),
+}).refine(
+  (input) => input.fileIds.length + input.folderIds.length + (input.s3?.keys.length ?? 0) + (input.s3?.prefixes.length ?? 0) > 0,
+  { message: "Nothing selected to download" }
+);
+
+const ROLE_ARN_PATTERN = /^arn:aws[a-z-]*:iam::\d{12}:role\/[\w+=,.@\/-]+$/;
+
+// Recipients of a password-protected share link send the password in this header
+const SHARE_PASSWORD_HEADER = 'x-share-password';
+
+// What a share link points at. Bucket links hold either an object key or a prefix, which
+// always ends in '/'.
+type ShareLinkTarget = 'file' | 'folder' | 's3-object' | 's3-prefix';
+
+const getShareLinkTarget = (link: ShareLink): ShareLinkTarget =>
+  link.fileId ? 'file' : link.folderId ? 'folder' : link.s3Key?.endsWith('/') ? 's3-prefix' : 's3-object';
+
+// Share links open the public share pages of the client: /share/file/:token for files and
+// bucket objects, /share/folder/:token, /share/prefix/:token for bucket prefixes and, for
+// file requests, /share/upload/:token
+const getShareUrl = (req: any, link: ShareLink) => {
+  const target = getShareLinkTarget(link);
+  const page = target === 'folder'
+    ? link.type === 'upload' ? 'upload' : 'folder'
+    : target === 's3-prefix' ? 'prefix' : 'file';
+  return `${req.protocol}://${req.get('host')}/share/${page}/${link.token}`;
+};
+
+// Types the public share page shows inline
+const isInlinePreviewable = (mimeType: string) => /^(image|video|audio)\//.test(mimeType);
+
+// What the owner sees of a share link; the password hash never leaves the server
+const toShareLinkResponse = (req: any, link: ShareLink) => ({
+  id: link.id,
+  type: link.type,
+  url: getShareUrl(req, link),
+  expiresAt: link.expiresAt,
+  maxDownloads: link.maxDownloads,
+  downloadCount: link.downloadCount,
+  maxFileSize: link.maxFileSize,
+  allowedTypes: link.allowedTypes,
+  hasPassword: !!link.passwordHash,
+  isRevoked: link.isRevoked,
+  isExpired: !!link.expiresAt && link.expiresAt.getTime() <= Date.now(),
+  createdAt: link.createdAt,
+});
+
+// What visitors of a share link see of files and folders: no storage keys, owner or tokens
+const toSharedFileResponse = (file: File) => ({
+  id: file.id,
+  name: file.name,
+  size: file.size,
+  mimeType: file.mimeType,
+  uploadedAt: file.uploadedAt,
+});
+
+const toSharedFolderResponse = (folder: Folder) => ({
+  id: folder.id,
+  name: folder.name,
+  createdAt: folder.createdAt,
+});
+
+interface ShareLinkError {
+  status: number;
+  message: string;
+  passwordRequired?: boolean;
+}
+
+// Check every constraint of a share link before it is used. Returns the error to send, if any.
+// Upload links only work for uploads and view links never do. password is what the visitor
+// sent, or true when it was checked before a signed URL was handed out.
+async function checkShareLink(
+  link: ShareLink | undefined,
+  password: unknown,
+  type: ShareLinkType = 'view'
+): Promise<ShareLinkError | undefined> {
+  if (!link || link.isRevoked || link.type !== type) {
+    return { status: 404, message: "Share link not found" };
+  }
+  if (link.expiresAt && link.expiresAt.getTime() <= Date.now()) {
+    return { status: 410, message: "This share link has expired" };
+  }
+  if (link.maxDownloads !== null && link.downloadCount >= link.maxDownloads) {
+    return { status: 410, message: "This share link has reached its download limit" };
+  }
+  if (link.passwordHash && password !== true) {
+    if (typeof password !== 'string' || !password) {
+      return { status: 401, message: "This share link is password protected", passwordRequired: true };
+    }
+    if (!(await bcrypt.compare(password, link.passwordHash))) {
+      return { status: 403, message: "Incorrect password", passwordRequired: true };
+    }
+  }
+  return undefined;
+}
+
+// A shared file or bucket object as visitors see it, and how to hand out its content
+interface SharedFile {
+  file: { name: string; size: number; mimeType: string; uploadedAt: Date | null | undefined };
+  getDownloadUrl: (expiresIn: number) => Promise<string>;
+  read: (range?: ByteRange) => Promise<StoredObjectStream>;
+}
+
+// The bucket and connection behind a bucket share link. Links are resolved with the owner's
+// stored connection (kept alive while usable links depend on it), so they stop working
+// once the owner removes it or its role can no longer be assumed.
+async function resolveSharedBucket(link: ShareLink) {
+  const connection = await getS3ConnectionFromSession(link.userId, link.connectionId);
+  if (!connection) {
+    return undefined;
+  }
+  return { bucket: link.s3Bucket!, credentials: connection.credentials };
+}
+
+const SHARED_BUCKET_GONE: ShareLinkError = {
+  status: 410,
+  message: "The bucket behind this share link is no longer connected",
+};
+
+// Resolve the file behind a file or bucket object share link that passed checkShareLink
+async function resolveSharedFile(link: ShareLink): Promise<SharedFile | ShareLinkError> {
+  if (link.fileId) {
+    const file = await storage.getFileById(link.fileId);
+    if (!file) {
+      return { status: 404, message: "Shared file not found" };
+    }
+    return {
+      file: toSharedFileResponse(file),
+      getDownloadUrl: (expiresIn) => getStorageDriver(file.storageDriver).getDownloadUrl(file.s3Key, file.name, expiresIn),
+      read: (range) => getStorageDriver(file.storageDriver).read(file.s3Key, range),
+    };
+  }
+
+  const shared = await resolveSharedBucket(link);
+  if (!shared) {
+    return SHARED_BUCKET_GONE;
+  }
+  const key = link.s3Key!;
+  let metadata;
+  try {
+    metadata = await s3Service.getObjectMetadata(shared.bucket, key, shared.credentials);
+  } catch (error: any) {
+    if (error.name === 'NotFound' || error.$metadata?.httpStatusCode === 404) {
+      return { status: 404, message: "Shared file not found" };
+    }
+    throw error;
+  }
+  return {
+    file: {
+      name: key.split('/').pop()!,
+      size: metadata.size,
+      mimeType: metadata.contentType || 'application/octet-stream',
+      uploadedAt: metadata.lastModified,
+    },
+    getDownloadUrl: (expiresIn) => s3Service.getPresignedDownloadUrl(shared.bucket, key, shared.credentials, expiresIn),
+    read: (range) => s3Service.getObjectStream(shared.bucket, key, shared.credentials, undefined, range),
+  };
+}
+
+// Stream a file for in-browser previews, inline and with HTTP Range support so audio and
+// video can seek and large text files can be fetched in part. Only PDFs and media keep
+// their own type; everything else is sent as plain text under a sandboxing CSP, so an
+// uploaded HTML or SVG file can't run scripts on this origin.
+async function sendInlinePreview(
+  req: Request,
+  res: Response,
+  file: { name: string; size: number; mimeType: string },
+  read: (range?: ByteRange) => Promise<StoredObjectStream>
+): Promise<void> {
+  // -1: unsatisfiable, -2: malformed (ignored, the whole file is sent)
+  const ranges = req.range(file.size, { combine: true });
+  if (ranges === -1) {
+    res.setHeader('Content-Range', `bytes */${file.size}`);
+    res.status(416).json({ message: "Requested range not satisfiable" });
+    return;
+  }
+  // Only the first of several ranges is served; clients fetch the rest as needed
+  const range = Array.isArray(ranges) && ranges.length > 0 ? { start: ranges[0].start, end: ranges[0].end } : undefined;
+
+  const { body, size: length } = await read(range);
+
+  const mimeType = file.mimeType.split(';')[0].trim().toLowerCase();
+  if (mimeType === 'application/pdf') {
+    // The browser's PDF viewer doesn't work in a sandbox
+    res.setHeader('Content-Type', 'application/pdf');
+  } else {
+    const isMedia = /^(image|audio|video)\//.test(mimeType);
+    res.setHeader('Content-Type', isMedia ? mimeType : 'text/plain; charset=utf-8');
+    res.setHeader('Content-Security-Policy', "default-src 'none'; style-src 'unsafe-inline'; sandbox");
+  }
+  res.setHeader('X-Content-Type-Options', 'nosniff');
+  res.setHeader('Content-Disposition', `inline; filename*=UTF-8''${encodeURIComponent(file.name)}`);
+  res.setHeader('Accept-Ranges', 'bytes');
+  res.setHeader('Cache-Control', 'private, no-cache');
+  res.setHeader('Content-Length', length);
+  if (range) {
+    res.status(206);
+    res.setHeader('Content-Range', `bytes ${range.start}-${range.start + length - 1}/${file.size}`);
+  }
+  body.on('error', (error) => {
+    console.error("Error streaming preview:", error);
+    res.destroy(error);
+  });
+  body.pipe(res);
+}
+
+// Preview URLs of share links are signed instead of carrying the link's password, since
+// media elements can't send headers. The preview route still checks the link itself, so
+// revoking it or letting it expire ends its previews too.
+const signSharePreview = (link: ShareLink, expires: string) =>
+  createHmac('sha256', getSigningSecret())
+    .update(`share-preview\n${link.id}\n${link.token}\n${expires}`)
+    .digest('base64url');
+
+const getSharePreviewUrl = (link: ShareLink, expiresIn: number) => {
+  const expires = String(Math.floor(Date.now() / 1000) + expiresIn);
+  const params = new URLSearchParams({ expires, signature: signSharePreview(link, expires) });
+  return `/api/shared/file/${link.token}/preview?${params}`;
+};
+
+const verifySharePreview = (link: ShareLink, query: Record<string, unknown>) => {
+  const { expires, signature } = query;
+  if (typeof expires !== 'string' || typeof signature !== 'string' || !/^\d+$/.test(expires) || Number(expires) * 1000 < Date.now()) {
+    return false;
+  }
+  const expected = Buffer.from(signSharePreview(link, expires));
+  const provided = Buffer.from(signature);
+  return expected.length === provided.length && timingSafeEqual(expected, provided);
+};
+
+// Errors raised while resolving an upload target carry an HTTP status for handleUpload
+const uploadError = (status: number, message: string) => Object.assign(new Error(message), { status });
+
+// Whether a file matches a file request's accepted types: MIME types, type families
+// ("image/*") or extensions (".pdf"). No list accepts everything.
+const isAcceptedType = (fileName: string, mimeType: string, acceptedTypes: string[] | null) => {
+  if (!acceptedTypes || acceptedTypes.length === 0) return true;
+  const extension = path.extname(fileName).toLowerCase();
+  const type = mimeType.toLowerCase();
+  return acceptedTypes.some((accepted) =>
+    accepted.startsWith('.')
+      ? accepted === extension
+      : accepted.endsWith('/*')
+        ? type.startsWith(accepted.slice(0, -1))
+        : accepted === type
+  );
+};
+
+// The size limit of an upload request: the file request's own limit, if it is stricter
+const getUploadSizeLimit = (req: any): number =>
+  Math.min(req.fileRequest?.link.maxFileSize ?? MAX_UPLOAD_SIZE, MAX_UPLOAD_SIZE);
+
+// The folder an upload goes into, from the folderId form field. The user must be able to
+// edit it; this runs before any of the file is stored.
+const resolveUploadFolder = async (req: any): Promise<Folder | undefined> => {
+  if (!req.body.folderId) return undefined;
+  const folder = await storage.getFolderById(parseInt(req.body.folderId));
+  const accessError = await permissionService.checkFolder(req.user.id, folder, 'editor');
+  if (accessError) {
+    throw uploadError(accessError.status, accessError.message);
+  }
+  return folder;
+};
+
+// App-managed uploads stream into the configured storage driver under the prefix of the
+// file's owner: the uploader, or the owner of the (shared) folder it goes into. The
+// folderId field must be sent before the file so the folder is checked first.
+const fileUpload = multer({
+  storage: s3StreamStorage({
+    upload: async (req: any, file, body, options) => {
+      req.uploadFolder = await resolveUploadFolder(req);
+      const ownerId = req.uploadFolder?.userId ?? req.user.id;
+      return storageDriver.put(body, createUserFileKey(ownerId, file.originalname), file.mimetype, {
+        ...options,
+        metadata: { userId: ownerId, originalName: file.originalname },
+      });
+    },
+    remove: (_req, file) => storageDriver.delete(file.key),
+  }),
+  limits: {
+    fileSize: MAX_UPLOAD_SIZE,
+    files: 1,
+  },
+});
+
+// Bucket browser uploads stream into the user's own bucket. The bucket and prefix
+// form fields must be sent before the file so they are parsed by the time it arrives.
+const s3Upload = multer({
+  storage: s3StreamStorage({
+    upload: async (req: any, file, body, options) => {
+      const { bucket, prefix = '', connectionId } = req.body;
+      const credentials = await getS3CredentialsFromSession(req.user.id, connectionId);
+
+      if (!credentials) {
+        throw uploadError(400, "No AWS credentials found. Please connect first.");
+      }
+      if (!bucket) {
+        throw uploadError(400, "Bucket name is required");
+      }
+
+      // Create the full S3 key with prefix
+      const key = prefix ? `${prefix}/${file.originalname}` : file.originalname;
+      return s3Service.uploadToS3(body, bucket, key, file.mimetype, credentials, options);
+    },
+    remove: async (req: any, file) =>
+      s3Service.deleteS3Object(file.bucket, file.key, await getS3CredentialsFromSession(req.user.id, req.body.connectionId)),
+  }),
   limits: {
-    fileSize: 100 * 1024 * 1024, // 100MB limit
+    fileSize: MAX_UPLOAD_SIZE,
+    files: 1,
+  },
+});
+
+// File request uploads stream into the requested folder's owner's prefix, like their own
+// uploads. The link is resolved (by resolveFileRequest) before the file arrives; its size
+// limit is applied per request since multer's limits are fixed per instance.
+const fileRequestStorage = s3StreamStorage({
+  upload: async (req: any, file, body, options) => {
+    const { link } = req.fileRequest;
+    if (!isAcceptedType(file.originalname, file.mimetype, link.allowedTypes)) {
+      throw uploadError(415, "This file type isn't accepted here");
+    }
+    return storageDriver.put(body, createUserFileKey(link.userId, file.originalname), file.mimetype, {
+      ...options,
+      metadata: { userId: link.userId, originalName: file.originalname },
+    });
   },
+  remove: (_req, file) => storageDriver.delete(file.key),
 });
 
+const fileRequestUpload: RequestHandler = (req, res, next) =>
+  multer({
+    storage: fileRequestStorage,
+    limits: {
+      fileSize: getUploadSizeLimit(req),
+      files: 1,
+    },
+  }).single('file')(req, res, next);
+
+// Run a multer middleware and report its failures as JSON instead of falling through
+// to the generic error handler
+const handleUpload = (middleware: RequestHandler): RequestHandler => (req, res, next) => {
+  middleware(req, res, (err?: any) => {
+    if (!err) {
+      return next();
+    }
+    if (err instanceof multer.MulterError) {
+      if (err.code === 'LIMIT_FILE_SIZE') {
+        return res.status(413).json({
+          message: `File exceeds the maximum upload size of ${parseFloat((getUploadSizeLimit(req) / (1024 * 1024)).toFixed(2))}MB`
+        });
+      }
+      return res.status(400).json({ message: err.message });
+    }
+    if (err.status) {
+      return res.status(err.status).json({ message: err.message });
+    }
+    console.error("File upload error:", err);
+    res.status(500).json({ message: "Failed to upload file", error: err.message });
+  });
+};
+
+// Direct uploads need a CORS rule on the bucket that lets the app's origin PUT, so the
+// client only uses them when an operator turns them on
+const DIRECT_UPLOADS_ENABLED = process.env.S3_DIRECT_UPLOADS === 'true' && storageDriver.supportsDirectUpload;
+
+// Where a direct upload is written: a bucket in one of the user's S3 connections, or the
+// default bucket for app-managed files. App-managed files belong to the owner of the
+// folder they go into (which the user must be able to edit), or else to the user, and
+// their keys must sit under the owner's prefix so one user can't finalize or abort
+// another user's upload. App-managed direct uploads need the S3 storage driver, since
+// only S3 can accept presigned uploads.
+const resolveDirectUploadTarget = async (
+  userId: string,
+  bucket?: string,
+  key?: string,
+  connectionId?: number,
+  folderId?: number
+): Promise<{ bucket: string; credentials?: S3Credentials; connectionId?: number; folder?: Folder }> => {
+  if (bucket) {
+    const connection = await getS3ConnectionFromSession(userId, connectionId);
+    if (!connection) {
+      throw uploadError(400, "No AWS credentials found. Please connect first.");
+    }
+    return { bucket, credentials: connection.credentials, connectionId: connection.id };
+  }
+
+  if (!storageDriver.supportsDirectUpload) {
+    throw uploadError(409, "Direct uploads are not available with this storage driver, use resumable uploads instead");
+  }
+
+  let folder: Folder | undefined;
+  if (folderId) {
+    folder = await storage.getFolderById(folderId);
+    const accessError = await permissionService.checkFolder(userId, folder, 'editor');
+    if (accessError) {
+      throw uploadError(accessError.status, accessError.message);
+    }
+  }
+  if (key !== undefined && !key.startsWith(`users/${folder?.userId ?? userId}/`)) {
+    throw uploadError(404, "Upload not found");
+  }
+  return { bucket: storageDriver.bucket, folder };
+};
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Apply general rate limiting to all API routes
   app.use('/api', generalApiLimiter);
@@ -162,47 +641,59 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Upload limits so the client can reject oversized files before sending them, and
+  // whether it should upload app-managed files straight to the bucket
+  app.get('/api/uploads/config', isAuthenticated, (_req, res) => {
+    res.json({ maxFileSize: MAX_UPLOAD_SIZE, directUploads: DIRECT_UPLOADS_ENABLED });
+  });
+
   // File upload endpoint
-  app.post('/api/files/upload', isAuthenticated, uploadLimiter, upload.single('file'), async (req: any, res) => {
+  app.post('/api/files/upload', isAuthenticated, uploadLimiter, handleUpload(fileUpload.single('file')), async (req: any, res) => {
     try {
       if (!req.file) {
         return res.status(400).json({ message: "No file uploaded" });
       }
 
       const userId = req.user.id;
-      const { buffer, originalname, mimetype, size } = req.file;
-      const folderId = req.body.folderId ? parseInt(req.body.folderId) : undefined;
-
-      // Upload to S3
-      const uploadResult = await s3Service.uploadFile(
-        buffer,
-        originalname,
-        mimetype,
-        userId
-      );
+      const { originalname, mimetype, size, key, bucket, location } = req.file as S3UploadedFile;
+
+      // Checked (by resolveUploadFolder) when the file arrived; a folderId sent after the
+      // file is too late for that
+      const folder: Folder | undefined = req.uploadFolder;
+      if (req.body.folderId && !folder) {
+        await storageDriver.delete(key).catch(() => {});
+        return res.status(400).json({ message: "folderId must be sent before the file" });
+      }
+      const folderId = folder?.id;
+      // Uploads into a folder shared with the user belong to the folder's owner
+      const ownerId = folder?.userId ?? userId;
 
       // Save file metadata to database
       const fileData = insertFileSchema.parse({
-        userId,
+        userId: ownerId,
         folderId,
         name: originalname,
         originalName: originalname,
         mimeType: mimetype,
         size,
-        s3Key: uploadResult.key,
-        s3Bucket: uploadResult.bucket,
+        s3Key: key,
+        s3Bucket: bucket,
+        storageDriver: storageDriver.name,
       });
 
-      const file = await storage.createFile(fileData);
+      // A file already at that path gets a new version instead of a duplicate row
+      const file = await storage.saveUploadedFile(fileData, userId);
+      contentExtractor.wake();
+      thumbnailService.wake();
 
       // Invalidate analytics cache and broadcast update
-      invalidateAnalyticsCache(userId);
+      invalidateAnalyticsCache(ownerId);
 
       res.json({
         success: true,
         file: {
           ...file,
-          url: uploadResult.location,
+          url: location,
         },
       });
     } catch (error) {
@@ -214,20 +705,246 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Get user files and folders
+  // Resumable (tus) uploads for both app-managed files and S3 buckets
+  registerTusRoutes(app, {
+    onUploadComplete: (userId) => invalidateAnalyticsCache(userId),
+  });
+
+  // Direct-to-S3 uploads: the browser PUTs straight to presigned URLs and then calls
+  // /complete, so only the upload intent passes through (and is rate limited by) this server
+  app.post('/api/uploads/direct', isAuthenticated, uploadLimiter, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const { fileName: requestedName, mimeType, size, folderId, bucket, prefix, connectionId } = directUploadSchema.parse(req.body);
+      // App-managed files are named after the upload, so slashes aren't allowed there
+      const fileName = bucket ? requestedName : fileNameSchema.parse(requestedName);
+
+      if (size > MAX_UPLOAD_SIZE) {
+        return res.status(413).json({
+          message: `File exceeds the maximum upload size of ${Math.round(MAX_UPLOAD_SIZE / (1024 * 1024))}MB`
+        });
+      }
+
+      const target = await resolveDirectUploadTarget(userId, bucket, undefined, connectionId, folderId);
+      // App-managed files go under the prefix of their owner, as in /complete
+      const ownerId = target.folder?.userId ?? userId;
+      const key = bucket
+        ? (prefix ? `${prefix}/${fileName}` : fileName)
+        : createUserFileKey(ownerId, fileName);
+      const metadata = bucket ? undefined : { userId: ownerId, originalName: fileName };
+
+      // Small files go up in a single PUT, larger ones as a multipart upload
+      if (size <= UPLOAD_PART_SIZE) {
+        const url = await s3Service.getPresignedUploadUrl(
+          target.bucket,
+          key,
+          mimeType,
+          size,
+          target.credentials,
+          3600,
+          metadata
+        );
+        return res.json({
+          method: 'PUT',
+          url,
+          key,
+          bucket: target.bucket,
+          // Content-Type is signed, so the browser must send exactly this header
+          headers: { 'Content-Type': mimeType },
+        });
+      }
+
+      const uploadId = await s3Service.createMultipartUpload(target.bucket, key, mimeType, target.credentials, metadata);
+      res.json({
+        method: 'multipart',
+        uploadId,
+        key,
+        bucket: target.bucket,
+        partSize: UPLOAD_PART_SIZE,
+        partCount: Math.ceil(size / UPLOAD_PART_SIZE),
+      });
+    } catch (error: any) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Invalid upload data", errors: error.errors });
+      }
+      if (error.status) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error creating direct upload:", error);
+      res.status(500).json({ message: "Failed to create upload" });
+    }
+  });
+
+  // Presigned URLs for a batch of multipart parts
+  app.post('/api/uploads/direct/parts', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const { key, bucket, connectionId, uploadId, partNumbers, folderId } = directUploadPartsSchema.parse(req.body);
+      const target = await resolveDirectUploadTarget(userId, bucket, key, connectionId, folderId);
+
+      const parts = await Promise.all(partNumbers.map(async (partNumber) => ({
+        partNumber,
+        url: await s3Service.getPresignedPartUrl(target.bucket, key, uploadId, partNumber, target.credentials),
+      })));
+
+      res.json({ parts });
+    } catch (error: any) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Invalid upload data", errors: error.errors });
+      }
+      if (error.status) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error signing upload parts:", error);
+      res.status(500).json({ message: "Failed to sign upload parts" });
+    }
+  });
+
+  // Finalize a direct upload: assemble multipart uploads, confirm the object exists
+  // with HeadObject and record app-managed uploads in the files table
+  app.post('/api/uploads/direct/complete', isAuthenticated, fileOpLimiter, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const { key, bucket, connectionId, uploadId, fileName: requestedName, mimeType, folderId } = completeDirectUploadSchema.parse(req.body);
+      const fileName = bucket ? requestedName : fileNameSchema.parse(requestedName);
+      // Checks editor access to the folder again, in case it was revoked during the upload
+      const target = await resolveDirectUploadTarget(userId, bucket, key, connectionId, folderId);
+
+      if (uploadId) {
+        const parts = await s3Service.listMultipartParts(target.bucket, key, uploadId, target.credentials);
+        if (parts.length === 0) {
+          return res.status(400).json({ message: "No parts have been uploaded" });
+        }
+        await s3Service.completeMultipartUpload(target.bucket, key, uploadId, parts, target.credentials);
+      }
+
+      let head;
+      try {
+        head = await s3Service.getObjectMetadata(target.bucket, key, target.credentials);
+      } catch (error) {
+        return res.status(404).json({ message: "Uploaded object not found" });
+      }
+
+      if (head.size > MAX_UPLOAD_SIZE) {
+        await s3Service.deleteS3Object(target.bucket, key, target.credentials);
+        return res.status(413).json({
+          message: `File exceeds the maximum upload size of ${Math.round(MAX_UPLOAD_SIZE / (1024 * 1024))}MB`
+        });
+      }
+
+      const location = s3Service.getObjectLocation(target.bucket, key, target.credentials);
+
+      if (bucket) {
+        await s3Indexer.recordUpload(target.connectionId!, userId, bucket, key, head.size);
+        invalidateAnalyticsCache(userId);
+        return res.json({
+          success: true,
+          message: "File uploaded successfully",
+          result: { key, bucket, location, size: head.size },
+        });
+      }
+
+      // Finalizing twice must not create two rows for one object
+      const existing = await storage.getFileByS3Key(target.bucket, key);
+      if (existing) {
+        return res.json({ success: true, file: { ...existing, url: location } });
+      }
+
+      // Uploads into a folder shared with the user belong to the folder's owner
+      const ownerId = target.folder?.userId ?? userId;
+
+      const file = await storage.saveUploadedFile(insertFileSchema.parse({
+        userId: ownerId,
+        folderId,
+        name: fileName,
+        originalName: fileName,
+        mimeType: head.contentType || mimeType,
+        size: head.size,
+        s3Key: key,
+        s3Bucket: target.bucket,
+        storageDriver: storageDriver.name,
+      }), userId);
+      contentExtractor.wake();
+      thumbnailService.wake();
+
+      invalidateAnalyticsCache(ownerId);
+
+      res.json({ success: true, file: { ...file, url: location } });
+    } catch (error: any) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Invalid upload data", errors: error.errors });
+      }
+      if (error.status) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error completing direct upload:", error);
+      res.status(500).json({ message: "Failed to complete upload" });
+    }
+  });
+
+  // Abandon a direct multipart upload
+  app.post('/api/uploads/direct/abort', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const { key, bucket, connectionId, uploadId, folderId } = abortDirectUploadSchema.parse(req.body);
+      const target = await resolveDirectUploadTarget(userId, bucket, key, connectionId, folderId);
+
+      await s3Service.abortMultipartUpload(target.bucket, key, uploadId, target.credentials);
+      res.json({ success: true });
+    } catch (error: any) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Invalid upload data", errors: error.errors });
+      }
+      if (error.status) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error aborting direct upload:", error);
+      res.status(500).json({ message: "Failed to abort upload" });
+    }
+  });
+
+  // Get user files and folders. Inside a folder shared with the user, its owner's
+  // contents are listed along with the user's role there.
   app.get('/api/files', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.id;
       const folderId = req.query.folderId ? parseInt(req.query.folderId as string) : undefined;
-      const files = await storage.getFilesByUserId(userId, folderId);
-      const folders = await storage.getFoldersByUserId(userId, folderId);
-      res.json({ files, folders });
+
+      let ownerId = userId;
+      let role = 'owner';
+      if (folderId) {
+        const folder = await storage.getFolderById(folderId);
+        if (!folder) {
+          return res.status(404).json({ message: "Folder not found" });
+        }
+        const folderRole = await permissionService.getFolderRole(userId, folder);
+        if (!folderRole) {
+          return res.status(404).json({ message: "Folder not found" });
+        }
+        ownerId = folder.userId;
+        role = folderRole;
+      }
+
+      const files = await storage.getFilesByUserId(ownerId, folderId);
+      const folders = await storage.getFoldersByUserId(ownerId, folderId);
+      res.json({ files, folders, role });
     } catch (error) {
       console.error("Error fetching files:", error);
       res.status(500).json({ message: "Failed to fetch files" });
     }
   });
 
+  // All of the user's folders at any depth (for move destinations)
+  app.get('/api/folders', isAuthenticated, async (req: any, res) => {
+    try {
+      const folders = await storage.getAllFoldersByUserId(req.user.id);
+      res.json({ folders });
+    } catch (error) {
+      console.error("Error fetching folders:", error);
+      res.status(500).json({ message: "Failed to fetch folders" });
+    }
+  });
+
   // Create folder
   app.post('/api/folders', isAuthenticated, async (req: any, res) => {
     try {
@@ -237,10 +954,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
         userId,
       });
 
+      // Folders created inside a folder shared with the user belong to its owner
+      if (folderData.parentId) {
+        const parent = await storage.getFolderById(folderData.parentId);
+        if (!parent) {
+          return res.status(404).json({ message: "Folder not found" });
+        }
+        const accessError = await permissionService.checkFolder(userId, parent, 'editor');
+        if (accessError) {
+          const { status, ...body } = accessError;
+          return res.status(status).json(body);
+        }
+        folderData.userId = parent.userId;
+      }
+
       const folder = await storage.createFolder(folderData);
       
       // Invalidate analytics cache and broadcast update
-      invalidateAnalyticsCache(userId);
+      invalidateAnalyticsCache(folderData.userId);
       
       res.json({ success: true, folder });
     } catch (error) {
@@ -252,34 +983,69 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Share folder
+  // List the share links of a folder
+  app.get('/api/folders/:id/share', isAuthenticated, async (req: any, res) => {
+    try {
+      const folderId = parseInt(req.params.id);
+      const userId = req.user.id;
+
+      const folder = await storage.getFolderById(folderId);
+      if (!folder) {
+        return res.status(404).json({ message: "Folder not found" });
+      }
+
+      const accessError = await permissionService.checkFolder(userId, folder, 'owner');
+      if (accessError) {
+        const { status, ...body } = accessError;
+        return res.status(status).json(body);
+      }
+
+      const links = await storage.getShareLinksByFolderId(folderId);
+      res.json({ links: links.map((link) => toShareLinkResponse(req, link)) });
+    } catch (error) {
+      console.error("Error fetching folder share links:", error);
+      res.status(500).json({ message: "Failed to fetch share links" });
+    }
+  });
+
+  // Create a share link for a folder
   app.post('/api/folders/:id/share', isAuthenticated, async (req: any, res) => {
     try {
       const folderId = parseInt(req.params.id);
       const userId = req.user.id;
-      const { isShared } = shareFolderSchema.parse(req.body);
+      const { type, expiresAt, password, maxDownloads, maxFileSize, allowedTypes } = createShareLinkSchema.parse(req.body);
       
       const folder = await storage.getFolderById(folderId);
-      if (!folder || folder.userId !== userId) {
+      if (!folder) {
         return res.status(404).json({ message: "Folder not found" });
       }
 
-      const shareToken = isShared ? nanoid() : undefined;
-      const updatedFolder = await storage.updateFolderSharing(folderId, isShared, shareToken);
+      const accessError = await permissionService.checkFolder(userId, folder, 'owner');
+      if (accessError) {
+        const { status, ...body } = accessError;
+        return res.status(status).json(body);
+      }
+
+      const link = await storage.createShareLink({
+        token: nanoid(),
+        userId,
+        folderId,
+        type,
+        expiresAt,
+        // Download limits only apply to view links, upload limits to file requests
+        maxDownloads: type === 'view' ? maxDownloads : undefined,
+        maxFileSize: type === 'upload' ? maxFileSize : undefined,
+        allowedTypes: type === 'upload' ? allowedTypes : undefined,
+        passwordHash: password ? await bcrypt.hash(password, 12) : undefined,
+      });
 
       // Invalidate analytics cache and broadcast update (sharing affects analytics)
       invalidateAnalyticsCache(userId);
 
-      let shareUrl = undefined;
-      if (isShared && shareToken) {
-        const baseUrl = req.protocol + '://' + req.get('host');
-        shareUrl = `${baseUrl}/api/shared/folder/${shareToken}`;
-      }
-
       res.json({
         success: true,
-        folder: updatedFolder,
-        shareUrl,
+        link: toShareLinkResponse(req, link),
+        shareUrl: getShareUrl(req, link),
       });
     } catch (error) {
       console.error("Error sharing folder:", error);
@@ -290,23 +1056,76 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Delete folder
+  // Move folder (parentId null moves it to the root)
+  app.post('/api/folders/:id/move', isAuthenticated, async (req: any, res) => {
+    try {
+      const folderId = parseInt(req.params.id);
+      const userId = req.user.id;
+      const { parentId } = moveFolderSchema.parse(req.body);
+
+      const folder = await storage.getFolderById(folderId);
+      if (!folder) {
+        return res.status(404).json({ message: "Folder not found" });
+      }
+
+      // Editors move within the owner's tree; only the owner takes a folder to the root
+      const accessError = await permissionService.checkFolder(userId, folder, parentId === null ? 'owner' : 'editor');
+      if (accessError) {
+        const { status, ...body } = accessError;
+        return res.status(status).json(body);
+      }
+
+      if (parentId !== null) {
+        const parent = await storage.getFolderById(parentId);
+        if (!parent || parent.userId !== folder.userId) {
+          return res.status(404).json({ message: "Destination folder not found" });
+        }
+
+        const parentError = await permissionService.checkFolder(userId, parent, 'editor');
+        if (parentError) {
+          const { status, ...body } = parentError;
+          return res.status(status).json(body);
+        }
+      }
+
+      const movedFolder = await storage.moveFolder(folderId, parentId);
+      if (!movedFolder) {
+        return res.status(400).json({ message: "A folder can't be moved into itself or one of its subfolders" });
+      }
+
+      res.json({ success: true, folder: movedFolder });
+    } catch (error) {
+      console.error("Error moving folder:", error);
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Invalid move data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to move folder" });
+    }
+  });
+
+  // Move folder with everything nested in it to the trash
   app.delete('/api/folders/:id', isAuthenticated, async (req: any, res) => {
     try {
       const folderId = parseInt(req.params.id);
       const userId = req.user.id;
       
       const folder = await storage.getFolderById(folderId);
-      if (!folder || folder.userId !== userId) {
+      if (!folder) {
         return res.status(404).json({ message: "Folder not found" });
       }
 
-      await storage.deleteFolder(folderId);
-      
+      const accessError = await permissionService.checkFolder(userId, folder, 'editor');
+      if (accessError) {
+        const { status, ...body } = accessError;
+        return res.status(status).json(body);
+      }
+
+      await storage.trashFolder(folderId);
+
       // Invalidate analytics cache and broadcast update
-      invalidateAnalyticsCache(userId);
+      invalidateAnalyticsCache(folder.userId);
       
-      res.json({ success: true, message: "Folder deleted successfully" });
+      res.json({ success: true, message: "Folder moved to trash" });
     } catch (error) {
       console.error("Error deleting folder:", error);
       res.status(500).json({ message: "Failed to delete folder" });
@@ -320,133 +1139,1433 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const userId = req.user.id;
       
       const file = await storage.getFileById(fileId);
-      if (!file || file.userId !== userId) {
+      if (!file) {
+        return res.status(404).json({ message: "File not found" });
+      }
+
+      const accessError = await permissionService.checkFile(userId, file, 'viewer');
+      if (accessError) {
+        const { status, ...body } = accessError;
+        return res.status(status).json(body);
+      }
+
+      const downloadUrl = await getStorageDriver(file.storageDriver).getDownloadUrl(file.s3Key, file.name);
+      res.json({ downloadUrl });
+    } catch (error) {
+      console.error("Error generating download URL:", error);
+      res.status(500).json({ message: "Failed to generate download URL" });
+    }
+  });
+
+  // Download files, folders (with everything inside them) and bucket objects or prefixes
+  // as one ZIP or tar.gz, streamed from storage while it is written. Browsers submit this
+  // as a form so the archive goes straight to disk; the request JSON then arrives in the
+  // "request" field.
+  app.post('/api/archives', isAuthenticated, fileOpLimiter, async (req: any, res) => {
+    try {
+      const input = downloadArchiveSchema.parse(
+        typeof req.body.request === 'string' ? JSON.parse(req.body.request) : req.body
+      );
+      const userId = req.user.id;
+
+      // Resolve everything before streaming starts, while errors can still be reported
+      const files: File[] = [];
+      for (const fileId of input.fileIds) {
+        const file = await storage.getFileById(fileId);
+        // Anything shared with the user at all may be downloaded
+        if (!file || !(await permissionService.getFileRole(userId, file))) {
+          return res.status(404).json({ message: `File ${fileId} not found` });
+        }
+        files.push(file);
+      }
+
+      const folderTrees: { folder: Folder; folders: Folder[]; files: File[] }[] = [];
+      for (const folderId of input.folderIds) {
+        const folder = await storage.getFolderById(folderId);
+        if (!folder || !(await permissionService.getFolderRole(userId, folder))) {
+          return res.status(404).json({ message: `Folder ${folderId} not found` });
+        }
+        folderTrees.push({ folder, ...(await storage.getFolderTree(folderId)) });
+      }
+
+      const s3 = input.s3;
+      const credentials = s3 ? await getS3CredentialsFromSession(userId, s3.connectionId) : undefined;
+      if (s3 && !credentials) {
+        return res.status(400).json({ message: "No AWS credentials found. Please connect first." });
+      }
+
+      const entries = async function* () {
+        for (const file of files) {
+          yield archiveService.fileEntry(file);
+        }
+        for (const tree of folderTrees) {
+          yield* archiveService.folderEntries(tree.folder, tree.folders, tree.files);
+        }
+        if (s3 && credentials) {
+          for (const key of s3.keys) {
+            yield archiveService.s3ObjectEntry(s3.bucket, key, credentials);
+          }
+          for (const prefix of s3.prefixes) {
+            yield* archiveService.s3PrefixEntries(s3.bucket, prefix, credentials);
+          }
+        }
+      };
+
+      // A single folder or prefix names the archive after itself
+      let baseName = `ai-storage-${new Date().toISOString().slice(0, 10)}`;
+      if (folderTrees.length === 1 && files.length === 0 && !s3) {
+        baseName = folderTrees[0].folder.name;
+      } else if (s3 && s3.prefixes.length === 1 && s3.keys.length === 0 && files.length + folderTrees.length === 0) {
+        baseName = s3.prefixes[0].replace(/\/$/, '').split('/').pop()!;
+      }
+
+      await archiveService.streamArchive(res, baseName, entries(), input.format);
+    } catch (error: any) {
+      console.error("Error creating archive:", error);
+      if (res.headersSent) return;
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Invalid archive request", errors: error.errors });
+      }
+      if (error instanceof SyntaxError) {
+        return res.status(400).json({ message: "Invalid archive request" });
+      }
+      res.status(500).json({ message: "Failed to create archive" });
+    }
+  });
+
+  // List the share links of a file
+  app.get('/api/files/:id/share', isAuthenticated, async (req: any, res) => {
+    try {
+      const fileId = parseInt(req.params.id);
+      const userId = req.user.id;
+
+      const file = await storage.getFileById(fileId);
+      if (!file) {
         return res.status(404).json({ message: "File not found" });
       }
 
-      const downloadUrl = await s3Service.getFileUrl(file.s3Key);
-      res.json({ downloadUrl });
+      const accessError = await permissionService.checkFile(userId, file, 'owner');
+      if (accessError) {
+        const { status, ...body } = accessError;
+        return res.status(status).json(body);
+      }
+
+      const links = await storage.getShareLinksByFileId(fileId);
+      res.json({ links: links.map((link) => toShareLinkResponse(req, link)) });
+    } catch (error) {
+      console.error("Error fetching file share links:", error);
+      res.status(500).json({ message: "Failed to fetch share links" });
+    }
+  });
+
+  // Create a share link for a file. A file can have several links with different constraints.
+  app.post('/api/files/:id/share', isAuthenticated, fileOpLimiter, async (req: any, res) => {
+    try {
+      const fileId = parseInt(req.params.id);
+      const userId = req.user.id;
+      const { type, expiresAt, password, maxDownloads } = createShareLinkSchema.parse(req.body);
+      if (type === 'upload') {
+        return res.status(400).json({ message: "Only folders can have file request links" });
+      }
+      
+      const file = await storage.getFileById(fileId);
+      if (!file) {
+        return res.status(404).json({ message: "File not found" });
+      }
+
+      const accessError = await permissionService.checkFile(userId, file, 'owner');
+      if (accessError) {
+        const { status, ...body } = accessError;
+        return res.status(status).json(body);
+      }
+
+      const link = await storage.createShareLink({
+        token: nanoid(),
+        userId,
+        fileId,
+        expiresAt,
+        maxDownloads,
+        passwordHash: password ? await bcrypt.hash(password, 12) : undefined,
+      });
+
+      // Invalidate analytics cache and broadcast update (sharing affects analytics)
+      invalidateAnalyticsCache(userId);
+
+      res.json({
+        success: true,
+        link: toShareLinkResponse(req, link),
+        shareUrl: getShareUrl(req, link),
+      });
+    } catch (error) {
+      console.error("Error sharing file:", error);
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Invalid share data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to share file" });
+    }
+  });
+
+  // Revoke a share link. It stays listed (as revoked) but stops working immediately.
+  app.delete('/api/share-links/:id', isAuthenticated, fileOpLimiter, async (req: any, res) => {
+    try {
+      const linkId = parseInt(req.params.id);
+      const userId = req.user.id;
+
+      const link = await storage.getShareLinkById(linkId);
+      if (!link || link.userId !== userId) {
+        return res.status(404).json({ message: "Share link not found" });
+      }
+
+      const revoked = await storage.revokeShareLink(linkId);
+      invalidateAnalyticsCache(userId);
+
+      res.json({ success: true, link: revoked && toShareLinkResponse(req, revoked) });
+    } catch (error) {
+      console.error("Error revoking share link:", error);
+      res.status(500).json({ message: "Failed to revoke share link" });
+    }
+  });
+
+  // The file or folder a permission route is about. Only its owner manages who can access it.
+  const checkPermissionTarget = async (req: any) => {
+    const id = parseInt(req.params.id);
+    if (req.params.itemType === 'files') {
+      const file = await storage.getFileById(id);
+      return { fileId: id, error: await permissionService.checkFile(req.user.id, file, 'owner') };
+    }
+    const folder = await storage.getFolderById(id);
+    return { folderId: id, error: await permissionService.checkFolder(req.user.id, folder, 'owner') };
+  };
+
+  // List the users a file or folder is shared with
+  app.get('/api/:itemType(files|folders)/:id/permissions', isAuthenticated, async (req: any, res) => {
+    try {
+      const { fileId, folderId, error } = await checkPermissionTarget(req);
+      if (error) {
+        const { status, ...body } = error;
+        return res.status(status).json(body);
+      }
+
+      const grants = fileId
+        ? await storage.getPermissionsByFileId(fileId)
+        : await storage.getPermissionsByFolderId(folderId!);
+      res.json(grants);
+    } catch (error) {
+      console.error("Error fetching permissions:", error);
+      res.status(500).json({ message: "Failed to fetch permissions" });
+    }
+  });
+
+  // Share a file or folder with a registered user, or change the role they already have.
+  // Access to a folder covers everything nested in it.
+  app.post('/api/:itemType(files|folders)/:id/permissions', isAuthenticated, fileOpLimiter, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const { email, role } = grantPermissionSchema.parse(req.body);
+
+      const { fileId, folderId, error } = await checkPermissionTarget(req);
+      if (error) {
+        const { status, ...body } = error;
+        return res.status(status).json(body);
+      }
+
+      const grantee = await storage.getUserByEmail(email.toLowerCase().trim());
+      if (!grantee) {
+        return res.status(404).json({ message: "No user is registered with this email" });
+      }
+      if (grantee.id === userId) {
+        return res.status(400).json({ message: "You already own this item" });
+      }
+
+      const permission = await storage.grantPermission({
+        userId: grantee.id,
+        fileId,
+        folderId,
+        role,
+        grantedBy: userId,
+      });
+
+      res.json({ success: true, permission });
+    } catch (error) {
+      console.error("Error granting permission:", error);
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Invalid permission data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to share with user" });
+    }
+  });
+
+  // Remove a user's access. The owner can remove anyone; users can remove themselves.
+  app.delete('/api/permissions/:id', isAuthenticated, fileOpLimiter, async (req: any, res) => {
+    try {
+      const permissionId = parseInt(req.params.id);
+      const userId = req.user.id;
+
+      const permission = await storage.getPermissionById(permissionId);
+      if (!permission) {
+        return res.status(404).json({ message: "Permission not found" });
+      }
+
+      if (permission.userId !== userId) {
+        const accessError = permission.fileId
+          ? await permissionService.checkFile(userId, await storage.getFileById(permission.fileId), 'owner')
+          : await permissionService.checkFolder(userId, await storage.getFolderById(permission.folderId!), 'owner');
+        if (accessError) {
+          // Don't reveal other people's permissions
+          return res.status(404).json({ message: "Permission not found" });
+        }
+      }
+
+      await storage.deletePermission(permissionId);
+
+      res.json({ success: true, message: "Access removed" });
+    } catch (error) {
+      console.error("Error removing permission:", error);
+      res.status(500).json({ message: "Failed to remove access" });
+    }
+  });
+
+  // Files and folders other users shared with the current user
+  app.get('/api/shared-with-me', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const shared = await storage.getSharedWithUser(userId);
+      res.json(shared);
+    } catch (error) {
+      console.error("Error fetching items shared with user:", error);
+      res.status(500).json({ message: "Failed to fetch shared items" });
+    }
+  });
+
+  // Search files and indexed bucket objects by name, with filters. Files come with the path
+  // of their folder (outermost first) so the client can open it; bucket objects are only
+  // found once their bucket has been indexed.
+  app.get('/api/search', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const { page, pageSize, ...filters } = searchQuerySchema.parse(req.query);
+
+      if (filters.folderId) {
+        const folder = await storage.getFolderById(filters.folderId);
+        const accessError = await permissionService.checkFolder(userId, folder, 'viewer');
+        if (accessError) {
+          const { status, ...body } = accessError;
+          return res.status(status).json(body);
+        }
+      }
+
+      // One extra row tells whether there is another page
+      const results = await storage.search(userId, filters, pageSize + 1, (page - 1) * pageSize);
+      const hasMore = results.length > pageSize;
+
+      const folderPaths = new Map<number, { id: number; name: string }[]>();
+      for (const result of results) {
+        if (result.folderId && !folderPaths.has(result.folderId)) {
+          let path = await storage.getFolderPath(result.folderId);
+          // Inside a folder shared with the user, the path starts at that folder
+          if (path[0]?.userId !== userId) {
+            path = path.slice(Math.max(path.findIndex((folder) => folder.id === filters.folderId), 0));
+          }
+          folderPaths.set(result.folderId, path.map(({ id, name }) => ({ id, name })));
+        }
+      }
+
+      res.json({
+        results: results.slice(0, pageSize).map((result) => ({
+          ...result,
+          folderPath: result.folderId ? folderPaths.get(result.folderId) : result.type === 'file' ? [] : undefined,
+        })),
+        page,
+        pageSize,
+        hasMore,
+      });
+    } catch (error) {
+      console.error("Error searching files:", error);
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Invalid search", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to search files" });
+    }
+  });
+
+  // Rename file (only the display name; the storage key stays the same)
+  app.post('/api/files/:id/rename', isAuthenticated, fileOpLimiter, async (req: any, res) => {
+    try {
+      const fileId = parseInt(req.params.id);
+      const userId = req.user.id;
+      const { name } = renameFileSchema.parse(req.body);
+
+      const file = await storage.getFileById(fileId);
+      if (!file) {
+        return res.status(404).json({ message: "File not found" });
+      }
+
+      const accessError = await permissionService.checkFile(userId, file, 'editor');
+      if (accessError) {
+        const { status, ...body } = accessError;
+        return res.status(status).json(body);
+      }
+
+      const updatedFile = await storage.renameFile(fileId, name);
+      invalidateAnalyticsCache(file.userId);
+
+      res.json({ success: true, file: updatedFile });
+    } catch (error) {
+      console.error("Error renaming file:", error);
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Invalid file name", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to rename file" });
+    }
+  });
+
+  // Move file to another folder (folderId null moves it to the root)
+  app.post('/api/files/:id/move', isAuthenticated, fileOpLimiter, async (req: any, res) => {
+    try {
+      const fileId = parseInt(req.params.id);
+      const userId = req.user.id;
+      const { folderId } = moveFileSchema.parse(req.body);
+
+      const file = await storage.getFileById(fileId);
+      if (!file) {
+        return res.status(404).json({ message: "File not found" });
+      }
+
+      // Editors move within the owner's tree; only the owner takes a file to the root
+      const accessError = await permissionService.checkFile(userId, file, folderId === null ? 'owner' : 'editor');
+      if (accessError) {
+        const { status, ...body } = accessError;
+        return res.status(status).json(body);
+      }
+
+      if (folderId !== null) {
+        const folder = await storage.getFolderById(folderId);
+        if (!folder || folder.userId !== file.userId) {
+          return res.status(404).json({ message: "Destination folder not found" });
+        }
+
+        const folderError = await permissionService.checkFolder(userId, folder, 'editor');
+        if (folderError) {
+          const { status, ...body } = folderError;
+          return res.status(status).json(body);
+        }
+      }
+
+      const updatedFile = await storage.moveFile(fileId, folderId);
+      invalidateAnalyticsCache(file.userId);
+
+      res.json({ success: true, file: updatedFile });
+    } catch (error) {
+      console.error("Error moving file:", error);
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Invalid move data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to move file" });
+    }
+  });
+
+  // Copy file. The object is duplicated inside its storage backend (CopyObject on S3),
+  // so the bytes never pass through the app.
+  app.post('/api/files/:id/copy', isAuthenticated, fileOpLimiter, async (req: any, res) => {
+    try {
+      const fileId = parseInt(req.params.id);
+      const userId = req.user.id;
+      const body = copyFileSchema.parse(req.body);
+
+      const file = await storage.getFileById(fileId);
+      if (!file) {
+        return res.status(404).json({ message: "File not found" });
+      }
+
+      const accessError = await permissionService.checkFile(userId, file, 'viewer');
+      if (accessError) {
+        const { status, ...body } = accessError;
+        return res.status(status).json(body);
+      }
+
+      // The copy belongs to whoever owns the destination: a copy to the root is the
+      // user's own, one into a shared folder its owner's
+      const folderId = body.folderId === undefined ? file.folderId : body.folderId;
+      let ownerId = userId;
+      if (folderId !== null) {
+        const folder = await storage.getFolderById(folderId);
+        if (!folder) {
+          return res.status(404).json({ message: "Destination folder not found" });
+        }
+
+        const folderError = await permissionService.checkFolder(userId, folder, 'editor');
+        if (folderError) {
+          const { status, ...details } = folderError;
+          return res.status(status).json(details);
+        }
+        ownerId = folder.userId;
+      }
+
+      // A copy into the same folder gets a distinguishable name unless one was given
+      let name = body.name ?? file.name;
+      if (!body.name && folderId === file.folderId) {
+        const extension = path.extname(file.name);
+        name = `${file.name.slice(0, file.name.length - extension.length)} (copy)${extension}`;
+      }
+
+      const driver = getStorageDriver(file.storageDriver);
+      const s3Key = createUserFileKey(ownerId, name);
+      await driver.copy(file.s3Key, s3Key);
+
+      let copiedFile;
+      try {
+        copiedFile = await storage.createFile({
+          userId: ownerId,
+          folderId,
+          name,
+          originalName: file.originalName,
+          mimeType: file.mimeType,
+          size: file.size,
+          s3Key,
+          s3Bucket: file.s3Bucket,
+          storageDriver: file.storageDriver,
+        });
+      } catch (error) {
+        await driver.delete(s3Key).catch(() => {});
+        throw error;
+      }
+      contentExtractor.wake();
+      thumbnailService.wake();
+
+      invalidateAnalyticsCache(ownerId);
+
+      res.json({ success: true, file: copiedFile });
+    } catch (error) {
+      console.error("Error copying file:", error);
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Invalid copy data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to copy file" });
+    }
+  });
+
+  // List the versions of a file, newest first
+  app.get('/api/files/:id/versions', isAuthenticated, async (req: any, res) => {
+    try {
+      const fileId = parseInt(req.params.id);
+      const userId = req.user.id;
+
+      const file = await storage.getFileById(fileId);
+      if (!file) {
+        return res.status(404).json({ message: "File not found" });
+      }
+
+      const accessError = await permissionService.checkFile(userId, file, 'viewer');
+      if (accessError) {
+        const { status, ...body } = accessError;
+        return res.status(status).json(body);
+      }
+
+      const versions = await storage.getFileVersions(fileId);
+      res.json({
+        versions: versions.map((version, index) => ({ ...version, isCurrent: index === 0 })),
+      });
+    } catch (error) {
+      console.error("Error fetching file versions:", error);
+      res.status(500).json({ message: "Failed to fetch file versions" });
+    }
+  });
+
+  // Download a specific version of a file
+  app.get('/api/files/:id/versions/:versionId/download', isAuthenticated, fileOpLimiter, async (req: any, res) => {
+    try {
+      const fileId = parseInt(req.params.id);
+      const versionId = parseInt(req.params.versionId);
+      const userId = req.user.id;
+
+      const file = await storage.getFileById(fileId);
+      if (!file) {
+        return res.status(404).json({ message: "File not found" });
+      }
+
+      const accessError = await permissionService.checkFile(userId, file, 'viewer');
+      if (accessError) {
+        const { status, ...body } = accessError;
+        return res.status(status).json(body);
+      }
+
+      const version = await storage.getFileVersion(fileId, versionId);
+      if (!version) {
+        return res.status(404).json({ message: "Version not found" });
+      }
+
+      const downloadUrl = await getStorageDriver(version.storageDriver).getDownloadUrl(version.s3Key, file.name);
+      res.json({ downloadUrl });
+    } catch (error) {
+      console.error("Error generating version download URL:", error);
+      res.status(500).json({ message: "Failed to generate download URL" });
+    }
+  });
+
+  // Restore an earlier version. Its object is copied and added as the newest version,
+  // so the versions in between are kept.
+  app.post('/api/files/:id/versions/:versionId/restore', isAuthenticated, fileOpLimiter, async (req: any, res) => {
+    try {
+      const fileId = parseInt(req.params.id);
+      const versionId = parseInt(req.params.versionId);
+      const userId = req.user.id;
+
+      const file = await storage.getFileById(fileId);
+      if (!file) {
+        return res.status(404).json({ message: "File not found" });
+      }
+
+      const accessError = await permissionService.checkFile(userId, file, 'editor');
+      if (accessError) {
+        const { status, ...body } = accessError;
+        return res.status(status).json(body);
+      }
+
+      const version = await storage.getFileVersion(fileId, versionId);
+      if (!version) {
+        return res.status(404).json({ message: "Version not found" });
+      }
+
+      const driver = getStorageDriver(version.storageDriver);
+      const s3Key = createUserFileKey(file.userId, file.name);
+      await driver.copy(version.s3Key, s3Key);
+
+      let updatedFile;
+      try {
+        updatedFile = await storage.addFileVersion(fileId, {
+          s3Key,
+          s3Bucket: version.s3Bucket,
+          storageDriver: version.storageDriver,
+          mimeType: version.mimeType,
+          size: version.size,
+          uploadedBy: userId,
+        });
+      } catch (error) {
+        await driver.delete(s3Key).catch(() => {});
+        throw error;
+      }
+      contentExtractor.wake();
+      thumbnailService.wake();
+
+      invalidateAnalyticsCache(file.userId);
+
+      res.json({ success: true, file: updatedFile });
+    } catch (error) {
+      console.error("Error restoring file version:", error);
+      res.status(500).json({ message: "Failed to restore version" });
+    }
+  });
+
+  // Delete an earlier version of a file. The current version can't be deleted on its own.
+  app.delete('/api/files/:id/versions/:versionId', isAuthenticated, fileOpLimiter, async (req: any, res) => {
+    try {
+      const fileId = parseInt(req.params.id);
+      const versionId = parseInt(req.params.versionId);
+      const userId = req.user.id;
+
+      const file = await storage.getFileById(fileId);
+      if (!file) {
+        return res.status(404).json({ message: "File not found" });
+      }
+
+      const accessError = await permissionService.checkFile(userId, file, 'owner');
+      if (accessError) {
+        const { status, ...body } = accessError;
+        return res.status(status).json(body);
+      }
+
+      const version = await storage.getFileVersion(fileId, versionId);
+      if (!version) {
+        return res.status(404).json({ message: "Version not found" });
+      }
+
+      const [deleted] = await storage.deleteFileVersions(fileId, [versionId]);
+      if (!deleted) {
+        return res.status(400).json({ message: "The current version can't be deleted" });
+      }
+
+      await getStorageDriver(deleted.storageDriver).delete(deleted.s3Key).catch((error) => {
+        console.warn(`Failed to delete stored object ${deleted.s3Key} of version ${versionId}:`, error);
+      });
+      invalidateAnalyticsCache(userId);
+
+      res.json({ success: true, message: "Version deleted" });
+    } catch (error) {
+      console.error("Error deleting file version:", error);
+      res.status(500).json({ message: "Failed to delete version" });
+    }
+  });
+
+  // Delete all but the newest `keep` versions of a file
+  app.post('/api/files/:id/versions/prune', isAuthenticated, fileOpLimiter, async (req: any, res) => {
+    try {
+      const fileId = parseInt(req.params.id);
+      const userId = req.user.id;
+      const { keep } = pruneVersionsSchema.parse(req.body);
+
+      const file = await storage.getFileById(fileId);
+      if (!file) {
+        return res.status(404).json({ message: "File not found" });
+      }
+
+      const accessError = await permissionService.checkFile(userId, file, 'owner');
+      if (accessError) {
+        const { status, ...body } = accessError;
+        return res.status(status).json(body);
+      }
+
+      const versions = await storage.getFileVersions(fileId);
+      const deleted = await storage.deleteFileVersions(fileId, versions.slice(keep).map((version) => version.id));
+
+      for (const version of deleted) {
+        try {
+          await getStorageDriver(version.storageDriver).delete(version.s3Key);
+        } catch (error) {
+          console.warn(`Failed to delete stored object ${version.s3Key} of version ${version.id}:`, error);
+        }
+      }
+      invalidateAnalyticsCache(userId);
+
+      res.json({ success: true, deletedVersions: deleted.length });
+    } catch (error) {
+      console.error("Error pruning file versions:", error);
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Invalid prune data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to prune versions" });
+    }
+  });
+
+  // Content extraction state of a file's current version: pending until the extractor
+  // picks it up, then extracting, ready, skipped (not a supported type, or too large) or error
+  app.get('/api/files/:id/content-status', isAuthenticated, async (req: any, res) => {
+    try {
+      const fileId = parseInt(req.params.id);
+      const userId = req.user.id;
+
+      const file = await storage.getFileById(fileId);
+      if (!file) {
+        return res.status(404).json({ message: "File not found" });
+      }
+
+      const accessError = await permissionService.checkFile(userId, file, 'viewer');
+      if (accessError) {
+        const { status, ...body } = accessError;
+        return res.status(status).json(body);
+      }
+
+      // A row for an older object means the file was replaced since
+      const state = await storage.getFileContentState(fileId);
+      if (!state || state.s3Key !== file.s3Key) {
+        return res.json({ status: 'pending', error: null, extractedAt: null });
+      }
+      res.json({ status: state.status, error: state.error, extractedAt: state.extractedAt });
+    } catch (error) {
+      console.error("Error fetching content status:", error);
+      res.status(500).json({ message: "Failed to fetch content status" });
+    }
+  });
+
+  // WebP thumbnail of an image file (?size= one of thumbnailSizes, default 256); 404 until
+  // it has been generated. Not rate limited like other file operations, as grids load many.
+  app.get('/api/files/:id/thumbnail', isAuthenticated, async (req: any, res) => {
+    try {
+      const fileId = parseInt(req.params.id);
+      const userId = req.user.id;
+      const size = req.query.size ? parseInt(req.query.size) : 256;
+      if (!thumbnailSizes.some((allowed) => allowed === size)) {
+        return res.status(400).json({ message: `Thumbnail size must be one of ${thumbnailSizes.join(', ')}` });
+      }
+
+      const file = await storage.getFileById(fileId);
+      if (!file) {
+        return res.status(404).json({ message: "File not found" });
+      }
+
+      const accessError = await permissionService.checkFile(userId, file, 'viewer');
+      if (accessError) {
+        const { status, ...body } = accessError;
+        return res.status(status).json(body);
+      }
+
+      const thumbnail = await thumbnailService.getThumbnail(file, size);
+      if (!thumbnail) {
+        return res.status(404).json({ message: "Thumbnail not available" });
+      }
+
+      const { body, size: length } = await getStorageDriver(thumbnail.storageDriver).read(thumbnail.s3Key);
+      res.setHeader('Content-Type', 'image/webp');
+      res.setHeader('Content-Length', length);
+      // Clients add the file's updatedAt to the URL, so a replaced image gets a new one
+      res.setHeader('Cache-Control', 'private, max-age=86400');
+      body.on('error', (error) => {
+        console.error("Error streaming thumbnail:", error);
+        res.destroy(error);
+      });
+      body.pipe(res);
+    } catch (error) {
+      console.error("Error fetching thumbnail:", error);
+      res.status(500).json({ message: "Failed to fetch thumbnail" });
+    }
+  });
+
+  // A file's content for in-browser previews (see sendInlinePreview)
+  app.get('/api/files/:id/preview', isAuthenticated, async (req: any, res) => {
+    try {
+      const fileId = parseInt(req.params.id);
+      const userId = req.user.id;
+
+      const file = await storage.getFileById(fileId);
+      if (!file) {
+        return res.status(404).json({ message: "File not found" });
+      }
+
+      const accessError = await permissionService.checkFile(userId, file, 'viewer');
+      if (accessError) {
+        const { status, ...body } = accessError;
+        return res.status(status).json(body);
+      }
+
+      await sendInlinePreview(req, res, file, (range) => getStorageDriver(file.storageDriver).read(file.s3Key, range));
+    } catch (error) {
+      console.error("Error fetching preview:", error);
+      res.status(500).json({ message: "Failed to fetch preview" });
+    }
+  });
+
+  // Shared file metadata for the public share page. Links without a download limit also
+  // get a preview URL for images, video and audio, served by this app (the page's CSP
+  // doesn't allow media from the bucket); with a limit, every fetch of the content has to
+  // go through the download route so it is counted.
+  app.get('/api/shared/file/:token', sharedLimiter, async (req, res) => {
+    try {
+      const { token } = req.params;
+      const link = await storage.getShareLinkByToken(token);
+      const isFileLink = !!link && ['file', 's3-object'].includes(getShareLinkTarget(link));
+
+      const linkError = await checkShareLink(isFileLink ? link : undefined, req.get(SHARE_PASSWORD_HEADER));
+      if (linkError) {
+        const { status, ...body } = linkError;
+        return res.status(status).json(body);
+      }
+
+      const shared = await resolveSharedFile(link!);
+      if ('status' in shared) {
+        const { status, ...body } = shared;
+        return res.status(status).json(body);
+      }
+
+      const previewUrl = link!.maxDownloads === null && isInlinePreviewable(shared.file.mimeType)
+        ? getSharePreviewUrl(link!, 60 * 60) // long enough to watch a video
+        : undefined;
+
+      res.json({
+        file: shared.file,
+        previewUrl,
+        expiresAt: link!.expiresAt,
+        downloadsRemaining: link!.maxDownloads === null ? null : link!.maxDownloads - link!.downloadCount,
+      });
+    } catch (error) {
+      console.error("Error accessing shared file:", error);
+      res.status(500).json({ message: "Failed to access shared file" });
+    }
+  });
+
+  // Inline content of a shared file for the share page's preview, with Range support for
+  // media. The signed URL from the metadata route stands in for the password; no limiter
+  // beyond the API-wide one, since players fetch many ranges.
+  app.get('/api/shared/file/:token/preview', async (req, res) => {
+    try {
+      const { token } = req.params;
+      const link = await storage.getShareLinkByToken(token);
+      const isFileLink = !!link && ['file', 's3-object'].includes(getShareLinkTarget(link));
+
+      if (!isFileLink || !verifySharePreview(link!, req.query)) {
+        return res.status(403).json({ message: "Preview link is invalid or has expired" });
+      }
+      const linkError = await checkShareLink(link, true);
+      if (linkError) {
+        const { status, ...body } = linkError;
+        return res.status(status).json(body);
+      }
+
+      const shared = await resolveSharedFile(link!);
+      if ('status' in shared) {
+        const { status, ...body } = shared;
+        return res.status(status).json(body);
+      }
+      // Content of links with a download limit is only handed out by the download route
+      if (link!.maxDownloads !== null || !isInlinePreviewable(shared.file.mimeType)) {
+        return res.status(403).json({ message: "No preview available for this file" });
+      }
+
+      await sendInlinePreview(req, res, shared.file, shared.read);
+    } catch (error) {
+      console.error("Error fetching shared file preview:", error);
+      if (!res.headersSent) {
+        res.status(500).json({ message: "Failed to fetch preview" });
+      }
+    }
+  });
+
+  // Download a shared file; counts against the link's download limit
+  app.post('/api/shared/file/:token/download', sharedLimiter, async (req, res) => {
+    try {
+      const { token } = req.params;
+      const link = await storage.getShareLinkByToken(token);
+      const isFileLink = !!link && ['file', 's3-object'].includes(getShareLinkTarget(link));
+
+      const linkError = await checkShareLink(isFileLink ? link : undefined, req.get(SHARE_PASSWORD_HEADER));
+      if (linkError) {
+        const { status, ...body } = linkError;
+        return res.status(status).json(body);
+      }
+
+      const shared = await resolveSharedFile(link!);
+      if ('status' in shared) {
+        const { status, ...body } = shared;
+        return res.status(status).json(body);
+      }
+
+      if (!(await storage.recordShareLinkDownload(link!.id))) {
+        return res.status(410).json({ message: "This share link has reached its download limit" });
+      }
+
+      const downloadUrl = await shared.getDownloadUrl(300); // 5 minutes
+      res.json({ downloadUrl });
+    } catch (error) {
+      console.error("Error downloading shared file:", error);
+      res.status(500).json({ message: "Failed to download shared file" });
+    }
+  });
+
+  // Access shared folder, or with a folder id one of its subfolders at any depth
+  const getSharedFolderListing = async (req: any, res: any) => {
+    try {
+      const { token } = req.params;
+      const link = await storage.getShareLinkByToken(token);
+
+      const linkError = await checkShareLink(link?.folderId ? link : undefined, req.get(SHARE_PASSWORD_HEADER));
+      if (linkError) {
+        const { status, ...body } = linkError;
+        return res.status(status).json(body);
+      }
+
+      const folder = req.params.folderId
+        ? await storage.getFolderInSubtree(link!.folderId!, parseInt(req.params.folderId))
+        : await storage.getFolderById(link!.folderId!);
+      if (!folder) {
+        return res.status(404).json({ message: "Shared folder not found" });
+      }
+
+      const files = await storage.getFilesByUserId(folder.userId, folder.id);
+      const subfolders = await storage.getFoldersByUserId(folder.userId, folder.id);
+
+      res.json({
+        folder: toSharedFolderResponse(folder),
+        files: files.map(toSharedFileResponse),
+        subfolders: subfolders.map(toSharedFolderResponse),
+        expiresAt: link!.expiresAt,
+        downloadsRemaining: link!.maxDownloads === null ? null : link!.maxDownloads - link!.downloadCount,
+      });
+    } catch (error) {
+      console.error("Error accessing shared folder:", error);
+      res.status(500).json({ message: "Failed to access shared folder" });
+    }
+  };
+  app.get('/api/shared/folder/:token', sharedLimiter, getSharedFolderListing);
+  app.get('/api/shared/folder/:token/folders/:folderId', sharedLimiter, getSharedFolderListing);
+
+  // Download one file anywhere inside a shared folder; counts against the link's download limit
+  app.post('/api/shared/folder/:token/files/:fileId/download', sharedLimiter, async (req, res) => {
+    try {
+      const { token } = req.params;
+      const link = await storage.getShareLinkByToken(token);
+
+      const linkError = await checkShareLink(link?.folderId ? link : undefined, req.get(SHARE_PASSWORD_HEADER));
+      if (linkError) {
+        const { status, ...body } = linkError;
+        return res.status(status).json(body);
+      }
+
+      const file = await storage.getFileInSubtree(link!.folderId!, parseInt(req.params.fileId));
+      if (!file) {
+        return res.status(404).json({ message: "File not found in shared folder" });
+      }
+
+      if (!(await storage.recordShareLinkDownload(link!.id))) {
+        return res.status(410).json({ message: "This share link has reached its download limit" });
+      }
+
+      const downloadUrl = await getStorageDriver(file.storageDriver).getDownloadUrl(file.s3Key, file.name, 300); // 5 minutes
+      res.json({ downloadUrl });
+    } catch (error) {
+      console.error("Error downloading file from shared folder:", error);
+      res.status(500).json({ message: "Failed to download file" });
+    }
+  });
+
+  // Download a shared folder, or one of its subfolders, as a ZIP streamed from storage.
+  // Counts as one download. Browsers submit this as a form so the archive streams straight
+  // to disk, which is why the password may also come in the body.
+  const downloadSharedFolder = async (req: any, res: any) => {
+    try {
+      const { token } = req.params;
+      const link = await storage.getShareLinkByToken(token);
+
+      const password = req.get(SHARE_PASSWORD_HEADER) ?? req.body?.password;
+      const linkError = await checkShareLink(link?.folderId ? link : undefined, password);
+      if (linkError) {
+        const { status, ...body } = linkError;
+        return res.status(status).json(body);
+      }
+
+      const folder = req.params.folderId
+        ? await storage.getFolderInSubtree(link!.folderId!, parseInt(req.params.folderId))
+        : await storage.getFolderById(link!.folderId!);
+      if (!folder) {
+        return res.status(404).json({ message: "Shared folder not found" });
+      }
+
+      if (!(await storage.recordShareLinkDownload(link!.id))) {
+        return res.status(410).json({ message: "This share link has reached its download limit" });
+      }
+
+      const tree = await storage.getFolderTree(folder.id);
+      await archiveService.streamArchive(res, folder.name, archiveService.folderEntries(folder, tree.folders, tree.files));
+    } catch (error) {
+      console.error("Error downloading shared folder:", error);
+      if (!res.headersSent) {
+        res.status(500).json({ message: "Failed to download shared folder" });
+      }
+    }
+  };
+  app.post('/api/shared/folder/:token/download', sharedLimiter, downloadSharedFolder);
+  app.post('/api/shared/folder/:token/folders/:folderId/download', sharedLimiter, downloadSharedFolder);
+
+  // Check a bucket prefix share link and resolve the prefix being viewed: the shared
+  // prefix, or with a path (relative to it, ending in '/') one of the prefixes below it
+  const resolveSharedPrefix = async (req: any, password: unknown) => {
+    const link = await storage.getShareLinkByToken(req.params.token);
+    const linkError = await checkShareLink(
+      link && getShareLinkTarget(link) === 's3-prefix' ? link : undefined,
+      password
+    );
+    if (linkError) {
+      return { error: linkError };
+    }
+
+    const path = typeof req.query.path === 'string' ? req.query.path : '';
+    if (path && (!path.endsWith('/') || path.split('/').slice(0, -1).some((segment: string) => !segment || segment === '..'))) {
+      return { error: { status: 400, message: "Invalid path" } as ShareLinkError };
+    }
+
+    const shared = await resolveSharedBucket(link!);
+    if (!shared) {
+      return { error: SHARED_BUCKET_GONE };
+    }
+    return { link: link!, ...shared, prefix: link!.s3Key! + path };
+  };
+
+  // Access a shared bucket prefix. Keys are returned relative to the shared prefix so
+  // visitors never see where it sits in the bucket.
+  app.get('/api/shared/prefix/:token', sharedLimiter, async (req, res) => {
+    try {
+      const resolved = await resolveSharedPrefix(req, req.get(SHARE_PASSWORD_HEADER));
+      if (resolved.error) {
+        const { status, ...body } = resolved.error;
+        return res.status(status).json(body);
+      }
+      const { link, bucket, credentials, prefix } = resolved;
+
+      const root = link.s3Key!;
+      const result = await s3Service.listObjects(
+        bucket,
+        prefix,
+        credentials,
+        typeof req.query.token === 'string' ? req.query.token : undefined
+      );
+
+      res.json({
+        name: root.slice(0, -1).split('/').pop(),
+        // Zero-byte "folder" placeholders created by the S3 console are left out
+        objects: result.objects
+          .filter((object) => !object.key.endsWith('/'))
+          .map((object) => ({
+            key: object.key.slice(root.length),
+            size: object.size ?? 0,
+            lastModified: object.lastModified,
+          })),
+        prefixes: result.prefixes.map((subPrefix) => subPrefix.slice(root.length)),
+        nextToken: result.nextToken,
+        expiresAt: link.expiresAt,
+        downloadsRemaining: link.maxDownloads === null ? null : link.maxDownloads - link.downloadCount,
+      });
+    } catch (error) {
+      console.error("Error accessing shared prefix:", error);
+      res.status(500).json({ message: "Failed to access shared folder" });
+    }
+  });
+
+  // Download one object anywhere below a shared prefix; counts against the link's download limit
+  app.post('/api/shared/prefix/:token/objects/download', sharedLimiter, async (req: any, res) => {
+    try {
+      const resolved = await resolveSharedPrefix(req, req.get(SHARE_PASSWORD_HEADER));
+      if (resolved.error) {
+        const { status, ...body } = resolved.error;
+        return res.status(status).json(body);
+      }
+      const { link, bucket, credentials } = resolved;
+
+      const relativeKey = req.query.key;
+      if (typeof relativeKey !== 'string' || !relativeKey || relativeKey.endsWith('/')) {
+        return res.status(400).json({ message: "Object key is required" });
+      }
+      const key = link.s3Key! + relativeKey;
+
+      try {
+        await s3Service.getObjectMetadata(bucket, key, credentials);
+      } catch (error: any) {
+        if (error.name === 'NotFound' || error.$metadata?.httpStatusCode === 404) {
+          return res.status(404).json({ message: "File not found in shared folder" });
+        }
+        throw error;
+      }
+
+      if (!(await storage.recordShareLinkDownload(link.id))) {
+        return res.status(410).json({ message: "This share link has reached its download limit" });
+      }
+
+      const downloadUrl = await s3Service.getPresignedDownloadUrl(bucket, key, credentials, 300); // 5 minutes
+      res.json({ downloadUrl });
+    } catch (error) {
+      console.error("Error downloading object from shared prefix:", error);
+      res.status(500).json({ message: "Failed to download file" });
+    }
+  });
+
+  // Download a shared prefix, or with a path one of the prefixes below it, as a ZIP
+  // streamed from the bucket. Counts as one download; submitted as a form like folder
+  // downloads, so the password may also come in the body.
+  app.post('/api/shared/prefix/:token/download', sharedLimiter, async (req: any, res) => {
+    try {
+      const resolved = await resolveSharedPrefix(req, req.get(SHARE_PASSWORD_HEADER) ?? req.body?.password);
+      if (resolved.error) {
+        const { status, ...body } = resolved.error;
+        return res.status(status).json(body);
+      }
+      const { link, bucket, credentials, prefix } = resolved;
+
+      if (!(await storage.recordShareLinkDownload(link.id))) {
+        return res.status(410).json({ message: "This share link has reached its download limit" });
+      }
+
+      await archiveService.streamArchive(
+        res,
+        prefix.slice(0, -1).split('/').pop()!,
+        archiveService.s3PrefixEntries(bucket, prefix, credentials)
+      );
+    } catch (error) {
+      console.error("Error downloading shared prefix:", error);
+      if (!res.headersSent) {
+        res.status(500).json({ message: "Failed to download shared folder" });
+      }
+    }
+  });
+
+  // What the file request page shows: the folder's name and the upload limits, never its contents
+  app.get('/api/shared/upload/:token', sharedLimiter, async (req, res) => {
+    try {
+      const link = await storage.getShareLinkByToken(req.params.token);
+
+      const linkError = await checkShareLink(link, req.get(SHARE_PASSWORD_HEADER), 'upload');
+      if (linkError) {
+        const { status, ...body } = linkError;
+        return res.status(status).json(body);
+      }
+
+      const folder = await storage.getFolderById(link!.folderId!);
+      if (!folder) {
+        return res.status(404).json({ message: "Share link not found" });
+      }
+
+      res.json({
+        folder: { name: folder.name },
+        maxFileSize: getUploadSizeLimit({ fileRequest: { link } }),
+        allowedTypes: link!.allowedTypes,
+        expiresAt: link!.expiresAt,
+      });
+    } catch (error) {
+      console.error("Error fetching file request:", error);
+      res.status(500).json({ message: "Failed to load file request" });
+    }
+  });
+
+  // Check a file request link (and its password) before multer stores anything
+  const resolveFileRequest: RequestHandler = async (req: any, res, next) => {
+    try {
+      const link = await storage.getShareLinkByToken(req.params.token);
+
+      const linkError = await checkShareLink(link, req.get(SHARE_PASSWORD_HEADER), 'upload');
+      if (linkError) {
+        const { status, ...body } = linkError;
+        return res.status(status).json(body);
+      }
+
+      const folder = await storage.getFolderById(link!.folderId!);
+      if (!folder) {
+        return res.status(404).json({ message: "Share link not found" });
+      }
+
+      req.fileRequest = { link, folder };
+      next();
+    } catch (error) {
+      console.error("Error checking file request:", error);
+      res.status(500).json({ message: "Failed to upload file" });
+    }
+  };
+
+  // Upload a file through a file request link. It is saved like the owner's own uploads
+  // (a file of the same name in the folder gets a new version), tagged with the name and
+  // email the uploader entered.
+  app.post('/api/shared/upload/:token', uploadLimiter, resolveFileRequest, handleUpload(fileRequestUpload), async (req: any, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ message: "No file uploaded" });
+      }
+
+      const { link, folder } = req.fileRequest;
+      const { originalname, mimetype, size, key, bucket } = req.file as S3UploadedFile;
+      const { uploaderName, uploaderEmail } = fileRequestUploaderSchema.parse(req.body);
+
+      const fileData = insertFileSchema.parse({
+        userId: link.userId,
+        folderId: folder.id,
+        name: originalname,
+        originalName: originalname,
+        mimeType: mimetype,
+        size,
+        s3Key: key,
+        s3Bucket: bucket,
+        storageDriver: storageDriver.name,
+        uploaderName,
+        uploaderEmail,
+      });
+
+      // Anonymous, so no user is recorded as the version's uploader
+      const file = await storage.saveUploadedFile(fileData, null);
+      contentExtractor.wake();
+      thumbnailService.wake();
+
+      invalidateAnalyticsCache(link.userId);
+
+      res.json({ success: true, file: toSharedFileResponse(file) });
+    } catch (error) {
+      console.error("File request upload error:", error);
+      // Nothing refers to the stored object yet
+      if (req.file) {
+        await storageDriver.delete((req.file as S3UploadedFile).key).catch(() => {});
+      }
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Invalid uploader details", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to upload file" });
+    }
+  });
+
+  // Downloads of files stored by the disk driver. The signed, expiring link is the
+  // authorization, like a presigned S3 URL, so this route needs no session.
+  app.get(DISK_DOWNLOAD_PATH, fileOpLimiter, (req, res) => {
+    let download;
+    try {
+      download = diskStorageDriver.verifyDownload(req.query);
+    } catch (error) {
+      download = undefined;
+    }
+    if (!download) {
+      return res.status(403).json({ message: "Download link is invalid or has expired" });
+    }
+
+    res.download(download.filePath, download.fileName, (error: any) => {
+      if (!error || res.headersSent) return;
+      if (error.code === 'ENOENT') {
+        return res.status(404).json({ message: "File not found" });
+      }
+      console.error("Error sending stored file:", error);
+      res.status(500).json({ message: "Failed to download file" });
+    });
+  });
+
+  // Delete file
+  app.delete('/api/files/:id', isAuthenticated, fileOpLimiter, async (req: any, res) => {
+    try {
+      const fileId = parseInt(req.params.id);
+      const userId = req.user.id;
+      
+      const file = await storage.getFileById(fileId);
+      if (!file) {
+        return res.status(404).json({ message: "File not found" });
+      }
+
+      const accessError = await permissionService.checkFile(userId, file, 'editor');
+      if (accessError) {
+        const { status, ...body } = accessError;
+        return res.status(status).json(body);
+      }
+
+      // Soft delete; the stored object is removed when the file is deleted from the trash
+      await storage.trashFile(fileId);
+
+      // Invalidate analytics cache and broadcast update
+      invalidateAnalyticsCache(file.userId);
+
+      res.json({ success: true, message: "File moved to trash" });
+    } catch (error) {
+      console.error("Error deleting file:", error);
+      res.status(500).json({ message: "Failed to delete file" });
+    }
+  });
+
+  // List trashed files and folders (top level only; folder contents come back on restore)
+  app.get('/api/trash', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const trash = await storage.getTrashByUserId(userId);
+      const withPurgeDate = <T extends { deletedAt: Date | null }>(item: T) => ({
+        ...item,
+        purgeAt: item.deletedAt ? trashService.getPurgeDate(item.deletedAt) : null,
+      });
+
+      res.json({
+        files: trash.files.map(withPurgeDate),
+        folders: trash.folders.map(withPurgeDate),
+        retentionDays: trashService.retentionDays,
+      });
     } catch (error) {
-      console.error("Error generating download URL:", error);
-      res.status(500).json({ message: "Failed to generate download URL" });
+      console.error("Error fetching trash:", error);
+      res.status(500).json({ message: "Failed to fetch trash" });
     }
   });
 
-  // Share file
-  app.post('/api/files/:id/share', isAuthenticated, fileOpLimiter, async (req: any, res) => {
+  // Restore trashed file
+  app.post('/api/trash/files/:id/restore', isAuthenticated, fileOpLimiter, async (req: any, res) => {
     try {
       const fileId = parseInt(req.params.id);
       const userId = req.user.id;
-      const { isShared } = shareFileSchema.parse(req.body);
-      
-      const file = await storage.getFileById(fileId);
-      if (!file || file.userId !== userId) {
-        return res.status(404).json({ message: "File not found" });
+
+      const file = await storage.getTrashedFile(fileId);
+      if (!file) {
+        return res.status(404).json({ message: "File not found in trash" });
       }
 
-      const shareToken = isShared ? nanoid() : undefined;
-      const updatedFile = await storage.updateFileSharing(fileId, isShared, shareToken);
+      const accessError = await permissionService.checkFile(userId, file, 'owner');
+      if (accessError) {
+        const { status, ...body } = accessError;
+        return res.status(status).json(body);
+      }
 
-      // Invalidate analytics cache and broadcast update (sharing affects analytics)
+      const restoredFile = await storage.restoreFile(fileId);
       invalidateAnalyticsCache(userId);
 
-      let shareUrl = undefined;
-      if (isShared && shareToken) {
-        const baseUrl = req.protocol + '://' + req.get('host');
-        shareUrl = `${baseUrl}/api/shared/file/${shareToken}`;
-      }
-
-      res.json({
-        success: true,
-        file: updatedFile,
-        shareUrl,
-      });
+      res.json({ success: true, file: restoredFile });
     } catch (error) {
-      console.error("Error sharing file:", error);
-      if (error instanceof ZodError) {
-        return res.status(400).json({ message: "Invalid share data", errors: error.errors });
-      }
-      res.status(500).json({ message: "Failed to share file" });
+      console.error("Error restoring file:", error);
+      res.status(500).json({ message: "Failed to restore file" });
     }
   });
 
-  // Access shared file
-  app.get('/api/shared/file/:token', sharedLimiter, async (req, res) => {
+  // Restore trashed folder with everything that was trashed along with it
+  app.post('/api/trash/folders/:id/restore', isAuthenticated, fileOpLimiter, async (req: any, res) => {
     try {
-      const { token } = req.params;
-      const file = await storage.getSharedFile(token);
-      
-      if (!file || !file.isShared) {
-        return res.status(404).json({ message: "Shared file not found" });
+      const folderId = parseInt(req.params.id);
+      const userId = req.user.id;
+
+      const folder = await storage.getTrashedFolder(folderId);
+      if (!folder) {
+        return res.status(404).json({ message: "Folder not found in trash" });
       }
 
-      const downloadUrl = await s3Service.getFileUrl(file.s3Key, 300); // 5 minutes
-      res.json({
-        file: {
-          name: file.name,
-          size: file.size,
-          mimeType: file.mimeType,
-          uploadedAt: file.uploadedAt,
-        },
-        downloadUrl,
-      });
+      const accessError = await permissionService.checkFolder(userId, folder, 'owner');
+      if (accessError) {
+        const { status, ...body } = accessError;
+        return res.status(status).json(body);
+      }
+
+      const restoredFolder = await storage.restoreFolder(folderId);
+      invalidateAnalyticsCache(userId);
+
+      res.json({ success: true, folder: restoredFolder });
     } catch (error) {
-      console.error("Error accessing shared file:", error);
-      res.status(500).json({ message: "Failed to access shared file" });
+      console.error("Error restoring folder:", error);
+      res.status(500).json({ message: "Failed to restore folder" });
     }
   });
 
-  // Access shared folder
-  app.get('/api/shared/folder/:token', sharedLimiter, async (req, res) => {
+  // Permanently delete trashed file
+  app.delete('/api/trash/files/:id', isAuthenticated, fileOpLimiter, async (req: any, res) => {
     try {
-      const { token } = req.params;
-      const folder = await storage.getSharedFolder(token);
-      
-      if (!folder || !folder.isShared) {
-        return res.status(404).json({ message: "Shared folder not found" });
+      const fileId = parseInt(req.params.id);
+      const userId = req.user.id;
+
+      const file = await storage.getTrashedFile(fileId);
+      if (!file) {
+        return res.status(404).json({ message: "File not found in trash" });
       }
 
-      const files = await storage.getFilesByUserId(folder.userId, folder.id);
-      const subfolders = await storage.getFoldersByUserId(folder.userId, folder.id);
+      const accessError = await permissionService.checkFile(userId, file, 'owner');
+      if (accessError) {
+        const { status, ...body } = accessError;
+        return res.status(status).json(body);
+      }
 
-      res.json({
-        folder: {
-          name: folder.name,
-          createdAt: folder.createdAt,
-        },
-        files,
-        subfolders,
-      });
+      await trashService.deleteFile(file);
+      invalidateAnalyticsCache(userId);
+
+      res.json({ success: true, message: "File permanently deleted" });
     } catch (error) {
-      console.error("Error accessing shared folder:", error);
-      res.status(500).json({ message: "Failed to access shared folder" });
+      console.error("Error permanently deleting file:", error);
+      res.status(500).json({ message: "Failed to delete file" });
     }
   });
 
-  // Delete file
-  app.delete('/api/files/:id', isAuthenticated, fileOpLimiter, async (req: any, res) => {
+  // Permanently delete trashed folder with everything inside it
+  app.delete('/api/trash/folders/:id', isAuthenticated, fileOpLimiter, async (req: any, res) => {
     try {
-      const fileId = parseInt(req.params.id);
+      const folderId = parseInt(req.params.id);
       const userId = req.user.id;
-      
-      const file = await storage.getFileById(fileId);
-      if (!file || file.userId !== userId) {
-        return res.status(404).json({ message: "File not found" });
+
+      const folder = await storage.getTrashedFolder(folderId);
+      if (!folder) {
+        return res.status(404).json({ message: "Folder not found in trash" });
       }
 
-      // Delete from S3
-      await s3Service.deleteFile(file.s3Key);
+      const accessError = await permissionService.checkFolder(userId, folder, 'owner');
+      if (accessError) {
+        const { status, ...body } = accessError;
+        return res.status(status).json(body);
+      }
 
-      // Delete from database
-      await storage.deleteFile(fileId);
+      await trashService.deleteFolder(folderId);
+      invalidateAnalyticsCache(userId);
 
-      // Invalidate analytics cache and broadcast update
+      res.json({ success: true, message: "Folder permanently deleted" });
+    } catch (error) {
+      console.error("Error permanently deleting folder:", error);
+      res.status(500).json({ message: "Failed to delete folder" });
+    }
+  });
+
+  // Empty trash
+  app.delete('/api/trash', isAuthenticated, fileOpLimiter, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      await trashService.emptyTrash(userId);
       invalidateAnalyticsCache(userId);
 
-      res.json({ success: true, message: "File deleted successfully" });
+      res.json({ success: true, message: "Trash emptied" });
     } catch (error) {
-      console.error("Error deleting file:", error);
-      res.status(500).json({ message: "Failed to delete file" });
+      console.error("Error emptying trash:", error);
+      res.status(500).json({ message: "Failed to empty trash" });
     }
   });
 
@@ -457,38 +2576,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const files = await storage.getFilesByUserId(userId);
       const folders = await storage.getFoldersByUserId(userId);
       
-      // Count S3 objects if connected
+      // Count S3 objects of the active connection from the object index
       let s3ObjectCount = 0;
       let s3TotalSize = 0;
-      const credentials = getS3CredentialsFromSession(userId);
+      const connection = await getS3ConnectionFromSession(userId);
       
-      if (credentials && hasS3CredentialsInSession(userId)) {
-        try {
-          const buckets = await s3Service.listBuckets(credentials);
-          for (const bucket of buckets) {
-            // Paginate through all objects in the bucket
-            let continuationToken: string | undefined = undefined;
-            let hasMore = true;
-            
-            while (hasMore) {
-              const objects = await s3Service.listObjects(bucket.name, '', credentials, continuationToken, 1000);
-              s3ObjectCount += objects.objects.length;
-              s3TotalSize += objects.objects.reduce((sum, obj) => sum + (obj.size || 0), 0);
-              
-              continuationToken = objects.nextToken;
-              hasMore = objects.isTruncated && !!continuationToken;
-              
-              // Safety limit to prevent infinite loops
-              if (s3ObjectCount > 100000) {
-                console.warn(`S3 stats: Hit safety limit of 100k objects for user ${userId}`);
-                break;
-              }
-            }
-          }
-        } catch (s3Error) {
-          console.warn("Error fetching S3 stats:", s3Error);
-          // Continue without S3 stats if there's an error
-        }
+      if (connection) {
+        const usage = await storage.getS3ObjectUsage(connection.id);
+        s3ObjectCount = usage.count;
+        s3TotalSize = usage.bytes;
       }
       
       const totalFiles = files.length + s3ObjectCount;
@@ -497,6 +2593,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const sharedFiles = files.filter(file => file.isShared).length;
       const sharedFolders = folders.filter(folder => folder.isShared).length;
       
+      // Trashed files still occupy storage until they are purged, reported separately
+      const trash = await storage.getTrashUsage(userId);
+      
       // Mock total storage capacity (1TB)
       const totalCapacity = 1024 * 1024 * 1024 * 1024; // 1TB in bytes
 
@@ -505,6 +2604,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         totalFolders,
         totalSize,
         sharedFiles: sharedFiles + sharedFolders,
+        trashedFiles: trash.count,
+        trashedSize: trash.bytes,
         totalCapacity,
         usagePercentage: (totalSize / totalCapacity) * 100,
       });
@@ -651,78 +2752,54 @@ export async function registerRoutes(app: Express): Promise<Server> {
           uploadedAt: file.uploadedAt
         }));
 
-      // S3 external objects (if requested and credentials available)
+      // S3 external objects (if requested and connected), read from the object index.
+      // The result is partial while buckets are still being crawled or failed to index.
       let s3ObjectCount = 0;
       let s3TotalSize = 0;
       let isPartial = false;
-      const credentials = getS3CredentialsFromSession(userId);
+      const connection = await getS3ConnectionFromSession(userId);
 
-      if ((includeExternal || selectedDisk) && credentials && hasS3CredentialsInSession(userId)) {
-        try {
-          let bucketsToProcess = [];
-          
-          if (selectedDisk) {
-            // When a specific disk is selected, only process that bucket
-            bucketsToProcess = [{ name: selectedDisk }];
-          } else {
-            // When no specific disk is selected, process all buckets
-            const allBuckets = await s3Service.listBuckets(credentials);
-            bucketsToProcess = allBuckets;
-          }
-          
-          for (const bucket of bucketsToProcess) {
-            let continuationToken: string | undefined = undefined;
-            let hasMore = true;
-            
-            while (hasMore) {
-              const objects = await s3Service.listObjects(bucket.name, '', credentials, continuationToken, 1000);
-              s3ObjectCount += objects.objects.length;
-              s3TotalSize += objects.objects.reduce((sum, obj) => sum + (obj.size || 0), 0);
-              
-              // Add S3 objects to bucket usage
-              if (!bucketUsageMap[bucket.name]) {
-                bucketUsageMap[bucket.name] = { count: 0, bytes: 0 };
-              }
-              bucketUsageMap[bucket.name].count += objects.objects.length;
-              bucketUsageMap[bucket.name].bytes += objects.objects.reduce((sum, obj) => sum + (obj.size || 0), 0);
-              
-              // Add S3 objects to file types (infer from extension)
-              objects.objects.forEach(obj => {
-                let type = 'Other';
-                if (obj.key) {
-                  const ext = obj.key.split('.').pop()?.toLowerCase();
-                  if (ext && ['jpg', 'jpeg', 'png', 'gif', 'bmp', 'webp'].includes(ext)) type = 'Images';
-                  else if (ext && ['mp4', 'avi', 'mov', 'wmv', 'flv'].includes(ext)) type = 'Videos';
-                  else if (ext && ['mp3', 'wav', 'flac', 'aac'].includes(ext)) type = 'Audio';
-                  else if (ext && ['pdf'].includes(ext)) type = 'PDFs';
-                  else if (ext && ['doc', 'docx', 'txt', 'rtf'].includes(ext)) type = 'Documents';
-                  else if (ext && ['zip', 'rar', '7z', 'tar', 'gz'].includes(ext)) type = 'Archives';
-                }
-                
-                if (!filesByTypeMap[type]) filesByTypeMap[type] = { count: 0, bytes: 0 };
-                filesByTypeMap[type].count++;
-                filesByTypeMap[type].bytes += obj.size || 0;
-              });
-              
-              continuationToken = objects.nextToken;
-              hasMore = objects.isTruncated && !!continuationToken;
-              
-              // Safety limit to prevent infinite loops
-              if (s3ObjectCount > 50000) {
-                console.warn(`S3 analytics: Hit safety limit of 50k objects for user ${userId}`);
-                isPartial = true;
-                break;
-              }
-            }
-            
-            if (isPartial) break;
+      if ((includeExternal || selectedDisk) && connection) {
+        const bucketUsage = selectedDisk
+          ? [{ bucket: selectedDisk, ...await storage.getS3ObjectUsage(connection.id, selectedDisk) }]
+          : await storage.getS3ObjectUsageByBucket(connection.id);
+
+        for (const usage of bucketUsage) {
+          s3ObjectCount += usage.count;
+          s3TotalSize += usage.bytes;
+
+          // Add S3 objects to bucket usage
+          if (!bucketUsageMap[usage.bucket]) {
+            bucketUsageMap[usage.bucket] = { count: 0, bytes: 0 };
           }
-        } catch (s3Error) {
-          console.warn("Error fetching S3 external stats:", s3Error);
-          isPartial = true;
+          bucketUsageMap[usage.bucket].count += usage.count;
+          bucketUsageMap[usage.bucket].bytes += usage.bytes;
         }
+
+        // Add S3 objects to file types (inferred from the extension)
+        const extensionUsage = await storage.getS3ObjectUsageByExtension(connection.id, selectedDisk || undefined);
+        extensionUsage.forEach(({ extension: ext, count, bytes }) => {
+          let type = 'Other';
+          if (ext && ['jpg', 'jpeg', 'png', 'gif', 'bmp', 'webp'].includes(ext)) type = 'Images';
+          else if (ext && ['mp4', 'avi', 'mov', 'wmv', 'flv'].includes(ext)) type = 'Videos';
+          else if (ext && ['mp3', 'wav', 'flac', 'aac'].includes(ext)) type = 'Audio';
+          else if (ext && ['pdf'].includes(ext)) type = 'PDFs';
+          else if (ext && ['doc', 'docx', 'txt', 'rtf'].includes(ext)) type = 'Documents';
+          else if (ext && ['zip', 'rar', '7z', 'tar', 'gz'].includes(ext)) type = 'Archives';
+
+          if (!filesByTypeMap[type]) filesByTypeMap[type] = { count: 0, bytes: 0 };
+          filesByTypeMap[type].count += count;
+          filesByTypeMap[type].bytes += bytes;
+        });
+
+        isPartial = selectedDisk
+          ? (await storage.getS3BucketIndex(connection.id, selectedDisk))?.status !== 'ready'
+          : !(await s3Indexer.isComplete(connection.id));
       }
 
+      // Trashed files are counted separately from the files above
+      const trash = await storage.getTrashUsage(userId);
+
       // Storage capacity calculation (1TB mock + actual S3 usage)
       const baseCapacity = 1024 * 1024 * 1024 * 1024; // 1TB
       const totalUsed = totalSize + s3TotalSize;
@@ -785,8 +2862,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         counts: {
           files: files.length + s3ObjectCount,
           folders: folders.length,
-          shared: sharedFiles + sharedFolders
+          shared: sharedFiles + sharedFolders,
+          trashed: trash.count
         },
+        trashedBytes: trash.bytes,
         
         // Distribution data for charts
         filesByType: Object.entries(filesByTypeMap).map(([type, data]) => ({
@@ -876,37 +2955,105 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // S3 Connection Management Endpoints
+  // Every /api/s3/* route accepts an optional connectionId (query string for GET, body
+  // otherwise) naming one of the user's connections; without it the active one is used.
   
-  // Connect to user's AWS account
+  // Connect to an AWS account, saved under a connection name. Connections either carry
+  // access keys (type 'keys') or assume an IAM role through STS (type 'role').
   app.post('/api/s3/connect', isAuthenticated, async (req: any, res) => {
     try {
-      const { accessKeyId, secretAccessKey, region, sessionToken } = req.body;
+      const { accessKeyId, secretAccessKey, region, sessionToken, endpoint, forcePathStyle, signatureVersion, roleArn } = req.body;
+      const type = req.body.type || 'keys';
+      const name = typeof req.body.name === 'string' && req.body.name.trim() ? req.body.name.trim() : 'Default';
       
-      if (!accessKeyId || !secretAccessKey) {
+      if (type !== 'keys' && type !== 'role') {
+        return res.status(400).json({ message: "Connection type must be 'keys' or 'role'" });
+      }
+
+      if (type === 'keys' && (!accessKeyId || !secretAccessKey)) {
         return res.status(400).json({ message: "Access Key ID and Secret Access Key are required" });
       }
 
-      const credentials = {
-        accessKeyId,
-        secretAccessKey,
-        region: region || 'us-east-1',
-        ...(sessionToken && { sessionToken })
-      };
+      if (type === 'role') {
+        if (typeof roleArn !== 'string' || !ROLE_ARN_PATTERN.test(roleArn)) {
+          return res.status(400).json({ message: "A valid IAM role ARN is required" });
+        }
+        // Temporary role credentials only work against AWS itself
+        if (endpoint) {
+          return res.status(400).json({ message: "Role connections can't use a custom endpoint" });
+        }
+      }
+
+      if (name.length > 64) {
+        return res.status(400).json({ message: "Connection name must be at most 64 characters" });
+      }
+
+      // S3-compatible services (MinIO, Ceph, Wasabi, R2) are reached through a custom
+      // endpoint, which must not point the server at internal addresses
+      if (endpoint) {
+        const endpointError = typeof endpoint === 'string' ? await checkS3Endpoint(endpoint) : "Endpoint must be an http(s) URL";
+        if (endpointError) {
+          return res.status(400).json({ message: endpointError });
+        }
+      }
+
+      // The AWS SDK only signs requests with Signature Version 4, which every supported
+      // S3-compatible service accepts
+      if (signatureVersion !== undefined && signatureVersion !== '' && signatureVersion !== 'v4') {
+        return res.status(400).json({ message: "Only signature version v4 is supported" });
+      }
+
+      const userId = req.user.id;
+      let credentials: S3Credentials;
+      let options: StoreCredentialOptions = {};
+
+      if (type === 'role') {
+        // The external ID is always the user's own (see stsService), never one from the request
+        const role = {
+          roleArn,
+          region: region || 'us-east-1',
+        };
+        const assumed = await stsService.assumeRole(userId, role);
+        credentials = assumed.credentials;
+        options = { role, credentialsExpireAt: assumed.expiration };
+      } else {
+        credentials = {
+          accessKeyId,
+          secretAccessKey,
+          region: region || 'us-east-1',
+          ...(sessionToken && { sessionToken }),
+          ...(endpoint && {
+            endpoint: endpoint.replace(/\/+$/, ''),
+            forcePathStyle: forcePathStyle === true || forcePathStyle === 'true'
+          })
+        };
+      }
 
       // Validate credentials by attempting to list buckets
       const buckets = await s3Service.validateCredentials(credentials);
       
-      // Store credentials in session
-      const userId = req.user.id;
-      storeS3CredentialsInSession(userId, credentials);
+      // Store credentials as the user's active connection
+      const connection = await storeS3CredentialsInSession(userId, name, credentials, options);
+
+      // Build the object index in the background
+      s3Indexer.indexConnection(userId, connection.id).catch((error) =>
+        console.warn(`Failed to index S3 connection ${connection.id}:`, error)
+      );
       
       res.json({ 
         success: true, 
-        message: "Successfully connected to AWS S3",
+        message: endpoint ? "Successfully connected to S3-compatible storage" : "Successfully connected to AWS S3",
+        connection,
         buckets 
       });
     } catch (error: any) {
       console.error("S3 connection error:", error);
+      // Errors from a custom endpoint would tell the caller what answers at that address
+      if (req.body.endpoint) {
+        return res.status(400).json({
+          message: "Failed to connect to the S3-compatible endpoint. Check the endpoint URL and credentials."
+        });
+      }
       res.status(400).json({ 
         message: "Failed to connect to AWS S3", 
         error: error.message 
@@ -914,11 +3061,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Disconnect from user's AWS account
+  // The external ID the user's role trust policies must require for role connections
+  app.get('/api/s3/external-id', isAuthenticated, async (req: any, res) => {
+    try {
+      const externalId = await stsService.getExternalId(req.user.id);
+      res.json({ externalId });
+    } catch (error) {
+      console.error("Error fetching external ID:", error);
+      res.status(500).json({ message: "Failed to fetch external ID" });
+    }
+  });
+
+  // Disconnect (remove) one of the user's connections
   app.post('/api/s3/disconnect', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.id;
-      clearS3CredentialsFromSession(userId);
+      const removed = await clearS3CredentialsFromSession(userId, req.body?.connectionId);
+
+      if (!removed) {
+        return res.status(404).json({ message: "S3 connection not found" });
+      }
+
       res.json({ 
         success: true, 
         message: "Disconnected from AWS S3" 
@@ -929,11 +3092,40 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // List the user's S3 connections
+  app.get('/api/s3/connections', isAuthenticated, async (req: any, res) => {
+    try {
+      const connections = await listS3Connections(req.user.id);
+      res.json({ connections });
+    } catch (error) {
+      console.error("Error listing S3 connections:", error);
+      res.status(500).json({ message: "Failed to list S3 connections" });
+    }
+  });
+
+  // Switch the active connection
+  app.post('/api/s3/connections/:id/activate', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const activated = await setActiveS3Connection(userId, req.params.id);
+
+      if (!activated) {
+        return res.status(404).json({ message: "S3 connection not found" });
+      }
+
+      invalidateAnalyticsCache(userId);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error switching S3 connection:", error);
+      res.status(500).json({ message: "Failed to switch S3 connection" });
+    }
+  });
+
   // List S3 buckets
   app.get('/api/s3/buckets', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.id;
-      const credentials = getS3CredentialsFromSession(userId);
+      const credentials = await getS3CredentialsFromSession(userId, req.query.connectionId);
       
       if (!credentials) {
         return res.status(400).json({ message: "No AWS credentials found. Please connect first." });
@@ -943,21 +3135,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
       res.json({ buckets });
     } catch (error: any) {
       console.error("Error listing buckets:", error);
-      res.status(500).json({ 
-        message: "Failed to list buckets", 
-        error: error.message 
-      });
+      res.status(500).json({ message: "Failed to list buckets" });
     }
   });
 
   // List objects in a bucket
+  // Served from the object index once the bucket has been crawled, otherwise listed live.
+  // With search, returns matching objects anywhere below the prefix (index only).
+  // With versions=true, lists every version and delete marker live (the index only
+  // holds current objects).
   app.get('/api/s3/objects', isAuthenticated, async (req: any, res) => {
     try {
-      const { bucket, prefix = '', token } = req.query;
+      const { bucket, prefix = '', token, versionToken, connectionId, search, versions } = req.query;
       const userId = req.user.id;
-      const credentials = getS3CredentialsFromSession(userId);
+      const connection = await getS3ConnectionFromSession(userId, connectionId);
       
-      if (!credentials) {
+      if (!connection) {
         return res.status(400).json({ message: "No AWS credentials found. Please connect first." });
       }
 
@@ -965,55 +3158,86 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Bucket name is required" });
       }
 
+      if (versions === 'true') {
+        const result = await s3Service.listObjectVersions(
+          bucket as string,
+          prefix as string,
+          connection.credentials,
+          token as string | undefined,
+          versionToken as string | undefined
+        );
+        return res.json(result);
+      }
+
+      const index = await s3Indexer.getUsableBucketIndex(connection.id, bucket as string);
+      if (index) {
+        const toObject = (record: S3ObjectRecord) => ({
+          key: record.key,
+          lastModified: record.lastModified ?? undefined,
+          size: record.size,
+          storageClass: record.storageClass ?? undefined,
+        });
+
+        if (search) {
+          const matches = await storage.searchIndexedS3Objects(connection.id, bucket as string, prefix as string, search as string, 200);
+          return res.json({
+            objects: matches.map(toObject),
+            prefixes: [],
+            isTruncated: false,
+            indexedAt: index.lastIndexedAt,
+          });
+        }
+
+        const pageSize = 1000;
+        const records = await storage.listIndexedS3Objects(
+          connection.id,
+          bucket as string,
+          prefix as string,
+          token as string | undefined,
+          pageSize
+        );
+        const isTruncated = records.length === pageSize;
+
+        return res.json({
+          objects: records.map(toObject),
+          // Sub-folders are all returned with the first page
+          prefixes: token ? [] : await storage.listIndexedS3Prefixes(connection.id, bucket as string, prefix as string),
+          nextToken: isTruncated ? records[records.length - 1].key : undefined,
+          isTruncated,
+          indexedAt: index.lastIndexedAt,
+        });
+      }
+
       const result = await s3Service.listObjects(
         bucket as string,
         prefix as string,
-        credentials,
+        connection.credentials,
         token as string | undefined
       );
       
       res.json(result);
     } catch (error: any) {
       console.error("Error listing objects:", error);
-      res.status(500).json({ 
-        message: "Failed to list objects", 
-        error: error.message 
-      });
+      res.status(500).json({ message: "Failed to list objects" });
     }
   });
 
   // Upload file to S3 bucket
-  app.post('/api/s3/upload', isAuthenticated, uploadLimiter, upload.single('file'), async (req: any, res) => {
+  app.post('/api/s3/upload', isAuthenticated, uploadLimiter, handleUpload(s3Upload.single('file')), async (req: any, res) => {
     try {
       if (!req.file) {
         return res.status(400).json({ message: "No file uploaded" });
       }
 
-      const { bucket, prefix = '' } = req.body;
       const userId = req.user.id;
-      const credentials = getS3CredentialsFromSession(userId);
-      
-      if (!credentials) {
-        return res.status(400).json({ message: "No AWS credentials found. Please connect first." });
-      }
+      const { key, bucket, location, size } = req.file as S3UploadedFile;
+      const uploadResult = { key, bucket, location };
 
-      if (!bucket) {
-        return res.status(400).json({ message: "Bucket name is required" });
+      const connection = await getS3ConnectionFromSession(userId, req.body.connectionId);
+      if (connection) {
+        await s3Indexer.recordUpload(connection.id, userId, bucket, key, size);
       }
 
-      const { buffer, originalname, mimetype } = req.file;
-      
-      // Create the full S3 key with prefix
-      const key = prefix ? `${prefix}/${originalname}` : originalname;
-      
-      const uploadResult = await s3Service.uploadToS3(
-        buffer,
-        bucket,
-        key,
-        mimetype,
-        credentials
-      );
-
       // Invalidate analytics cache and broadcast update for S3 uploads
       invalidateAnalyticsCache(userId);
 
@@ -1024,19 +3248,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
     } catch (error: any) {
       console.error("S3 upload error:", error);
-      res.status(500).json({ 
-        message: "Failed to upload file", 
-        error: error.message 
-      });
+      res.status(500).json({ message: "Failed to upload file" });
     }
   });
 
-  // Get presigned download URL for S3 object
+  // Get presigned download URL for S3 object (or a specific version of it)
   app.get('/api/s3/download', isAuthenticated, async (req: any, res) => {
     try {
-      const { bucket, key } = req.query;
+      const { bucket, key, versionId, connectionId } = req.query;
       const userId = req.user.id;
-      const credentials = getS3CredentialsFromSession(userId);
+      const credentials = await getS3CredentialsFromSession(userId, connectionId);
       
       if (!credentials) {
         return res.status(400).json({ message: "No AWS credentials found. Please connect first." });
@@ -1049,27 +3270,99 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const downloadUrl = await s3Service.getPresignedDownloadUrl(
         bucket as string,
         key as string,
-        credentials
+        credentials,
+        undefined,
+        versionId as string | undefined
       );
       
       res.json({ downloadUrl });
     } catch (error: any) {
       console.error("Error generating download URL:", error);
-      res.status(500).json({ 
-        message: "Failed to generate download URL", 
-        error: error.message 
+      res.status(500).json({ message: "Failed to generate download URL" });
+    }
+  });
+
+  // List the share links of an object or prefix in a bucket
+  app.get('/api/s3/share', isAuthenticated, async (req: any, res) => {
+    try {
+      const { bucket, key, connectionId } = req.query;
+      const connection = await getS3ConnectionFromSession(req.user.id, connectionId);
+
+      if (!connection) {
+        return res.status(400).json({ message: "No AWS credentials found. Please connect first." });
+      }
+      if (!bucket || !key) {
+        return res.status(400).json({ message: "Bucket name and key are required" });
+      }
+
+      const links = await storage.getShareLinksByS3Object(connection.id, bucket as string, key as string);
+      res.json({ links: links.map((link) => toShareLinkResponse(req, link)) });
+    } catch (error) {
+      console.error("Error fetching S3 share links:", error);
+      res.status(500).json({ message: "Failed to fetch share links" });
+    }
+  });
+
+  // Create a share link for an object, or a prefix (key ending in '/'), in a bucket. Unlike
+  // presigned URLs these links are resolved by the app, so they last as long as the link's
+  // own expiry and can be revoked like any other share link.
+  app.post('/api/s3/share', isAuthenticated, fileOpLimiter, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const { bucket, key, connectionId, type, expiresAt, password, maxDownloads } = createS3ShareLinkSchema.parse(req.body);
+      if (type === 'upload') {
+        return res.status(400).json({ message: "Only folders can have file request links" });
+      }
+
+      const connection = await getS3ConnectionFromSession(userId, connectionId);
+      if (!connection) {
+        return res.status(400).json({ message: "No AWS credentials found. Please connect first." });
+      }
+
+      if (!key.endsWith('/')) {
+        try {
+          await s3Service.getObjectMetadata(bucket, key, connection.credentials);
+        } catch (error: any) {
+          if (error.name === 'NotFound' || error.$metadata?.httpStatusCode === 404) {
+            return res.status(404).json({ message: "Object not found" });
+          }
+          throw error;
+        }
+      }
+
+      const link = await storage.createShareLink({
+        token: nanoid(),
+        userId,
+        connectionId: connection.id,
+        s3Bucket: bucket,
+        s3Key: key,
+        expiresAt,
+        maxDownloads,
+        passwordHash: password ? await bcrypt.hash(password, 12) : undefined,
+      });
+
+      res.json({
+        success: true,
+        link: toShareLinkResponse(req, link),
+        shareUrl: getShareUrl(req, link),
       });
+    } catch (error: any) {
+      console.error("Error sharing S3 object:", error);
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Invalid share data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to share object" });
     }
   });
 
   // Delete S3 objects
   app.delete('/api/s3/objects', isAuthenticated, fileOpLimiter, async (req: any, res) => {
     try {
-      const { bucket, keys } = req.body;
+      const { bucket, keys, connectionId } = req.body;
       const userId = req.user.id;
-      const credentials = getS3CredentialsFromSession(userId);
+      const connection = await getS3ConnectionFromSession(userId, connectionId);
       
-      if (!credentials) {
+      if (!connection) {
         return res.status(400).json({ message: "No AWS credentials found. Please connect first." });
       }
 
@@ -1078,7 +3371,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Delete objects from S3
-      const deleteResults = await s3Service.deleteS3Objects(bucket, keys, credentials);
+      const deleteResults = await s3Service.deleteS3Objects(bucket, keys, connection.credentials);
+      await s3Indexer.recordDelete(connection.id, bucket, deleteResults.deleted);
       
       // Invalidate analytics cache and broadcast update for S3 deletions
       invalidateAnalyticsCache(userId);
@@ -1091,23 +3385,117 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
     } catch (error: any) {
       console.error("Error deleting S3 objects:", error);
-      res.status(500).json({ 
-        message: "Failed to delete objects", 
-        error: error.message 
+      res.status(500).json({ message: "Failed to delete objects" });
+    }
+  });
+
+  // Restore an old version of an object by copying it over the current one
+  app.post('/api/s3/objects/versions/restore', isAuthenticated, fileOpLimiter, async (req: any, res) => {
+    try {
+      const { bucket, key, versionId, connectionId } = s3ObjectVersionSchema.parse(req.body);
+      const userId = req.user.id;
+      const connection = await getS3ConnectionFromSession(userId, connectionId);
+
+      if (!connection) {
+        return res.status(400).json({ message: "No AWS credentials found. Please connect first." });
+      }
+
+      const size = await s3Service.restoreObjectVersion(bucket, key, versionId, connection.credentials);
+      await s3Indexer.recordUpload(connection.id, userId, bucket, key, size);
+      invalidateAnalyticsCache(userId);
+
+      res.json({ success: true, message: "Version restored" });
+    } catch (error: any) {
+      console.error("Error restoring S3 object version:", error);
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Invalid version data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to restore version" });
+    }
+  });
+
+  // Permanently delete one version or delete marker of an object
+  app.delete('/api/s3/objects/versions', isAuthenticated, fileOpLimiter, async (req: any, res) => {
+    try {
+      const { bucket, key, versionId, connectionId } = s3ObjectVersionSchema.parse(req.body);
+      const userId = req.user.id;
+      const connection = await getS3ConnectionFromSession(userId, connectionId);
+
+      if (!connection) {
+        return res.status(400).json({ message: "No AWS credentials found. Please connect first." });
+      }
+
+      await s3Service.deleteObjectVersion(bucket, key, versionId, connection.credentials);
+      // Deleting the current version (or a delete marker) changes what the key resolves to
+      await s3Indexer.refreshObject(connection.id, userId, bucket, key, connection.credentials);
+      invalidateAnalyticsCache(userId);
+
+      res.json({ success: true, message: "Version permanently deleted" });
+    } catch (error: any) {
+      console.error("Error deleting S3 object version:", error);
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Invalid version data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to delete version" });
+    }
+  });
+
+  // Crawl state of a connection's object index
+  app.get('/api/s3/index/status', isAuthenticated, async (req: any, res) => {
+    try {
+      const connection = await getS3ConnectionFromSession(req.user.id, req.query.connectionId);
+      if (!connection) {
+        return res.status(404).json({ message: "S3 connection not found" });
+      }
+
+      res.json({
+        connectionId: connection.id,
+        indexing: s3Indexer.isIndexing(connection.id),
+        buckets: await storage.getS3BucketIndexes(connection.id),
       });
+    } catch (error) {
+      console.error("Error fetching S3 index status:", error);
+      res.status(500).json({ message: "Failed to fetch index status" });
+    }
+  });
+
+  // Re-crawl a connection now, e.g. after changing a bucket outside the app
+  app.post('/api/s3/index/refresh', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const connection = await getS3ConnectionFromSession(userId, req.body?.connectionId);
+      if (!connection) {
+        return res.status(404).json({ message: "S3 connection not found" });
+      }
+
+      s3Indexer.indexConnection(userId, connection.id)
+        .then(() => invalidateAnalyticsCache(userId))
+        .catch((error) => console.warn(`Failed to index S3 connection ${connection.id}:`, error));
+
+      res.status(202).json({ success: true, message: "Indexing started" });
+    } catch (error) {
+      console.error("Error starting S3 indexing:", error);
+      res.status(500).json({ message: "Failed to start indexing" });
     }
   });
 
-  // Check S3 connection status
+  // Check S3 connection status (of the active connection unless connectionId is given)
   app.get('/api/s3/status', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.id;
-      const isConnected = hasS3CredentialsInSession(userId);
-      const credentials = getS3CredentialsFromSession(userId);
+      const connection = await getS3ConnectionFromSession(userId, req.query.connectionId);
+      const credentials = connection?.credentials;
       
       res.json({ 
-        connected: isConnected,
-        region: credentials?.region || null
+        connected: !!(credentials?.accessKeyId && credentials?.secretAccessKey),
+        region: credentials?.region || null,
+        connectionId: connection?.id ?? null,
+        connectionName: connection?.name ?? null,
+        type: connection?.type ?? null,
+        roleArn: connection?.roleArn ?? null,
+        // Role connections: when the current temporary credentials expire (refreshed automatically)
+        credentialsExpireAt: connection?.credentialsExpireAt ?? null,
+        connections: await listS3Connections(userId)
       });
     } catch (error) {
       console.error("Error checking S3 status:", error);
@@ -0,0 +1,195 @@
+import type { Response } from "express";
+import type { Stats } from "fs";
+import type { Readable } from "stream";
+import { TarArchive, ZipArchive } from "archiver";
+import type { File, Folder } from "@shared/schema";
+import { getStorageDriver } from "./storageDriver";
+import { s3Service, type S3Credentials } from "./s3Service";
+
+export type ArchiveFormat = "zip" | "tar.gz";
+
+// One file (or, without open, an empty directory) in a downloaded archive
+export interface ArchiveEntry {
+  // '/'-separated path inside the archive
+  path: string;
+  date?: Date;
+  open?: () => Promise<ArchiveSource>;
+}
+
+export interface ArchiveSource {
+  body: Readable;
+  // Exact content length, as the backend reports it when the read starts; tar headers
+  // need it up front
+  size: number;
+  // Overrides the entry's date when the backend only reports it on read
+  date?: Date;
+}
+
+// A file or folder name as a single path segment: no separators, and never "." or "..",
+// so no stored name can write outside the folder it is extracted to
+function entryName(name: string): string {
+  const segment = name.replace(/[\/\\]/g, "_");
+  return segment === "." || segment === ".." ? "_" : segment;
+}
+
+// An archive path from (part of) an S3 key, which can be anything: every segment made
+// safe as above and empty ones dropped, so "../x" or "/etc/x" stay inside the archive
+function keyPath(key: string): string {
+  return key.split("/").filter(Boolean).map(entryName).join("/") || "_";
+}
+
+// "report.pdf" -> "report (2).pdf"
+function numberedPath(entryPath: string, n: number): string {
+  const match = /^(.*?)(\.[^./]+)?$/.exec(entryPath)!;
+  return `${match[1]} (${n})${match[2] || ''}`;
+}
+
+/**
+ * Downloads of several stored files as one archive, built while it is sent: objects are
+ * read from their storage backend one at a time and never held in memory or on disk.
+ */
+export class ArchiveService {
+  /**
+   * Entries for a folder and everything below it, under a top-level directory named
+   * after the folder. folders must contain root and its descendants, files their files.
+   */
+  folderEntries(root: Folder, folders: Folder[], files: File[]): ArchiveEntry[] {
+    const byId = new Map(folders.map((folder) => [folder.id, folder]));
+    const paths = new Map<number, string>();
+    const folderPath = (folder: Folder): string => {
+      let result = paths.get(folder.id);
+      if (result === undefined) {
+        const parent = folder.id !== root.id && folder.parentId ? byId.get(folder.parentId) : undefined;
+        result = parent ? `${folderPath(parent)}/${entryName(folder.name)}` : entryName(folder.name);
+        paths.set(folder.id, result);
+      }
+      return result;
+    };
+
+    return [
+      ...folders.map((folder) => ({ path: folderPath(folder), date: folder.createdAt ?? undefined })),
+      ...files
+        .filter((file) => file.folderId !== null && byId.has(file.folderId))
+        .map((file) => this.fileEntry(file, folderPath(byId.get(file.folderId!)!))),
+    ];
+  }
+
+  fileEntry(file: File, directory?: string): ArchiveEntry {
+    return {
+      path: directory ? `${directory}/${entryName(file.name)}` : entryName(file.name),
+      date: file.uploadedAt ?? undefined,
+      open: () => getStorageDriver(file.storageDriver).read(file.s3Key),
+    };
+  }
+
+  // A bucket object, stored under the last segment of its key
+  s3ObjectEntry(bucket: string, key: string, credentials: S3Credentials): ArchiveEntry {
+    return {
+      path: keyPath(key.split('/').pop()!),
+      open: async () => {
+        const { body, size, lastModified } = await s3Service.getObjectStream(bucket, key, credentials);
+        return { body, size, date: lastModified };
+      },
+    };
+  }
+
+  /**
+   * Every object below an S3 prefix, under a directory named after the prefix's last
+   * segment. Listed a page at a time while the archive is written, so large prefixes
+   * never have to be listed up front.
+   */
+  async *s3PrefixEntries(bucket: string, prefix: string, credentials: S3Credentials): AsyncGenerator<ArchiveEntry> {
+    const parent = prefix.replace(/[^/]*\/?$/, '');
+    let continuationToken: string | undefined;
+    do {
+      const page = await s3Service.listAllObjectsPage(bucket, credentials, continuationToken, prefix);
+      for (const object of page.objects) {
+        // Zero-byte "folder" placeholders created by the S3 console
+        if (object.key.endsWith('/')) continue;
+        yield {
+          path: keyPath(object.key.slice(parent.length)),
+          date: object.lastModified,
+          open: () => s3Service.getObjectStream(bucket, object.key, credentials),
+        };
+      }
+      continuationToken = page.nextToken;
+    } while (continuationToken);
+  }
+
+  /**
+   * Send entries as a ZIP or gzipped tar download named baseName plus the format's
+   * extension. Entries with the same path get numbered names. Once streaming has started
+   * errors can no longer become a JSON response, so a failure cuts the download off and
+   * the client sees an incomplete file.
+   */
+  async streamArchive(
+    res: Response,
+    baseName: string,
+    entries: Iterable<ArchiveEntry> | AsyncIterable<ArchiveEntry>,
+    format: ArchiveFormat = "zip"
+  ): Promise<void> {
+    const fileName = `${baseName}.${format}`;
+    const archive = format === "zip"
+      ? new ZipArchive({ zlib: { level: 6 } })
+      : new TarArchive({ gzip: true, gzipOptions: { level: 6 } });
+    let closed = false;
+    res.on('close', () => {
+      if (!res.writableFinished) {
+        closed = true;
+        archive.abort();
+      }
+    });
+    archive.on('warning', (warning) => console.warn(`Archive warning for ${fileName}:`, warning));
+
+    res.attachment(fileName);
+    res.setHeader('Content-Type', format === "zip" ? 'application/zip' : 'application/gzip');
+    archive.pipe(res);
+
+    const done = new Promise<void>((resolve, reject) => {
+      archive.on('error', reject);
+      res.on('finish', resolve);
+      res.on('close', resolve);
+    });
+    // Failures are handled where done is awaited; don't let an early return leave it unobserved
+    done.catch(() => {});
+
+    try {
+      const used = new Set<string>();
+      for await (const entry of entries) {
+        if (closed) return;
+
+        let entryPath = entry.path;
+        for (let n = 2; used.has(entryPath); n++) {
+          entryPath = numberedPath(entry.path, n);
+        }
+        used.add(entryPath);
+
+        // Open the next object only once the previous one is written, so one download
+        // holds at most one backend stream
+        const written = new Promise((resolve) => archive.once('entry', resolve));
+        if (entry.open) {
+          const { body, size, date } = await entry.open();
+          archive.append(body, {
+            name: entryPath,
+            date: date ?? entry.date,
+            mode: 0o644,
+            // Lets the tar format stream the entry instead of collecting it in memory
+            stats: { size } as Stats,
+          });
+        } else {
+          archive.append(Buffer.alloc(0), { name: entryPath, type: 'directory', date: entry.date });
+        }
+        await Promise.race([written, done]);
+      }
+
+      await archive.finalize();
+      await done;
+    } catch (error) {
+      console.error(`Error streaming archive ${fileName}:`, error);
+      archive.abort();
+      res.destroy(error as Error);
+    }
+  }
+}
+
+export const archiveService = new ArchiveService();
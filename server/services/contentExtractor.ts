@@ -0,0 +1,150 @@
+import path from "path";
+import type { Readable } from "stream";
+import mammoth from "mammoth";
+import { PDFParse } from "pdf-parse";
+import type { File } from "@shared/schema";
+import { storage } from "../storage";
+import { getStorageDriver } from "./storageDriver";
+
+// Files larger than this are skipped (default 20 MB)
+const MAX_FILE_SIZE = Math.max(1, parseInt(process.env.CONTENT_EXTRACTION_MAX_MB || "20")) * 1024 * 1024;
+// Text beyond this many characters isn't indexed; tsvector values are limited to 1 MB
+const MAX_CONTENT_LENGTH = 500_000;
+// How often to look for files that haven't been extracted yet
+const CHECK_INTERVAL = 15 * 1000;
+const BATCH_SIZE = 5;
+// Extractions still marked as running after this long were interrupted (e.g. by a restart)
+const STALE_AFTER = 10 * 60 * 1000;
+
+type ContentFormat = "text" | "pdf" | "docx";
+
+const MIME_FORMATS: Record<string, ContentFormat> = {
+  "text/plain": "text",
+  "text/markdown": "text",
+  "text/x-markdown": "text",
+  "text/csv": "text",
+  "application/json": "text",
+  "application/pdf": "pdf",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document": "docx",
+};
+
+// Browsers often send generic types for these, so the extension decides
+const EXTENSION_FORMATS: Record<string, ContentFormat> = {
+  ".txt": "text",
+  ".md": "text",
+  ".markdown": "text",
+  ".csv": "text",
+  ".json": "text",
+  ".pdf": "pdf",
+  ".docx": "docx",
+};
+
+function getContentFormat(file: File): ContentFormat | undefined {
+  const mimeType = file.mimeType.split(";")[0].trim().toLowerCase();
+  return MIME_FORMATS[mimeType] ?? EXTENSION_FORMATS[path.extname(file.name).toLowerCase()];
+}
+
+async function readAll(body: Readable): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of body) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks);
+}
+
+async function extractText(format: ContentFormat, data: Buffer): Promise<string> {
+  switch (format) {
+    case "text":
+      return data.toString("utf8");
+    case "pdf": {
+      const parser = new PDFParse({ data });
+      try {
+        // No "-- 1 of 3 --" page markers in the indexed text
+        return (await parser.getText({ pageJoiner: "" })).text;
+      } finally {
+        await parser.destroy();
+      }
+    }
+    case "docx":
+      return (await mammoth.extractRawText({ buffer: data })).value;
+  }
+}
+
+// Collapse whitespace and drop control characters (Postgres text can't hold NUL, and
+// search snippets use control characters to mark matches)
+function normalizeText(text: string): string {
+  return text
+    .replace(/[\u0000-\u001f\u007f]+/g, " ")
+    .replace(/\s+/g, " ")
+    .trim()
+    .slice(0, MAX_CONTENT_LENGTH);
+}
+
+/**
+ * Background extraction of the text in uploaded documents (plain text, Markdown, CSV,
+ * JSON, PDF and DOCX) into file_contents, which content search matches against.
+ *
+ * Work is found in the database rather than queued: any file without a row for its
+ * current object is pending, so new files, replaced files (new versions, restores) and
+ * files uploaded before extraction existed are all picked up the same way.
+ */
+export class ContentExtractor {
+  private running = false;
+
+  constructor() {
+    setInterval(() => this.wake(), CHECK_INTERVAL);
+  }
+
+  /**
+   * Start extracting pending files now instead of at the next check, e.g. after an upload
+   */
+  wake(): void {
+    this.extractPending().catch((error) => console.error('Content extraction failed:', error));
+  }
+
+  /**
+   * Extract pending files until none are left. Runs at most once at a time; a call while
+   * a run is in progress returns immediately.
+   */
+  async extractPending(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+
+    try {
+      let batch: File[];
+      do {
+        batch = await storage.claimContentExtractions(BATCH_SIZE, new Date(Date.now() - STALE_AFTER));
+        for (const file of batch) {
+          await this.extractFile(file);
+        }
+      } while (batch.length === BATCH_SIZE);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async extractFile(file: File): Promise<void> {
+    const format = getContentFormat(file);
+    if (!format || file.size > MAX_FILE_SIZE) {
+      await storage.saveFileContent(file.id, file.s3Key, { status: 'skipped', content: null, error: null });
+      return;
+    }
+
+    try {
+      const { body } = await getStorageDriver(file.storageDriver).read(file.s3Key);
+      const text = normalizeText(await extractText(format, await readAll(body)));
+      await storage.saveFileContent(file.id, file.s3Key, { status: 'ready', content: text, error: null });
+    } catch (error) {
+      console.warn(`Failed to extract the content of file ${file.id}:`, error);
+      await storage.saveFileContent(file.id, file.s3Key, {
+        status: 'error',
+        content: null,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+}
+
+export const contentExtractor = new ContentExtractor();
@@ -0,0 +1,141 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "crypto";
+
+/**
+ * Envelope encryption for secrets stored in Postgres.
+ *
+ * Every record gets its own random data key (DEK) that encrypts the payload with
+ * AES-256-GCM. The DEK itself is encrypted ("wrapped") with an app master key, and
+ * the record remembers which master key was used. Rotating the master key only
+ * requires re-wrapping the DEKs, not re-encrypting the payloads.
+ *
+ * Master keys come from CREDENTIAL_MASTER_KEYS as a comma separated list of
+ * `id:base64key` entries (32 byte keys). The first entry encrypts new records;
+ * the others are kept so existing records can still be read until rotated.
+ */
+
+const ALGORITHM = "aes-256-gcm";
+const IV_LENGTH = 12;
+const KEY_LENGTH = 32;
+
+export interface EncryptedPayload {
+  ciphertext: string;
+  iv: string;
+  authTag: string;
+  encryptedDataKey: string;
+  keyId: string;
+}
+
+interface MasterKey {
+  id: string;
+  key: Buffer;
+}
+
+function loadMasterKeys(): MasterKey[] {
+  const configured = process.env.CREDENTIAL_MASTER_KEYS;
+
+  if (!configured) {
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('CREDENTIAL_MASTER_KEYS environment variable is required in production');
+    }
+    // Development fallback so a fresh checkout works without extra setup
+    const sessionSecret = process.env.SESSION_SECRET || 'development';
+    console.warn('CREDENTIAL_MASTER_KEYS is not set, deriving a development key from SESSION_SECRET');
+    return [{ id: 'dev', key: createHash('sha256').update(sessionSecret).digest() }];
+  }
+
+  return configured.split(',').map((entry) => {
+    const separator = entry.indexOf(':');
+    const id = entry.slice(0, separator).trim();
+    const key = Buffer.from(entry.slice(separator + 1).trim(), 'base64');
+
+    if (separator <= 0 || key.length !== KEY_LENGTH) {
+      throw new Error(`Invalid CREDENTIAL_MASTER_KEYS entry "${id || entry}": expected id:base64 with a ${KEY_LENGTH} byte key`);
+    }
+    return { id, key };
+  });
+}
+
+let masterKeys: MasterKey[] | undefined;
+
+function getMasterKeys(): MasterKey[] {
+  if (!masterKeys) {
+    masterKeys = loadMasterKeys();
+  }
+  return masterKeys;
+}
+
+function getMasterKey(id: string): Buffer {
+  const masterKey = getMasterKeys().find((candidate) => candidate.id === id);
+  if (!masterKey) {
+    throw new Error(`Master key "${id}" is not configured`);
+  }
+  return masterKey.key;
+}
+
+// Id of the master key used for new records
+export function getActiveKeyId(): string {
+  return getMasterKeys()[0].id;
+}
+
+function seal(key: Buffer, plaintext: Buffer, aad: string) {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  cipher.setAAD(Buffer.from(aad));
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return { iv, authTag: cipher.getAuthTag(), ciphertext };
+}
+
+function open(key: Buffer, iv: Buffer, authTag: Buffer, ciphertext: Buffer, aad: string): Buffer {
+  const decipher = createDecipheriv(ALGORITHM, key, iv);
+  decipher.setAAD(Buffer.from(aad));
+  decipher.setAuthTag(authTag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+}
+
+// Wrapped data keys are stored as iv.authTag.ciphertext (base64 each)
+function wrapDataKey(dataKey: Buffer, keyId: string): string {
+  const { iv, authTag, ciphertext } = seal(getMasterKey(keyId), dataKey, keyId);
+  return [iv, authTag, ciphertext].map((part) => part.toString('base64')).join('.');
+}
+
+function unwrapDataKey(encryptedDataKey: string, keyId: string): Buffer {
+  const [iv, authTag, ciphertext] = encryptedDataKey.split('.').map((part) => Buffer.from(part, 'base64'));
+  return open(getMasterKey(keyId), iv, authTag, ciphertext, keyId);
+}
+
+/**
+ * Encrypt a JSON-serializable value. `aad` (e.g. the owning user id) is bound to the
+ * ciphertext, so a payload copied onto another record fails to decrypt.
+ */
+export function encryptSecret(value: unknown, aad: string): EncryptedPayload {
+  const keyId = getActiveKeyId();
+  const dataKey = randomBytes(KEY_LENGTH);
+  const { iv, authTag, ciphertext } = seal(dataKey, Buffer.from(JSON.stringify(value)), aad);
+
+  return {
+    ciphertext: ciphertext.toString('base64'),
+    iv: iv.toString('base64'),
+    authTag: authTag.toString('base64'),
+    encryptedDataKey: wrapDataKey(dataKey, keyId),
+    keyId,
+  };
+}
+
+export function decryptSecret<T>(payload: EncryptedPayload, aad: string): T {
+  const dataKey = unwrapDataKey(payload.encryptedDataKey, payload.keyId);
+  const plaintext = open(
+    dataKey,
+    Buffer.from(payload.iv, 'base64'),
+    Buffer.from(payload.authTag, 'base64'),
+    Buffer.from(payload.ciphertext, 'base64'),
+    aad
+  );
+  return JSON.parse(plaintext.toString('utf8')) as T;
+}
+
+// Re-wrap a record's data key with the active master key (key rotation)
+export function rewrapDataKey(payload: Pick<EncryptedPayload, 'encryptedDataKey' | 'keyId'>): Pick<EncryptedPayload, 'encryptedDataKey' | 'keyId'> {
+  const keyId = getActiveKeyId();
+  const dataKey = unwrapDataKey(payload.encryptedDataKey, payload.keyId);
+  return { encryptedDataKey: wrapDataKey(dataKey, keyId), keyId };
+}
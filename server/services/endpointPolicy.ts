@@ -0,0 +1,116 @@
+import { lookup } from "dns/promises";
+import { BlockList, isIP, type LookupFunction } from "net";
+
+// Hosts an operator allows as S3-compatible endpoints even though they resolve to a
+// private address, e.g. a MinIO container next to the app ("minio,10.0.0.12")
+const ALLOWED_HOSTS = new Set(
+  (process.env.S3_ENDPOINT_ALLOWED_HOSTS || "")
+    .split(",")
+    .map((host) => host.trim().toLowerCase())
+    .filter(Boolean)
+);
+
+// Virtual-hosted requests go to <bucket>.<endpoint host>, so subdomains of allowed hosts
+// are allowed too
+const isAllowedHost = (host: string) =>
+  Array.from(ALLOWED_HOSTS).some((allowed) => host === allowed || host.endsWith(`.${allowed}`));
+
+// Loopback, link-local (including cloud metadata at 169.254.169.254), private and other
+// non-public ranges. IPv4-compatible (::/96) and NAT64 (64:ff9b::/96) addresses can reach
+// any IPv4 address, so they are refused as a whole.
+const privateRanges = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 3],
+] as const) {
+  privateRanges.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 96],
+  ["64:ff9b::", 96],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  privateRanges.addSubnet(network, prefix, "ipv6");
+}
+
+function isPrivateAddress(address: string): boolean {
+  // IPv4-mapped IPv6 addresses (::ffff:127.0.0.1, or ::ffff:7f00:1 as URLs write them)
+  // are checked as IPv4
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  if (mapped) {
+    return privateRanges.check(mapped[1], "ipv4");
+  }
+  const mappedHex = /^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/i.exec(address);
+  if (mappedHex) {
+    const [high, low] = [parseInt(mappedHex[1], 16), parseInt(mappedHex[2], 16)];
+    return privateRanges.check(`${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`, "ipv4");
+  }
+  return privateRanges.check(address, isIP(address) === 6 ? "ipv6" : "ipv4");
+}
+
+/**
+ * Check a user-supplied S3-compatible endpoint before the server sends signed requests
+ * to it. Returns why it isn't allowed, or undefined if it is.
+ *
+ * The app would otherwise probe any address on the user's behalf, including services
+ * only the server can reach, so endpoints must be http(s) URLs whose host resolves to
+ * public addresses only, unless the host is in S3_ENDPOINT_ALLOWED_HOSTS.
+ */
+export async function checkS3Endpoint(endpoint: string): Promise<string | undefined> {
+  let url: URL;
+  try {
+    url = new URL(endpoint);
+  } catch (error) {
+    return "Endpoint must be an http(s) URL";
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    return "Endpoint must be an http(s) URL";
+  }
+
+  // IPv6 hosts come bracketed ("[::1]")
+  const host = url.hostname.replace(/^\[(.*)\]$/, "$1").toLowerCase();
+  if (isAllowedHost(host)) {
+    return undefined;
+  }
+
+  let addresses: string[];
+  try {
+    addresses = isIP(host) ? [host] : (await lookup(host, { all: true })).map((entry) => entry.address);
+  } catch (error) {
+    return "Endpoint host could not be resolved";
+  }
+  if (addresses.length === 0 || addresses.some(isPrivateAddress)) {
+    return "Endpoint must be a public address";
+  }
+  return undefined;
+}
+
+/**
+ * DNS lookup for the connections S3 clients open to user-supplied endpoints. A host can
+ * resolve differently by the time requests are sent than when checkS3Endpoint checked it
+ * (DNS rebinding), so the addresses are checked again on every connection.
+ */
+export const lookupPublicAddress: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true })
+    .then((addresses) => {
+      if (!isAllowedHost(hostname.toLowerCase()) && (addresses.length === 0 || addresses.some((entry) => isPrivateAddress(entry.address)))) {
+        throw Object.assign(new Error(`${hostname} does not resolve to a public address`), { code: "EACCES" });
+      }
+      if (options.all) {
+        callback(null, addresses);
+      } else {
+        callback(null, addresses[0].address, addresses[0].family);
+      }
+    })
+    .catch((error) => callback(error, ""));
+};
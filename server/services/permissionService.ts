@@ -0,0 +1,65 @@
+import type { File, Folder, PermissionRole } from "@shared/schema";
+import { storage } from "../storage";
+
+// What a user may do with an item. Only the owner shares it, manages its permissions
+// and deletes it (or its versions) for good.
+export type AccessRole = PermissionRole | "owner";
+
+const ROLE_RANK: Record<AccessRole, number> = {
+  viewer: 1,
+  editor: 2,
+  owner: 3,
+};
+
+export interface AccessError {
+  status: number;
+  message: string;
+}
+
+/**
+ * Resolves what a user may do with files and folders: everything with their own, and
+ * with anyone else's what a permission on the item, or on any folder above it, grants.
+ */
+export class PermissionService {
+  async getFileRole(userId: string, file: File): Promise<AccessRole | undefined> {
+    if (file.userId === userId) return "owner";
+    return await storage.getGrantedRole(userId, { fileId: file.id, folderId: file.folderId });
+  }
+
+  async getFolderRole(userId: string, folder: Folder): Promise<AccessRole | undefined> {
+    if (folder.userId === userId) return "owner";
+    return await storage.getGrantedRole(userId, { folderId: folder.id });
+  }
+
+  /**
+   * Check that the user holds at least the required role on a file. Returns the error to
+   * send, if any: 404 when the file is missing or not shared with the user at all (so its
+   * existence isn't revealed), 403 when they can see it but not do this.
+   */
+  async checkFile(userId: string, file: File | undefined, required: AccessRole): Promise<AccessError | undefined> {
+    const role = file && await this.getFileRole(userId, file);
+    return this.check(role, required, "File");
+  }
+
+  async checkFolder(userId: string, folder: Folder | undefined, required: AccessRole): Promise<AccessError | undefined> {
+    const role = folder && await this.getFolderRole(userId, folder);
+    return this.check(role, required, "Folder");
+  }
+
+  private check(role: AccessRole | undefined, required: AccessRole, itemType: string): AccessError | undefined {
+    if (!role) {
+      return { status: 404, message: `${itemType} not found` };
+    }
+    if (ROLE_RANK[role] < ROLE_RANK[required]) {
+      return {
+        status: 403,
+        message: required === "owner"
+          ? `Only the owner can do this with the ${itemType.toLowerCase()}`
+          : `You need ${required} access to the ${itemType.toLowerCase()}`,
+      };
+    }
+    return undefined;
+  }
+}
+
+export const permissionService = new PermissionService();
@@ -0,0 +1,190 @@
+import type { S3BucketIndex } from "@shared/schema";
+import { storage } from "../storage";
+import { s3Service } from "./s3Service";
+import { getS3ConnectionFromSession, type S3Connection } from "./sessionCredentials";
+import type { S3Credentials } from "./s3Service";
+
+// Buckets are re-crawled once their index is older than this (default 60 minutes)
+const REINDEX_AFTER = Math.max(5, parseInt(process.env.S3_INDEX_INTERVAL_MINUTES || "60")) * 60 * 1000;
+// How often to look for connections whose index is missing or stale
+const CHECK_INTERVAL = 5 * 60 * 1000;
+
+/**
+ * Background indexer that mirrors the objects of every connected bucket into the
+ * s3_objects table, so stats, analytics, search and the bucket browser don't have to
+ * page through ListObjects on each request.
+ *
+ * A crawl stamps every object it lists and then removes rows with an older stamp
+ * (objects deleted outside the app). Between crawls the app's own uploads and deletes
+ * update the index directly.
+ */
+export class S3Indexer {
+  // Connections with a crawl in progress
+  private running = new Set<number>();
+
+  constructor() {
+    setInterval(() => {
+      this.indexStaleConnections().catch((error) => console.error('S3 index check failed:', error));
+    }, CHECK_INTERVAL);
+  }
+
+  isIndexing(connectionId: number): boolean {
+    return this.running.has(connectionId);
+  }
+
+  /**
+   * Crawl every bucket of a connection. Runs at most once at a time per connection;
+   * a call while a crawl is running returns immediately.
+   */
+  async indexConnection(userId: string, connectionId: number): Promise<void> {
+    if (this.running.has(connectionId)) {
+      return;
+    }
+    this.running.add(connectionId);
+
+    try {
+      const connection = await getS3ConnectionFromSession(userId, connectionId);
+      if (!connection) {
+        return;
+      }
+
+      const buckets = await s3Service.listBuckets(connection.credentials);
+      await storage.deleteS3IndexOutsideBuckets(connection.id, buckets.map((bucket) => bucket.name));
+
+      for (const bucket of buckets) {
+        await this.indexBucket(userId, connection, bucket.name);
+      }
+    } finally {
+      this.running.delete(connectionId);
+    }
+  }
+
+  private async indexBucket(userId: string, connection: S3Connection, bucket: string): Promise<void> {
+    const startedAt = new Date();
+    await storage.upsertS3BucketIndex({ connectionId: connection.id, bucket, status: 'indexing', error: null });
+
+    try {
+      let objectCount = 0;
+      let continuationToken: string | undefined = undefined;
+
+      do {
+        const page = await s3Service.listAllObjectsPage(bucket, connection.credentials, continuationToken);
+        await storage.upsertS3Objects(page.objects.map((object) => ({
+          connectionId: connection.id,
+          userId,
+          bucket,
+          key: object.key,
+          size: object.size ?? 0,
+          lastModified: object.lastModified ?? null,
+          etag: object.etag ?? null,
+          storageClass: object.storageClass ?? null,
+          indexedAt: startedAt,
+        })));
+        objectCount += page.objects.length;
+        continuationToken = page.nextToken;
+      } while (continuationToken);
+
+      await storage.deleteS3ObjectsIndexedBefore(connection.id, bucket, startedAt);
+      await storage.upsertS3BucketIndex({
+        connectionId: connection.id,
+        bucket,
+        status: 'ready',
+        objectCount,
+        error: null,
+        lastIndexedAt: startedAt,
+      });
+    } catch (error: any) {
+      console.warn(`Failed to index bucket ${bucket} of S3 connection ${connection.id}:`, error);
+      await storage.upsertS3BucketIndex({ connectionId: connection.id, bucket, status: 'error', error: error.message });
+    }
+  }
+
+  /**
+   * Re-crawl connections that were never indexed or whose buckets are due
+   */
+  private async indexStaleConnections(): Promise<void> {
+    const now = Date.now();
+    const connections = await storage.getUnexpiredS3Credentials(new Date(now));
+
+    for (const connection of connections) {
+      const states = await storage.getS3BucketIndexes(connection.id);
+      // Failed crawls are retried on the same schedule, counted from the failed attempt
+      const stale = states.length === 0 || states.some((state) => {
+        const checkedAt = state.lastIndexedAt ?? state.updatedAt;
+        return !checkedAt || now - checkedAt.getTime() > REINDEX_AFTER;
+      });
+      if (stale) {
+        await this.indexConnection(connection.userId, connection.id).catch((error) =>
+          console.warn(`Failed to index S3 connection ${connection.id}:`, error)
+        );
+      }
+    }
+  }
+
+  /**
+   * Index state of a bucket, or undefined if it hasn't been crawled successfully yet
+   * (callers then fall back to listing S3 directly)
+   */
+  async getUsableBucketIndex(connectionId: number, bucket: string): Promise<S3BucketIndex | undefined> {
+    const state = await storage.getS3BucketIndex(connectionId, bucket);
+    return state?.lastIndexedAt ? state : undefined;
+  }
+
+  /**
+   * Whether every bucket of a connection has a complete index
+   */
+  async isComplete(connectionId: number): Promise<boolean> {
+    const states = await storage.getS3BucketIndexes(connectionId);
+    return !this.running.has(connectionId) && states.length > 0 && states.every((state) => state.status === 'ready');
+  }
+
+  /**
+   * Record an object the app just wrote. Index failures are logged and never fail the request.
+   */
+  async recordUpload(connectionId: number, userId: string, bucket: string, key: string, size: number): Promise<void> {
+    try {
+      await storage.upsertS3Objects([{
+        connectionId,
+        userId,
+        bucket,
+        key,
+        size,
+        lastModified: new Date(),
+        indexedAt: new Date(),
+      }]);
+    } catch (error) {
+      console.warn(`Failed to index uploaded object ${bucket}/${key}:`, error);
+    }
+  }
+
+  /**
+   * Re-read one object after a change that may have replaced or removed its current
+   * version (deleting a version in a versioned bucket)
+   */
+  async refreshObject(connectionId: number, userId: string, bucket: string, key: string, credentials: S3Credentials): Promise<void> {
+    let size: number;
+    try {
+      ({ size } = await s3Service.getObjectMetadata(bucket, key, credentials));
+    } catch (error: any) {
+      if (error.name === 'NotFound' || error.$metadata?.httpStatusCode === 404) {
+        return await this.recordDelete(connectionId, bucket, [key]);
+      }
+      console.warn(`Failed to refresh indexed object ${bucket}/${key}:`, error);
+      return;
+    }
+    await this.recordUpload(connectionId, userId, bucket, key, size);
+  }
+
+  /**
+   * Remove objects the app just deleted
+   */
+  async recordDelete(connectionId: number, bucket: string, keys: string[]): Promise<void> {
+    try {
+      await storage.deleteIndexedS3Objects(connectionId, bucket, keys);
+    } catch (error) {
+      console.warn(`Failed to remove deleted objects of ${bucket} from the index:`, error);
+    }
+  }
+}
+
+export const s3Indexer = new S3Indexer();
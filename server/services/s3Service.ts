@@ -1,6 +1,32 @@
-import { S3Client, PutObjectCommand, GetObjectCommand, DeleteObjectCommand, DeleteObjectsCommand, HeadObjectCommand, ListBucketsCommand, ListObjectsV2Command } from "@aws-sdk/client-s3";
+import {
+  S3Client,
+  GetObjectCommand,
+  DeleteObjectCommand,
+  DeleteObjectsCommand,
+  HeadObjectCommand,
+  ListBucketsCommand,
+  ListObjectsV2Command,
+  ListObjectVersionsCommand,
+  CreateMultipartUploadCommand,
+  UploadPartCommand,
+  CompleteMultipartUploadCommand,
+  AbortMultipartUploadCommand,
+  ListPartsCommand,
+  PutObjectCommand,
+  CopyObjectCommand,
+  UploadPartCopyCommand,
+  type ListPartsCommandOutput,
+} from "@aws-sdk/client-s3";
 import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
-import { nanoid } from "nanoid";
+import { Upload } from "@aws-sdk/lib-storage";
+import type { Readable } from "stream";
+import { Agent as HttpAgent } from "http";
+import { Agent as HttpsAgent } from "https";
+import { lookupPublicAddress } from "./endpointPolicy";
+
+// Optional S3-compatible endpoint (MinIO, Ceph, Wasabi, R2...) for app-managed files
+const DEFAULT_ENDPOINT = process.env.AWS_S3_ENDPOINT || undefined;
+const DEFAULT_FORCE_PATH_STYLE = process.env.AWS_S3_FORCE_PATH_STYLE === "true";
 
 const s3Client = new S3Client({
   region: process.env.AWS_REGION || "us-east-1",
@@ -8,21 +34,74 @@ const s3Client = new S3Client({
     accessKeyId: process.env.AWS_ACCESS_KEY_ID || "",
     secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY || "",
   },
+  ...(DEFAULT_ENDPOINT && {
+    endpoint: DEFAULT_ENDPOINT,
+    forcePathStyle: DEFAULT_FORCE_PATH_STYLE,
+    // Many S3-compatible services reject the optional CRC checksums newer SDKs send
+    requestChecksumCalculation: "WHEN_REQUIRED",
+    responseChecksumValidation: "WHEN_REQUIRED",
+  }),
 });
 
 const BUCKET_NAME = process.env.AWS_S3_BUCKET_NAME || "ai-storage-solution";
 
+// Connections to user-supplied endpoints only go to public addresses, checked as they
+// are opened (see endpointPolicy.ts)
+const customEndpointHandler = {
+  httpAgent: new HttpAgent({ keepAlive: true, lookup: lookupPublicAddress }),
+  httpsAgent: new HttpsAgent({ keepAlive: true, lookup: lookupPublicAddress }),
+};
+
+// Objects up to this size are copied with a single CopyObject request
+const MAX_SINGLE_COPY_SIZE = 5 * 1024 * 1024 * 1024;
+const COPY_PART_SIZE = 512 * 1024 * 1024;
+
+const MB = 1024 * 1024;
+
+// S3 multipart limits: parts must be at least 5MB and an upload has at most 10,000 parts
+const MIN_PART_SIZE = 5 * MB;
+const MAX_PARTS = 10000;
+
+// Per-deployment upload settings
+export const MAX_UPLOAD_SIZE = parseInt(process.env.UPLOAD_MAX_FILE_SIZE_MB || "5120") * MB; // 5GB default
+export const UPLOAD_PART_SIZE = Math.max(
+  MIN_PART_SIZE,
+  parseInt(process.env.S3_UPLOAD_PART_SIZE_MB || "8") * MB,
+  Math.ceil(MAX_UPLOAD_SIZE / MAX_PARTS), // grow parts so the largest allowed file still fits
+);
+const UPLOAD_QUEUE_SIZE = Math.max(1, parseInt(process.env.S3_UPLOAD_CONCURRENCY || "4"));
+
 export interface UploadResult {
   key: string;
   bucket: string;
   location: string;
 }
 
+export interface UploadOptions {
+  metadata?: Record<string, string>;
+  abortController?: AbortController;
+}
+
+// Inclusive byte offsets, as in an HTTP Range header
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+export interface MultipartPart {
+  PartNumber: number;
+  ETag: string;
+}
+
 export interface S3Credentials {
   accessKeyId: string;
   secretAccessKey: string;
   region?: string;
   sessionToken?: string;
+  // S3-compatible service instead of AWS, e.g. https://minio.example.com:9000
+  endpoint?: string;
+  // Address buckets as endpoint/bucket/key instead of bucket.endpoint/key
+  forcePathStyle?: boolean;
 }
 
 export interface S3Bucket {
@@ -35,6 +114,7 @@ export interface S3Object {
   lastModified?: Date;
   size?: number;
   storageClass?: string;
+  etag?: string;
 }
 
 export interface S3ListResult {
@@ -44,10 +124,44 @@ export interface S3ListResult {
   isTruncated: boolean;
 }
 
+// A version or delete marker of an object in a versioned bucket
+export interface S3ObjectVersion extends S3Object {
+  versionId: string;
+  isLatest: boolean;
+  isDeleteMarker: boolean;
+}
+
+export interface S3VersionListResult {
+  objects: S3ObjectVersion[];
+  prefixes: string[];
+  // ListObjectVersions pages on a key marker plus a version id marker
+  nextToken?: string;
+  nextVersionToken?: string;
+  isTruncated: boolean;
+}
+
 export class S3Service {
+  // Bucket that holds app-managed files written by the S3 storage driver
+  readonly defaultBucket = BUCKET_NAME;
   
   // Create S3 client with per-user credentials or fallback to default
   private createS3Client(credentials?: S3Credentials, region?: string): S3Client {
+    if (credentials?.endpoint) {
+      return new S3Client({
+        // S3-compatible services usually ignore the region but still need one to sign with
+        region: region || credentials.region || "us-east-1",
+        endpoint: credentials.endpoint,
+        forcePathStyle: !!credentials.forcePathStyle,
+        credentials: {
+          accessKeyId: credentials.accessKeyId,
+          secretAccessKey: credentials.secretAccessKey,
+          ...(credentials.sessionToken && { sessionToken: credentials.sessionToken })
+        },
+        requestChecksumCalculation: "WHEN_REQUIRED",
+        responseChecksumValidation: "WHEN_REQUIRED",
+        requestHandler: customEndpointHandler,
+      });
+    }
     if (credentials) {
       return new S3Client({
         region: region || "us-east-1", // Use provided region or default
@@ -64,6 +178,25 @@ export class S3Service {
     return s3Client; // fallback to default client
   }
   
+  // Public URL of an object, following the endpoint and addressing style of the connection
+  // (or of the default bucket when no credentials are given)
+  getObjectLocation(bucketName: string, key: string, credentials?: S3Credentials): string {
+    const endpoint = credentials ? credentials.endpoint : DEFAULT_ENDPOINT;
+    const forcePathStyle = credentials ? !!credentials.forcePathStyle : DEFAULT_FORCE_PATH_STYLE;
+    const path = key.split('/').map(encodeURIComponent).join('/');
+
+    if (!endpoint) {
+      return `https://${bucketName}.s3.amazonaws.com/${path}`;
+    }
+
+    const url = new URL(endpoint);
+    const base = url.pathname.replace(/\/$/, '');
+    if (forcePathStyle) {
+      return `${url.origin}${base}/${bucketName}/${path}`;
+    }
+    return `${url.protocol}//${bucketName}.${url.host}${base}/${path}`;
+  }
+
   // Validate AWS credentials by attempting to list buckets
   async validateCredentials(credentials: S3Credentials): Promise<S3Bucket[]> {
     const client = this.createS3Client(credentials);
@@ -153,49 +286,429 @@ export class S3Service {
     }
   }
   
+  // One page of every object in a bucket (or below a prefix), without grouping by
+  // delimiter (used for indexing and archives)
+  async listAllObjectsPage(
+    bucketName: string,
+    credentials?: S3Credentials,
+    continuationToken?: string,
+    prefix?: string
+  ): Promise<{ objects: S3Object[]; nextToken?: string }> {
+    const command = new ListObjectsV2Command({
+      Bucket: bucketName,
+      Prefix: prefix || undefined,
+      MaxKeys: 1000,
+      ContinuationToken: continuationToken,
+    });
+
+    let response;
+    try {
+      response = await this.createS3Client(credentials).send(command);
+    } catch (error: any) {
+      // Retry buckets in another region the same way listObjects does
+      const regionMatch = error.Code === 'PermanentRedirect' && error.Endpoint?.match(/s3-([a-z0-9-]+)\.amazonaws\.com/);
+      if (!regionMatch) {
+        throw error;
+      }
+      response = await this.createS3Client(credentials, regionMatch[1]).send(command);
+    }
+
+    return {
+      objects: response.Contents?.map(obj => ({
+        key: obj.Key || '',
+        lastModified: obj.LastModified,
+        size: obj.Size,
+        storageClass: obj.StorageClass,
+        etag: obj.ETag,
+      })) || [],
+      nextToken: response.IsTruncated ? response.NextContinuationToken : undefined,
+    };
+  }
+
+  // List every version and delete marker below a prefix, newest version of each key first
+  async listObjectVersions(
+    bucketName: string,
+    prefix: string = '',
+    credentials?: S3Credentials,
+    keyMarker?: string,
+    versionIdMarker?: string,
+    maxKeys: number = 1000
+  ): Promise<S3VersionListResult> {
+    const command = new ListObjectVersionsCommand({
+      Bucket: bucketName,
+      Prefix: prefix,
+      Delimiter: '/',
+      MaxKeys: maxKeys,
+      KeyMarker: keyMarker,
+      VersionIdMarker: keyMarker ? versionIdMarker : undefined,
+    });
+
+    let response;
+    try {
+      response = await this.createS3Client(credentials).send(command);
+    } catch (error: any) {
+      // Retry buckets in another region the same way listObjects does
+      const regionMatch = error.Code === 'PermanentRedirect' && error.Endpoint?.match(/s3-([a-z0-9-]+)\.amazonaws\.com/);
+      if (!regionMatch) {
+        throw error;
+      }
+      response = await this.createS3Client(credentials, regionMatch[1]).send(command);
+    }
+
+    const versions: S3ObjectVersion[] = [
+      ...(response.Versions || []).map(version => ({
+        key: version.Key || '',
+        versionId: version.VersionId || 'null',
+        isLatest: !!version.IsLatest,
+        isDeleteMarker: false,
+        lastModified: version.LastModified,
+        size: version.Size,
+        storageClass: version.StorageClass,
+        etag: version.ETag,
+      })),
+      ...(response.DeleteMarkers || []).map(marker => ({
+        key: marker.Key || '',
+        versionId: marker.VersionId || 'null',
+        isLatest: !!marker.IsLatest,
+        isDeleteMarker: true,
+        lastModified: marker.LastModified,
+      })),
+    ];
+    // S3 returns versions and delete markers in separate lists
+    versions.sort((a, b) =>
+      a.key.localeCompare(b.key) || (b.lastModified?.getTime() ?? 0) - (a.lastModified?.getTime() ?? 0)
+    );
+
+    return {
+      objects: versions,
+      prefixes: response.CommonPrefixes?.map(prefix => prefix.Prefix || '') || [],
+      nextToken: response.IsTruncated ? response.NextKeyMarker : undefined,
+      nextVersionToken: response.IsTruncated ? response.NextVersionIdMarker : undefined,
+      isTruncated: response.IsTruncated || false,
+    };
+  }
+
+  // Stream a body into S3 as a multipart upload. Only partSize * queueSize bytes are
+  // held in memory at once, and the multipart upload is aborted if anything fails.
+  async uploadStream(
+    body: Readable | Buffer,
+    bucketName: string,
+    key: string,
+    mimeType: string,
+    credentials?: S3Credentials,
+    options: UploadOptions = {}
+  ): Promise<UploadResult> {
+    const client = this.createS3Client(credentials);
+
+    const upload = new Upload({
+      client,
+      params: {
+        Bucket: bucketName,
+        Key: key,
+        Body: body,
+        ContentType: mimeType,
+        ...(options.metadata && { Metadata: options.metadata }),
+      },
+      partSize: UPLOAD_PART_SIZE,
+      queueSize: UPLOAD_QUEUE_SIZE,
+      leavePartsOnError: false,
+      abortController: options.abortController,
+    });
+
+    await upload.done();
+
+    return {
+      key,
+      bucket: bucketName,
+      location: this.getObjectLocation(bucketName, key, credentials),
+    };
+  }
+
   // Upload file to specific S3 bucket and path
   async uploadToS3(
-    buffer: Buffer,
+    body: Readable | Buffer,
     bucketName: string,
     key: string,
     mimeType: string,
+    credentials?: S3Credentials,
+    options?: UploadOptions
+  ): Promise<UploadResult> {
+    return this.uploadStream(body, bucketName, key, mimeType, credentials, options);
+  }
+  
+  // Start a multipart upload whose parts are sent one request at a time (resumable uploads)
+  async createMultipartUpload(
+    bucketName: string,
+    key: string,
+    mimeType: string,
+    credentials?: S3Credentials,
+    metadata?: Record<string, string>
+  ): Promise<string> {
+    const client = this.createS3Client(credentials);
+    const response = await client.send(new CreateMultipartUploadCommand({
+      Bucket: bucketName,
+      Key: key,
+      ContentType: mimeType,
+      ...(metadata && { Metadata: metadata }),
+    }));
+
+    if (!response.UploadId) {
+      throw new Error(`S3 did not return an upload ID for ${key}`);
+    }
+    return response.UploadId;
+  }
+
+  async uploadPart(
+    bucketName: string,
+    key: string,
+    uploadId: string,
+    partNumber: number,
+    body: Buffer,
+    credentials?: S3Credentials
+  ): Promise<MultipartPart> {
+    const client = this.createS3Client(credentials);
+    const response = await client.send(new UploadPartCommand({
+      Bucket: bucketName,
+      Key: key,
+      UploadId: uploadId,
+      PartNumber: partNumber,
+      Body: body,
+      ContentLength: body.length,
+    }));
+
+    return { PartNumber: partNumber, ETag: response.ETag || '' };
+  }
+
+  async completeMultipartUpload(
+    bucketName: string,
+    key: string,
+    uploadId: string,
+    parts: MultipartPart[],
     credentials?: S3Credentials
   ): Promise<UploadResult> {
     const client = this.createS3Client(credentials);
-    
+    await client.send(new CompleteMultipartUploadCommand({
+      Bucket: bucketName,
+      Key: key,
+      UploadId: uploadId,
+      MultipartUpload: { Parts: parts },
+    }));
+
+    return {
+      key,
+      bucket: bucketName,
+      location: this.getObjectLocation(bucketName, key, credentials),
+    };
+  }
+
+  async abortMultipartUpload(
+    bucketName: string,
+    key: string,
+    uploadId: string,
+    credentials?: S3Credentials
+  ): Promise<void> {
+    const client = this.createS3Client(credentials);
+    await client.send(new AbortMultipartUploadCommand({
+      Bucket: bucketName,
+      Key: key,
+      UploadId: uploadId,
+    }));
+  }
+
+  // All parts uploaded so far, e.g. by a browser using presigned part URLs
+  async listMultipartParts(
+    bucketName: string,
+    key: string,
+    uploadId: string,
+    credentials?: S3Credentials
+  ): Promise<MultipartPart[]> {
+    const client = this.createS3Client(credentials);
+    const parts: MultipartPart[] = [];
+    let partNumberMarker: string | undefined = undefined;
+
+    do {
+      const response: ListPartsCommandOutput = await client.send(new ListPartsCommand({
+        Bucket: bucketName,
+        Key: key,
+        UploadId: uploadId,
+        PartNumberMarker: partNumberMarker,
+      }));
+      response.Parts?.forEach(part => {
+        if (part.PartNumber && part.ETag) {
+          parts.push({ PartNumber: part.PartNumber, ETag: part.ETag });
+        }
+      });
+      partNumberMarker = response.IsTruncated ? response.NextPartNumberMarker : undefined;
+    } while (partNumberMarker);
+
+    return parts;
+  }
+
+  // Presigned PUT for uploading a whole object straight from the browser. The
+  // content length is part of the signature, so S3 rejects a body of any other size.
+  async getPresignedUploadUrl(
+    bucketName: string,
+    key: string,
+    mimeType: string,
+    size: number,
+    credentials?: S3Credentials,
+    expiresIn: number = 3600,
+    metadata?: Record<string, string>
+  ): Promise<string> {
+    const client = this.createS3Client(credentials);
     const command = new PutObjectCommand({
       Bucket: bucketName,
       Key: key,
-      Body: buffer,
       ContentType: mimeType,
+      ContentLength: size,
+      ...(metadata && { Metadata: metadata }),
     });
 
-    await client.send(command);
+    return await getSignedUrl(client, command, { expiresIn });
+  }
+
+  // Presigned PUT for one part of a multipart upload
+  async getPresignedPartUrl(
+    bucketName: string,
+    key: string,
+    uploadId: string,
+    partNumber: number,
+    credentials?: S3Credentials,
+    expiresIn: number = 3600
+  ): Promise<string> {
+    const client = this.createS3Client(credentials);
+    const command = new UploadPartCommand({
+      Bucket: bucketName,
+      Key: key,
+      UploadId: uploadId,
+      PartNumber: partNumber,
+    });
+
+    return await getSignedUrl(client, command, { expiresIn });
+  }
+
+  // HEAD an object (or one version of it) in any bucket
+  async getObjectMetadata(bucketName: string, key: string, credentials?: S3Credentials, versionId?: string) {
+    const client = this.createS3Client(credentials);
+    const response = await client.send(new HeadObjectCommand({
+      Bucket: bucketName,
+      Key: key,
+      VersionId: versionId,
+    }));
 
     return {
-      key,
-      bucket: bucketName,
-      location: `https://${bucketName}.s3.amazonaws.com/${key}`,
+      size: response.ContentLength || 0,
+      lastModified: response.LastModified,
+      contentType: response.ContentType,
+      metadata: response.Metadata,
     };
   }
-  
-  // Get presigned URL for downloading from any bucket
+
+  /**
+   * Copy an object inside a bucket without downloading it. CopyObject is limited to
+   * 5 GiB, so larger objects are copied part by part with UploadPartCopy. With a source
+   * version id, that version of the source is copied instead of the current one.
+   */
+  async copyObject(
+    bucketName: string,
+    sourceKey: string,
+    destinationKey: string,
+    credentials?: S3Credentials,
+    sourceVersionId?: string
+  ): Promise<void> {
+    const client = this.createS3Client(credentials);
+    const copySource = `${bucketName}/${sourceKey.split('/').map(encodeURIComponent).join('/')}` +
+      (sourceVersionId ? `?versionId=${encodeURIComponent(sourceVersionId)}` : '');
+    const { size, contentType, metadata } = await this.getObjectMetadata(bucketName, sourceKey, credentials, sourceVersionId);
+
+    if (size <= MAX_SINGLE_COPY_SIZE) {
+      await client.send(new CopyObjectCommand({
+        Bucket: bucketName,
+        Key: destinationKey,
+        CopySource: copySource,
+      }));
+      return;
+    }
+
+    const uploadId = await this.createMultipartUpload(bucketName, destinationKey, contentType || 'application/octet-stream', credentials, metadata);
+    try {
+      const parts: MultipartPart[] = [];
+      for (let start = 0, partNumber = 1; start < size; start += COPY_PART_SIZE, partNumber++) {
+        const end = Math.min(start + COPY_PART_SIZE, size) - 1;
+        const response = await client.send(new UploadPartCopyCommand({
+          Bucket: bucketName,
+          Key: destinationKey,
+          UploadId: uploadId,
+          PartNumber: partNumber,
+          CopySource: copySource,
+          CopySourceRange: `bytes=${start}-${end}`,
+        }));
+        parts.push({ PartNumber: partNumber, ETag: response.CopyPartResult?.ETag || '' });
+      }
+      await this.completeMultipartUpload(bucketName, destinationKey, uploadId, parts, credentials);
+    } catch (error) {
+      await this.abortMultipartUpload(bucketName, destinationKey, uploadId, credentials).catch(() => {});
+      throw error;
+    }
+  }
+
+  // Get presigned URL for downloading from any bucket, optionally a specific version
   async getPresignedDownloadUrl(
     bucketName: string,
     key: string,
     credentials?: S3Credentials,
-    expiresIn: number = 3600
+    expiresIn: number = 3600,
+    versionId?: string
   ): Promise<string> {
     const client = this.createS3Client(credentials);
     const command = new GetObjectCommand({
       Bucket: bucketName,
       Key: key,
+      VersionId: versionId,
       ResponseContentDisposition: 'attachment'
     });
 
     return await getSignedUrl(client, command, { expiresIn });
   }
-  
+
+  // Read an object's content through the app (archives, previews), optionally a specific
+  // version or a byte range; size is then the length of the range
+  async getObjectStream(
+    bucketName: string,
+    key: string,
+    credentials?: S3Credentials,
+    versionId?: string,
+    range?: ByteRange
+  ): Promise<{ body: Readable; size: number; lastModified?: Date }> {
+    const command = new GetObjectCommand({
+      Bucket: bucketName,
+      Key: key,
+      VersionId: versionId,
+      Range: range ? `bytes=${range.start}-${range.end}` : undefined,
+    });
+
+    let response;
+    try {
+      response = await this.createS3Client(credentials).send(command);
+    } catch (error: any) {
+      // Retry buckets in another region the same way listObjects does
+      const regionMatch = error.Code === 'PermanentRedirect' && error.Endpoint?.match(/s3-([a-z0-9-]+)\.amazonaws\.com/);
+      if (!regionMatch) {
+        throw error;
+      }
+      response = await this.createS3Client(credentials, regionMatch[1]).send(command);
+    }
+
+    if (!response.Body) {
+      throw new Error(`Empty response body for ${bucketName}/${key}`);
+    }
+    return {
+      body: response.Body as Readable,
+      size: response.ContentLength || 0,
+      lastModified: response.LastModified,
+    };
+  }
+
   // Delete object from any bucket
   async deleteS3Object(
     bucketName: string,
@@ -211,6 +724,36 @@ export class S3Service {
     await client.send(command);
   }
 
+  /**
+   * Make an old version the current one by copying it over the object. The copy is a new
+   * version, so the versions in between stay in the history. Returns the restored size.
+   */
+  async restoreObjectVersion(
+    bucketName: string,
+    key: string,
+    versionId: string,
+    credentials?: S3Credentials
+  ): Promise<number> {
+    const { size } = await this.getObjectMetadata(bucketName, key, credentials, versionId);
+    await this.copyObject(bucketName, key, key, credentials, versionId);
+    return size;
+  }
+
+  // Permanently delete one version (or delete marker) of an object
+  async deleteObjectVersion(
+    bucketName: string,
+    key: string,
+    versionId: string,
+    credentials?: S3Credentials
+  ): Promise<void> {
+    const client = this.createS3Client(credentials);
+    await client.send(new DeleteObjectCommand({
+      Bucket: bucketName,
+      Key: key,
+      VersionId: versionId,
+    }));
+  }
+
   // Delete multiple objects from any bucket
   async deleteS3Objects(
     bucketName: string,
@@ -264,81 +807,6 @@ export class S3Service {
     
     return { deleted, errors };
   }
-
-  // Legacy methods for backward compatibility with existing app-managed files
-  async uploadFile(
-    buffer: Buffer,
-    fileName: string,
-    mimeType: string,
-    userId: string
-  ): Promise<UploadResult> {
-    const key = `users/${userId}/${nanoid()}-${fileName}`;
-    
-    const command = new PutObjectCommand({
-      Bucket: BUCKET_NAME,
-      Key: key,
-      Body: buffer,
-      ContentType: mimeType,
-      Metadata: {
-        userId,
-        originalName: fileName,
-      },
-    });
-
-    await s3Client.send(command);
-
-    return {
-      key,
-      bucket: BUCKET_NAME,
-      location: `https://${BUCKET_NAME}.s3.amazonaws.com/${key}`,
-    };
-  }
-
-  async getFileUrl(key: string, expiresIn: number = 3600): Promise<string> {
-    const command = new GetObjectCommand({
-      Bucket: BUCKET_NAME,
-      Key: key,
-    });
-
-    return await getSignedUrl(s3Client, command, { expiresIn });
-  }
-
-  async deleteFile(key: string): Promise<void> {
-    const command = new DeleteObjectCommand({
-      Bucket: BUCKET_NAME,
-      Key: key,
-    });
-
-    await s3Client.send(command);
-  }
-
-  async getFileMetadata(key: string) {
-    const command = new HeadObjectCommand({
-      Bucket: BUCKET_NAME,
-      Key: key,
-    });
-
-    try {
-      const response = await s3Client.send(command);
-      return {
-        size: response.ContentLength || 0,
-        lastModified: response.LastModified,
-        contentType: response.ContentType,
-        metadata: response.Metadata,
-      };
-    } catch (error) {
-      throw new Error(`File not found: ${key}`);
-    }
-  }
-
-  async generateShareUrl(key: string, expiresIn: number = 86400): Promise<string> {
-    const command = new GetObjectCommand({
-      Bucket: BUCKET_NAME,
-      Key: key,
-    });
-
-    return await getSignedUrl(s3Client, command, { expiresIn });
-  }
 }
 
 export const s3Service = new S3Service();
@@ -0,0 +1,79 @@
+import type { Request } from "express";
+import type { StorageEngine } from "multer";
+import { PassThrough, type Readable } from "stream";
+import type { UploadOptions, UploadResult } from "./s3Service";
+
+export interface S3UploadedFile extends Express.Multer.File {
+  key: string;
+  bucket: string;
+  location: string;
+}
+
+interface S3StorageOptions {
+  // Send the incoming file stream to S3 and report where it ended up
+  upload: (req: Request, file: Express.Multer.File, body: Readable, options: UploadOptions) => Promise<UploadResult>;
+  // Remove an already stored object when multer rejects the request afterwards
+  remove: (req: Request, file: S3UploadedFile) => Promise<void>;
+}
+
+/**
+ * Multer storage engine that pipes each file straight into an S3 multipart upload
+ * instead of buffering it in memory. The multipart upload is aborted if the client
+ * disconnects or the stream fails part-way through.
+ */
+class S3StreamStorage implements StorageEngine {
+  constructor(private options: S3StorageOptions) {}
+
+  _handleFile(req: Request, file: Express.Multer.File, callback: (error?: any, info?: Partial<S3UploadedFile>) => void): void {
+    const abortController = new AbortController();
+    const body = new PassThrough();
+    let size = 0;
+
+    const abort = () => {
+      if (!abortController.signal.aborted) {
+        abortController.abort();
+      }
+    };
+
+    file.stream.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+    });
+    file.stream.on('error', (error) => {
+      body.destroy(error);
+      abort();
+    });
+    req.on('close', () => {
+      if (!req.complete) {
+        abort();
+      }
+    });
+    file.stream.pipe(body);
+
+    this.options
+      .upload(req, file, body, { abortController })
+      .then((result) => {
+        callback(null, {
+          size,
+          key: result.key,
+          bucket: result.bucket,
+          location: result.location,
+        });
+      })
+      .catch((error) => {
+        // Drain whatever is left so busboy can finish parsing the request
+        file.stream.resume();
+        callback(error);
+      });
+  }
+
+  _removeFile(req: Request, file: Express.Multer.File, callback: (error: Error | null) => void): void {
+    this.options
+      .remove(req, file as S3UploadedFile)
+      .then(() => callback(null))
+      .catch((error) => callback(error));
+  }
+}
+
+export function s3StreamStorage(options: S3StorageOptions): StorageEngine {
+  return new S3StreamStorage(options);
+}
@@ -1,4 +1,8 @@
 import type { S3Credentials } from "./s3Service";
+import type { S3CredentialRecord } from "@shared/schema";
+import { storage } from "../storage";
+import { encryptSecret, decryptSecret, rewrapDataKey, getActiveKeyId } from "./credentialEncryption";
+import { stsService, type AssumeRoleConfig } from "./stsService";
 
 export interface SessionUser {
   claims?: any;
@@ -8,109 +12,291 @@ export interface SessionUser {
   s3Credentials?: S3Credentials;
 }
 
-interface CredentialEntry {
+/**
+ * A named S3 connection as shown to the client (never includes secrets)
+ */
+export interface S3ConnectionSummary {
+  id: number;
+  name: string;
+  type: string;
+  roleArn: string | null;
+  // When the temporary credentials of a role connection expire (they are refreshed before that)
+  credentialsExpireAt: Date | null;
+  region: string | null;
+  endpoint: string | null;
+  isActive: boolean;
+  expiresAt: Date;
+}
+
+export interface S3Connection extends S3ConnectionSummary {
   credentials: S3Credentials;
-  expiresAt: number;
+}
+
+export interface StoreCredentialOptions {
+  ttlMs?: number;
+  // Set for role connections: how to assume the role again and when the current credentials expire
+  role?: AssumeRoleConfig;
+  credentialsExpireAt?: Date;
+}
+
+// Encrypted payload; role connections also keep what is needed to assume the role again
+interface StoredCredentials extends S3Credentials {
+  roleArn?: string;
+  // Chosen by the user in connections made before the app issued external IDs; unused
+  externalId?: string;
+}
+
+// Refresh role credentials this long before they expire
+const ROLE_REFRESH_MARGIN = 5 * 60 * 1000;
+
+function toSummary(record: S3CredentialRecord): S3ConnectionSummary {
+  return {
+    id: record.id,
+    name: record.name,
+    type: record.type,
+    roleArn: record.roleArn,
+    credentialsExpireAt: record.credentialsExpireAt,
+    region: record.region,
+    endpoint: record.endpoint,
+    isActive: record.isActive,
+    expiresAt: record.expiresAt,
+  };
 }
 
 /**
- * In-memory credential store with TTL support
- * Persists across requests and provides automatic cleanup
+ * Connection ids arrive as query strings or JSON values. An id that was supplied but
+ * isn't a valid integer must not fall back to the active connection, so it maps to null.
+ */
+function parseConnectionId(connectionId?: number | string | null): number | undefined | null {
+  if (connectionId === undefined || connectionId === null || connectionId === '') {
+    return undefined;
+  }
+  const id = Number(connectionId);
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+/**
+ * Credential store backed by the s3_credentials table with TTL support.
+ * Each user can hold several named connections; one of them is active and is used
+ * whenever a request doesn't pick a connection explicitly.
+ * Credentials are envelope-encrypted before they reach the database, so they survive
+ * restarts and are shared by every app instance without being stored in plaintext.
  */
 class CredentialStore {
-  private credentialMap = new Map<string, CredentialEntry>();
   private cleanupInterval: NodeJS.Timeout;
   private readonly DEFAULT_TTL = 24 * 60 * 60 * 1000; // 24 hours in milliseconds
 
   constructor() {
     // Run cleanup every hour
     this.cleanupInterval = setInterval(() => {
-      this.cleanup();
+      this.cleanup().catch((error) => console.error('S3 credential cleanup failed:', error));
     }, 60 * 60 * 1000);
   }
 
   /**
-   * Store credentials for a user with TTL
+   * Store credentials under a connection name with TTL and make it the active connection.
+   * Saving under an existing name replaces that connection's credentials.
+   */
+  async set(userId: string, name: string, credentials: S3Credentials, options: StoreCredentialOptions = {}): Promise<S3ConnectionSummary> {
+    const ttl = options.ttlMs || this.DEFAULT_TTL;
+    const expiresAt = new Date(Date.now() + ttl);
+
+    const normalized: StoredCredentials = {
+      accessKeyId: credentials.accessKeyId,
+      secretAccessKey: credentials.secretAccessKey,
+      region: credentials.region || 'us-east-1',
+      ...(credentials.sessionToken && { sessionToken: credentials.sessionToken }),
+      ...(credentials.endpoint && {
+        endpoint: credentials.endpoint,
+        forcePathStyle: !!credentials.forcePathStyle
+      }),
+      ...(options.role && { roleArn: options.role.roleArn })
+    };
+
+    const record = await storage.upsertS3Credential({
+      userId,
+      name,
+      type: options.role ? 'role' : 'keys',
+      roleArn: options.role?.roleArn ?? null,
+      credentialsExpireAt: options.credentialsExpireAt ?? null,
+      region: normalized.region,
+      endpoint: normalized.endpoint ?? null,
+      ...encryptSecret(normalized, userId),
+      expiresAt,
+    });
+    await storage.setActiveS3Credential(userId, record.id);
+
+    return { ...toSummary(record), isActive: true };
+  }
+
+  /**
+   * Assume the role of a role connection again and persist the new temporary credentials
    */
-  set(userId: string, credentials: S3Credentials, ttlMs?: number): void {
-    const ttl = ttlMs || this.DEFAULT_TTL;
-    const expiresAt = Date.now() + ttl;
-    
-    const entry: CredentialEntry = {
-      credentials: {
-        accessKeyId: credentials.accessKeyId,
-        secretAccessKey: credentials.secretAccessKey,
-        region: credentials.region || 'us-east-1',
-        ...(credentials.sessionToken && { sessionToken: credentials.sessionToken })
-      },
-      expiresAt
+  private async refreshRole(record: S3CredentialRecord, stored: StoredCredentials): Promise<S3Connection> {
+    const assumed = await stsService.assumeRole(record.userId, {
+      roleArn: stored.roleArn!,
+      region: stored.region,
+    });
+    const refreshed: StoredCredentials = {
+      ...assumed.credentials,
+      roleArn: stored.roleArn,
+    };
+
+    const updated = await storage.updateS3CredentialSecret(record.id, {
+      ...encryptSecret(refreshed, record.userId),
+      credentialsExpireAt: assumed.expiration,
+    });
+
+    return {
+      ...toSummary(updated ?? { ...record, credentialsExpireAt: assumed.expiration }),
+      credentials: assumed.credentials,
     };
-    
-    this.credentialMap.set(userId, entry);
   }
 
   /**
-   * Retrieve credentials for a user
-   * Returns undefined if not found or expired
+   * Retrieve a connection for a user, or the active one when no id is given
+   * Returns undefined if not found, expired or no longer decryptable
    */
-  get(userId: string): S3Credentials | undefined {
-    const entry = this.credentialMap.get(userId);
-    
-    if (!entry) {
+  async get(userId: string, connectionId?: number | string | null): Promise<S3Connection | undefined> {
+    const id = parseConnectionId(connectionId);
+    if (id === null) {
+      return undefined;
+    }
+
+    const record = await storage.getS3Credential(userId, id);
+
+    if (!record) {
+      return undefined;
+    }
+
+    // Check if expired. Connections that bucket share links still resolve against are kept
+    // until the last of those links expires or is revoked.
+    if (Date.now() > record.expiresAt.getTime() && !(await storage.hasLiveS3ShareLinks(record.id, new Date()))) {
+      await storage.deleteS3Credential(userId, record.id);
       return undefined;
     }
-    
-    // Check if expired
-    if (Date.now() > entry.expiresAt) {
-      this.credentialMap.delete(userId);
+
+    let stored: StoredCredentials;
+    try {
+      stored = decryptSecret<StoredCredentials>(record, userId);
+    } catch (error) {
+      // Usually a master key that was dropped from CREDENTIAL_MASTER_KEYS before rotation.
+      // Keep the row so restoring the key brings the connection back.
+      console.error(`Failed to decrypt S3 connection ${record.id} for user ${userId}:`, error);
       return undefined;
     }
-    
-    return entry.credentials;
+
+    // Role connections get new temporary credentials shortly before the current ones expire
+    const credentialsExpireAt = record.credentialsExpireAt?.getTime();
+    if (record.type === 'role' && stored.roleArn && credentialsExpireAt && credentialsExpireAt - Date.now() < ROLE_REFRESH_MARGIN) {
+      try {
+        return await this.refreshRole(record, stored);
+      } catch (error) {
+        console.error(`Failed to refresh role credentials for S3 connection ${record.id}:`, error);
+        if (credentialsExpireAt <= Date.now()) {
+          return undefined;
+        }
+      }
+    }
+
+    const { roleArn, externalId, ...credentials } = stored;
+    return {
+      ...toSummary(record),
+      credentials,
+    };
   }
 
   /**
-   * Remove credentials for a user
+   * List a user's unexpired connections, including expired ones kept for share links
    */
-  delete(userId: string): boolean {
-    return this.credentialMap.delete(userId);
+  async list(userId: string): Promise<S3ConnectionSummary[]> {
+    const now = new Date();
+    const records = await storage.getS3CredentialsByUserId(userId);
+    const kept = await Promise.all(records.map((record) =>
+      record.expiresAt > now || storage.hasLiveS3ShareLinks(record.id, now)
+    ));
+    return records
+      .filter((_, i) => kept[i])
+      .map(toSummary);
+  }
+
+  /**
+   * Make one of the user's connections the active one
+   */
+  async activate(userId: string, connectionId: number | string): Promise<boolean> {
+    const id = parseConnectionId(connectionId);
+    if (!id) {
+      return false;
+    }
+    return storage.setActiveS3Credential(userId, id);
+  }
+
+  /**
+   * Remove a connection (the active one when no id is given)
+   */
+  async delete(userId: string, connectionId?: number | string | null): Promise<boolean> {
+    const id = parseConnectionId(connectionId);
+    if (id === null) {
+      return false;
+    }
+
+    const record = await storage.getS3Credential(userId, id);
+    if (!record) {
+      return false;
+    }
+    return storage.deleteS3Credential(userId, record.id);
   }
 
   /**
    * Check if user has valid credentials
    */
-  has(userId: string): boolean {
-    const credentials = this.get(userId);
-    return !!(credentials?.accessKeyId && credentials?.secretAccessKey);
+  async has(userId: string, connectionId?: number | string | null): Promise<boolean> {
+    const connection = await this.get(userId, connectionId);
+    return !!(connection?.credentials.accessKeyId && connection?.credentials.secretAccessKey);
   }
 
   /**
    * Clean up expired entries
    */
-  private cleanup(): void {
-    const now = Date.now();
-    const expiredKeys: string[] = [];
-    
-    for (const [userId, entry] of Array.from(this.credentialMap.entries())) {
-      if (now > entry.expiresAt) {
-        expiredKeys.push(userId);
-      }
+  private async cleanup(): Promise<void> {
+    const removed = await storage.deleteExpiredS3Credentials(new Date());
+
+    if (removed > 0) {
+      console.log(`Cleaned up ${removed} expired S3 credential entries`);
     }
-    
-    expiredKeys.forEach(key => this.credentialMap.delete(key));
-    
-    if (expiredKeys.length > 0) {
-      console.log(`Cleaned up ${expiredKeys.length} expired S3 credential entries`);
+  }
+
+  /**
+   * Re-wrap every data key that isn't protected by the active master key.
+   * Payloads stay untouched; only the wrapped data keys change.
+   */
+  async rotateKeys(): Promise<{ rotated: number; failed: number }> {
+    const records = await storage.getS3CredentialsNotUsingKey(getActiveKeyId());
+    let rotated = 0;
+    let failed = 0;
+
+    for (const record of records) {
+      try {
+        const { encryptedDataKey, keyId } = rewrapDataKey(record);
+        await storage.updateS3CredentialDataKey(record.id, encryptedDataKey, keyId);
+        rotated++;
+      } catch (error) {
+        console.error(`Failed to rotate key for S3 connection ${record.id}:`, error);
+        failed++;
+      }
     }
+
+    return { rotated, failed };
   }
 
   /**
    * Get store statistics for monitoring
    */
-  getStats() {
+  async getStats() {
     return {
-      totalEntries: this.credentialMap.size,
-      defaultTtlHours: this.DEFAULT_TTL / (60 * 60 * 1000)
+      totalEntries: await storage.countS3Credentials(),
+      defaultTtlHours: this.DEFAULT_TTL / (60 * 60 * 1000),
+      activeKeyId: getActiveKeyId()
     };
   }
 
@@ -121,7 +307,6 @@ class CredentialStore {
     if (this.cleanupInterval) {
       clearInterval(this.cleanupInterval);
     }
-    this.credentialMap.clear();
   }
 }
 
@@ -129,49 +314,92 @@ class CredentialStore {
 const credentialStore = new CredentialStore();
 
 /**
- * Store AWS S3 credentials for a user
- * Credentials are stored in-memory with TTL and automatic cleanup
+ * Store AWS S3 credentials for a user under a connection name
+ * Credentials are encrypted and persisted with TTL and automatic cleanup
  */
-export function storeS3CredentialsInSession(
+export async function storeS3CredentialsInSession(
   userId: string,
+  name: string,
   credentials: S3Credentials,
-  ttlMs?: number
-): void {
-  credentialStore.set(userId, credentials, ttlMs);
+  options?: StoreCredentialOptions
+): Promise<S3ConnectionSummary> {
+  return credentialStore.set(userId, name, credentials, options);
 }
 
 /**
- * Retrieve AWS S3 credentials for a user
+ * Retrieve one of the user's S3 connections (the active one when no id is given)
+ * Returns undefined if the connection doesn't exist or has expired
+ */
+export async function getS3ConnectionFromSession(
+  userId: string,
+  connectionId?: number | string | null
+): Promise<S3Connection | undefined> {
+  return credentialStore.get(userId, connectionId);
+}
+
+/**
+ * Retrieve AWS S3 credentials for a user (from the active connection when no id is given)
  * Returns undefined if no credentials are stored or expired
  */
-export function getS3CredentialsFromSession(
-  userId: string
-): S3Credentials | undefined {
-  return credentialStore.get(userId);
+export async function getS3CredentialsFromSession(
+  userId: string,
+  connectionId?: number | string | null
+): Promise<S3Credentials | undefined> {
+  const connection = await credentialStore.get(userId, connectionId);
+  return connection?.credentials;
 }
 
 /**
- * Remove AWS S3 credentials for a user
+ * List a user's S3 connections
  */
-export function clearS3CredentialsFromSession(
+export async function listS3Connections(
   userId: string
-): void {
-  credentialStore.delete(userId);
+): Promise<S3ConnectionSummary[]> {
+  return credentialStore.list(userId);
+}
+
+/**
+ * Switch the user's active S3 connection
+ */
+export async function setActiveS3Connection(
+  userId: string,
+  connectionId: number | string
+): Promise<boolean> {
+  return credentialStore.activate(userId, connectionId);
+}
+
+/**
+ * Remove one of the user's S3 connections (the active one when no id is given)
+ */
+export async function clearS3CredentialsFromSession(
+  userId: string,
+  connectionId?: number | string | null
+): Promise<boolean> {
+  return credentialStore.delete(userId, connectionId);
 }
 
 /**
  * Check if user has AWS S3 credentials stored
  */
-export function hasS3CredentialsInSession(
-  userId: string
-): boolean {
-  return credentialStore.has(userId);
+export async function hasS3CredentialsInSession(
+  userId: string,
+  connectionId?: number | string | null
+): Promise<boolean> {
+  return credentialStore.has(userId, connectionId);
+}
+
+/**
+ * Re-encrypt stored data keys with the active master key (after adding a new key
+ * to the front of CREDENTIAL_MASTER_KEYS)
+ */
+export async function rotateCredentialKeys() {
+  return credentialStore.rotateKeys();
 }
 
 /**
  * Get credential store statistics (for monitoring/debugging)
  */
-export function getCredentialStoreStats() {
+export async function getCredentialStoreStats() {
   return credentialStore.getStats();
 }
 
@@ -182,4 +410,4 @@ process.on('SIGTERM', () => {
 
 process.on('SIGINT', () => {
   credentialStore.destroy();
-});
\ No newline at end of file
+});
@@ -0,0 +1,313 @@
+import { createHash, createHmac, timingSafeEqual } from "crypto";
+import { createReadStream, createWriteStream } from "fs";
+import { copyFile, mkdir, rename, rm, stat, unlink } from "fs/promises";
+import path from "path";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import { nanoid } from "nanoid";
+import {
+  s3Service,
+  type ByteRange,
+  type MultipartPart,
+  type S3Credentials,
+  type UploadOptions,
+  type UploadResult,
+} from "./s3Service";
+
+/**
+ * Storage backends for app-managed files. New files go to the driver named by
+ * STORAGE_DRIVER ('s3' by default, or 'disk'); every files row remembers its driver,
+ * so files written before a switch stay readable.
+ */
+
+export type StorageDriverName = "s3" | "disk";
+
+export interface StoredObjectInfo {
+  size: number;
+  contentType?: string;
+}
+
+export interface StoredObjectStream {
+  body: Readable;
+  size: number;
+}
+
+export interface StorageDriver {
+  readonly name: StorageDriverName;
+  // Value recorded in files.s3_bucket: the bucket for S3, a fixed marker for disk
+  readonly bucket: string;
+  // Whether browsers can upload straight to the backend through presigned URLs
+  readonly supportsDirectUpload: boolean;
+
+  put(body: Readable | Buffer, key: string, mimeType: string, options?: UploadOptions): Promise<UploadResult>;
+  getDownloadUrl(key: string, fileName: string, expiresIn?: number): Promise<string>;
+  // Stream an object's content through the app, or part of it (size is then the part's length)
+  read(key: string, range?: ByteRange): Promise<StoredObjectStream>;
+  stat(key: string): Promise<StoredObjectInfo>;
+  delete(key: string): Promise<void>;
+  // Duplicate an object inside the backend, without passing its bytes through the app
+  copy(sourceKey: string, destinationKey: string): Promise<void>;
+
+  // Multipart uploads, written one part per request (resumable uploads)
+  createMultipartUpload(key: string, mimeType: string, metadata?: Record<string, string>): Promise<string>;
+  uploadPart(key: string, uploadId: string, partNumber: number, body: Buffer): Promise<MultipartPart>;
+  completeMultipartUpload(key: string, uploadId: string, parts: MultipartPart[]): Promise<UploadResult>;
+  abortMultipartUpload(key: string, uploadId: string): Promise<void>;
+}
+
+// Key for a new app-managed file, under the user's prefix. Path separators and ".." are
+// replaced so no file name can place the object outside that prefix.
+export function createUserFileKey(userId: string, fileName: string): string {
+  return `users/${userId}/${nanoid()}-${fileName.replace(/[\/\\]|\.\./g, "_")}`;
+}
+
+/**
+ * Objects in an S3 bucket: the app bucket with the app's own credentials by default,
+ * or any bucket of a user's connection (bucket-browser uploads)
+ */
+export class S3StorageDriver implements StorageDriver {
+  readonly name = "s3";
+  readonly supportsDirectUpload = true;
+
+  constructor(
+    readonly bucket: string = s3Service.defaultBucket,
+    private credentials?: S3Credentials
+  ) {}
+
+  put(body: Readable | Buffer, key: string, mimeType: string, options?: UploadOptions): Promise<UploadResult> {
+    return s3Service.uploadStream(body, this.bucket, key, mimeType, this.credentials, options);
+  }
+
+  getDownloadUrl(key: string, _fileName: string, expiresIn: number = 3600): Promise<string> {
+    return s3Service.getPresignedDownloadUrl(this.bucket, key, this.credentials, expiresIn);
+  }
+
+  async read(key: string, range?: ByteRange): Promise<StoredObjectStream> {
+    const { body, size } = await s3Service.getObjectStream(this.bucket, key, this.credentials, undefined, range);
+    return { body, size };
+  }
+
+  async stat(key: string): Promise<StoredObjectInfo> {
+    const head = await s3Service.getObjectMetadata(this.bucket, key, this.credentials);
+    return { size: head.size, contentType: head.contentType };
+  }
+
+  delete(key: string): Promise<void> {
+    return s3Service.deleteS3Object(this.bucket, key, this.credentials);
+  }
+
+  copy(sourceKey: string, destinationKey: string): Promise<void> {
+    return s3Service.copyObject(this.bucket, sourceKey, destinationKey, this.credentials);
+  }
+
+  createMultipartUpload(key: string, mimeType: string, metadata?: Record<string, string>): Promise<string> {
+    return s3Service.createMultipartUpload(this.bucket, key, mimeType, this.credentials, metadata);
+  }
+
+  uploadPart(key: string, uploadId: string, partNumber: number, body: Buffer): Promise<MultipartPart> {
+    return s3Service.uploadPart(this.bucket, key, uploadId, partNumber, body, this.credentials);
+  }
+
+  completeMultipartUpload(key: string, uploadId: string, parts: MultipartPart[]): Promise<UploadResult> {
+    return s3Service.completeMultipartUpload(this.bucket, key, uploadId, parts, this.credentials);
+  }
+
+  abortMultipartUpload(key: string, uploadId: string): Promise<void> {
+    return s3Service.abortMultipartUpload(this.bucket, key, uploadId, this.credentials);
+  }
+}
+
+export const DISK_DOWNLOAD_PATH = "/api/storage/disk/download";
+
+// Download links (and share link preview URLs) are signed with STORAGE_SIGNING_SECRET
+// (or SESSION_SECRET)
+export function getSigningSecret(): string {
+  const secret = process.env.STORAGE_SIGNING_SECRET || process.env.SESSION_SECRET;
+  if (!secret) {
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('STORAGE_SIGNING_SECRET or SESSION_SECRET is required to sign disk downloads');
+    }
+    return 'development';
+  }
+  return secret;
+}
+
+/**
+ * Objects stored as files under STORAGE_DISK_PATH. Multipart parts are written to a
+ * staging directory and concatenated on completion. Downloads go through the app
+ * using signed, expiring URLs instead of presigned S3 URLs.
+ */
+export class DiskStorageDriver implements StorageDriver {
+  readonly name = "disk";
+  readonly bucket = "local";
+  readonly supportsDirectUpload = false;
+  private readonly root = path.resolve(process.env.STORAGE_DISK_PATH || "./data/uploads");
+  private readonly multipartRoot = path.join(this.root, ".multipart");
+
+  // Absolute path of an object, refusing keys that would escape the storage root
+  private resolvePath(key: string): string {
+    const filePath = path.resolve(this.root, key);
+    if (!filePath.startsWith(this.root + path.sep) || filePath.startsWith(this.multipartRoot + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  }
+
+  private multipartDir(uploadId: string): string {
+    if (!/^[\w-]+$/.test(uploadId)) {
+      throw new Error(`Invalid upload ID: ${uploadId}`);
+    }
+    return path.join(this.multipartRoot, uploadId);
+  }
+
+  // Write through a temporary file so a failed or aborted upload never leaves a partial object
+  private async writeObject(key: string, write: (tempPath: string) => Promise<void>): Promise<UploadResult> {
+    const filePath = this.resolvePath(key);
+    const tempPath = `${filePath}.${nanoid(8)}.tmp`;
+    await mkdir(path.dirname(filePath), { recursive: true });
+
+    try {
+      await write(tempPath);
+      await rename(tempPath, filePath);
+    } catch (error) {
+      await rm(tempPath, { force: true });
+      throw error;
+    }
+
+    return { key, bucket: this.bucket, location: `disk://${key}` };
+  }
+
+  put(body: Readable | Buffer, key: string, _mimeType: string, options: UploadOptions = {}): Promise<UploadResult> {
+    const source = Buffer.isBuffer(body) ? Readable.from([body]) : body;
+    return this.writeObject(key, (tempPath) =>
+      pipeline(source, createWriteStream(tempPath), { signal: options.abortController?.signal })
+    );
+  }
+
+  async getDownloadUrl(key: string, fileName: string, expiresIn: number = 3600): Promise<string> {
+    const expires = String(Math.floor(Date.now() / 1000) + expiresIn);
+    const params = new URLSearchParams({
+      key,
+      name: fileName,
+      expires,
+      signature: this.sign(key, fileName, expires),
+    });
+    return `${DISK_DOWNLOAD_PATH}?${params}`;
+  }
+
+  /**
+   * Check a signed download link and return the file it grants access to,
+   * or undefined if the signature doesn't match or the link has expired
+   */
+  verifyDownload(query: Record<string, unknown>): { filePath: string; fileName: string } | undefined {
+    const { key, name, expires, signature } = query;
+    if (typeof key !== 'string' || typeof name !== 'string' || typeof expires !== 'string' || typeof signature !== 'string') {
+      return undefined;
+    }
+    if (!/^\d+$/.test(expires) || Number(expires) * 1000 < Date.now()) {
+      return undefined;
+    }
+
+    const expected = Buffer.from(this.sign(key, name, expires));
+    const provided = Buffer.from(signature);
+    if (expected.length !== provided.length || !timingSafeEqual(expected, provided)) {
+      return undefined;
+    }
+
+    return { filePath: this.resolvePath(key), fileName: name };
+  }
+
+  private sign(key: string, fileName: string, expires: string): string {
+    return createHmac('sha256', getSigningSecret())
+      .update(`${key}\n${fileName}\n${expires}`)
+      .digest('base64url');
+  }
+
+  async read(key: string, range?: ByteRange): Promise<StoredObjectStream> {
+    const filePath = this.resolvePath(key);
+    // Fails here rather than mid-stream when the object is missing
+    const stats = await stat(filePath);
+    if (range) {
+      const end = Math.min(range.end, stats.size - 1);
+      return { body: createReadStream(filePath, { start: range.start, end }), size: Math.max(0, end - range.start + 1) };
+    }
+    return { body: createReadStream(filePath), size: stats.size };
+  }
+
+  async stat(key: string): Promise<StoredObjectInfo> {
+    const stats = await stat(this.resolvePath(key));
+    return { size: stats.size };
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await unlink(this.resolvePath(key));
+    } catch (error: any) {
+      // Deleting a missing object succeeds, as it does on S3
+      if (error.code !== 'ENOENT') throw error;
+    }
+  }
+
+  async copy(sourceKey: string, destinationKey: string): Promise<void> {
+    const sourcePath = this.resolvePath(sourceKey);
+    await this.writeObject(destinationKey, (tempPath) => copyFile(sourcePath, tempPath));
+  }
+
+  async createMultipartUpload(): Promise<string> {
+    const uploadId = nanoid();
+    await mkdir(this.multipartDir(uploadId), { recursive: true });
+    return uploadId;
+  }
+
+  async uploadPart(_key: string, uploadId: string, partNumber: number, body: Buffer): Promise<MultipartPart> {
+    await pipeline(Readable.from([body]), createWriteStream(path.join(this.multipartDir(uploadId), String(partNumber))));
+    return { PartNumber: partNumber, ETag: createHash('md5').update(body).digest('hex') };
+  }
+
+  async completeMultipartUpload(key: string, uploadId: string, parts: MultipartPart[]): Promise<UploadResult> {
+    const dir = this.multipartDir(uploadId);
+    const ordered = [...parts].sort((a, b) => a.PartNumber - b.PartNumber);
+
+    const result = await this.writeObject(key, async (tempPath) => {
+      const output = createWriteStream(tempPath);
+      try {
+        for (const part of ordered) {
+          await pipeline(createReadStream(path.join(dir, String(part.PartNumber))), output, { end: false });
+        }
+      } finally {
+        await new Promise<void>((resolve, reject) => output.end((error?: Error | null) => error ? reject(error) : resolve()));
+      }
+    });
+
+    await rm(dir, { recursive: true, force: true });
+    return result;
+  }
+
+  async abortMultipartUpload(_key: string, uploadId: string): Promise<void> {
+    await rm(this.multipartDir(uploadId), { recursive: true, force: true });
+  }
+}
+
+export const diskStorageDriver = new DiskStorageDriver();
+
+const drivers: Record<StorageDriverName, StorageDriver> = {
+  s3: new S3StorageDriver(),
+  disk: diskStorageDriver,
+};
+
+const configuredDriver = process.env.STORAGE_DRIVER || "s3";
+if (!(configuredDriver in drivers)) {
+  throw new Error(`Unknown STORAGE_DRIVER "${configuredDriver}", expected "s3" or "disk"`);
+}
+
+// Driver that new app-managed files are written to
+export const storageDriver = drivers[configuredDriver as StorageDriverName];
+
+// Driver an existing file was written with (files rows and upload sessions record it)
+export function getStorageDriver(name: string): StorageDriver {
+  const driver = drivers[name as StorageDriverName];
+  if (!driver) {
+    throw new Error(`Unknown storage driver: ${name}`);
+  }
+  return driver;
+}
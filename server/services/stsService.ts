@@ -0,0 +1,78 @@
+import { STSClient, AssumeRoleCommand } from "@aws-sdk/client-sts";
+import { nanoid } from "nanoid";
+import type { S3Credentials } from "./s3Service";
+import { storage } from "../storage";
+
+// Lifetime of each set of temporary credentials (AWS allows 900s up to the role's max session duration)
+const SESSION_DURATION = Math.max(900, parseInt(process.env.STS_SESSION_DURATION_SECONDS || "3600"));
+
+export interface AssumeRoleConfig {
+  roleArn: string;
+  region?: string;
+}
+
+export interface AssumedRoleCredentials {
+  credentials: S3Credentials;
+  expiration: Date;
+}
+
+/**
+ * Issues temporary S3 credentials for role-based connections. The app calls
+ * STS AssumeRole with its own identity (the default AWS credential chain: env vars,
+ * instance or task role), so users never hand over long-lived secrets.
+ *
+ * Every call carries the user's external ID, which the app issues and users can't choose.
+ * A role whose trust policy requires it can only be assumed on behalf of its owner, even
+ * if another user of the app learns its ARN.
+ */
+export class StsService {
+  private clients = new Map<string, STSClient>();
+
+  private getClient(region: string): STSClient {
+    let client = this.clients.get(region);
+    if (!client) {
+      client = new STSClient({ region });
+      this.clients.set(region, client);
+    }
+    return client;
+  }
+
+  /**
+   * The external ID to put in the trust policy of the user's roles
+   */
+  getExternalId(userId: string): Promise<string> {
+    return storage.ensureAwsExternalId(userId, nanoid(32));
+  }
+
+  async assumeRole(userId: string, config: AssumeRoleConfig): Promise<AssumedRoleCredentials> {
+    const region = config.region || "us-east-1";
+    const command = new AssumeRoleCommand({
+      RoleArn: config.roleArn,
+      RoleSessionName: `storage-${userId}-${nanoid(8)}`.slice(0, 64),
+      DurationSeconds: SESSION_DURATION,
+      ExternalId: await this.getExternalId(userId),
+    });
+
+    try {
+      const response = await this.getClient(region).send(command);
+      const assumed = response.Credentials;
+      if (!assumed?.AccessKeyId || !assumed.SecretAccessKey || !assumed.SessionToken || !assumed.Expiration) {
+        throw new Error("STS returned no credentials");
+      }
+
+      return {
+        credentials: {
+          accessKeyId: assumed.AccessKeyId,
+          secretAccessKey: assumed.SecretAccessKey,
+          sessionToken: assumed.SessionToken,
+          region,
+        },
+        expiration: assumed.Expiration,
+      };
+    } catch (error: any) {
+      throw new Error(`Failed to assume role: ${error.message}`);
+    }
+  }
+}
+
+export const stsService = new StsService();
@@ -0,0 +1,135 @@
+import sharp from "sharp";
+import { buffer } from "stream/consumers";
+import { thumbnailSizes, type File } from "@shared/schema";
+import { storage, thumbnailKey, type StoredObjectRef, type ThumbnailJob } from "../storage";
+import { getStorageDriver } from "./storageDriver";
+
+// Images larger than this are skipped (default 50 MB)
+const MAX_SOURCE_SIZE = Math.max(1, parseInt(process.env.THUMBNAIL_MAX_MB || "50")) * 1024 * 1024;
+// How often to look for images without thumbnails
+const CHECK_INTERVAL = 15 * 1000;
+const BATCH_SIZE = 5;
+// Runs still marked as generating after this long were interrupted (e.g. by a restart)
+const STALE_AFTER = 10 * 60 * 1000;
+
+// Formats sharp reads; the first frame of animated GIF and WebP images is used
+const SOURCE_TYPES = new Set(["image/jpeg", "image/png", "image/webp", "image/gif", "image/avif", "image/tiff"]);
+
+export interface ThumbnailRunResult {
+  ready: number;
+  skipped: number;
+  failed: number;
+}
+
+/**
+ * Background generation of WebP thumbnails for image files, one per size in
+ * thumbnailSizes, stored next to the image in the image's own storage backend.
+ *
+ * Like content extraction, work is found in the database: an image without thumbnails
+ * of its current object is pending, so new uploads, replaced images and images uploaded
+ * before thumbnails existed (see `npm run thumbnails:backfill`) are handled the same way.
+ */
+export class ThumbnailService {
+  private running = false;
+
+  constructor() {
+    setInterval(() => this.wake(), CHECK_INTERVAL);
+  }
+
+  /**
+   * Start generating pending thumbnails now instead of at the next check, e.g. after an upload
+   */
+  wake(): void {
+    this.generatePending().catch((error) => console.error('Thumbnail generation failed:', error));
+  }
+
+  /**
+   * Generate thumbnails until no image is pending. Runs at most once at a time; a call
+   * while a run is in progress returns immediately with nothing done.
+   */
+  async generatePending(options: { retryFailed?: boolean } = {}): Promise<ThumbnailRunResult> {
+    const result: ThumbnailRunResult = { ready: 0, skipped: 0, failed: 0 };
+    if (this.running) {
+      return result;
+    }
+    this.running = true;
+
+    // Failures are retried once per run, not again as they fail anew
+    const retryFailedBefore = options.retryFailed ? new Date() : undefined;
+    try {
+      let batch: ThumbnailJob[];
+      do {
+        batch = await storage.claimThumbnailJobs(BATCH_SIZE, new Date(Date.now() - STALE_AFTER), retryFailedBefore);
+        for (const job of batch) {
+          result[await this.generate(job)]++;
+        }
+      } while (batch.length === BATCH_SIZE);
+    } finally {
+      this.running = false;
+    }
+    return result;
+  }
+
+  private async generate({ file, previous }: ThumbnailJob): Promise<keyof ThumbnailRunResult> {
+    if (!SOURCE_TYPES.has(file.mimeType.split(";")[0].trim().toLowerCase()) || file.size > MAX_SOURCE_SIZE) {
+      await storage.saveThumbnails(file.id, file.s3Key, { status: 'skipped', sizes: [], error: null });
+      await this.deleteObjects(previous);
+      return 'skipped';
+    }
+
+    const driver = getStorageDriver(file.storageDriver);
+    const written: StoredObjectRef[] = [];
+    try {
+      const { body } = await driver.read(file.s3Key);
+      // rotate() applies the EXIF orientation before resizing
+      const image = sharp(await buffer(body)).rotate();
+
+      for (const size of thumbnailSizes) {
+        const thumbnail = await image
+          .clone()
+          .resize(size, size, { fit: 'inside', withoutEnlargement: true })
+          .webp({ quality: 80 })
+          .toBuffer();
+        const key = thumbnailKey(file.s3Key, size);
+        await driver.put(thumbnail, key, 'image/webp');
+        written.push({ s3Key: key, storageDriver: driver.name });
+      }
+    } catch (error) {
+      console.warn(`Failed to generate thumbnails of file ${file.id}:`, error);
+      await storage.saveThumbnails(file.id, file.s3Key, {
+        status: 'error',
+        sizes: [],
+        error: error instanceof Error ? error.message : String(error),
+      });
+      await this.deleteObjects([...written, ...previous]);
+      return 'failed';
+    }
+
+    const saved = await storage.saveThumbnails(file.id, file.s3Key, { status: 'ready', sizes: [...thumbnailSizes], error: null });
+    await this.deleteObjects(saved ? previous : [...written, ...previous]);
+    return 'ready';
+  }
+
+  private async deleteObjects(objects: StoredObjectRef[]): Promise<void> {
+    for (const object of objects) {
+      try {
+        await getStorageDriver(object.storageDriver).delete(object.s3Key);
+      } catch (error) {
+        console.warn(`Failed to delete thumbnail ${object.s3Key}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Thumbnail of a file for the given size, if its current object has one
+   */
+  async getThumbnail(file: File, size: number): Promise<StoredObjectRef | undefined> {
+    const thumbnails = await storage.getFileThumbnails(file.id);
+    if (!thumbnails || thumbnails.status !== 'ready' || thumbnails.s3Key !== file.s3Key || !thumbnails.sizes.includes(size)) {
+      return undefined;
+    }
+    return { s3Key: thumbnailKey(thumbnails.s3Key, size), storageDriver: thumbnails.storageDriver };
+  }
+}
+
+export const thumbnailService = new ThumbnailService();
@@ -0,0 +1,99 @@
+import type { File } from "@shared/schema";
+import { storage, type StoredObjectRef } from "../storage";
+import { getStorageDriver } from "./storageDriver";
+
+// Days an item stays in the trash before it is purged (default 30)
+const RETENTION_DAYS = Math.max(1, parseInt(process.env.TRASH_RETENTION_DAYS || "30"));
+// How often to look for expired trash
+const PURGE_INTERVAL = 60 * 60 * 1000;
+
+/**
+ * Permanent deletion of trashed files and folders, either on request (delete from the
+ * trash, empty trash) or by the scheduled purge once the retention period has passed.
+ */
+export class TrashService {
+  readonly retentionDays = RETENTION_DAYS;
+
+  constructor() {
+    setInterval(() => {
+      this.purgeExpired().catch((error) => console.error('Trash purge failed:', error));
+    }, PURGE_INTERVAL);
+  }
+
+  /**
+   * When an item trashed at the given time will be purged
+   */
+  getPurgeDate(deletedAt: Date): Date {
+    return new Date(deletedAt.getTime() + RETENTION_DAYS * 24 * 60 * 60 * 1000);
+  }
+
+  /**
+   * Delete a file with all its versions. As with folders, the rows go first, so a failed
+   * object delete only leaves an orphaned object behind.
+   */
+  async deleteFile(file: File): Promise<void> {
+    const objects = await storage.deleteFile(file.id);
+    await this.deleteObjects(objects, `file ${file.id}`);
+  }
+
+  /**
+   * Delete a folder with everything inside it
+   */
+  async deleteFolder(folderId: number): Promise<void> {
+    const objects = await storage.deleteFolder(folderId);
+    await this.deleteObjects(objects, `folder ${folderId}`);
+  }
+
+  private async deleteObjects(objects: StoredObjectRef[], owner: string): Promise<void> {
+    for (const object of objects) {
+      try {
+        await getStorageDriver(object.storageDriver).delete(object.s3Key);
+      } catch (error) {
+        console.warn(`Failed to delete stored object ${object.s3Key} of deleted ${owner}:`, error);
+      }
+    }
+  }
+
+  async emptyTrash(userId: string): Promise<void> {
+    const trash = await storage.getTrashByUserId(userId);
+
+    for (const folder of trash.folders) {
+      await this.deleteFolder(folder.id);
+    }
+    for (const file of trash.files) {
+      await this.deleteFile(file);
+    }
+  }
+
+  /**
+   * Permanently delete everything that has been in the trash longer than the retention period
+   */
+  async purgeExpired(): Promise<void> {
+    const cutoff = new Date(Date.now() - RETENTION_DAYS * 24 * 60 * 60 * 1000);
+    const expired = await storage.getTrashDeletedBefore(cutoff);
+    let purged = 0;
+
+    for (const folder of expired.folders) {
+      try {
+        await this.deleteFolder(folder.id);
+        purged++;
+      } catch (error) {
+        console.warn(`Failed to purge trashed folder ${folder.id}:`, error);
+      }
+    }
+    for (const file of expired.files) {
+      try {
+        await this.deleteFile(file);
+        purged++;
+      } catch (error) {
+        console.warn(`Failed to purge trashed file ${file.id}:`, error);
+      }
+    }
+
+    if (purged > 0) {
+      console.log(`Purged ${purged} expired trash items`);
+    }
+  }
+}
+
+export const trashService = new TrashService();
@@ -2,15 +2,288 @@ import {
   users,
   files,
   folders,
+  fileVersions,
+  fileContents,
+  fileThumbnails,
+  shareLinks,
+  permissions,
+  uploadSessions,
+  s3Credentials,
+  s3Objects,
+  s3BucketIndexes,
   type User,
   type UpsertUser,
   type File,
   type InsertFile,
+  type FileVersion,
+  type InsertFileVersion,
+  type FileContent,
+  type InsertFileContent,
+  type FileThumbnails,
+  type InsertFileThumbnails,
   type Folder,
   type InsertFolder,
+  type ShareLink,
+  type InsertShareLink,
+  type Permission,
+  type InsertPermission,
+  type PermissionRole,
+  type UploadSession,
+  type InsertUploadSession,
+  type S3CredentialRecord,
+  type InsertS3CredentialRecord,
+  type S3ObjectRecord,
+  type InsertS3ObjectRecord,
+  type S3BucketIndex,
+  type InsertS3BucketIndex,
+  type FileCategory,
+  type SearchQuery,
 } from "@shared/schema";
 import { db } from "./db-docker";
-import { eq, desc, and, isNull } from "drizzle-orm";
+import { eq, desc, and, or, not, isNull, isNotNull, lt, lte, gt, ne, gte, count, exists, inArray, notInArray, like, ilike, sql, type SQL } from "drizzle-orm";
+import { unionAll } from "drizzle-orm/pg-core";
+
+// Escape LIKE wildcards so user input matches literally
+const escapeLike = (value: string) => value.replace(/[\\%_]/g, '\\$&');
+
+// Whether an S3 connection still has bucket share links that can be used: not revoked,
+// not expired and with downloads left. Such connections are kept past their own expiry.
+const hasLiveShareLinks = (now: Date) => exists(
+  db
+    .select({ id: shareLinks.id })
+    .from(shareLinks)
+    .where(and(
+      eq(shareLinks.connectionId, s3Credentials.id),
+      eq(shareLinks.isRevoked, false),
+      or(isNull(shareLinks.expiresAt), gt(shareLinks.expiresAt, now)),
+      or(isNull(shareLinks.maxDownloads), lt(shareLinks.downloadCount, shareLinks.maxDownloads)),
+    ))
+);
+
+// Ids of a folder and every folder nested below it. UNION (rather than UNION ALL)
+// stops the recursion even if the data already contains a cycle.
+const folderSubtreeIds = (folderId: number) => sql`(
+  WITH RECURSIVE subtree AS (
+    SELECT id FROM ${folders} WHERE id = ${folderId}
+    UNION
+    SELECT child.id FROM ${folders} child JOIN subtree ON child.parent_id = subtree.id
+  )
+  SELECT id FROM subtree
+)`;
+
+// Ids of a folder and every folder it is nested in
+const folderAncestorIds = (folderId: number) => sql`(
+  WITH RECURSIVE ancestors AS (
+    SELECT id, parent_id FROM ${folders} WHERE id = ${folderId}
+    UNION
+    SELECT parent.id, parent.parent_id FROM ${folders} parent JOIN ancestors ON parent.id = ancestors.parent_id
+  )
+  SELECT id FROM ancestors
+)`;
+
+// Lower-cased extension of an indexed object's key (null without one)
+const s3ObjectExtension = sql<string | null>`lower(substring(${s3Objects.key} from '\\.([^./]+)$'))`;
+
+// How search recognizes each file type: app-managed files by MIME type (LIKE patterns),
+// bucket objects, whose type isn't indexed, by extension
+const CATEGORY_MIME_PATTERNS: Record<FileCategory, string[]> = {
+  image: ['image/%'],
+  video: ['video/%'],
+  audio: ['audio/%'],
+  pdf: ['%pdf%'],
+  document: ['text/%', '%doc%', '%spreadsheet%', '%presentation%', '%excel%'],
+  archive: ['%zip%', '%rar%', '%7z%', '%tar%'],
+};
+
+const CATEGORY_EXTENSIONS: Record<FileCategory, string[]> = {
+  image: ['jpg', 'jpeg', 'png', 'gif', 'webp', 'svg', 'bmp', 'tif', 'tiff', 'heic', 'avif'],
+  video: ['mp4', 'mov', 'avi', 'mkv', 'webm', 'm4v', 'wmv'],
+  audio: ['mp3', 'wav', 'flac', 'aac', 'ogg', 'm4a', 'opus'],
+  pdf: ['pdf'],
+  document: ['txt', 'md', 'csv', 'json', 'doc', 'docx', 'xls', 'xlsx', 'ppt', 'pptx', 'odt', 'ods', 'odp', 'rtf'],
+  archive: ['zip', 'rar', '7z', 'tar', 'gz', 'tgz', 'bz2', 'xz'],
+};
+
+// Full-text query for file_contents.search_vector, which is built with the same 'english'
+// configuration. websearch syntax: quoted phrases, OR, -excluded words.
+const contentQuery = (q: string) => sql`websearch_to_tsquery('english', ${q})`;
+
+// ts_headline marks matches with these, which extracted text never contains
+const SNIPPET_START = '\u0002';
+const SNIPPET_STOP = '\u0003';
+const SNIPPET_OPTIONS = `StartSel=${SNIPPET_START}, StopSel=${SNIPPET_STOP}, MinWords=10, MaxWords=25, MaxFragments=2, FragmentDelimiter=" … "`;
+
+// Split a marked-up ts_headline result into plain and highlighted parts
+function parseSnippet(headline: string): SnippetPart[] {
+  const [leading, ...rest] = headline.split(SNIPPET_START);
+  const parts: SnippetPart[] = [{ text: leading, highlight: false }];
+  for (const piece of rest) {
+    const [match, after = ''] = piece.split(SNIPPET_STOP);
+    parts.push({ text: match, highlight: true }, { text: after, highlight: false });
+  }
+  return parts.filter((part) => part.text !== '');
+}
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// An object in a storage backend that has to be removed once its rows are deleted
+export interface StoredObjectRef {
+  s3Key: string;
+  storageDriver: string;
+}
+
+// What a new file version stores; the version number is assigned by the storage layer
+export type NewFileVersion = Pick<
+  InsertFileVersion,
+  "s3Key" | "s3Bucket" | "storageDriver" | "mimeType" | "size" | "uploadedBy" | "uploaderName" | "uploaderEmail"
+>;
+
+// Key of a thumbnail, stored next to the image object it was made from
+export const thumbnailKey = (s3Key: string, size: number) => `${s3Key}.thumb-${size}.webp`;
+
+// The stored objects of a file's thumbnails
+function thumbnailObjects(thumbnails: Pick<FileThumbnails, "s3Key" | "storageDriver" | "sizes">[]): StoredObjectRef[] {
+  return thumbnails.flatMap(({ s3Key, storageDriver, sizes }) =>
+    sizes.map((size) => ({ s3Key: thumbnailKey(s3Key, size), storageDriver }))
+  );
+}
+
+// Deleted file rows and their versions mostly share objects; remove each one once
+function uniqueObjects(objects: StoredObjectRef[]): StoredObjectRef[] {
+  const seen = new Set<string>();
+  return objects.filter((object) => {
+    const id = `${object.storageDriver}:${object.s3Key}`;
+    if (seen.has(id)) return false;
+    seen.add(id);
+    return true;
+  });
+}
+
+// Files created before versioning have no version rows; give them their version 1
+async function ensureInitialVersion(tx: Transaction, file: File, uploadedBy: string | null = file.userId): Promise<void> {
+  await tx
+    .insert(fileVersions)
+    .values({
+      fileId: file.id,
+      versionNumber: 1,
+      s3Key: file.s3Key,
+      s3Bucket: file.s3Bucket,
+      storageDriver: file.storageDriver,
+      mimeType: file.mimeType,
+      size: file.size,
+      uploadedBy,
+      uploaderName: file.uploaderName,
+      uploaderEmail: file.uploaderEmail,
+      createdAt: file.uploadedAt ?? undefined,
+    })
+    .onConflictDoNothing();
+}
+
+// Add a version after the latest one and point the file at it
+async function appendVersion(tx: Transaction, file: File, version: NewFileVersion): Promise<File> {
+  await ensureInitialVersion(tx, file);
+  const [{ latest }] = await tx
+    .select({ latest: sql<number>`max(${fileVersions.versionNumber})`.mapWith(Number) })
+    .from(fileVersions)
+    .where(eq(fileVersions.fileId, file.id));
+
+  await tx.insert(fileVersions).values({ ...version, fileId: file.id, versionNumber: latest + 1 });
+  const [updated] = await tx
+    .update(files)
+    .set({
+      s3Key: version.s3Key,
+      s3Bucket: version.s3Bucket,
+      storageDriver: version.storageDriver,
+      mimeType: version.mimeType,
+      size: version.size,
+      uploaderName: version.uploaderName ?? null,
+      uploaderEmail: version.uploaderEmail ?? null,
+      updatedAt: new Date(),
+    })
+    .where(eq(files.id, file.id))
+    .returning();
+  return updated;
+}
+
+// Keep the isShared flag of a link's file or folder in step with its unrevoked links
+async function syncSharedFlag(tx: Transaction, link: ShareLink): Promise<void> {
+  // Bucket objects have no row to flag
+  if (!link.fileId && !link.folderId) {
+    return;
+  }
+  const target = link.fileId ? files : folders;
+  const column = link.fileId ? shareLinks.fileId : shareLinks.folderId;
+  const itemId = (link.fileId ?? link.folderId)!;
+
+  await tx
+    .update(target)
+    .set({
+      isShared: sql`exists (${tx
+        .select({ id: shareLinks.id })
+        .from(shareLinks)
+        .where(and(eq(column, itemId), eq(shareLinks.isRevoked, false)))})`,
+      updatedAt: new Date(),
+    })
+    .where(eq(target.id, itemId));
+}
+
+// Top-level trash items: files and folders trashed directly, not along with a folder
+export interface TrashContents {
+  files: File[];
+  folders: Folder[];
+}
+
+// A permission with the user it was granted to, as the owner sees it
+export interface PermissionGrant extends Permission {
+  email: string | null;
+  firstName: string | null;
+  lastName: string | null;
+}
+
+// Files and folders other users granted access to, with the role and the owner's email
+export interface SharedWithUser {
+  files: (File & { role: PermissionRole; ownerEmail: string | null })[];
+  folders: (Folder & { role: PermissionRole; ownerEmail: string | null })[];
+}
+
+export interface S3ObjectUsage {
+  count: number;
+  bytes: number;
+}
+
+// An image claimed for thumbnail generation, with the thumbnails made from its previous
+// object (to delete once the new ones are stored)
+export interface ThumbnailJob {
+  file: File;
+  previous: StoredObjectRef[];
+}
+
+export type SearchFilters = Omit<SearchQuery, "page" | "pageSize">;
+
+// A piece of a content search snippet; highlighted parts are the words that matched
+export interface SnippetPart {
+  text: string;
+  highlight: boolean;
+}
+
+// One search hit: an app-managed file (with its folder) or an indexed bucket object
+// (with its connection, bucket and key). Files matched by their content carry a snippet
+// of the matching text.
+export interface SearchResult {
+  type: "file" | "s3-object";
+  id: number;
+  name: string;
+  mimeType: string | null;
+  size: number;
+  modifiedAt: Date | null;
+  isShared: boolean;
+  folderId: number | null;
+  connectionId: number | null;
+  connectionName: string | null;
+  bucket: string | null;
+  key: string | null;
+  snippet: SnippetPart[] | null;
+}
 
 // Interface for storage operations
 export interface IStorage {
@@ -21,22 +294,129 @@ export interface IStorage {
   upsertUser(user: UpsertUser): Promise<User>;
   updateUserEmail(id: string, email: string): Promise<void>;
   updateUserPassword(id: string, password: string): Promise<void>;
+  // The user's external ID for role connections; candidate becomes it if there is none yet
+  ensureAwsExternalId(id: string, candidate: string): Promise<string>;
   
   // File operations
   createFile(file: InsertFile): Promise<File>;
+  saveUploadedFile(file: InsertFile, uploadedBy?: string | null): Promise<File>;
   getFilesByUserId(userId: string, folderId?: number): Promise<File[]>;
   getFileById(id: number): Promise<File | undefined>;
-  updateFileSharing(id: number, isShared: boolean, shareToken?: string): Promise<File | undefined>;
-  deleteFile(id: number): Promise<void>;
-  getSharedFile(shareToken: string): Promise<File | undefined>;
+  getFileByS3Key(s3Bucket: string, s3Key: string): Promise<File | undefined>;
+  renameFile(id: number, name: string): Promise<File | undefined>;
+  moveFile(id: number, folderId: number | null): Promise<File | undefined>;
+  deleteFile(id: number): Promise<StoredObjectRef[]>;
   
   // Folder operations
   createFolder(folder: InsertFolder): Promise<Folder>;
   getFoldersByUserId(userId: string, parentId?: number): Promise<Folder[]>;
+  getAllFoldersByUserId(userId: string): Promise<Folder[]>;
   getFolderById(id: number): Promise<Folder | undefined>;
-  updateFolderSharing(id: number, isShared: boolean, shareToken?: string): Promise<Folder | undefined>;
-  deleteFolder(id: number): Promise<void>;
-  getSharedFolder(shareToken: string): Promise<Folder | undefined>;
+  getFolderPath(id: number): Promise<Folder[]>;
+  getFolderSubtree(id: number): Promise<Folder[]>;
+  getFolderInSubtree(rootId: number, folderId: number): Promise<Folder | undefined>;
+  getFileInSubtree(rootId: number, fileId: number): Promise<File | undefined>;
+  getFolderTree(id: number): Promise<{ folders: Folder[]; files: File[] }>;
+  moveFolder(id: number, parentId: number | null): Promise<Folder | undefined>;
+  deleteFolder(id: number): Promise<StoredObjectRef[]>;
+
+  // Share link operations
+  createShareLink(link: InsertShareLink): Promise<ShareLink>;
+  getShareLinksByFileId(fileId: number): Promise<ShareLink[]>;
+  getShareLinksByFolderId(folderId: number): Promise<ShareLink[]>;
+  getShareLinksByS3Object(connectionId: number, bucket: string, key: string): Promise<ShareLink[]>;
+  getShareLinkById(id: number): Promise<ShareLink | undefined>;
+  getShareLinkByToken(token: string): Promise<ShareLink | undefined>;
+  revokeShareLink(id: number): Promise<ShareLink | undefined>;
+  recordShareLinkDownload(id: number): Promise<boolean>;
+
+  // Permission operations
+  grantPermission(permission: InsertPermission): Promise<Permission>;
+  getPermissionsByFileId(fileId: number): Promise<PermissionGrant[]>;
+  getPermissionsByFolderId(folderId: number): Promise<PermissionGrant[]>;
+  getPermissionById(id: number): Promise<Permission | undefined>;
+  deletePermission(id: number): Promise<void>;
+  getGrantedRole(userId: string, item: { fileId?: number; folderId: number | null }): Promise<PermissionRole | undefined>;
+  getSharedWithUser(userId: string): Promise<SharedWithUser>;
+
+  // Search operations
+  search(userId: string, filters: SearchFilters, limit: number, offset: number): Promise<SearchResult[]>;
+
+  // File version operations
+  getFileVersions(fileId: number): Promise<FileVersion[]>;
+  getFileVersion(fileId: number, versionId: number): Promise<FileVersion | undefined>;
+  addFileVersion(fileId: number, version: NewFileVersion): Promise<File | undefined>;
+  deleteFileVersions(fileId: number, versionIds: number[]): Promise<FileVersion[]>;
+
+  // Content extraction operations
+  claimContentExtractions(limit: number, staleBefore: Date): Promise<File[]>;
+  saveFileContent(fileId: number, s3Key: string, result: Pick<InsertFileContent, "status" | "content" | "error">): Promise<void>;
+  getFileContentState(fileId: number): Promise<Omit<FileContent, "content" | "searchVector"> | undefined>;
+
+  // Thumbnail operations
+  claimThumbnailJobs(limit: number, staleBefore: Date, retryFailedBefore?: Date): Promise<ThumbnailJob[]>;
+  saveThumbnails(fileId: number, s3Key: string, result: Pick<InsertFileThumbnails, "status" | "sizes" | "error">): Promise<boolean>;
+  getFileThumbnails(fileId: number): Promise<FileThumbnails | undefined>;
+
+  // Trash operations (regular file and folder lookups skip trashed rows)
+  trashFile(id: number): Promise<File | undefined>;
+  trashFolder(id: number): Promise<Folder | undefined>;
+  getTrashedFile(id: number): Promise<File | undefined>;
+  getTrashedFolder(id: number): Promise<Folder | undefined>;
+  getTrashByUserId(userId: string): Promise<TrashContents>;
+  restoreFile(id: number): Promise<File | undefined>;
+  restoreFolder(id: number): Promise<Folder | undefined>;
+  getTrashDeletedBefore(before: Date): Promise<TrashContents>;
+  getTrashUsage(userId: string): Promise<{ count: number; bytes: number }>;
+
+  // Resumable upload operations
+  createUploadSession(session: InsertUploadSession): Promise<UploadSession>;
+  getUploadSession(id: string): Promise<UploadSession | undefined>;
+  updateUploadSessionProgress(
+    id: string,
+    expectedOffset: number,
+    progress: Pick<UploadSession, "uploadOffset" | "parts" | "pendingChunk">
+  ): Promise<boolean>;
+  deleteUploadSession(id: string): Promise<void>;
+  getExpiredUploadSessions(now: Date): Promise<UploadSession[]>;
+
+  // S3 connection operations (credential payload is encrypted by the caller)
+  upsertS3Credential(record: InsertS3CredentialRecord): Promise<S3CredentialRecord>;
+  getS3Credential(userId: string, id?: number): Promise<S3CredentialRecord | undefined>;
+  getS3CredentialsByUserId(userId: string): Promise<S3CredentialRecord[]>;
+  setActiveS3Credential(userId: string, id: number): Promise<boolean>;
+  deleteS3Credential(userId: string, id: number): Promise<boolean>;
+  deleteExpiredS3Credentials(now: Date): Promise<number>;
+  hasLiveS3ShareLinks(id: number, now: Date): Promise<boolean>;
+  countS3Credentials(): Promise<number>;
+  getS3CredentialsNotUsingKey(keyId: string): Promise<S3CredentialRecord[]>;
+  updateS3CredentialDataKey(id: number, encryptedDataKey: string, keyId: string): Promise<void>;
+  updateS3CredentialSecret(
+    id: number,
+    secret: Pick<S3CredentialRecord, "ciphertext" | "iv" | "authTag" | "encryptedDataKey" | "keyId" | "credentialsExpireAt">
+  ): Promise<S3CredentialRecord | undefined>;
+  getUnexpiredS3Credentials(now: Date): Promise<S3CredentialRecord[]>;
+
+  // S3 object index operations
+  upsertS3Objects(objects: InsertS3ObjectRecord[]): Promise<void>;
+  deleteIndexedS3Objects(connectionId: number, bucket: string, keys: string[]): Promise<void>;
+  deleteS3ObjectsIndexedBefore(connectionId: number, bucket: string, before: Date): Promise<number>;
+  deleteS3IndexOutsideBuckets(connectionId: number, buckets: string[]): Promise<void>;
+  listIndexedS3Objects(
+    connectionId: number,
+    bucket: string,
+    prefix: string,
+    afterKey: string | undefined,
+    limit: number
+  ): Promise<S3ObjectRecord[]>;
+  listIndexedS3Prefixes(connectionId: number, bucket: string, prefix: string): Promise<string[]>;
+  searchIndexedS3Objects(connectionId: number, bucket: string, prefix: string, query: string, limit: number): Promise<S3ObjectRecord[]>;
+  getS3ObjectUsage(connectionId: number, bucket?: string): Promise<S3ObjectUsage>;
+  getS3ObjectUsageByBucket(connectionId: number): Promise<(S3ObjectUsage & { bucket: string })[]>;
+  getS3ObjectUsageByExtension(connectionId: number, bucket?: string): Promise<(S3ObjectUsage & { extension: string | null })[]>;
+  upsertS3BucketIndex(state: InsertS3BucketIndex): Promise<S3BucketIndex>;
+  getS3BucketIndex(connectionId: number, bucket: string): Promise<S3BucketIndex | undefined>;
+  getS3BucketIndexes(connectionId: number): Promise<S3BucketIndex[]>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -96,19 +476,76 @@ export class DatabaseStorage implements IStorage {
       .where(eq(users.id, id));
   }
 
+  async ensureAwsExternalId(id: string, candidate: string): Promise<string> {
+    // coalesce keeps an ID set by a concurrent request
+    const [user] = await db
+      .update(users)
+      .set({ awsExternalId: sql`coalesce(${users.awsExternalId}, ${candidate})` })
+      .where(eq(users.id, id))
+      .returning({ awsExternalId: users.awsExternalId });
+    if (!user?.awsExternalId) {
+      throw new Error(`User ${id} not found`);
+    }
+    return user.awsExternalId;
+  }
+
   // File operations
   async createFile(file: InsertFile): Promise<File> {
-    const [newFile] = await db
-      .insert(files)
-      .values(file)
-      .returning();
-    return newFile;
+    return await db.transaction(async (tx) => {
+      const [newFile] = await tx
+        .insert(files)
+        .values(file)
+        .returning();
+      await ensureInitialVersion(tx, newFile);
+      return newFile;
+    });
+  }
+
+  // Record an upload: a new version of the file already at that path (same user, folder and
+  // name, not trashed), or a new file if there is none. uploadedBy differs from the owner
+  // when an editor uploads into a folder shared with them, and is null for anonymous
+  // uploads through a file request link.
+  async saveUploadedFile(file: InsertFile, uploadedBy: string | null = file.userId): Promise<File> {
+    return await db.transaction(async (tx) => {
+      // Serialize uploads to the same path so two first uploads can't both create a file
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${`${file.userId}/${file.folderId ?? ''}/${file.name}`}))`);
+
+      const [existing] = await tx
+        .select()
+        .from(files)
+        .where(and(
+          eq(files.userId, file.userId),
+          file.folderId ? eq(files.folderId, file.folderId) : isNull(files.folderId),
+          eq(files.name, file.name),
+          isNull(files.deletedAt)
+        ))
+        .orderBy(desc(files.uploadedAt))
+        .limit(1)
+        .for("update");
+
+      if (!existing) {
+        const [newFile] = await tx.insert(files).values(file).returning();
+        await ensureInitialVersion(tx, newFile, uploadedBy);
+        return newFile;
+      }
+
+      return await appendVersion(tx, existing, {
+        s3Key: file.s3Key,
+        s3Bucket: file.s3Bucket,
+        storageDriver: file.storageDriver,
+        mimeType: file.mimeType,
+        size: file.size,
+        uploadedBy,
+        uploaderName: file.uploaderName,
+        uploaderEmail: file.uploaderEmail,
+      });
+    });
   }
 
   async getFilesByUserId(userId: string, folderId?: number): Promise<File[]> {
     const condition = folderId 
-      ? and(eq(files.userId, userId), eq(files.folderId, folderId))
-      : and(eq(files.userId, userId), isNull(files.folderId));
+      ? and(eq(files.userId, userId), eq(files.folderId, folderId), isNull(files.deletedAt))
+      : and(eq(files.userId, userId), isNull(files.folderId), isNull(files.deletedAt));
       
     return await db
       .select()
@@ -121,16 +558,32 @@ export class DatabaseStorage implements IStorage {
     const [file] = await db
       .select()
       .from(files)
-      .where(eq(files.id, id));
+      .where(and(eq(files.id, id), isNull(files.deletedAt)));
+    return file;
+  }
+
+  // The file whose current or an earlier version is stored under the key
+  async getFileByS3Key(s3Bucket: string, s3Key: string): Promise<File | undefined> {
+    const [file] = await db
+      .select()
+      .from(files)
+      .where(or(
+        and(eq(files.s3Bucket, s3Bucket), eq(files.s3Key, s3Key)),
+        inArray(
+          files.id,
+          db.select({ fileId: fileVersions.fileId })
+            .from(fileVersions)
+            .where(and(eq(fileVersions.s3Bucket, s3Bucket), eq(fileVersions.s3Key, s3Key)))
+        )
+      ));
     return file;
   }
 
-  async updateFileSharing(id: number, isShared: boolean, shareToken?: string): Promise<File | undefined> {
+  async renameFile(id: number, name: string): Promise<File | undefined> {
     const [file] = await db
       .update(files)
       .set({
-        isShared,
-        shareToken,
+        name,
         updatedAt: new Date(),
       })
       .where(eq(files.id, id))
@@ -138,18 +591,37 @@ export class DatabaseStorage implements IStorage {
     return file;
   }
 
-  async deleteFile(id: number): Promise<void> {
-    await db.delete(files).where(eq(files.id, id));
-  }
-
-  async getSharedFile(shareToken: string): Promise<File | undefined> {
+  async moveFile(id: number, folderId: number | null): Promise<File | undefined> {
     const [file] = await db
-      .select()
-      .from(files)
-      .where(eq(files.shareToken, shareToken));
+      .update(files)
+      .set({
+        folderId,
+        updatedAt: new Date(),
+      })
+      .where(eq(files.id, id))
+      .returning();
     return file;
   }
 
+  // Delete a file with all its versions. Returns the objects of every version.
+  async deleteFile(id: number): Promise<StoredObjectRef[]> {
+    return await db.transaction(async (tx) => {
+      const versions = await tx
+        .delete(fileVersions)
+        .where(eq(fileVersions.fileId, id))
+        .returning({ s3Key: fileVersions.s3Key, storageDriver: fileVersions.storageDriver });
+      const thumbnails = await tx
+        .delete(fileThumbnails)
+        .where(eq(fileThumbnails.fileId, id))
+        .returning();
+      const deleted = await tx
+        .delete(files)
+        .where(eq(files.id, id))
+        .returning({ s3Key: files.s3Key, storageDriver: files.storageDriver });
+      return uniqueObjects([...deleted, ...versions, ...thumbnailObjects(thumbnails)]);
+    });
+  }
+
   // Folder operations
   async createFolder(folder: InsertFolder): Promise<Folder> {
     const result = await db
@@ -161,8 +633,8 @@ export class DatabaseStorage implements IStorage {
 
   async getFoldersByUserId(userId: string, parentId?: number): Promise<Folder[]> {
     const condition = parentId 
-      ? and(eq(folders.userId, userId), eq(folders.parentId, parentId))
-      : and(eq(folders.userId, userId), isNull(folders.parentId));
+      ? and(eq(folders.userId, userId), eq(folders.parentId, parentId), isNull(folders.deletedAt))
+      : and(eq(folders.userId, userId), isNull(folders.parentId), isNull(folders.deletedAt));
       
     return await db
       .select()
@@ -171,38 +643,1211 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(folders.createdAt));
   }
 
+  // Every folder of a user at any depth (callers rebuild the tree from parentId)
+  async getAllFoldersByUserId(userId: string): Promise<Folder[]> {
+    return await db
+      .select()
+      .from(folders)
+      .where(and(eq(folders.userId, userId), isNull(folders.deletedAt)))
+      .orderBy(folders.name);
+  }
+
   async getFolderById(id: number): Promise<Folder | undefined> {
     const [folder] = await db
       .select()
       .from(folders)
-      .where(eq(folders.id, id));
+      .where(and(eq(folders.id, id), isNull(folders.deletedAt)));
     return folder;
   }
 
-  async updateFolderSharing(id: number, isShared: boolean, shareToken?: string): Promise<Folder | undefined> {
+
+  // The folder itself and every folder nested below it
+  async getFolderSubtree(id: number): Promise<Folder[]> {
+    return await db
+      .select()
+      .from(folders)
+      .where(inArray(folders.id, folderSubtreeIds(id)));
+  }
+
+  // The folder and every folder it is nested in, outermost first
+  async getFolderPath(id: number): Promise<Folder[]> {
+    const ancestors = await db.select().from(folders).where(inArray(folders.id, folderAncestorIds(id)));
+    const byId = new Map(ancestors.map((folder) => [folder.id, folder]));
+    const path: Folder[] = [];
+    for (let folder = byId.get(id); folder; folder = folder.parentId ? byId.get(folder.parentId) : undefined) {
+      path.unshift(folder);
+    }
+    return path;
+  }
+
+  // The folder if it is rootId itself or lies anywhere below it (and isn't trashed)
+  async getFolderInSubtree(rootId: number, folderId: number): Promise<Folder | undefined> {
     const [folder] = await db
-      .update(folders)
+      .select()
+      .from(folders)
+      .where(and(
+        eq(folders.id, folderId),
+        inArray(folders.id, folderSubtreeIds(rootId)),
+        isNull(folders.deletedAt)
+      ));
+    return folder;
+  }
+
+  // The file if it lies in rootId or anywhere below it (and isn't trashed)
+  async getFileInSubtree(rootId: number, fileId: number): Promise<File | undefined> {
+    const [file] = await db
+      .select()
+      .from(files)
+      .where(and(
+        eq(files.id, fileId),
+        inArray(files.folderId, folderSubtreeIds(rootId)),
+        isNull(files.deletedAt)
+      ));
+    return file;
+  }
+
+  // Everything that isn't trashed in a folder and the folders nested below it
+  async getFolderTree(id: number): Promise<{ folders: Folder[]; files: File[] }> {
+    const subtree = folderSubtreeIds(id);
+    const treeFolders = await db
+      .select()
+      .from(folders)
+      .where(and(inArray(folders.id, subtree), isNull(folders.deletedAt)));
+    const treeFiles = await db
+      .select()
+      .from(files)
+      .where(and(inArray(files.folderId, subtree), isNull(files.deletedAt)))
+      .orderBy(files.name);
+    return { folders: treeFolders, files: treeFiles };
+  }
+
+  // Move a folder under another one (or to the root when parentId is null).
+  // Returns undefined without moving if the destination is the folder itself or lies inside it.
+  async moveFolder(id: number, parentId: number | null): Promise<Folder | undefined> {
+    return await db.transaction(async (tx) => {
+      const [folder] = await tx.select().from(folders).where(eq(folders.id, id));
+      if (!folder) {
+        return undefined;
+      }
+
+      // Lock the owner's folders so two concurrent moves can't build a cycle together
+      await tx
+        .select({ id: folders.id })
+        .from(folders)
+        .where(eq(folders.userId, folder.userId))
+        .for("update");
+
+      if (parentId !== null) {
+        const [inside] = await tx
+          .select({ id: folders.id })
+          .from(folders)
+          .where(and(eq(folders.id, parentId), inArray(folders.id, folderSubtreeIds(id))));
+        if (inside) {
+          return undefined;
+        }
+      }
+
+      const [moved] = await tx
+        .update(folders)
+        .set({
+          parentId,
+          updatedAt: new Date(),
+        })
+        .where(eq(folders.id, id))
+        .returning();
+      return moved;
+    });
+  }
+
+  // Delete a folder with all its subfolders and files. Returns the objects of every
+  // version of the deleted files so the caller can remove them from the storage backends.
+  // Files and folders inside it that were trashed on their own are separate trash items:
+  // they move to the root, as restoring them would, and are left out of the delete.
+  async deleteFolder(id: number): Promise<StoredObjectRef[]> {
+    return await db.transaction(async (tx) => {
+      const subtree = folderSubtreeIds(id);
+      await tx
+        .update(files)
+        .set({ folderId: null })
+        .where(and(inArray(files.folderId, subtree), isNotNull(files.deletedAt), isNull(files.trashedWithFolderId)));
+      // A folder moved out takes whatever was trashed along with it out of the subtree too
+      await tx
+        .update(folders)
+        .set({ parentId: null })
+        .where(and(
+          inArray(folders.id, subtree),
+          ne(folders.id, id),
+          isNotNull(folders.deletedAt),
+          isNull(folders.trashedWithFolderId)
+        ));
+
+      const subtreeFiles = tx.select({ id: files.id }).from(files).where(inArray(files.folderId, subtree));
+      const versions = await tx
+        .delete(fileVersions)
+        .where(inArray(fileVersions.fileId, subtreeFiles))
+        .returning({ s3Key: fileVersions.s3Key, storageDriver: fileVersions.storageDriver });
+      const thumbnails = await tx
+        .delete(fileThumbnails)
+        .where(inArray(fileThumbnails.fileId, subtreeFiles))
+        .returning();
+      const deletedFiles = await tx
+        .delete(files)
+        .where(inArray(files.folderId, subtree))
+        .returning({ s3Key: files.s3Key, storageDriver: files.storageDriver });
+      await tx.delete(folders).where(inArray(folders.id, subtree));
+      return uniqueObjects([...deletedFiles, ...versions, ...thumbnailObjects(thumbnails)]);
+    });
+  }
+
+  // Share link operations
+  async createShareLink(link: InsertShareLink): Promise<ShareLink> {
+    return await db.transaction(async (tx) => {
+      const [newLink] = await tx.insert(shareLinks).values(link).returning();
+      await syncSharedFlag(tx, newLink);
+      return newLink;
+    });
+  }
+
+  async getShareLinksByFileId(fileId: number): Promise<ShareLink[]> {
+    return await db
+      .select()
+      .from(shareLinks)
+      .where(eq(shareLinks.fileId, fileId))
+      .orderBy(desc(shareLinks.createdAt));
+  }
+
+  async getShareLinksByFolderId(folderId: number): Promise<ShareLink[]> {
+    return await db
+      .select()
+      .from(shareLinks)
+      .where(eq(shareLinks.folderId, folderId))
+      .orderBy(desc(shareLinks.createdAt));
+  }
+
+  async getShareLinksByS3Object(connectionId: number, bucket: string, key: string): Promise<ShareLink[]> {
+    return await db
+      .select()
+      .from(shareLinks)
+      .where(and(
+        eq(shareLinks.connectionId, connectionId),
+        eq(shareLinks.s3Bucket, bucket),
+        eq(shareLinks.s3Key, key)
+      ))
+      .orderBy(desc(shareLinks.createdAt));
+  }
+
+  async getShareLinkById(id: number): Promise<ShareLink | undefined> {
+    const [link] = await db.select().from(shareLinks).where(eq(shareLinks.id, id));
+    return link;
+  }
+
+  // Tokens of shares made before share_links existed live on the file or folder row.
+  // The first lookup of such a token moves it into an unrestricted share link.
+  async getShareLinkByToken(token: string): Promise<ShareLink | undefined> {
+    const [link] = await db.select().from(shareLinks).where(eq(shareLinks.token, token));
+    if (link) {
+      return link;
+    }
+
+    return await db.transaction(async (tx) => {
+      const [file] = await tx
+        .update(files)
+        .set({ shareToken: null })
+        .where(and(eq(files.shareToken, token), eq(files.isShared, true)))
+        .returning();
+      const [folder] = file ? [] : await tx
+        .update(folders)
+        .set({ shareToken: null })
+        .where(and(eq(folders.shareToken, token), eq(folders.isShared, true)))
+        .returning();
+      const item = file ?? folder;
+      if (!item) {
+        return undefined;
+      }
+
+      const [adopted] = await tx
+        .insert(shareLinks)
+        .values({ token, userId: item.userId, fileId: file?.id, folderId: folder?.id })
+        .onConflictDoNothing()
+        .returning();
+      return adopted;
+    });
+  }
+
+  async revokeShareLink(id: number): Promise<ShareLink | undefined> {
+    return await db.transaction(async (tx) => {
+      const [link] = await tx
+        .update(shareLinks)
+        .set({ isRevoked: true })
+        .where(eq(shareLinks.id, id))
+        .returning();
+      if (link) {
+        await syncSharedFlag(tx, link);
+      }
+      return link;
+    });
+  }
+
+  // Count a download against the link's limit. Returns false once the limit is reached.
+  async recordShareLinkDownload(id: number): Promise<boolean> {
+    const [link] = await db
+      .update(shareLinks)
+      .set({ downloadCount: sql`${shareLinks.downloadCount} + 1` })
+      .where(and(
+        eq(shareLinks.id, id),
+        or(isNull(shareLinks.maxDownloads), lt(shareLinks.downloadCount, shareLinks.maxDownloads))
+      ))
+      .returning({ id: shareLinks.id });
+    return !!link;
+  }
+
+  // Permission operations
+
+  // Grant a user access, replacing the role they already had on the item
+  async grantPermission(permission: InsertPermission): Promise<Permission> {
+    const target = permission.fileId
+      ? [permissions.fileId, permissions.userId]
+      : [permissions.folderId, permissions.userId];
+    const [granted] = await db
+      .insert(permissions)
+      .values(permission)
+      .onConflictDoUpdate({ target, set: { role: permission.role, grantedBy: permission.grantedBy } })
+      .returning();
+    return granted;
+  }
+
+  async getPermissionsByFileId(fileId: number): Promise<PermissionGrant[]> {
+    return await this.getPermissionGrants(eq(permissions.fileId, fileId));
+  }
+
+  async getPermissionsByFolderId(folderId: number): Promise<PermissionGrant[]> {
+    return await this.getPermissionGrants(eq(permissions.folderId, folderId));
+  }
+
+  private async getPermissionGrants(condition: SQL | undefined): Promise<PermissionGrant[]> {
+    const rows = await db
+      .select({ permission: permissions, email: users.email, firstName: users.firstName, lastName: users.lastName })
+      .from(permissions)
+      .innerJoin(users, eq(users.id, permissions.userId))
+      .where(condition)
+      .orderBy(permissions.createdAt);
+    return rows.map(({ permission, ...user }) => ({ ...permission, ...user }));
+  }
+
+  async getPermissionById(id: number): Promise<Permission | undefined> {
+    const [permission] = await db.select().from(permissions).where(eq(permissions.id, id));
+    return permission;
+  }
+
+  async deletePermission(id: number): Promise<void> {
+    await db.delete(permissions).where(eq(permissions.id, id));
+  }
+
+  /**
+   * The strongest role granted to a user on a file or folder, directly or through any
+   * folder it is nested in. Pass the file's id and folder, or a folder's id as folderId.
+   */
+  async getGrantedRole(userId: string, item: { fileId?: number; folderId: number | null }): Promise<PermissionRole | undefined> {
+    const conditions = [];
+    if (item.fileId !== undefined) {
+      conditions.push(eq(permissions.fileId, item.fileId));
+    }
+    if (item.folderId !== null) {
+      conditions.push(inArray(permissions.folderId, folderAncestorIds(item.folderId)));
+    }
+    if (conditions.length === 0) {
+      return undefined;
+    }
+
+    const grants = await db
+      .select({ role: permissions.role })
+      .from(permissions)
+      .where(and(eq(permissions.userId, userId), or(...conditions)));
+    if (grants.some((grant) => grant.role === 'editor')) return 'editor';
+    if (grants.length > 0) return 'viewer';
+    return undefined;
+  }
+
+  // Items granted to the user directly; what is nested in a shared folder is reached through it
+  async getSharedWithUser(userId: string): Promise<SharedWithUser> {
+    const sharedFiles = await db
+      .select({ file: files, role: permissions.role, ownerEmail: users.email })
+      .from(permissions)
+      .innerJoin(files, eq(files.id, permissions.fileId))
+      .innerJoin(users, eq(users.id, files.userId))
+      .where(and(eq(permissions.userId, userId), isNull(files.deletedAt)))
+      .orderBy(desc(permissions.createdAt));
+    const sharedFolders = await db
+      .select({ folder: folders, role: permissions.role, ownerEmail: users.email })
+      .from(permissions)
+      .innerJoin(folders, eq(folders.id, permissions.folderId))
+      .innerJoin(users, eq(users.id, folders.userId))
+      .where(and(eq(permissions.userId, userId), isNull(folders.deletedAt)))
+      .orderBy(desc(permissions.createdAt));
+
+    return {
+      files: sharedFiles.map(({ file, role, ownerEmail }) => ({ ...file, role: role as PermissionRole, ownerEmail })),
+      folders: sharedFolders.map(({ folder, role, ownerEmail }) => ({ ...folder, role: role as PermissionRole, ownerEmail })),
+    };
+  }
+
+  // Search the user's files and the objects indexed from their buckets, best matches first:
+  // names starting with the term, then names containing it, then files whose extracted
+  // content matches. With a folder, searches the files below it whoever owns them; the
+  // caller checks the user may see that folder.
+  async search(userId: string, filters: SearchFilters, limit: number, offset: number): Promise<SearchResult[]> {
+    const term = filters.q ? escapeLike(filters.q) : undefined;
+    const nameRank = (name: SQL) => term
+      ? sql`CASE WHEN ${name} ILIKE ${`${term}%`} THEN 2 WHEN ${name} ILIKE ${`%${term}%`} THEN 1 ELSE 0 END`
+      : sql`0`;
+    // Only content extracted from the file's current object counts
+    const contentMatch = filters.q
+      ? sql`coalesce(${fileContents.searchVector} @@ ${contentQuery(filters.q)}, false)`
+      : sql`false`;
+    const searchFiles = filters.source !== 's3' && !filters.bucket && !filters.connectionId;
+    const searchObjects = filters.source !== 'files' && !filters.folderId;
+
+    const fileQuery = db
+      .select({
+        type: sql<"file" | "s3-object">`'file'`.as("type"),
+        id: sql<number>`${files.id}`.as("id"),
+        name: sql<string>`${files.name}`.as("name"),
+        mimeType: sql<string | null>`${files.mimeType}`.as("mime_type"),
+        size: sql<number>`${files.size}`.mapWith(Number).as("size"),
+        modifiedAt: sql<Date | null>`${files.updatedAt}`.mapWith(files.updatedAt).as("modified_at"),
+        isShared: sql<boolean>`coalesce(${files.isShared}, false)`.as("is_shared"),
+        folderId: sql<number | null>`${files.folderId}`.as("folder_id"),
+        connectionId: sql<number | null>`null::integer`.as("connection_id"),
+        connectionName: sql<string | null>`null::varchar`.as("connection_name"),
+        bucket: sql<string | null>`null::varchar`.as("bucket"),
+        key: sql<string | null>`null::text`.as("key"),
+        contentMatch: sql<boolean>`${contentMatch}`.as("content_match"),
+        rank: sql<number>`${nameRank(sql`${files.name}`)}`.as("rank"),
+      })
+      .from(files)
+      .leftJoin(fileContents, and(
+        eq(fileContents.fileId, files.id),
+        eq(fileContents.s3Key, files.s3Key),
+        eq(fileContents.status, 'ready')
+      ))
+      .where(and(
+        filters.folderId ? inArray(files.folderId, folderSubtreeIds(filters.folderId)) : eq(files.userId, userId),
+        isNull(files.deletedAt),
+        term ? or(ilike(files.name, `%${term}%`), contentMatch) : undefined,
+        filters.type ? or(...CATEGORY_MIME_PATTERNS[filters.type].map((pattern) => ilike(files.mimeType, pattern))) : undefined,
+        filters.minSize !== undefined ? gte(files.size, filters.minSize) : undefined,
+        filters.maxSize !== undefined ? lte(files.size, filters.maxSize) : undefined,
+        filters.modifiedAfter ? gte(files.updatedAt, filters.modifiedAfter) : undefined,
+        filters.modifiedBefore ? lte(files.updatedAt, filters.modifiedBefore) : undefined,
+        filters.shared === true ? eq(files.isShared, true) : undefined,
+        filters.shared === false ? sql`not coalesce(${files.isShared}, false)` : undefined,
+        // A source that isn't searched contributes no rows
+        searchFiles ? undefined : sql`false`
+      ));
+
+    // Bucket objects count as shared while they have an unrevoked share link
+    const objectShared = exists(
+      db
+        .select({ id: shareLinks.id })
+        .from(shareLinks)
+        .where(and(
+          eq(shareLinks.connectionId, s3Objects.connectionId),
+          eq(shareLinks.s3Bucket, s3Objects.bucket),
+          eq(shareLinks.s3Key, s3Objects.key),
+          eq(shareLinks.isRevoked, false)
+        ))
+    );
+    const objectName = sql`regexp_replace(${s3Objects.key}, '^.*/', '')`;
+    const objectQuery = db
+      .select({
+        type: sql<"file" | "s3-object">`'s3-object'`.as("type"),
+        id: sql<number>`${s3Objects.id}`.as("id"),
+        name: sql<string>`${objectName}`.as("name"),
+        mimeType: sql<string | null>`null::varchar`.as("mime_type"),
+        size: sql<number>`${s3Objects.size}`.mapWith(Number).as("size"),
+        modifiedAt: sql<Date | null>`${s3Objects.lastModified}`.mapWith(s3Objects.lastModified).as("modified_at"),
+        isShared: sql<boolean>`${objectShared}`.as("is_shared"),
+        folderId: sql<number | null>`null::integer`.as("folder_id"),
+        connectionId: sql<number | null>`${s3Objects.connectionId}`.as("connection_id"),
+        connectionName: sql<string | null>`${s3Credentials.name}`.as("connection_name"),
+        bucket: sql<string | null>`${s3Objects.bucket}`.as("bucket"),
+        key: sql<string | null>`${s3Objects.key}`.as("key"),
+        contentMatch: sql<boolean>`false`.as("content_match"),
+        rank: sql<number>`${nameRank(objectName)}`.as("rank"),
+      })
+      .from(s3Objects)
+      .innerJoin(s3Credentials, eq(s3Credentials.id, s3Objects.connectionId))
+      .where(and(
+        eq(s3Objects.userId, userId),
+        // Console "folder" placeholders aren't objects anyone looks for
+        not(like(s3Objects.key, '%/')),
+        term ? ilike(s3Objects.key, `%${term}%`) : undefined,
+        filters.bucket ? eq(s3Objects.bucket, filters.bucket) : undefined,
+        filters.connectionId ? eq(s3Objects.connectionId, filters.connectionId) : undefined,
+        filters.type ? inArray(s3ObjectExtension, CATEGORY_EXTENSIONS[filters.type]) : undefined,
+        filters.minSize !== undefined ? gte(s3Objects.size, filters.minSize) : undefined,
+        filters.maxSize !== undefined ? lte(s3Objects.size, filters.maxSize) : undefined,
+        filters.modifiedAfter ? gte(s3Objects.lastModified, filters.modifiedAfter) : undefined,
+        filters.modifiedBefore ? lte(s3Objects.lastModified, filters.modifiedBefore) : undefined,
+        filters.shared === true ? objectShared : undefined,
+        filters.shared === false ? not(objectShared) : undefined,
+        searchObjects ? undefined : sql`false`
+      ));
+
+    const results = await unionAll(fileQuery, objectQuery)
+      .orderBy(sql`rank DESC`, sql`name`, sql`type`, sql`id`)
+      .limit(limit)
+      .offset(offset);
+
+    // Snippets only for the page of results, as ts_headline re-parses the whole text
+    const contentMatches = results.filter((result) => result.contentMatch).map((result) => result.id);
+    const snippets = new Map<number, SnippetPart[]>();
+    if (filters.q && contentMatches.length > 0) {
+      const headlines = await db
+        .select({
+          fileId: fileContents.fileId,
+          headline: sql<string>`ts_headline('english', ${fileContents.content}, ${contentQuery(filters.q)}, ${SNIPPET_OPTIONS})`,
+        })
+        .from(fileContents)
+        .where(inArray(fileContents.fileId, contentMatches));
+      for (const { fileId, headline } of headlines) {
+        snippets.set(fileId, parseSnippet(headline));
+      }
+    }
+
+    return results.map(({ rank, contentMatch, ...result }) => ({
+      ...result,
+      snippet: contentMatch ? snippets.get(result.id) ?? null : null,
+    }));
+  }
+
+  // File version operations
+  async getFileVersions(fileId: number): Promise<FileVersion[]> {
+    return await db.transaction(async (tx) => {
+      const [file] = await tx.select().from(files).where(eq(files.id, fileId));
+      if (!file) {
+        return [];
+      }
+      await ensureInitialVersion(tx, file);
+      return await tx
+        .select()
+        .from(fileVersions)
+        .where(eq(fileVersions.fileId, fileId))
+        .orderBy(desc(fileVersions.versionNumber));
+    });
+  }
+
+  async getFileVersion(fileId: number, versionId: number): Promise<FileVersion | undefined> {
+    const [version] = await db
+      .select()
+      .from(fileVersions)
+      .where(and(eq(fileVersions.fileId, fileId), eq(fileVersions.id, versionId)));
+    return version;
+  }
+
+  async addFileVersion(fileId: number, version: NewFileVersion): Promise<File | undefined> {
+    return await db.transaction(async (tx) => {
+      const [file] = await tx.select().from(files).where(eq(files.id, fileId)).for("update");
+      if (!file) {
+        return undefined;
+      }
+      return await appendVersion(tx, file, version);
+    });
+  }
+
+  // Delete versions of a file. The current (latest) version is never deleted.
+  async deleteFileVersions(fileId: number, versionIds: number[]): Promise<FileVersion[]> {
+    if (versionIds.length === 0) {
+      return [];
+    }
+    return await db.transaction(async (tx) => {
+      await tx.select({ id: files.id }).from(files).where(eq(files.id, fileId)).for("update");
+      const [{ latest }] = await tx
+        .select({ latest: sql<number>`max(${fileVersions.versionNumber})`.mapWith(Number) })
+        .from(fileVersions)
+        .where(eq(fileVersions.fileId, fileId));
+
+      return await tx
+        .delete(fileVersions)
+        .where(and(
+          eq(fileVersions.fileId, fileId),
+          inArray(fileVersions.id, versionIds),
+          lt(fileVersions.versionNumber, latest)
+        ))
+        .returning();
+    });
+  }
+
+  // Content extraction operations
+
+  // Claim up to limit files whose current object hasn't been extracted: no row yet, a row
+  // for an older object, or an extraction that was interrupted before staleBefore. Claimed
+  // rows are reset to 'extracting' for the current object, dropping the old text.
+  async claimContentExtractions(limit: number, staleBefore: Date): Promise<File[]> {
+    return await db.transaction(async (tx) => {
+      const pending = await tx
+        .select({ file: files })
+        .from(files)
+        .leftJoin(fileContents, eq(fileContents.fileId, files.id))
+        .where(and(
+          isNull(files.deletedAt),
+          or(
+            isNull(fileContents.fileId),
+            ne(fileContents.s3Key, files.s3Key),
+            and(eq(fileContents.status, 'extracting'), lt(fileContents.updatedAt, staleBefore))
+          )
+        ))
+        .orderBy(desc(files.updatedAt))
+        .limit(limit)
+        .for("update", { of: files, skipLocked: true });
+      if (pending.length === 0) {
+        return [];
+      }
+
+      const now = new Date();
+      await tx
+        .insert(fileContents)
+        .values(pending.map(({ file }) => ({ fileId: file.id, s3Key: file.s3Key, status: 'extracting', updatedAt: now })))
+        .onConflictDoUpdate({
+          target: fileContents.fileId,
+          set: { s3Key: sql`excluded.s3_key`, status: 'extracting', content: null, error: null, extractedAt: null, updatedAt: now },
+        });
+      return pending.map(({ file }) => file);
+    });
+  }
+
+  // Record the outcome of an extraction, unless the row has since been claimed for a newer object
+  async saveFileContent(fileId: number, s3Key: string, result: Pick<InsertFileContent, "status" | "content" | "error">): Promise<void> {
+    await db
+      .update(fileContents)
+      .set({ ...result, extractedAt: new Date(), updatedAt: new Date() })
+      .where(and(eq(fileContents.fileId, fileId), eq(fileContents.s3Key, s3Key)));
+  }
+
+  async getFileContentState(fileId: number): Promise<Omit<FileContent, "content" | "searchVector"> | undefined> {
+    const [state] = await db
+      .select({
+        fileId: fileContents.fileId,
+        s3Key: fileContents.s3Key,
+        status: fileContents.status,
+        error: fileContents.error,
+        extractedAt: fileContents.extractedAt,
+        updatedAt: fileContents.updatedAt,
+      })
+      .from(fileContents)
+      .where(eq(fileContents.fileId, fileId));
+    return state;
+  }
+
+  // Thumbnail operations
+
+  // Claim up to limit image files whose current object has no thumbnails: no row yet, a
+  // row for an older object, an interrupted run (before staleBefore) or, with
+  // retryFailedBefore, a failure recorded before then. Claimed rows are reset to
+  // 'generating' for the current object.
+  async claimThumbnailJobs(limit: number, staleBefore: Date, retryFailedBefore?: Date): Promise<ThumbnailJob[]> {
+    return await db.transaction(async (tx) => {
+      const pending = await tx
+        .select({ file: files, thumbnails: fileThumbnails })
+        .from(files)
+        .leftJoin(fileThumbnails, eq(fileThumbnails.fileId, files.id))
+        .where(and(
+          isNull(files.deletedAt),
+          ilike(files.mimeType, 'image/%'),
+          or(
+            isNull(fileThumbnails.fileId),
+            ne(fileThumbnails.s3Key, files.s3Key),
+            and(eq(fileThumbnails.status, 'generating'), lt(fileThumbnails.updatedAt, staleBefore)),
+            retryFailedBefore
+              ? and(eq(fileThumbnails.status, 'error'), lt(fileThumbnails.updatedAt, retryFailedBefore))
+              : undefined
+          )
+        ))
+        .orderBy(desc(files.updatedAt))
+        .limit(limit)
+        .for("update", { of: files, skipLocked: true });
+      if (pending.length === 0) {
+        return [];
+      }
+
+      const now = new Date();
+      await tx
+        .insert(fileThumbnails)
+        .values(pending.map(({ file }) => ({
+          fileId: file.id,
+          s3Key: file.s3Key,
+          storageDriver: file.storageDriver,
+          status: 'generating',
+          updatedAt: now,
+        })))
+        .onConflictDoUpdate({
+          target: fileThumbnails.fileId,
+          set: {
+            s3Key: sql`excluded.s3_key`,
+            storageDriver: sql`excluded.storage_driver`,
+            status: 'generating',
+            sizes: [],
+            error: null,
+            generatedAt: null,
+            updatedAt: now,
+          },
+        });
+      return pending.map(({ file, thumbnails }) => ({
+        file,
+        // Thumbnails of the same object get overwritten instead
+        previous: thumbnails && thumbnails.s3Key !== file.s3Key ? thumbnailObjects([thumbnails]) : [],
+      }));
+    });
+  }
+
+  // Record the generated thumbnails. False if the row has since been claimed for a newer
+  // object (or the file was deleted), in which case nothing refers to them.
+  async saveThumbnails(fileId: number, s3Key: string, result: Pick<InsertFileThumbnails, "status" | "sizes" | "error">): Promise<boolean> {
+    const updated = await db
+      .update(fileThumbnails)
+      .set({ ...result, generatedAt: new Date(), updatedAt: new Date() })
+      .where(and(eq(fileThumbnails.fileId, fileId), eq(fileThumbnails.s3Key, s3Key)))
+      .returning({ fileId: fileThumbnails.fileId });
+    return updated.length > 0;
+  }
+
+  async getFileThumbnails(fileId: number): Promise<FileThumbnails | undefined> {
+    const [thumbnails] = await db.select().from(fileThumbnails).where(eq(fileThumbnails.fileId, fileId));
+    return thumbnails;
+  }
+
+  // Trash operations
+  async trashFile(id: number): Promise<File | undefined> {
+    const [file] = await db
+      .update(files)
       .set({
-        isShared,
-        shareToken,
-        updatedAt: new Date(),
+        deletedAt: new Date(),
+        trashedWithFolderId: null,
       })
-      .where(eq(folders.id, id))
+      .where(and(eq(files.id, id), isNull(files.deletedAt)))
       .returning();
-    return folder;
+    return file;
   }
 
-  async deleteFolder(id: number): Promise<void> {
-    await db.delete(folders).where(eq(folders.id, id));
+  // Trash a folder and, with the same timestamp, everything inside it that isn't trashed yet
+  async trashFolder(id: number): Promise<Folder | undefined> {
+    return await db.transaction(async (tx) => {
+      const deletedAt = new Date();
+      const [folder] = await tx
+        .update(folders)
+        .set({ deletedAt, trashedWithFolderId: null })
+        .where(and(eq(folders.id, id), isNull(folders.deletedAt)))
+        .returning();
+      if (!folder) {
+        return undefined;
+      }
+
+      const subtree = folderSubtreeIds(id);
+      await tx
+        .update(folders)
+        .set({ deletedAt, trashedWithFolderId: id })
+        .where(and(inArray(folders.id, subtree), isNull(folders.deletedAt)));
+      await tx
+        .update(files)
+        .set({ deletedAt, trashedWithFolderId: id })
+        .where(and(inArray(files.folderId, subtree), isNull(files.deletedAt)));
+      return folder;
+    });
   }
 
-  async getSharedFolder(shareToken: string): Promise<Folder | undefined> {
+  async getTrashedFile(id: number): Promise<File | undefined> {
+    const [file] = await db
+      .select()
+      .from(files)
+      .where(and(eq(files.id, id), isNotNull(files.deletedAt), isNull(files.trashedWithFolderId)));
+    return file;
+  }
+
+  async getTrashedFolder(id: number): Promise<Folder | undefined> {
     const [folder] = await db
       .select()
       .from(folders)
-      .where(eq(folders.shareToken, shareToken));
+      .where(and(eq(folders.id, id), isNotNull(folders.deletedAt), isNull(folders.trashedWithFolderId)));
     return folder;
   }
+
+  async getTrashByUserId(userId: string): Promise<TrashContents> {
+    const trashedFiles = await db
+      .select()
+      .from(files)
+      .where(and(eq(files.userId, userId), isNotNull(files.deletedAt), isNull(files.trashedWithFolderId)))
+      .orderBy(desc(files.deletedAt));
+    const trashedFolders = await db
+      .select()
+      .from(folders)
+      .where(and(eq(folders.userId, userId), isNotNull(folders.deletedAt), isNull(folders.trashedWithFolderId)))
+      .orderBy(desc(folders.deletedAt));
+    return { files: trashedFiles, folders: trashedFolders };
+  }
+
+  // Restore a trashed file. If its folder is trashed as well, the file goes back to the root.
+  async restoreFile(id: number): Promise<File | undefined> {
+    return await db.transaction(async (tx) => {
+      const [file] = await tx
+        .select()
+        .from(files)
+        .where(and(eq(files.id, id), isNotNull(files.deletedAt), isNull(files.trashedWithFolderId)));
+      if (!file) {
+        return undefined;
+      }
+
+      let folderId = file.folderId;
+      if (folderId !== null) {
+        const [parent] = await tx.select({ deletedAt: folders.deletedAt }).from(folders).where(eq(folders.id, folderId));
+        if (!parent || parent.deletedAt) {
+          folderId = null;
+        }
+      }
+
+      const [restored] = await tx
+        .update(files)
+        .set({
+          folderId,
+          deletedAt: null,
+          updatedAt: new Date(),
+        })
+        .where(eq(files.id, id))
+        .returning();
+      return restored;
+    });
+  }
+
+  // Restore a trashed folder with everything that was trashed along with it.
+  // If its parent is trashed as well, the folder goes back to the root.
+  async restoreFolder(id: number): Promise<Folder | undefined> {
+    return await db.transaction(async (tx) => {
+      const [folder] = await tx
+        .select()
+        .from(folders)
+        .where(and(eq(folders.id, id), isNotNull(folders.deletedAt), isNull(folders.trashedWithFolderId)));
+      if (!folder) {
+        return undefined;
+      }
+
+      let parentId = folder.parentId;
+      if (parentId !== null) {
+        const [parent] = await tx.select({ deletedAt: folders.deletedAt }).from(folders).where(eq(folders.id, parentId));
+        if (!parent || parent.deletedAt) {
+          parentId = null;
+        }
+      }
+
+      await tx
+        .update(folders)
+        .set({ deletedAt: null, trashedWithFolderId: null })
+        .where(eq(folders.trashedWithFolderId, id));
+      await tx
+        .update(files)
+        .set({ deletedAt: null, trashedWithFolderId: null })
+        .where(eq(files.trashedWithFolderId, id));
+
+      const [restored] = await tx
+        .update(folders)
+        .set({
+          parentId,
+          deletedAt: null,
+          updatedAt: new Date(),
+        })
+        .where(eq(folders.id, id))
+        .returning();
+      return restored;
+    });
+  }
+
+  // Top-level trash items of all users trashed before a cutoff (for the purge)
+  async getTrashDeletedBefore(before: Date): Promise<TrashContents> {
+    const expiredFiles = await db
+      .select()
+      .from(files)
+      .where(and(lt(files.deletedAt, before), isNull(files.trashedWithFolderId)));
+    const expiredFolders = await db
+      .select()
+      .from(folders)
+      .where(and(lt(folders.deletedAt, before), isNull(folders.trashedWithFolderId)));
+    return { files: expiredFiles, folders: expiredFolders };
+  }
+
+  // Every trashed file, including the contents of trashed folders
+  async getTrashUsage(userId: string): Promise<{ count: number; bytes: number }> {
+    const [result] = await db
+      .select({
+        count: count(),
+        bytes: sql<number>`coalesce(sum(${files.size}), 0)`.mapWith(Number),
+      })
+      .from(files)
+      .where(and(eq(files.userId, userId), isNotNull(files.deletedAt)));
+    return result;
+  }
+
+  // Resumable upload operations
+  async createUploadSession(session: InsertUploadSession): Promise<UploadSession> {
+    const [newSession] = await db
+      .insert(uploadSessions)
+      .values(session)
+      .returning();
+    return newSession;
+  }
+
+  async getUploadSession(id: string): Promise<UploadSession | undefined> {
+    const [session] = await db
+      .select()
+      .from(uploadSessions)
+      .where(eq(uploadSessions.id, id));
+    return session;
+  }
+
+  // Only applies when the stored offset still matches, so two concurrent PATCH
+  // requests for the same upload can't both advance it
+  async updateUploadSessionProgress(
+    id: string,
+    expectedOffset: number,
+    progress: Pick<UploadSession, "uploadOffset" | "parts" | "pendingChunk">
+  ): Promise<boolean> {
+    const updated = await db
+      .update(uploadSessions)
+      .set({
+        ...progress,
+        updatedAt: new Date(),
+      })
+      .where(and(eq(uploadSessions.id, id), eq(uploadSessions.uploadOffset, expectedOffset)))
+      .returning({ id: uploadSessions.id });
+    return updated.length > 0;
+  }
+
+  async deleteUploadSession(id: string): Promise<void> {
+    await db.delete(uploadSessions).where(eq(uploadSessions.id, id));
+  }
+
+  async getExpiredUploadSessions(now: Date): Promise<UploadSession[]> {
+    return await db
+      .select()
+      .from(uploadSessions)
+      .where(lt(uploadSessions.expiresAt, now));
+  }
+
+  // S3 connection operations
+  async upsertS3Credential(record: InsertS3CredentialRecord): Promise<S3CredentialRecord> {
+    const [saved] = await db
+      .insert(s3Credentials)
+      .values(record)
+      .onConflictDoUpdate({
+        target: [s3Credentials.userId, s3Credentials.name],
+        set: {
+          ...record,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+    return saved;
+  }
+
+  // Without an id this returns the active connection, falling back to the most recently
+  // saved one when none is marked active
+  async getS3Credential(userId: string, id?: number): Promise<S3CredentialRecord | undefined> {
+    if (id !== undefined) {
+      const [record] = await db
+        .select()
+        .from(s3Credentials)
+        .where(and(eq(s3Credentials.userId, userId), eq(s3Credentials.id, id)));
+      return record;
+    }
+
+    const [record] = await db
+      .select()
+      .from(s3Credentials)
+      .where(eq(s3Credentials.userId, userId))
+      .orderBy(desc(s3Credentials.isActive), desc(s3Credentials.updatedAt))
+      .limit(1);
+    return record;
+  }
+
+  async getS3CredentialsByUserId(userId: string): Promise<S3CredentialRecord[]> {
+    return await db
+      .select()
+      .from(s3Credentials)
+      .where(eq(s3Credentials.userId, userId))
+      .orderBy(s3Credentials.name);
+  }
+
+  async setActiveS3Credential(userId: string, id: number): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const [target] = await tx
+        .select({ id: s3Credentials.id })
+        .from(s3Credentials)
+        .where(and(eq(s3Credentials.userId, userId), eq(s3Credentials.id, id)));
+      if (!target) {
+        return false;
+      }
+
+      await tx
+        .update(s3Credentials)
+        .set({ isActive: false })
+        .where(and(eq(s3Credentials.userId, userId), ne(s3Credentials.id, id)));
+      await tx
+        .update(s3Credentials)
+        .set({ isActive: true })
+        .where(eq(s3Credentials.id, id));
+      return true;
+    });
+  }
+
+  async deleteS3Credential(userId: string, id: number): Promise<boolean> {
+    const deleted = await db
+      .delete(s3Credentials)
+      .where(and(eq(s3Credentials.userId, userId), eq(s3Credentials.id, id)))
+      .returning({ id: s3Credentials.id });
+    return deleted.length > 0;
+  }
+
+  async deleteExpiredS3Credentials(now: Date): Promise<number> {
+    const deleted = await db
+      .delete(s3Credentials)
+      .where(and(lt(s3Credentials.expiresAt, now), not(hasLiveShareLinks(now))))
+      .returning({ id: s3Credentials.id });
+    return deleted.length;
+  }
+
+  async hasLiveS3ShareLinks(id: number, now: Date): Promise<boolean> {
+    const [record] = await db
+      .select({ id: s3Credentials.id })
+      .from(s3Credentials)
+      .where(and(eq(s3Credentials.id, id), hasLiveShareLinks(now)));
+    return !!record;
+  }
+
+  async countS3Credentials(): Promise<number> {
+    const [result] = await db.select({ total: count() }).from(s3Credentials);
+    return result.total;
+  }
+
+  async getS3CredentialsNotUsingKey(keyId: string): Promise<S3CredentialRecord[]> {
+    return await db
+      .select()
+      .from(s3Credentials)
+      .where(ne(s3Credentials.keyId, keyId));
+  }
+
+  async updateS3CredentialDataKey(id: number, encryptedDataKey: string, keyId: string): Promise<void> {
+    await db
+      .update(s3Credentials)
+      .set({ encryptedDataKey, keyId })
+      .where(eq(s3Credentials.id, id));
+  }
+
+  // Replaces the encrypted payload, e.g. with freshly assumed role credentials
+  async updateS3CredentialSecret(
+    id: number,
+    secret: Pick<S3CredentialRecord, "ciphertext" | "iv" | "authTag" | "encryptedDataKey" | "keyId" | "credentialsExpireAt">
+  ): Promise<S3CredentialRecord | undefined> {
+    const [updated] = await db
+      .update(s3Credentials)
+      .set(secret)
+      .where(eq(s3Credentials.id, id))
+      .returning();
+    return updated;
+  }
+
+  async getUnexpiredS3Credentials(now: Date): Promise<S3CredentialRecord[]> {
+    return await db
+      .select()
+      .from(s3Credentials)
+      .where(or(gte(s3Credentials.expiresAt, now), hasLiveShareLinks(now)));
+  }
+
+  // S3 object index operations
+
+  async upsertS3Objects(objects: InsertS3ObjectRecord[]): Promise<void> {
+    if (objects.length === 0) return;
+    await db
+      .insert(s3Objects)
+      .values(objects)
+      .onConflictDoUpdate({
+        target: [s3Objects.connectionId, s3Objects.bucket, s3Objects.key],
+        set: {
+          size: sql`excluded.size`,
+          lastModified: sql`excluded.last_modified`,
+          etag: sql`excluded.etag`,
+          storageClass: sql`excluded.storage_class`,
+          indexedAt: sql`excluded.indexed_at`,
+        },
+      });
+  }
+
+  async deleteIndexedS3Objects(connectionId: number, bucket: string, keys: string[]): Promise<void> {
+    if (keys.length === 0) return;
+    await db
+      .delete(s3Objects)
+      .where(and(
+        eq(s3Objects.connectionId, connectionId),
+        eq(s3Objects.bucket, bucket),
+        inArray(s3Objects.key, keys)
+      ));
+  }
+
+  // Objects a completed crawl didn't see anymore
+  async deleteS3ObjectsIndexedBefore(connectionId: number, bucket: string, before: Date): Promise<number> {
+    const deleted = await db
+      .delete(s3Objects)
+      .where(and(
+        eq(s3Objects.connectionId, connectionId),
+        eq(s3Objects.bucket, bucket),
+        lt(s3Objects.indexedAt, before)
+      ))
+      .returning({ id: s3Objects.id });
+    return deleted.length;
+  }
+
+  // Drop index data of buckets that no longer exist (or are no longer visible)
+  async deleteS3IndexOutsideBuckets(connectionId: number, buckets: string[]): Promise<void> {
+    const objectFilter = buckets.length > 0
+      ? and(eq(s3Objects.connectionId, connectionId), notInArray(s3Objects.bucket, buckets))
+      : eq(s3Objects.connectionId, connectionId);
+    const stateFilter = buckets.length > 0
+      ? and(eq(s3BucketIndexes.connectionId, connectionId), notInArray(s3BucketIndexes.bucket, buckets))
+      : eq(s3BucketIndexes.connectionId, connectionId);
+
+    await db.delete(s3Objects).where(objectFilter);
+    await db.delete(s3BucketIndexes).where(stateFilter);
+  }
+
+  // Objects directly under a prefix, like ListObjectsV2 with Delimiter '/', paged by key
+  async listIndexedS3Objects(
+    connectionId: number,
+    bucket: string,
+    prefix: string,
+    afterKey: string | undefined,
+    limit: number
+  ): Promise<S3ObjectRecord[]> {
+    return await db
+      .select()
+      .from(s3Objects)
+      .where(and(
+        eq(s3Objects.connectionId, connectionId),
+        eq(s3Objects.bucket, bucket),
+        like(s3Objects.key, `${escapeLike(prefix)}%`),
+        sql`position('/' in substr(${s3Objects.key}, char_length(${prefix}::text) + 1)) = 0`,
+        afterKey !== undefined ? gt(s3Objects.key, afterKey) : undefined
+      ))
+      .orderBy(s3Objects.key)
+      .limit(limit);
+  }
+
+  // The "common prefixes" (sub-folders) directly under a prefix
+  async listIndexedS3Prefixes(connectionId: number, bucket: string, prefix: string): Promise<string[]> {
+    const childPrefix = sql<string>`${prefix}::text || split_part(substr(${s3Objects.key}, char_length(${prefix}::text) + 1), '/', 1) || '/'`;
+    const rows = await db
+      .selectDistinct({ prefix: childPrefix })
+      .from(s3Objects)
+      .where(and(
+        eq(s3Objects.connectionId, connectionId),
+        eq(s3Objects.bucket, bucket),
+        like(s3Objects.key, `${escapeLike(prefix)}%`),
+        sql`position('/' in substr(${s3Objects.key}, char_length(${prefix}::text) + 1)) > 0`
+      ));
+    return rows.map((row) => row.prefix).sort();
+  }
+
+  // Objects anywhere below a prefix whose key contains the query
+  async searchIndexedS3Objects(
+    connectionId: number,
+    bucket: string,
+    prefix: string,
+    query: string,
+    limit: number
+  ): Promise<S3ObjectRecord[]> {
+    return await db
+      .select()
+      .from(s3Objects)
+      .where(and(
+        eq(s3Objects.connectionId, connectionId),
+        eq(s3Objects.bucket, bucket),
+        like(s3Objects.key, `${escapeLike(prefix)}%`),
+        ilike(s3Objects.key, `%${escapeLike(query)}%`)
+      ))
+      .orderBy(s3Objects.key)
+      .limit(limit);
+  }
+
+  async getS3ObjectUsage(connectionId: number, bucket?: string): Promise<S3ObjectUsage> {
+    const [usage] = await db
+      .select({
+        count: count(),
+        bytes: sql<number>`coalesce(sum(${s3Objects.size}), 0)`.mapWith(Number),
+      })
+      .from(s3Objects)
+      .where(and(
+        eq(s3Objects.connectionId, connectionId),
+        bucket !== undefined ? eq(s3Objects.bucket, bucket) : undefined
+      ));
+    return usage;
+  }
+
+  async getS3ObjectUsageByBucket(connectionId: number): Promise<(S3ObjectUsage & { bucket: string })[]> {
+    return await db
+      .select({
+        bucket: s3Objects.bucket,
+        count: count(),
+        bytes: sql<number>`coalesce(sum(${s3Objects.size}), 0)`.mapWith(Number),
+      })
+      .from(s3Objects)
+      .where(eq(s3Objects.connectionId, connectionId))
+      .groupBy(s3Objects.bucket);
+  }
+
+  // Usage grouped by lower-cased file extension (null for keys without one)
+  async getS3ObjectUsageByExtension(
+    connectionId: number,
+    bucket?: string
+  ): Promise<(S3ObjectUsage & { extension: string | null })[]> {
+    return await db
+      .select({
+        extension: s3ObjectExtension,
+        count: count(),
+        bytes: sql<number>`coalesce(sum(${s3Objects.size}), 0)`.mapWith(Number),
+      })
+      .from(s3Objects)
+      .where(and(
+        eq(s3Objects.connectionId, connectionId),
+        bucket !== undefined ? eq(s3Objects.bucket, bucket) : undefined
+      ))
+      .groupBy(s3ObjectExtension);
+  }
+
+  async upsertS3BucketIndex(state: InsertS3BucketIndex): Promise<S3BucketIndex> {
+    const [saved] = await db
+      .insert(s3BucketIndexes)
+      .values(state)
+      .onConflictDoUpdate({
+        target: [s3BucketIndexes.connectionId, s3BucketIndexes.bucket],
+        set: {
+          ...state,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+    return saved;
+  }
+
+  async getS3BucketIndex(connectionId: number, bucket: string): Promise<S3BucketIndex | undefined> {
+    const [state] = await db
+      .select()
+      .from(s3BucketIndexes)
+      .where(and(eq(s3BucketIndexes.connectionId, connectionId), eq(s3BucketIndexes.bucket, bucket)));
+    return state;
+  }
+
+  async getS3BucketIndexes(connectionId: number): Promise<S3BucketIndex[]> {
+    return await db
+      .select()
+      .from(s3BucketIndexes)
+      .where(eq(s3BucketIndexes.connectionId, connectionId))
+      .orderBy(s3BucketIndexes.bucket);
+  }
 }
 
 export const storage = new DatabaseStorage();
@@ -0,0 +1,398 @@
+import type { Express, RequestHandler, Response } from "express";
+import { nanoid } from "nanoid";
+import { storage } from "./storage";
+import { isAuthenticated, uploadLimiter } from "./auth";
+import { MAX_UPLOAD_SIZE, UPLOAD_PART_SIZE } from "./services/s3Service";
+import { getS3CredentialsFromSession, getS3ConnectionFromSession } from "./services/sessionCredentials";
+import {
+  storageDriver,
+  getStorageDriver,
+  createUserFileKey,
+  S3StorageDriver,
+  type StorageDriver,
+} from "./services/storageDriver";
+import { s3Indexer } from "./services/s3Indexer";
+import { contentExtractor } from "./services/contentExtractor";
+import { thumbnailService } from "./services/thumbnailService";
+import { permissionService } from "./services/permissionService";
+import { insertFileSchema, fileNameSchema, type Folder, type UploadPart, type UploadSession } from "@shared/schema";
+
+/**
+ * Resumable uploads using the tus 1.0.0 protocol (core + creation, termination and
+ * expiration extensions). Every upload is backed by a multipart upload (in S3, or
+ * staged on disk by the disk storage driver) and its progress lives in the upload_sessions table, so an upload can be resumed after a
+ * dropped connection, a reloaded tab or a server restart.
+ */
+
+const TUS_VERSION = "1.0.0";
+export const TUS_PATH = "/api/uploads/tus";
+const UPLOAD_EXPIRY = 24 * 60 * 60 * 1000; // 24 hours
+
+interface TusOptions {
+  // Called once an upload has been assembled
+  onUploadComplete: (userId: string) => void;
+}
+
+const tusError = (status: number, message: string) => Object.assign(new Error(message), { status });
+
+// Upload-Metadata is a comma separated list of "key base64(value)" pairs
+function parseMetadata(header?: string): Record<string, string> {
+  const metadata: Record<string, string> = {};
+  if (!header) return metadata;
+
+  for (const pair of header.split(',')) {
+    const [key, value] = pair.trim().split(' ');
+    if (key) {
+      metadata[key] = value ? Buffer.from(value, 'base64').toString('utf8') : '';
+    }
+  }
+  return metadata;
+}
+
+const requireTusResumable: RequestHandler = (req, res, next) => {
+  res.set('Tus-Resumable', TUS_VERSION);
+  if (req.get('Tus-Resumable') !== TUS_VERSION) {
+    return res.status(412).set('Tus-Version', TUS_VERSION).json({ message: "Unsupported tus version" });
+  }
+  next();
+};
+
+// Load the session named in the URL, making sure it belongs to the caller and hasn't expired
+async function loadSession(req: any): Promise<UploadSession> {
+  const session = await storage.getUploadSession(req.params.id);
+  if (!session || session.userId !== req.user.id) {
+    throw tusError(404, "Upload not found");
+  }
+  if (session.expiresAt.getTime() < Date.now()) {
+    throw tusError(410, "Upload has expired");
+  }
+  return session;
+}
+
+// Backend an upload writes to: the storage driver of app-managed uploads, or the
+// bucket of the S3 connection the upload was started with
+async function getSessionDriver(session: UploadSession): Promise<StorageDriver> {
+  if (session.target !== 's3') {
+    return getStorageDriver(session.storageDriver);
+  }
+  const credentials = session.connectionId
+    ? await getS3CredentialsFromSession(session.userId, session.connectionId)
+    : undefined;
+  if (!credentials) {
+    throw tusError(400, "No AWS credentials found. Please connect first.");
+  }
+  return new S3StorageDriver(session.s3Bucket, credentials);
+}
+
+function sendError(res: Response, error: any, fallback: string) {
+  if (res.headersSent) return;
+  if (error.status) {
+    return res.status(error.status).json({ message: error.message });
+  }
+  console.error(`${fallback}:`, error);
+  res.status(500).json({ message: fallback });
+}
+
+export function registerTusRoutes(app: Express, options: TusOptions) {
+  // Assemble the object and, for app-managed uploads, create the files row
+  const completeUpload = async (session: UploadSession, parts: UploadPart[], driver: StorageDriver) => {
+    // Editor access to the folder is checked again, as it may have been revoked while the
+    // upload was in progress
+    let folder: Folder | undefined;
+    if (session.target === 'files' && session.folderId) {
+      folder = await storage.getFolderById(session.folderId);
+      const accessError = await permissionService.checkFolder(session.userId, folder, 'editor');
+      if (accessError) {
+        await driver.abortMultipartUpload(session.s3Key, session.s3UploadId);
+        await storage.deleteUploadSession(session.id);
+        throw tusError(accessError.status, accessError.message);
+      }
+    }
+
+    if (session.uploadLength === 0) {
+      // S3 needs at least one part to complete a multipart upload
+      await driver.abortMultipartUpload(session.s3Key, session.s3UploadId);
+      await driver.put(Buffer.alloc(0), session.s3Key, session.mimeType);
+    } else {
+      await driver.completeMultipartUpload(session.s3Key, session.s3UploadId, parts);
+    }
+
+    if (session.target === 's3' && session.connectionId) {
+      await s3Indexer.recordUpload(session.connectionId, session.userId, session.s3Bucket, session.s3Key, session.uploadLength);
+    }
+
+    // Uploads into a folder shared with the uploader belong to the folder's owner
+    const ownerId = folder?.userId ?? session.userId;
+    if (session.target === 'files') {
+      await storage.saveUploadedFile(insertFileSchema.parse({
+        userId: ownerId,
+        folderId: session.folderId ?? undefined,
+        name: session.fileName,
+        originalName: session.fileName,
+        mimeType: session.mimeType,
+        size: session.uploadLength,
+        s3Key: session.s3Key,
+        s3Bucket: session.s3Bucket,
+        storageDriver: session.storageDriver,
+      }), session.userId);
+      contentExtractor.wake();
+      thumbnailService.wake();
+    }
+
+    await storage.deleteUploadSession(session.id);
+    options.onUploadComplete(ownerId);
+  };
+
+  // Create a new upload
+  app.post(TUS_PATH, isAuthenticated, uploadLimiter, requireTusResumable, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const uploadLength = Number(req.get('Upload-Length'));
+
+      if (!req.get('Upload-Length') || !Number.isSafeInteger(uploadLength) || uploadLength < 0) {
+        return res.status(400).json({ message: "A valid Upload-Length header is required" });
+      }
+      if (uploadLength > MAX_UPLOAD_SIZE) {
+        return res.status(413).set('Tus-Max-Size', String(MAX_UPLOAD_SIZE)).json({
+          message: `File exceeds the maximum upload size of ${Math.round(MAX_UPLOAD_SIZE / (1024 * 1024))}MB`
+        });
+      }
+
+      const metadata = parseMetadata(req.get('Upload-Metadata'));
+      const fileName = metadata.filename;
+      const mimeType = metadata.filetype || 'application/octet-stream';
+
+      if (!fileName) {
+        return res.status(400).json({ message: "Upload-Metadata must include a filename" });
+      }
+
+      // Uploads with a bucket go to one of the user's S3 connections (metadata connectionId,
+      // or the active one), everything else becomes an app-managed file
+      let session: UploadSession;
+      if (metadata.bucket) {
+        const connection = await getS3ConnectionFromSession(userId, metadata.connectionId);
+        if (!connection) {
+          return res.status(400).json({ message: "No AWS credentials found. Please connect first." });
+        }
+        const driver = new S3StorageDriver(metadata.bucket, connection.credentials);
+
+        const key = metadata.prefix ? `${metadata.prefix}/${fileName}` : fileName;
+        const s3UploadId = await driver.createMultipartUpload(key, mimeType);
+
+        session = await storage.createUploadSession({
+          id: nanoid(),
+          userId,
+          target: 's3',
+          fileName,
+          mimeType,
+          s3Bucket: metadata.bucket,
+          s3Key: key,
+          s3UploadId,
+          connectionId: connection.id,
+          uploadLength,
+          expiresAt: new Date(Date.now() + UPLOAD_EXPIRY),
+        });
+      } else {
+        // The file is named after the upload, so slashes aren't allowed here
+        const name = fileNameSchema.safeParse(fileName);
+        if (!name.success) {
+          return res.status(400).json({ message: name.error.errors[0].message });
+        }
+
+        const folderId = metadata.folderId ? parseInt(metadata.folderId) : undefined;
+        let folder: Folder | undefined;
+        if (folderId) {
+          folder = await storage.getFolderById(folderId);
+          const accessError = await permissionService.checkFolder(userId, folder, 'editor');
+          if (accessError) {
+            const { status, ...body } = accessError;
+            return res.status(status).json(body);
+          }
+        }
+
+        // Stored under the prefix of the file's owner: the uploader, or the folder's owner
+        const ownerId = folder?.userId ?? userId;
+        const key = createUserFileKey(ownerId, name.data);
+        const s3UploadId = await storageDriver.createMultipartUpload(key, mimeType, {
+          userId: ownerId,
+          originalName: name.data,
+        });
+
+        session = await storage.createUploadSession({
+          id: nanoid(),
+          userId,
+          target: 'files',
+          folderId,
+          fileName: name.data,
+          mimeType,
+          s3Bucket: storageDriver.bucket,
+          s3Key: key,
+          s3UploadId,
+          storageDriver: storageDriver.name,
+          uploadLength,
+          expiresAt: new Date(Date.now() + UPLOAD_EXPIRY),
+        });
+      }
+
+      if (uploadLength === 0) {
+        await completeUpload(session, [], await getSessionDriver(session));
+      }
+
+      res.status(201).set({
+        'Location': `${TUS_PATH}/${session.id}`,
+        'Upload-Offset': '0',
+        'Upload-Expires': session.expiresAt.toUTCString(),
+      }).end();
+    } catch (error) {
+      sendError(res, error, "Failed to create upload");
+    }
+  });
+
+  // Report how much of an upload the server already has
+  app.head(`${TUS_PATH}/:id`, isAuthenticated, requireTusResumable, async (req: any, res) => {
+    try {
+      const session = await loadSession(req);
+      res.status(200).set({
+        'Upload-Offset': String(session.uploadOffset),
+        'Upload-Length': String(session.uploadLength),
+        'Upload-Expires': session.expiresAt.toUTCString(),
+        'Cache-Control': 'no-store',
+      }).end();
+    } catch (error: any) {
+      res.status(error.status || 500).end();
+    }
+  });
+
+  // Append bytes to an upload. Full parts are sent to the backend as they fill up and the
+  // session is saved after each one; whatever is left over when the request ends
+  // (or the connection drops) is stored as the pending chunk for the next PATCH.
+  app.patch(`${TUS_PATH}/:id`, isAuthenticated, requireTusResumable, async (req: any, res) => {
+    try {
+      if (req.get('Content-Type') !== 'application/offset+octet-stream') {
+        return res.status(415).json({ message: "Content-Type must be application/offset+octet-stream" });
+      }
+
+      const session = await loadSession(req);
+      const offset = Number(req.get('Upload-Offset'));
+      if (offset !== session.uploadOffset) {
+        return res.status(409).json({ message: "Upload-Offset does not match the current offset" });
+      }
+
+      const contentLength = Number(req.get('Content-Length'));
+      if (contentLength && offset + contentLength > session.uploadLength) {
+        return res.status(400).json({ message: "Request body exceeds the declared Upload-Length" });
+      }
+
+      const driver = await getSessionDriver(session);
+      const parts = [...session.parts];
+      let buffered: Buffer[] = session.pendingChunk ? [session.pendingChunk] : [];
+      let bufferedBytes = session.pendingChunk?.length ?? 0;
+      let received = session.uploadOffset;
+      let savedOffset = session.uploadOffset;
+
+      const saveProgress = async (uploadOffset: number, pendingChunk: Buffer | null) => {
+        const saved = await storage.updateUploadSessionProgress(session.id, savedOffset, {
+          uploadOffset,
+          parts,
+          pendingChunk,
+        });
+        if (!saved) {
+          throw tusError(409, "Upload was modified by another request");
+        }
+        savedOffset = uploadOffset;
+      };
+
+      const uploadPart = async (data: Buffer) => {
+        parts.push(await driver.uploadPart(
+          session.s3Key,
+          session.s3UploadId,
+          parts.length + 1,
+          data
+        ));
+      };
+
+      // A dropped connection is expected here; keep what arrived and let the client resume
+      let connectionLost = false;
+      req.on('aborted', () => { connectionLost = true; });
+      req.on('error', () => { connectionLost = true; });
+
+      try {
+        for await (const chunk of req as AsyncIterable<Buffer>) {
+          if (received + chunk.length > session.uploadLength) {
+            throw tusError(400, "Request body exceeds the declared Upload-Length");
+          }
+          buffered.push(chunk);
+          bufferedBytes += chunk.length;
+          received += chunk.length;
+
+          while (bufferedBytes >= UPLOAD_PART_SIZE) {
+            const data = Buffer.concat(buffered);
+            const rest = data.subarray(UPLOAD_PART_SIZE);
+            await uploadPart(data.subarray(0, UPLOAD_PART_SIZE));
+            buffered = rest.length ? [rest] : [];
+            bufferedBytes = rest.length;
+            await saveProgress(received - bufferedBytes, null);
+          }
+        }
+      } catch (error) {
+        if (!connectionLost) throw error;
+      }
+
+      const pending = bufferedBytes > 0 ? Buffer.concat(buffered) : null;
+
+      if (received === session.uploadLength) {
+        if (pending) {
+          await uploadPart(pending);
+        }
+        await completeUpload(session, parts, driver);
+      } else {
+        await saveProgress(received, pending);
+      }
+
+      res.status(204).set('Upload-Offset', String(received)).end();
+    } catch (error) {
+      sendError(res, error, "Failed to store upload data");
+    }
+  });
+
+  // Cancel an upload and discard its parts
+  app.delete(`${TUS_PATH}/:id`, isAuthenticated, requireTusResumable, async (req: any, res) => {
+    try {
+      const session = await loadSession(req);
+
+      const driver = await getSessionDriver(session);
+      await driver.abortMultipartUpload(session.s3Key, session.s3UploadId);
+      await storage.deleteUploadSession(session.id);
+
+      res.status(204).end();
+    } catch (error) {
+      sendError(res, error, "Failed to cancel upload");
+    }
+  });
+
+  // Abort uploads that were never finished
+  const cleanupExpiredUploads = async () => {
+    try {
+      const expired = await storage.getExpiredUploadSessions(new Date());
+      for (const session of expired) {
+        try {
+          const driver = await getSessionDriver(session);
+          await driver.abortMultipartUpload(session.s3Key, session.s3UploadId);
+        } catch (error) {
+          // Without credentials the bucket owner's lifecycle rules have to clean up the parts
+          console.warn(`Failed to abort expired upload ${session.id}:`, error);
+        }
+        await storage.deleteUploadSession(session.id);
+      }
+
+      if (expired.length > 0) {
+        console.log(`Cleaned up ${expired.length} expired resumable uploads`);
+      }
+    } catch (error) {
+      console.error("Error cleaning up expired uploads:", error);
+    }
+  };
+
+  // Run cleanup every hour
+  setInterval(cleanupExpiredUploads, 60 * 60 * 1000);
+}
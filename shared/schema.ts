@@ -5,12 +5,15 @@ import {
   timestamp,
   jsonb,
   index,
+  uniqueIndex,
   serial,
   bigint,
   boolean,
   integer,
+  customType,
   type AnyPgColumn,
 } from "drizzle-orm/pg-core";
+import { sql, type SQL } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -34,57 +37,407 @@ export const users = pgTable("users", {
   firstName: varchar("first_name"),
   lastName: varchar("last_name"),
   profileImageUrl: varchar("profile_image_url"),
+  // External ID the app sends when it assumes the user's IAM roles, issued on first use;
+  // users put it in their roles' trust policies
+  awsExternalId: varchar("aws_external_id").unique(),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
-export const folders = pgTable("folders", {
-  id: serial("id").primaryKey(),
-  userId: varchar("user_id").notNull().references(() => users.id),
-  name: varchar("name").notNull(),
-  parentId: integer("parent_id").references((): AnyPgColumn => folders.id, { onDelete: "set null" }),
-  isShared: boolean("is_shared").default(false),
-  shareToken: varchar("share_token"),
-  createdAt: timestamp("created_at").defaultNow(),
-  updatedAt: timestamp("updated_at").defaultNow(),
+// Files and folders are soft-deleted into the trash: deletedAt is set, and everything inside
+// a trashed folder is marked with the same deletedAt plus trashedWithFolderId, so restoring
+// the folder brings back exactly what was trashed with it. Expired trash is purged by
+// server/services/trashService.ts.
+// isShared marks items with at least one unrevoked share link; shareToken is the token of a
+// share made before share_links existed, moved into share_links the first time it is used.
+export const folders = pgTable(
+  "folders",
+  {
+    id: serial("id").primaryKey(),
+    userId: varchar("user_id").notNull().references(() => users.id),
+    name: varchar("name").notNull(),
+    parentId: integer("parent_id").references((): AnyPgColumn => folders.id, { onDelete: "set null" }),
+    isShared: boolean("is_shared").default(false),
+    shareToken: varchar("share_token"),
+    deletedAt: timestamp("deleted_at"),
+    trashedWithFolderId: integer("trashed_with_folder_id").references((): AnyPgColumn => folders.id, { onDelete: "set null" }),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [index("IDX_folders_deleted_at").on(table.deletedAt)],
+);
+
+export const files = pgTable(
+  "files",
+  {
+    id: serial("id").primaryKey(),
+    userId: varchar("user_id").notNull().references(() => users.id),
+    folderId: integer("folder_id").references(() => folders.id, { onDelete: "cascade" }),
+    name: varchar("name").notNull(),
+    originalName: varchar("original_name").notNull(),
+    mimeType: varchar("mime_type").notNull(),
+    size: bigint("size", { mode: "number" }).notNull(),
+    s3Key: varchar("s3_key").notNull(),
+    s3Bucket: varchar("s3_bucket").notNull(),
+    storageDriver: varchar("storage_driver").notNull().default("s3"), // 's3' or 'disk' (see server/services/storageDriver.ts)
+    isShared: boolean("is_shared").default(false),
+    shareToken: varchar("share_token"),
+    deletedAt: timestamp("deleted_at"),
+    trashedWithFolderId: integer("trashed_with_folder_id").references(() => folders.id, { onDelete: "set null" }),
+    // Who sent the current version through a file request link, as they entered it
+    uploaderName: varchar("uploader_name"),
+    uploaderEmail: varchar("uploader_email"),
+    uploadedAt: timestamp("uploaded_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [
+    index("IDX_files_deleted_at").on(table.deletedAt),
+    // Substring name search (ILIKE '%term%'); needs the pg_trgm extension
+    index("IDX_files_name_trgm").using("gin", table.name.op("gin_trgm_ops")),
+  ],
+);
+
+// Every stored version of a file, including the current one (the highest versionNumber,
+// whose object the files row points at). Uploading to the path of an existing file adds a
+// version instead of a second file; each version keeps its own object in its own driver.
+export const fileVersions = pgTable(
+  "file_versions",
+  {
+    id: serial("id").primaryKey(),
+    fileId: integer("file_id").notNull().references(() => files.id, { onDelete: "cascade" }),
+    versionNumber: integer("version_number").notNull(),
+    s3Key: varchar("s3_key").notNull(),
+    s3Bucket: varchar("s3_bucket").notNull(),
+    storageDriver: varchar("storage_driver").notNull().default("s3"),
+    mimeType: varchar("mime_type").notNull(),
+    size: bigint("size", { mode: "number" }).notNull(),
+    uploadedBy: varchar("uploaded_by").references(() => users.id, { onDelete: "set null" }),
+    // Set instead of uploadedBy for anonymous uploads through a file request link
+    uploaderName: varchar("uploader_name"),
+    uploaderEmail: varchar("uploader_email"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("IDX_file_versions_file_version").on(table.fileId, table.versionNumber),
+    index("IDX_file_versions_s3_key").on(table.s3Bucket, table.s3Key),
+  ],
+);
+
+const tsvector = customType<{ data: string }>({
+  dataType() {
+    return "tsvector";
+  },
 });
 
-export const files = pgTable("files", {
-  id: serial("id").primaryKey(),
-  userId: varchar("user_id").notNull().references(() => users.id),
-  folderId: integer("folder_id").references(() => folders.id, { onDelete: "cascade" }),
-  name: varchar("name").notNull(),
-  originalName: varchar("original_name").notNull(),
-  mimeType: varchar("mime_type").notNull(),
-  size: bigint("size", { mode: "number" }).notNull(),
+// Text extracted from a file's current object for content search (see
+// server/services/contentExtractor.ts). s3Key is the object the row was extracted from;
+// a file whose row is missing or points at an older object is pending (re-)extraction.
+export const fileContents = pgTable(
+  "file_contents",
+  {
+    fileId: integer("file_id").primaryKey().references(() => files.id, { onDelete: "cascade" }),
+    s3Key: varchar("s3_key").notNull(),
+    status: varchar("status").notNull(), // 'extracting', 'ready', 'skipped' (type not extracted, or too large) or 'error'
+    content: text("content"),
+    searchVector: tsvector("search_vector").generatedAlwaysAs(
+      (): SQL => sql`to_tsvector('english', coalesce(${fileContents.content}, ''))`
+    ),
+    error: text("error"),
+    extractedAt: timestamp("extracted_at"),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [index("IDX_file_contents_search").using("gin", table.searchVector)],
+);
+
+// Thumbnail widths (longest side, in pixels), each stored as a WebP object
+export const thumbnailSizes = [128, 256, 512] as const;
+
+// Thumbnails of image files (see server/services/thumbnailService.ts), stored next to the
+// image object in the same backend. s3Key is the object they were made from; an image
+// whose row is missing or points at an older object is pending (re-)generation.
+export const fileThumbnails = pgTable("file_thumbnails", {
+  fileId: integer("file_id").primaryKey().references(() => files.id, { onDelete: "cascade" }),
   s3Key: varchar("s3_key").notNull(),
-  s3Bucket: varchar("s3_bucket").notNull(),
-  isShared: boolean("is_shared").default(false),
-  shareToken: varchar("share_token"),
-  uploadedAt: timestamp("uploaded_at").defaultNow(),
+  storageDriver: varchar("storage_driver").notNull(),
+  status: varchar("status").notNull(), // 'generating', 'ready', 'skipped' (type not supported, or too large) or 'error'
+  sizes: jsonb("sizes").$type<number[]>().notNull().default([]),
+  error: text("error"),
+  generatedAt: timestamp("generated_at"),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Public links to a file, a folder or an object or prefix in a connected bucket (exactly
+// one of fileId, folderId or connectionId with s3Bucket and s3Key is set). An item can
+// have several links, each with its own optional expiry, password (bcrypt hash) and
+// download limit. Revoked links are kept so the owner can still see them. Upload links
+// ("file requests", folders only) let visitors upload into the folder without seeing it,
+// within an optional size limit and list of accepted types.
+export const shareLinks = pgTable(
+  "share_links",
+  {
+    id: serial("id").primaryKey(),
+    token: varchar("token").notNull().unique(),
+    userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    fileId: integer("file_id").references(() => files.id, { onDelete: "cascade" }),
+    folderId: integer("folder_id").references(() => folders.id, { onDelete: "cascade" }),
+    // Bucket links are resolved with the owner's S3 connection whenever they are used, so
+    // they stop working with it. The connection is kept past its own expiry while usable
+    // links depend on it, until the owner removes it. s3Key is an object key, or a prefix
+    // ending in '/'.
+    connectionId: integer("connection_id").references(() => s3Credentials.id, { onDelete: "cascade" }),
+    s3Bucket: varchar("s3_bucket"),
+    s3Key: text("s3_key"),
+    type: varchar("type").notNull().default("view"), // 'view' or 'upload'
+    passwordHash: varchar("password_hash"),
+    expiresAt: timestamp("expires_at"),
+    maxDownloads: integer("max_downloads"),
+    maxFileSize: bigint("max_file_size", { mode: "number" }),
+    // MIME types ("application/pdf"), type families ("image/*") or extensions (".csv")
+    allowedTypes: varchar("allowed_types").array(),
+    downloadCount: integer("download_count").notNull().default(0),
+    isRevoked: boolean("is_revoked").notNull().default(false),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    index("IDX_share_links_file").on(table.fileId),
+    index("IDX_share_links_folder").on(table.folderId),
+    index("IDX_share_links_s3_object").on(table.connectionId, table.s3Bucket, table.s3Key),
+  ],
+);
+
+// Access granted to a registered user on a file or folder (exactly one of fileId /
+// folderId is set). A grant on a folder covers everything nested below it. Viewers can
+// open and download; editors can also upload, rename, move and trash.
+export const permissions = pgTable(
+  "permissions",
+  {
+    id: serial("id").primaryKey(),
+    userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    fileId: integer("file_id").references(() => files.id, { onDelete: "cascade" }),
+    folderId: integer("folder_id").references(() => folders.id, { onDelete: "cascade" }),
+    role: varchar("role").notNull(), // 'viewer' or 'editor'
+    grantedBy: varchar("granted_by").notNull().references(() => users.id, { onDelete: "cascade" }),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("IDX_permissions_file_user").on(table.fileId, table.userId),
+    uniqueIndex("IDX_permissions_folder_user").on(table.folderId, table.userId),
+    index("IDX_permissions_user").on(table.userId),
+  ],
+);
+
+const bytea = customType<{ data: Buffer; driverData: Buffer }>({
+  dataType() {
+    return "bytea";
+  },
+});
+
+export interface UploadPart {
+  PartNumber: number;
+  ETag: string;
+}
+
+// Resumable (tus) upload state. Each session maps onto one S3 multipart upload;
+// bytes that don't yet fill a whole part are kept in pendingChunk until more arrive.
+export const uploadSessions = pgTable(
+  "upload_sessions",
+  {
+    id: varchar("id").primaryKey(),
+    userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    target: varchar("target").notNull(), // 'files' (app-managed) or 's3' (bucket browser)
+    folderId: integer("folder_id").references(() => folders.id, { onDelete: "set null" }),
+    fileName: varchar("file_name").notNull(),
+    mimeType: varchar("mime_type").notNull(),
+    s3Bucket: varchar("s3_bucket").notNull(),
+    s3Key: varchar("s3_key").notNull(),
+    s3UploadId: varchar("s3_upload_id").notNull(),
+    storageDriver: varchar("storage_driver").notNull().default("s3"), // backend of 'files' uploads
+    // S3 connection used for 's3' uploads; cleared if the connection is removed
+    connectionId: integer("connection_id").references((): AnyPgColumn => s3Credentials.id, { onDelete: "set null" }),
+    uploadLength: bigint("upload_length", { mode: "number" }).notNull(),
+    uploadOffset: bigint("upload_offset", { mode: "number" }).notNull().default(0),
+    parts: jsonb("parts").$type<UploadPart[]>().notNull().default([]),
+    pendingChunk: bytea("pending_chunk"),
+    expiresAt: timestamp("expires_at").notNull(),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [index("IDX_upload_sessions_expires").on(table.expiresAt)],
+);
+
+// Connected S3 accounts ("connections"), several per user, each with its own name.
+// Credentials are encrypted at rest (see server/services/credentialEncryption.ts): the payload
+// is encrypted with a per-row data key, which is wrapped by the master key keyId.
+// The active connection is used whenever a request doesn't name one.
+export const s3Credentials = pgTable(
+  "s3_credentials",
+  {
+    id: serial("id").primaryKey(),
+    userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    name: varchar("name").notNull().default("Default"),
+    type: varchar("type").notNull().default("keys"), // 'keys' (access keys) or 'role' (STS AssumeRole)
+    roleArn: varchar("role_arn"),
+    // Expiry of the temporary credentials of 'role' connections, refreshed before it passes
+    credentialsExpireAt: timestamp("credentials_expire_at"),
+    region: varchar("region"),
+    endpoint: varchar("endpoint"), // S3-compatible endpoint, null for AWS
+    isActive: boolean("is_active").notNull().default(false),
+    ciphertext: text("ciphertext").notNull(),
+    iv: varchar("iv").notNull(),
+    authTag: varchar("auth_tag").notNull(),
+    encryptedDataKey: text("encrypted_data_key").notNull(),
+    keyId: varchar("key_id").notNull(),
+    expiresAt: timestamp("expires_at").notNull(),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [
+    index("IDX_s3_credentials_expires").on(table.expiresAt),
+    uniqueIndex("IDX_s3_credentials_user_name").on(table.userId, table.name),
+  ],
+);
+
+// Index of the objects in connected buckets, crawled in the background (see
+// server/services/s3Indexer.ts) and kept current by the app's own uploads and deletes.
+// Each crawl stamps the rows it sees with indexedAt; rows left with an older stamp are
+// objects that disappeared from the bucket and get removed.
+export const s3Objects = pgTable(
+  "s3_objects",
+  {
+    id: serial("id").primaryKey(),
+    connectionId: integer("connection_id").notNull().references(() => s3Credentials.id, { onDelete: "cascade" }),
+    userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    bucket: varchar("bucket").notNull(),
+    key: text("key").notNull(),
+    size: bigint("size", { mode: "number" }).notNull().default(0),
+    lastModified: timestamp("last_modified"),
+    etag: varchar("etag"),
+    storageClass: varchar("storage_class"),
+    indexedAt: timestamp("indexed_at").notNull().defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("IDX_s3_objects_connection_bucket_key").on(table.connectionId, table.bucket, table.key),
+    // Prefix listings (key LIKE 'prefix%') regardless of the database collation
+    index("IDX_s3_objects_key_prefix").on(table.connectionId, table.bucket, table.key.op("text_pattern_ops")),
+    // Substring key search across buckets (ILIKE '%term%')
+    index("IDX_s3_objects_key_trgm").using("gin", table.key.op("gin_trgm_ops")),
+  ],
+);
+
+// Crawl state of each indexed bucket
+export const s3BucketIndexes = pgTable(
+  "s3_bucket_indexes",
+  {
+    id: serial("id").primaryKey(),
+    connectionId: integer("connection_id").notNull().references(() => s3Credentials.id, { onDelete: "cascade" }),
+    bucket: varchar("bucket").notNull(),
+    status: varchar("status").notNull().default("pending"), // 'pending', 'indexing', 'ready' or 'error'
+    objectCount: integer("object_count").notNull().default(0),
+    error: text("error"),
+    lastIndexedAt: timestamp("last_indexed_at"),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [uniqueIndex("IDX_s3_bucket_indexes_connection_bucket").on(table.connectionId, table.bucket)],
+);
+
 export const insertFileSchema = createInsertSchema(files).omit({
   id: true,
+  deletedAt: true,
+  trashedWithFolderId: true,
   uploadedAt: true,
   updatedAt: true,
 });
 
 export const insertFolderSchema = createInsertSchema(folders).omit({
   id: true,
+  deletedAt: true,
+  trashedWithFolderId: true,
   createdAt: true,
   updatedAt: true,
 });
 
-export const shareFileSchema = z.object({
-  isShared: z.boolean(),
+// Options of a new share link; all constraints are optional
+export const shareLinkTypes = ["view", "upload"] as const;
+
+export const createShareLinkSchema = z.object({
+  type: z.enum(shareLinkTypes).default("view"),
+  expiresAt: z.coerce.date().refine((date) => date.getTime() > Date.now(), "Expiry must be in the future").optional(),
+  password: z.string().min(4, "Password must be at least 4 characters long").max(128).optional(),
+  maxDownloads: z.number().int().positive().optional(),
+  // Upload links only
+  maxFileSize: z.number().int().positive().optional(),
+  allowedTypes: z.array(z.string().trim().toLowerCase().min(1).max(100)).max(50).optional(),
 });
 
-export const shareFolderSchema = z.object({
-  isShared: z.boolean(),
+// Who is sending files through a file request link
+export const fileRequestUploaderSchema = z.object({
+  uploaderName: z.string().trim().min(1, "Please enter your name").max(100),
+  uploaderEmail: z.string().trim().email("Please enter a valid email address").max(255),
 });
 
+export const permissionRoles = ["viewer", "editor"] as const;
+
+export const grantPermissionSchema = z.object({
+  email: z.string().email("Please enter a valid email address"),
+  role: z.enum(permissionRoles),
+});
+
+// File names are shown and used as download names, never as storage keys
+export const fileNameSchema = z
+  .string()
+  .trim()
+  .min(1, "Name is required")
+  .max(255, "Name must be at most 255 characters")
+  .refine((name) => !/[\/\\]/.test(name), "Name can't contain slashes");
+
+export const renameFileSchema = z.object({
+  name: fileNameSchema,
+});
+
+// folderId null is the root
+export const moveFileSchema = z.object({
+  folderId: z.number().int().positive().nullable(),
+});
+
+// Copies go to the source file's folder unless folderId is given
+export const copyFileSchema = z.object({
+  folderId: z.number().int().positive().nullable().optional(),
+  name: fileNameSchema.optional(),
+});
+
+export const pruneVersionsSchema = z.object({
+  keep: z.number().int().min(1),
+});
+
+export const moveFolderSchema = z.object({
+  parentId: z.number().int().positive().nullable(),
+});
+
+// Type filters of the search, the same groups as the analytics file types
+export const fileCategories = ["image", "video", "audio", "pdf", "document", "archive"] as const;
+
+// Query string of GET /api/search. A folder limits the search to app-managed files below
+// it, a bucket to that bucket's indexed objects.
+export const searchQuerySchema = z
+  .object({
+    q: z.string().trim().max(200).default(""),
+    type: z.enum(fileCategories).optional(),
+    minSize: z.coerce.number().int().nonnegative().optional(),
+    maxSize: z.coerce.number().int().nonnegative().optional(),
+    modifiedAfter: z.coerce.date().optional(),
+    modifiedBefore: z.coerce.date().optional(),
+    shared: z.enum(["true", "false"]).transform((value) => value === "true").optional(),
+    folderId: z.coerce.number().int().positive().optional(),
+    bucket: z.string().min(1).optional(),
+    connectionId: z.coerce.number().int().positive().optional(),
+    source: z.enum(["files", "s3"]).optional(),
+    page: z.coerce.number().int().positive().default(1),
+    pageSize: z.coerce.number().int().positive().max(100).default(25),
+  })
+  .refine((query) => !(query.folderId && (query.bucket || query.connectionId)), {
+    message: "Search either a folder or a bucket, not both",
+  });
+
 // Authentication schemas
 export const signupSchema = z.object({
   email: z.string().email("Please enter a valid email address"),
@@ -102,5 +455,28 @@ export type UpsertUser = typeof users.$inferInsert;
 export type User = typeof users.$inferSelect;
 export type InsertFile = z.infer<typeof insertFileSchema>;
 export type File = typeof files.$inferSelect;
+export type FileVersion = typeof fileVersions.$inferSelect;
+export type InsertFileVersion = typeof fileVersions.$inferInsert;
+export type FileContent = typeof fileContents.$inferSelect;
+export type InsertFileContent = typeof fileContents.$inferInsert;
+export type FileThumbnails = typeof fileThumbnails.$inferSelect;
+export type InsertFileThumbnails = typeof fileThumbnails.$inferInsert;
+export type ThumbnailSize = (typeof thumbnailSizes)[number];
 export type InsertFolder = z.infer<typeof insertFolderSchema>;
 export type Folder = typeof folders.$inferSelect;
+export type ShareLink = typeof shareLinks.$inferSelect;
+export type InsertShareLink = typeof shareLinks.$inferInsert;
+export type ShareLinkType = (typeof shareLinkTypes)[number];
+export type Permission = typeof permissions.$inferSelect;
+export type InsertPermission = typeof permissions.$inferInsert;
+export type PermissionRole = (typeof permissionRoles)[number];
+export type FileCategory = (typeof fileCategories)[number];
+export type SearchQuery = z.infer<typeof searchQuerySchema>;
+export type UploadSession = typeof uploadSessions.$inferSelect;
+export type InsertUploadSession = typeof uploadSessions.$inferInsert;
+export type S3CredentialRecord = typeof s3Credentials.$inferSelect;
+export type InsertS3CredentialRecord = typeof s3Credentials.$inferInsert;
+export type S3ObjectRecord = typeof s3Objects.$inferSelect;
+export type InsertS3ObjectRecord = typeof s3Objects.$inferInsert;
+export type S3BucketIndex = typeof s3BucketIndexes.$inferSelect;
+export type InsertS3BucketIndex = typeof s3BucketIndexes.$inferInsert;